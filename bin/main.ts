@@ -9,9 +9,10 @@ import { logger } from "../src/logger.js";
  * Hard deadline for process exit.
  * If graceful shutdown hasn't completed by this time, force exit.
  * Must be greater than the sum of inner timeouts
- * (CaptureCoordinator shutdown 5s + Fastify close 4s = 9s).
+ * (CaptureCoordinator shutdown 5s + Fastify close 4s + local Chromium
+ * SIGTERM grace 1s = 10s).
  */
-const HARD_EXIT_TIMEOUT_MS = 10000;
+const HARD_EXIT_TIMEOUT_MS = 11000;
 
 const main = async (): Promise<void> => {
   const config = parseCliOptions(process.argv);
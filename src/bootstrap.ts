@@ -8,8 +8,12 @@
  * construct and *how* to wire it together.
  */
 import { CaptureCoordinator } from "./capture/index.js";
-import type { BrowserHiveConfig } from "./config/index.js";
+import { DEFAULT_CAPTURE_CONFIG, type BrowserHiveConfig } from "./config/index.js";
 import { DnsRegistry } from "./discovery/dns-registry.js";
+import { FileRegistry } from "./discovery/file-registry.js";
+import { HttpRegistry } from "./discovery/http-registry.js";
+import { LocalBrowserRegistry } from "./discovery/local-registry.js";
+import { StaticRegistry, type WorkerRegistry } from "./discovery/worker-registry.js";
 import { HttpServer } from "./http/http-server.js";
 import { logger } from "./logger.js";
 
@@ -17,17 +21,35 @@ export interface ServerControl {
   shutdown: () => Promise<void>;
 }
 
+/**
+ * The membership source `config.discovery.source` names. With `dns` (the
+ * default) absent (NXDOMAIN) workers are excluded at boot, and workers that
+ * appear/disappear later are reconciled without a restart. Only NXDOMAIN
+ * drops a worker — transient/connection failures stay in the pool for the
+ * health layer. `file` and `http` read a member list instead, which also
+ * carries each browser's capture settings; `local` runs the browsers here.
+ */
+const createRegistry = (config: BrowserHiveConfig): WorkerRegistry => {
+  const { browserProfiles, capture = DEFAULT_CAPTURE_CONFIG } = config.coordinator;
+  const { source, refreshMs } = config.discovery;
+  switch (source.type) {
+    case "dns":
+      return new DnsRegistry(browserProfiles, refreshMs);
+    case "static":
+      return new StaticRegistry(browserProfiles);
+    case "file":
+      return new FileRegistry(source.path, capture);
+    case "http":
+      return new HttpRegistry(source.url, capture, refreshMs);
+    case "local":
+      return new LocalBrowserRegistry(browserProfiles, source.browsers);
+  }
+};
+
 export const startServer = async (
   config: BrowserHiveConfig,
 ): Promise<ServerControl> => {
-  // Membership is resolved from DNS: absent (NXDOMAIN) workers are excluded
-  // at boot, and workers that appear/disappear later are reconciled without
-  // a restart. Only NXDOMAIN drops a worker — transient/connection failures
-  // stay in the pool for the health layer.
-  const registry = new DnsRegistry(
-    config.coordinator.browserProfiles,
-    config.discovery.refreshMs,
-  );
+  const registry = createRegistry(config);
   const coordinator = new CaptureCoordinator(
     config.coordinator,
     registry,
@@ -42,6 +64,8 @@ export const startServer = async (
     shutdown: async (): Promise<void> => {
       logger.info("Received shutdown signal");
       await server.shutdown();
+      // After the workers have disconnected, so none sees its browser vanish.
+      await registry.close?.();
     },
   };
 };
@@ -18,23 +18,62 @@
  * starts with one tab already open, and reusing it eliminates a per-task
  * `newPage` round trip. See `acquirePage` for the WHY behind the manual
  * `puppeteer-extra` plugin firing on the initial tab.
+ *
+ * The exception is a task with `isolation: "context"` or a proxy: it gets a
+ * fresh browser context and page, disposed once it finishes, and the
+ * persistent tab sits that task out.
+ *
+ * Slots: with `capture.concurrency` above 1 the worker loop runs that many
+ * tasks at once, each naming the slot it runs on. Slot 0 is the tab above;
+ * every further slot holds a persistent tab of its own, in a browser context
+ * created for the slot so its cookies and cache are its own. The connection
+ * and the browser are shared by every slot.
  */
-import type { Browser, Page } from "puppeteer";
+import type { Browser, BrowserContext, Page } from "puppeteer";
 import connectBrowser, { puppeteerExtra } from "../browser.js";
 import type { BrowserProfile, SigningConfig } from "../config/index.js";
 import type { ArtifactStore } from "../storage/index.js";
-import { captureStatus } from "./capture-status.js";
+import { captureStatus, isSuccessStatus } from "./capture-status.js";
 import { PageCapturer } from "./page-capturer.js";
 import { readTrustAnchors, createHttpSigner } from "../storage/wacz/index.js";
 import { withWallClockTimeout } from "./timeouts.js";
 import type { CaptureTask, CaptureResult, ErrorDetails } from "./types.js";
-import { createConnectionError, errorDetailsFromException } from "./error-details.js";
+import {
+  createConnectionError,
+  createInternalError,
+  errorDetailsFromException,
+} from "./error-details.js";
+import { resolveTaskProxy, type ResolvedProxy } from "./proxies.js";
 import { errorType } from "./error-type.js";
 import { createChildLogger, type Logger } from "../logger.js";
 import { err, ok, type Result } from "../result.js";
 
 /**
- * 1 つの Chromium タブを占有し、取り込みタスクを実行するワーカー本体。
+ * Upper bound for closing a task's own browser context. One CDP round
+ * trip on a healthy connection; a wedged one must not hold the worker.
+ */
+const CONTEXT_CLOSE_TIMEOUT_MS = 5_000;
+
+/**
+ * A task that does not run on the worker's tab: it gets a browser context
+ * of its own — for `isolation: "context"`, or because it goes through
+ * `proxy`, which Chromium only sets per context.
+ */
+interface OwnContext {
+  proxy?: ResolvedProxy;
+}
+
+/**
+ * The persistent tab of a slot above 0. The context outlives the tab: when
+ * the tab dies, the next `connect` opens a new one in the same context.
+ */
+interface SlotTab {
+  context: BrowserContext;
+  page: Page | null;
+}
+
+/**
+ * Chromium のタブ(スロットごとに 1 つ)を占有し、取り込みタスクを実行するワーカー本体。
  * リモートブラウザへ `connect` し、`process` でページを取得・記録する。
  * 状態は持たず、再試行や健全性の判断は親の状態機械に委ねる。
  *
@@ -50,6 +89,13 @@ export class BrowserClient {
    * navigate this same page instead of opening a new tab per task.
    */
   private currentPage: Page | null = null;
+  /**
+   * The tabs of slots 1 and up, keyed by slot, when `capture.concurrency`
+   * asks for more than one. Acquired alongside `currentPage` and released in
+   * `disconnect()`, whose browser contexts are closed there too — unlike the
+   * initial tab, they are ours, and a remote Chromium keeps them otherwise.
+   */
+  private slotTabs = new Map<number, SlotTab>();
   /**
    * What Chromium reports itself as, e.g. `Chrome/150.0.7871.181`.
    *
@@ -63,6 +109,13 @@ export class BrowserClient {
    * reads as "nobody asked".
    */
   private browserVersion: string | undefined;
+  /**
+   * The tasks `process` is running right now — one per busy slot — and the
+   * controllers that abort them. Set synchronously on entry and cleared on
+   * exit, so `cancel` can never hit a task that already finished or one that
+   * has not started.
+   */
+  private inFlight = new Map<string, AbortController>();
   private pageCapturer: PageCapturer;
   public readonly logger: Logger;
 
@@ -142,7 +195,7 @@ export class BrowserClient {
    * `process()` then throws "no active page" in an infinite loop.
    */
   async connect(): Promise<Result<void, ErrorDetails>> {
-    if (this.browser && this.currentPage) return ok();
+    if (this.browser && this.currentPage && this.slotsAcquired) return ok();
     try {
       if (!this.browser) {
         const browser = await connectBrowser(this.profile);
@@ -159,6 +212,8 @@ export class BrowserClient {
           if (this.browser === browser) {
             this.browser = null;
             this.currentPage = null;
+            // Gone with the browser; a new connection creates its own.
+            this.slotTabs.clear();
             // Re-asked on reconnect: the upstream container may have been
             // replaced by a different image while this worker was down.
             this.browserVersion = undefined;
@@ -168,6 +223,7 @@ export class BrowserClient {
         this.browserVersion = await browser.version().catch(() => undefined);
       }
       this.currentPage ??= await this.acquirePage(this.browser);
+      await this.acquireSlotTabs(this.browser);
       return ok();
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
@@ -254,6 +310,41 @@ export class BrowserClient {
     return page;
   }
 
+  /** Whether every slot above 0 holds a live tab. */
+  private get slotsAcquired(): boolean {
+    for (let slot = 1; slot < this.profile.capture.concurrency; slot += 1) {
+      if (!this.slotTabs.get(slot)?.page) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Give every slot above 0 that lacks one a tab, in the slot's own browser
+   * context — created on first use, kept across a dead tab. Born after
+   * `connect`, so stealth reaches these tabs through puppeteer-extra's
+   * `targetcreated` hook without the manual firing `acquirePage` needs.
+   *
+   * A context per slot rather than more tabs in the default one: cookies,
+   * the HTTP cache and permissions are context-wide, so `resetState`, a
+   * `cache: clear` or a geolocation grant on one slot would otherwise reach
+   * the captures running beside it.
+   */
+  private async acquireSlotTabs(browser: Browser): Promise<void> {
+    for (let slot = 1; slot < this.profile.capture.concurrency; slot += 1) {
+      const held = this.slotTabs.get(slot);
+      if (held?.page) continue;
+      const tab: SlotTab = held ?? { context: await browser.createBrowserContext(), page: null };
+      this.slotTabs.set(slot, tab);
+      const page = await tab.context.newPage();
+      page.on("close", () => {
+        if (tab.page === page) {
+          tab.page = null;
+        }
+      });
+      tab.page = page;
+    }
+  }
+
   /**
    * The Page this client is currently operating on. Throws if accessed
    * before `connect()` or after `disconnect()` — both indicate a programmer
@@ -268,6 +359,18 @@ export class BrowserClient {
     return this.currentPage;
   }
 
+  /** `page` for slot 0, else the slot's own tab. Throws the same way when there is none. */
+  private pageFor(slot: number): Page {
+    if (slot === 0) return this.page;
+    const page = this.slotTabs.get(slot)?.page;
+    if (!page) {
+      throw new Error(
+        `BrowserClient ${String(this.index)} slot ${String(slot)} has no active page (not connected or already disconnected)`,
+      );
+    }
+    return page;
+  }
+
   /**
    * Disconnect from the browser. Always releases the browser reference
    * (even on failure) so subsequent connects can succeed; surfaces the
@@ -293,6 +396,22 @@ export class BrowserClient {
     // our reference. No explicit `page.close()` needed (and would be wrong:
     // the upstream's initial tab should keep its session-level identity).
     this.currentPage = null;
+    const slotContexts = [...this.slotTabs.values()].map((tab) => tab.context);
+    this.slotTabs.clear();
+    await Promise.all(
+      slotContexts.map((context) =>
+        withWallClockTimeout(
+          context.close(),
+          CONTEXT_CLOSE_TIMEOUT_MS,
+          "Closing a slot's browser context",
+        ).catch((error: unknown) => {
+          this.logger.warn(
+            { err: error },
+            "Slot browser context close failed (best-effort, continuing)",
+          );
+        }),
+      ),
+    );
     try {
       await browser.disconnect();
       return ok();
@@ -303,7 +422,8 @@ export class BrowserClient {
   }
 
   /**
-   * Process a capture task.
+   * Process a capture task on `slot`'s tab (0 unless the profile's
+   * `concurrency` gives the worker more than one).
    *
    * Layer B safety net: the entire `pageCapturer.capture` invocation is
    * bounded by `timeouts.taskTotalMs`. Layer A (per-call `withTimeout`s
@@ -316,12 +436,14 @@ export class BrowserClient {
    * raise an error).
    *
    * On Layer B timeout the inner `pageCapturer.capture` promise is
-   * abandoned but continues to run on the worker's persistent page until
-   * the next `process()` navigates away. The Chromium tab stays open
-   * (it is the worker's permanent tab) and the next task's `page.goto`
+   * abandoned but continues to run on the slot's persistent page until
+   * the next `process()` there navigates away. The Chromium tab stays open
+   * (it is the slot's permanent tab) and the next task's `page.goto`
    * supersedes the wedged in-flight call. We accept this carry-over in
    * exchange for worker liveness — the alternative is to disconnect the
-   * entire browser, which would also kill any in-flight work.
+   * entire browser, which would also kill any in-flight work. A task with
+   * a browser context of its own (`isolation: "context"`, or a proxy) has
+   * no such carry-over: the context is closed on the way out either way.
    *
    * Returns a synthetic `CaptureResult { status: "timeout" }` on Layer B
    * timeout instead of throwing, so the worker-loop's existing
@@ -343,8 +465,8 @@ export class BrowserClient {
    * has not yet fired but Chromium already considers the page gone
    * (e.g. immediately post-disconnect on the browser side).
    */
-  async process(task: CaptureTask): Promise<CaptureResult> {
-    const page = this.page;
+  async process(task: CaptureTask, slot = 0): Promise<CaptureResult> {
+    const page = this.pageFor(slot);
     if (page.isClosed()) {
       throw new Error(
         `BrowserClient ${String(this.index)} page is closed (connection lost)`,
@@ -352,16 +474,66 @@ export class BrowserClient {
     }
 
     const startTime = Date.now();
+    const proxy = resolveTaskProxy(task, this.profile.capture);
+    if (!proxy.ok) {
+      return {
+        task,
+        status: captureStatus.failed,
+        errorDetails: createInternalError(proxy.error),
+        captureProcessingTimeMs: Date.now() - startTime,
+        timestamp: new Date().toISOString(),
+        workerIndex: this.index,
+      };
+    }
+    // A proxy is set per browser context, so it implies one.
+    const ownContext =
+      proxy.value !== undefined ||
+      (task.isolation ?? this.profile.capture.isolation) === "context";
+    const result = await this.run(
+      page,
+      task,
+      ownContext ? { ...(proxy.value !== undefined && { proxy: proxy.value }) } : undefined,
+      startTime,
+    );
+    // Failures too: a page that never loaded through the proxy is exactly
+    // the one whose proxy the caller will want to know.
+    return proxy.value === undefined ? result : { ...result, proxy: proxy.value.name };
+  }
+
+  /**
+   * `process` once the task's page is settled. With `own`, the task runs on
+   * a page of its own, in a browser context created for it; the worker's tab
+   * is left alone. The context is closed here rather than inside the Layer B
+   * bound, so a capture abandoned on timeout does not keep it open.
+   */
+  private async run(
+    page: Page,
+    task: CaptureTask,
+    own: OwnContext | undefined,
+    startTime: number,
+  ): Promise<CaptureResult> {
     const taskTotalMs = this.profile.capture.timeouts.taskTotalMs;
+    const controller = new AbortController();
+    const opened: { context?: BrowserContext } = {};
+    this.inFlight.set(task.taskId, controller);
     try {
       // #region layer-b-timeout
-      return await withWallClockTimeout(
-        this.pageCapturer.capture(page, task, this.index, this.browserVersion),
+      const result = await withWallClockTimeout(
+        this.captureOn(page, task, own, opened, controller.signal),
         taskTotalMs,
         `Task processing for ${task.url}`,
       );
       // #endregion
+      // A failure that lands after the abort (the navigation torn down by
+      // the abort itself, say) is still the client's doing. A success is
+      // kept: the cancel arrived too late to matter.
+      return controller.signal.aborted && !isSuccessStatus(result.status)
+        ? this.cancelledResult(task, startTime)
+        : result;
     } catch (error) {
+      if (controller.signal.aborted) {
+        return this.cancelledResult(task, startTime);
+      }
       const errorDetails = errorDetailsFromException(error);
       return {
         task,
@@ -374,7 +546,97 @@ export class BrowserClient {
         timestamp: new Date().toISOString(),
         workerIndex: this.index,
       };
+    } finally {
+      this.inFlight.delete(task.taskId);
+      if (opened.context !== undefined) {
+        await withWallClockTimeout(
+          opened.context.close(),
+          CONTEXT_CLOSE_TIMEOUT_MS,
+          `Closing the browser context for ${task.url}`,
+        ).catch((error: unknown) => {
+          this.logger.warn(
+            { err: error, taskId: task.taskId },
+            "Task browser context close failed (best-effort, continuing)",
+          );
+        });
+      }
+    }
+  }
+
+  /** Capture on the worker's tab, or on a page opened in a context of the task's own. */
+  private async captureOn(
+    page: Page,
+    task: CaptureTask,
+    own: OwnContext | undefined,
+    opened: { context?: BrowserContext },
+    signal: AbortSignal,
+  ): Promise<CaptureResult> {
+    return this.pageCapturer.capture(
+      own === undefined ? page : await this.openContextPage(own, opened),
+      task,
+      this.index,
+      this.browserVersion,
+      signal,
+      own === undefined ? undefined : { ...(own.proxy !== undefined && { proxy: own.proxy.name }) },
+    );
+  }
+
+  /**
+   * Open a page in a new browser context, going through `own.proxy` when the
+   * task has one. The context is recorded in `opened` as soon as it exists,
+   * so the caller closes it even when opening the page fails.
+   *
+   * Created after `connect`, so puppeteer-extra's `targetcreated` hook
+   * applies stealth to the page by itself — unlike the initial tab in
+   * `acquirePage`.
+   */
+  private async openContextPage(
+    own: OwnContext,
+    opened: { context?: BrowserContext },
+  ): Promise<Page> {
+    if (!this.browser) {
+      throw new Error(`BrowserClient ${String(this.index)} browser is disconnected`);
+    }
+    const proxy = own.proxy?.definition;
+    opened.context = await this.browser.createBrowserContext(
+      proxy === undefined
+        ? {}
+        : {
+            proxyServer: proxy.server,
+            ...(proxy.bypass !== undefined && { proxyBypassList: proxy.bypass }),
+          },
+    );
+    const page = await opened.context.newPage();
+    if (proxy?.username !== undefined && proxy.password !== undefined) {
+      // Answers the proxy's 407. `resolveTaskProxy` has already refused a
+      // task that also brings `httpAuth`, which would need the same hook.
+      await page.authenticate({ username: proxy.username, password: proxy.password });
     }
+    return page;
+  }
+
+  /**
+   * Abort the in-flight capture if it is `taskId`. Returns whether it was —
+   * `false` means this client is not (or no longer) running that task.
+   *
+   * Only signals: `process` still resolves on its own schedule, once the
+   * capture has noticed and run its cleanup, with `status: "cancelled"`.
+   */
+  cancel(taskId: string): boolean {
+    const controller = this.inFlight.get(taskId);
+    if (controller === undefined) return false;
+    controller.abort();
+    return true;
+  }
+
+  private cancelledResult(task: CaptureTask, startTime: number): CaptureResult {
+    return {
+      task,
+      status: captureStatus.cancelled,
+      captureProcessingTimeMs: Date.now() - startTime,
+      timestamp: new Date().toISOString(),
+      workerIndex: this.index,
+    };
   }
 
   /** Whether the browser is currently connected */
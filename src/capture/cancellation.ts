@@ -0,0 +1,52 @@
+/**
+ * Cancellation of an in-flight capture.
+ *
+ * `BrowserClient` owns one `AbortController` per `process` call and aborts it
+ * when the task is withdrawn; `PageCapturer.capture` observes the signal
+ * through the two helpers below. Observing is cooperative — nothing here
+ * stops a CDP command already sent — but it is enough to stop spending the
+ * worker's time: the capture throws `CancelledError`, reports `cancelled`,
+ * and goes through the same `finally` (recorder stop, `resetPageState`) as
+ * any other ending, so the next task still starts on a clean page.
+ */
+import { CancelledError } from "./error-details.js";
+
+/**
+ * Checkpoint between pipeline stages. Cheap enough to call before anything
+ * that writes an artifact, so a withdrawn task does not upload one.
+ */
+export const throwIfCancelled = (
+  signal: AbortSignal | undefined,
+  taskId: string,
+): void => {
+  if (signal?.aborted) throw new CancelledError(taskId);
+};
+
+/**
+ * Race a long operation (navigation, behaviors) against the signal.
+ *
+ * The losing operation is abandoned, not stopped: it keeps running on the
+ * page until the `about:blank` navigation in `resetPageState` supersedes it —
+ * the same carry-over `BrowserClient.process` accepts for a Layer B timeout.
+ * Its eventual rejection is absorbed by `Promise.race`.
+ */
+export const untilCancelled = async <T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined,
+  taskId: string,
+): Promise<T> => {
+  if (signal === undefined) return promise;
+  throwIfCancelled(signal, taskId);
+  let onAbort: (() => void) | undefined;
+  const cancelled = new Promise<never>((_, reject) => {
+    onAbort = () => {
+      reject(new CancelledError(taskId));
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+  try {
+    return await Promise.race([promise, cancelled]);
+  } finally {
+    if (onAbort !== undefined) signal.removeEventListener("abort", onAbort);
+  }
+};
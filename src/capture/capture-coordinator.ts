@@ -5,6 +5,7 @@
  * Uses the Parent-Child Actor Model: drives a coordinator lifecycle
  * actor that spawns and orchestrates worker status actors itself.
  */
+import { randomUUID } from "node:crypto";
 import { createActor, type SnapshotFrom } from "xstate";
 import type {
   BrowserProfile,
@@ -12,6 +13,7 @@ import type {
   SigningConfig,
   CoordinatorConfig,
   DiscoveryConfig,
+  WebhookConfig,
 } from "../config/index.js";
 import { DEFAULT_CAPTURE_CONFIG } from "../config/index.js";
 import type { WorkerRegistry } from "../discovery/worker-registry.js";
@@ -23,11 +25,18 @@ import {
   type ArtifactStore,
 } from "../storage/index.js";
 import { err, ok, type Result } from "../result.js";
-import type { TaskQueue, TaskCounts } from "./task-queue.js";
+import type { QueueCounts, TaskQueue, TaskCounts } from "./task-queue.js";
 import { compositeSink, type CaptureResultSink } from "./result-sink.js";
 import { InMemoryResultStore } from "./in-memory-result-store.js";
+import { DeadLetterStore, type DeadLetterPage, type DeadLetterQuery } from "./dead-letter-store.js";
+import { WebhookSink, type WebhookDeliveryStats } from "./webhook-sink.js";
+import { TaskEventLog } from "./task-events.js";
+import { Scheduler } from "./scheduler.js";
+import { JournaledTaskQueue, QueueJournal } from "./queue-journal.js";
 import type { CaptureResult, CaptureTask, WorkerInfo } from "./types.js";
 import { coordinatorMachine } from "./coordinator-machine.js";
+import { captureStatus } from "./capture-status.js";
+import { errorType } from "./error-type.js";
 import type { CaptureWorker } from "./capture-worker.js";
 
 /** Argument type accepted by `snapshot.matches()` for the coordinator machine. */
@@ -35,11 +44,12 @@ type LifecycleMatchesArg = Parameters<SnapshotFrom<typeof coordinatorMachine>["m
 
 /**
  * View of a task currently held by a worker. Aggregated from
- * `WorkerInfo.currentTask` so the wire layer does not need to traverse
+ * `WorkerInfo.slots` so the wire layer does not need to traverse
  * `workers` itself.
  */
 export interface ProcessingTaskView {
   workerIndex: number;
+  slot: number;
   task: CaptureTask;
   startedAt: string;
 }
@@ -58,8 +68,46 @@ export interface CoordinatorStatusReport {
   pendingTasks: CaptureTask[];
   /** All tasks currently being processed (one entry per busy worker). */
   processingTasks: ProcessingTaskView[];
+  /** Pending / processing per named queue. */
+  queues: QueueCounts[];
+  /** Outcome of per-request `callback` deliveries since startup. */
+  webhooks: WebhookDeliveryStats;
 }
 
+/**
+ * What `cancelTask` did.
+ *
+ *   removed  — was still queued; taken out, and its `cancelled` result recorded
+ *   aborting — a worker holds it; the abort is signalled and the worker will
+ *              record the result once the capture has cleaned up
+ *   finished — had already finished; nothing to cancel
+ *   unknown  — not in the pipeline and not in the result cache
+ */
+export type CancelOutcome =
+  | { kind: "removed"; result: CaptureResult }
+  | { kind: "aborting" }
+  | { kind: "finished"; result: CaptureResult }
+  | { kind: "unknown" };
+
+/**
+ * What `retryFailed` did.
+ *
+ *   enqueued  — a fresh copy of the failed task is queued under a new taskId
+ *   duplicate — `rejectDuplicateUrls` is on and the URL is already queued
+ *   unknown   — not in the dead-letter store (never failed, evicted, or
+ *               already re-enqueued)
+ */
+export type RedriveOutcome =
+  | { kind: "enqueued"; task: CaptureTask }
+  | { kind: "duplicate"; message: string }
+  | { kind: "unknown" };
+
+/**
+ * `workerIndex` of a result for a task no worker ever held — one cancelled
+ * while it was still queued.
+ */
+export const NO_WORKER_INDEX = -1;
+
 /** Default pending-task snapshot size used by `getStatus` when no override is given. */
 export const DEFAULT_PENDING_TASKS_LIMIT = 50;
 
@@ -82,7 +130,13 @@ export class CaptureCoordinator {
   private lifecycleActor;
   private store: ArtifactStore;
   private resultCache: InMemoryResultStore;
+  private deadLetters: DeadLetterStore;
   private resultSink: CaptureResultSink;
+  private webhookSink: WebhookSink;
+  private eventLog: TaskEventLog;
+  private scheduler: Scheduler;
+  private journal: QueueJournal | undefined;
+  private journaledQueue: JournaledTaskQueue | undefined;
   private registry: WorkerRegistry;
   private discovery: DiscoveryConfig;
   private unsubscribeMembership: (() => void) | null = null;
@@ -98,14 +152,51 @@ export class CaptureCoordinator {
     // Two sinks for the same results, with different lifetimes: the cache
     // backs `GET /v1/captures/{taskId}` and is bounded and volatile (a size
     // of 0 is a legitimate configuration); the manifest is the durable
-    // record a downstream ledger can reconcile against after an outage.
+    // record a downstream ledger can reconcile against after an outage. The
+    // webhook sink is a third, push-shaped view of the same results — inert
+    // for tasks that did not ask for a callback.
     this.resultCache = new InMemoryResultStore(config.resultCacheSize);
+    this.webhookSink = new WebhookSink(
+      config.webhook,
+      createChildLogger({ component: "webhook-sink" }),
+    );
+    // Failures only, kept apart so a burst of successes cannot evict them.
+    this.deadLetters = new DeadLetterStore(config.deadLetterSize);
+    // The event log takes completions from the same fan-out; every other
+    // lifecycle event is published to it directly.
+    this.eventLog = new TaskEventLog(config.eventBufferSize);
     this.resultSink = compositeSink([
       this.resultCache,
+      this.deadLetters,
       new ManifestWriter(this.store, createChildLogger({ component: "manifest-writer" })),
+      this.webhookSink,
+      this.eventLog,
     ]);
+    if (config.queueJournalDir !== undefined) {
+      this.journal = new QueueJournal(
+        config.queueJournalDir,
+        createChildLogger({ component: "queue-journal" }),
+      );
+      this.journaledQueue = new JournaledTaskQueue(this.journal, {
+        weights: config.queueWeights,
+        hostLimits: config.hostLimits,
+      });
+    }
+    // Runs go through `enqueueTask`, like a submission: the duplicate check
+    // and the `task.enqueued` event apply to them too.
+    this.scheduler = new Scheduler(
+      config.scheduleDir,
+      (task) => this.enqueueTask(task),
+      createChildLogger({ component: "scheduler" }),
+    );
     this.lifecycleActor = createActor(coordinatorMachine, {
-      input: { config, store: this.store, resultSink: this.resultSink },
+      input: {
+        config,
+        store: this.store,
+        resultSink: this.resultSink,
+        taskEvents: this.eventLog,
+        ...(this.journaledQueue && { taskQueue: this.journaledQueue }),
+      },
     });
     this.lifecycleActor.start();
   }
@@ -159,6 +250,12 @@ export class CaptureCoordinator {
     // operator sees the cause directly instead of a cascade of capture
     // failures inside `errorHistory`.
     await this.store.initialize();
+    // Before any worker exists, so recovered tasks are queued ahead of
+    // anything new and no worker can take one before it is back.
+    await this.recoverQueue();
+    // Also before the workers: a schedule that came due while the server was
+    // down runs as soon as there is someone to take it.
+    await this.scheduler.start();
     // Membership (discovery) is resolved by the registry, separate from
     // health (monitoring). Seed the machine with the resolved member set
     // before spawning workers, so absent workers are never spawned.
@@ -175,6 +272,37 @@ export class CaptureCoordinator {
     });
   }
 
+  /**
+   * Refill the queue from the journal the previous process left. A task whose
+   * interruption used up its last retry is finished here as `failed`, not run
+   * again — a page that takes the whole server down would otherwise do so on
+   * every restart.
+   */
+  private async recoverQueue(): Promise<void> {
+    if (!this.journal || !this.journaledQueue) return;
+    const { tasks, interrupted } = await this.journal.recover();
+    const exhausted = this.journaledQueue.restore(tasks, this.config.maxRetryCount);
+    for (const task of exhausted) {
+      this.resultSink.record({
+        task,
+        status: captureStatus.failed,
+        errorDetails: {
+          type: errorType.internal,
+          message: "Server stopped while the task was processing, and no retries remain",
+        },
+        captureProcessingTimeMs: 0,
+        timestamp: new Date().toISOString(),
+        workerIndex: NO_WORKER_INDEX,
+      });
+    }
+    if (tasks.length > 0) {
+      logger.info(
+        { restored: tasks.length - exhausted.length, interrupted, exhausted: exhausted.length },
+        "Recovered queue from journal",
+      );
+    }
+  }
+
   enqueueTask(task: CaptureTask): Result<void, string> {
     if (this.config.rejectDuplicateUrls) {
       if (this.taskQueue.hasUrl(task.url)) {
@@ -182,9 +310,72 @@ export class CaptureCoordinator {
       }
     }
     this.taskQueue.enqueue(task);
+    this.eventLog.publish({ type: "task.enqueued", task });
     return ok();
   }
 
+  /**
+   * Batch form of {@link enqueueTask}. Every task is duplicate-checked first —
+   * against the queue and, when `rejectDuplicateUrls` is on, against the
+   * earlier tasks of the same batch — and only then are the accepted ones
+   * handed to `TaskQueue.enqueueAll` in one call, so no worker can dequeue
+   * from a batch that is half queued.
+   *
+   * The returned array is index-aligned with `tasks`.
+   */
+  enqueueTasks(tasks: CaptureTask[]): Result<void, string>[] {
+    const batchUrls = new Set<string>();
+    const results = tasks.map((task): Result<void, string> => {
+      if (this.config.rejectDuplicateUrls) {
+        if (this.taskQueue.hasUrl(task.url)) {
+          return err(`URL already in queue: ${task.url}`);
+        }
+        if (batchUrls.has(task.url)) {
+          return err(`URL repeated within batch: ${task.url}`);
+        }
+      }
+      batchUrls.add(task.url);
+      return ok();
+    });
+    const accepted = tasks.filter((_, i) => results[i]?.ok === true);
+    this.taskQueue.enqueueAll(accepted);
+    for (const task of accepted) {
+      this.eventLog.publish({ type: "task.enqueued", task });
+    }
+    return results;
+  }
+
+  /**
+   * Withdraw a task. A queued task is removed outright and finishes here; an
+   * in-flight one is only signalled — see {@link CancelOutcome}.
+   *
+   * The queue is checked before the workers so that a task requeued for a
+   * retry is removed rather than aborted on a worker that no longer has it.
+   */
+  cancelTask(taskId: string): CancelOutcome {
+    const pending = this.taskQueue.remove(taskId);
+    if (pending) {
+      const result: CaptureResult = {
+        task: pending,
+        status: captureStatus.cancelled,
+        captureProcessingTimeMs: 0,
+        timestamp: new Date().toISOString(),
+        workerIndex: NO_WORKER_INDEX,
+      };
+      this.resultSink.record(result);
+      return { kind: "removed", result };
+    }
+
+    if (this.workers.some((worker) => worker.client.cancel(taskId))) {
+      return { kind: "aborting" };
+    }
+
+    const finished = this.resultCache.get(taskId);
+    if (finished) return { kind: "finished", result: finished };
+
+    return { kind: "unknown" };
+  }
+
   /**
    * The recorded result for a finished task, if it is still cached.
    *
@@ -196,19 +387,66 @@ export class CaptureCoordinator {
     return this.resultCache.get(taskId);
   }
 
+  /** Failed tasks still held for re-drive, newest first. */
+  listFailed(query: DeadLetterQuery): DeadLetterPage {
+    return this.deadLetters.list(query);
+  }
+
+  /**
+   * Queue a failed task again. The copy keeps everything the client asked for
+   * — labels and correlationId included — but gets a new taskId and a fresh
+   * retry budget: the old id already has its final result, in the cache and
+   * in the manifest, and reusing it would overwrite that record.
+   *
+   * On success the task leaves the dead-letter store, so a second call for
+   * the same id cannot queue it twice.
+   */
+  retryFailed(taskId: string): RedriveOutcome {
+    const failed = this.deadLetters.get(taskId);
+    if (!failed) return { kind: "unknown" };
+    const task: CaptureTask = {
+      ...failed.task,
+      taskId: randomUUID(),
+      retryCount: 0,
+      enqueuedAt: new Date().toISOString(),
+    };
+    // The last attempt's backoff is history; the copy may start right away.
+    delete task.notBefore;
+    const enqueued = this.enqueueTask(task);
+    if (!enqueued.ok) return { kind: "duplicate", message: enqueued.error };
+    this.deadLetters.delete(taskId);
+    return { kind: "enqueued", task };
+  }
+
   /** Whether the task is still waiting in the queue or held by a worker. */
   isTracking(taskId: string): boolean {
     return this.taskQueue.isTracking(taskId);
   }
 
+  /** Lifecycle event log behind `GET /v1/events`. */
+  get taskEvents(): TaskEventLog {
+    return this.eventLog;
+  }
+
+  /** Recurring captures behind `/v1/schedules`. */
+  get schedules(): Scheduler {
+    return this.scheduler;
+  }
+
   async shutdown(): Promise<void> {
     this.unsubscribeMembership?.();
     this.unsubscribeMembership = null;
-    if (!this.lifecycleActor.getSnapshot().can({ type: "SHUTDOWN" })) {
-      return;
+    this.scheduler.stop();
+    // Before the lifecycle wait: open event streams would otherwise hold
+    // the HTTP server's graceful close open until its timeout.
+    this.eventLog.close();
+    if (this.lifecycleActor.getSnapshot().can({ type: "SHUTDOWN" })) {
+      this.lifecycleActor.send({ type: "SHUTDOWN" });
+      await this.waitForLifecycle("terminated");
     }
-    this.lifecycleActor.send({ type: "SHUTDOWN" });
-    await this.waitForLifecycle("terminated");
+    // After the workers have stopped: whatever they were holding is still
+    // journaled as processing and comes back as a retry next time.
+    this.journal?.close();
   }
 
   /** True when the lifecycle is in `active.running` (all workers healthy). */
@@ -238,14 +476,16 @@ export class CaptureCoordinator {
   /**
    * Server-wide capture defaults. The HTTP layer's request-mapper reads
    * this to resolve per-request `resetState` (and any other future
-   * config-defaulted field) against the configured server policy. All
-   * browser profiles share the same `CaptureConfig` instance via
-   * `server-cli.ts:buildServerConfig`, so the first profile is
-   * authoritative; the fallback to `DEFAULT_CAPTURE_CONFIG` exists only
-   * for tests that wire a coordinator with zero profiles.
+   * config-defaulted field) against the configured server policy. The CLI
+   * sets `config.capture`; without it every `--browser-url` profile shares
+   * one `CaptureConfig` (`server-cli.ts:buildServerConfig`), so the first
+   * profile is authoritative. The fallback to `DEFAULT_CAPTURE_CONFIG`
+   * exists only for tests that wire a coordinator with zero profiles.
    */
   get captureDefaults(): CaptureConfig {
-    return this.config.browserProfiles[0]?.capture ?? DEFAULT_CAPTURE_CONFIG;
+    return (
+      this.config.capture ?? this.config.browserProfiles[0]?.capture ?? DEFAULT_CAPTURE_CONFIG
+    );
   }
 
   /**
@@ -257,19 +497,27 @@ export class CaptureCoordinator {
     return this.config.signing;
   }
 
+  /** Server-wide callback settings; the HTTP layer checks `callback.url` against them. */
+  get webhook(): WebhookConfig {
+    return this.config.webhook;
+  }
+
   getStatus(opts: GetStatusOptions = {}): CoordinatorStatusReport {
     const pendingLimit = opts.pendingLimit ?? DEFAULT_PENDING_TASKS_LIMIT;
     const workerInfos = this.workers.map((worker) => worker.toInfo());
     const processingTasks: ProcessingTaskView[] = workerInfos.flatMap((info) =>
-      info.currentTask
-        ? [
-            {
-              workerIndex: info.index,
-              task: info.currentTask.task,
-              startedAt: info.currentTask.startedAt,
-            },
-          ]
-        : [],
+      info.slots.flatMap(({ slot, currentTask }) =>
+        currentTask
+          ? [
+              {
+                workerIndex: info.index,
+                slot,
+                task: currentTask.task,
+                startedAt: currentTask.startedAt,
+              },
+            ]
+          : [],
+      ),
     );
     return {
       taskCounts: this.taskQueue.getStatus(),
@@ -280,6 +528,8 @@ export class CaptureCoordinator {
       workers: workerInfos,
       pendingTasks: this.taskQueue.peekPending(pendingLimit),
       processingTasks,
+      queues: this.taskQueue.getQueueCounts(),
+      webhooks: this.webhookSink.getStats(),
     };
   }
 
@@ -14,6 +14,22 @@ export interface CaptureFormats {
   html: boolean;
   links: boolean;
   mhtml: boolean;
+  /**
+   * Print the rendered page to PDF (`Page.printToPDF`). Optional so requests
+   * written before the format existed stay valid; absent means `false`.
+   */
+  pdf?: boolean;
+  /**
+   * HAR 1.2 log of the session, built by the WACZ recorder. Optional for the
+   * same reason as `pdf`.
+   */
+  har?: boolean;
+  /**
+   * Console messages, uncaught exceptions, failed requests and security
+   * warnings seen during the capture, as JSON. Optional for the same reason
+   * as `pdf`.
+   */
+  diagnostics?: boolean;
   /** Record the full HTTP session as a WACZ archive (replay via ReplayWeb.page). */
   wacz: boolean;
 }
@@ -27,10 +43,13 @@ export const validateCaptureFormats = (
     !formats.html &&
     !formats.links &&
     !formats.mhtml &&
+    formats.pdf !== true &&
+    formats.har !== true &&
+    formats.diagnostics !== true &&
     !formats.wacz
   ) {
     return err(
-      "At least one capture format must be enabled (png, webp, html, links, mhtml, or wacz)",
+      "At least one capture format must be enabled (png, webp, html, links, mhtml, pdf, har, diagnostics, or wacz)",
     );
   }
   return ok();
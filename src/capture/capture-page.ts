@@ -10,11 +10,12 @@
  * point here — add it to the list (and to `withOperationDelay`).
  */
 import { setTimeout as sleep } from "node:timers/promises";
-import type { Page } from "puppeteer";
+import type { Keyboard, Page } from "puppeteer";
 
 /**
- * Everything `page-capturer`, `banner-dismisser` and `behaviors/inject` call on
- * a page. `url` is the only synchronous member; the rest return promises.
+ * Everything `page-capturer`, `banner-dismisser`, `page-actions` and
+ * `behaviors/inject` call on a page. `url` is the only synchronous member and
+ * `keyboard` the only object; the rest return promises.
  */
 export type CapturePage = Pick<
   Page,
@@ -23,6 +24,14 @@ export type CapturePage = Pick<
   | "createCDPSession"
   | "waitForNetworkIdle"
   | "waitForNavigation"
+  | "waitForSelector"
+  | "waitForFunction"
+  | "click"
+  | "type"
+  | "select"
+  | "hover"
+  | "focus"
+  | "keyboard"
   | "screenshot"
   | "content"
   | "title"
@@ -119,6 +128,15 @@ export const createPacedPage = (page: Page, delayMs: number): PacedPage => {
     return op();
   };
 
+  const keyboard = page.keyboard;
+  const pacedKeyboard: Keyboard = {
+    down: (...args) => pace(() => keyboard.down(...args)),
+    up: (...args) => pace(() => keyboard.up(...args)),
+    press: (...args) => pace(() => keyboard.press(...args)),
+    type: (...args) => pace(() => keyboard.type(...args)),
+    sendCharacter: (...args) => pace(() => keyboard.sendCharacter(...args)),
+  };
+
   const paced: CapturePage = {
     goto: (...args) => pace(() => page.goto(...args)),
     evaluate: ((...args: Parameters<Page["evaluate"]>) =>
@@ -126,6 +144,17 @@ export const createPacedPage = (page: Page, delayMs: number): PacedPage => {
     createCDPSession: () => pace(() => page.createCDPSession()),
     waitForNetworkIdle: (...args) => pace(() => page.waitForNetworkIdle(...args)),
     waitForNavigation: (...args) => pace(() => page.waitForNavigation(...args)),
+    waitForSelector: ((...args: Parameters<Page["waitForSelector"]>) =>
+      pace(() => page.waitForSelector(...args))) as Page["waitForSelector"],
+    waitForFunction: ((...args: Parameters<Page["waitForFunction"]>) =>
+      pace(() => page.waitForFunction(...args))) as Page["waitForFunction"],
+    click: (...args) => pace(() => page.click(...args)),
+    type: (...args) => pace(() => page.type(...args)),
+    select: (...args) => pace(() => page.select(...args)),
+    hover: (...args) => pace(() => page.hover(...args)),
+    focus: (...args) => pace(() => page.focus(...args)),
+    // Not an operation itself, so not paced — each key event it sends is.
+    keyboard: pacedKeyboard,
     screenshot: ((...args: Parameters<Page["screenshot"]>) =>
       pace(() => page.screenshot(...args))) as Page["screenshot"],
     content: () => pace(() => page.content()),
@@ -3,6 +3,11 @@ export const captureStatus = {
   failed: "failed",
   timeout: "timeout",
   httpError: "httpError",
+  /**
+   * Withdrawn by the client (`DELETE /v1/captures/{taskId}`), either while
+   * still queued or mid-capture. Final: never retried.
+   */
+  cancelled: "cancelled",
 } as const;
 
 export type CaptureStatus = (typeof captureStatus)[keyof typeof captureStatus];
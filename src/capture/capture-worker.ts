@@ -23,12 +23,27 @@
  *   | `disconnectBrowser` (Promise)         | no             | yes         | no           | yes   | yes    |
  *   | `workerLoop` (Callback)               | yes            | yes         | no           | yes   | no     |
  */
-import { setup, assign, fromPromise, type ActorRefFrom, type SnapshotFrom } from "xstate";
+import {
+  setup,
+  assign,
+  fromPromise,
+  sendTo,
+  type ActorRefFrom,
+  type SnapshotFrom,
+} from "xstate";
 import type { BrowserClient } from "./browser-client.js";
-import type { BrowserProfile } from "../config/index.js";
-import type { CaptureResult, CaptureTask, ErrorRecord, ErrorDetails, WorkerInfo } from "./types.js";
+import type { BrowserProfile, RetryPolicy } from "../config/index.js";
+import type {
+  CaptureResult,
+  CaptureTask,
+  CurrentTaskInfo,
+  ErrorRecord,
+  ErrorDetails,
+  WorkerInfo,
+} from "./types.js";
 import { createConnectionError, createInternalError } from "./error-details.js";
 import { workerLoopCallback, type WorkerRuntime } from "./worker-loop.js";
+import { isRetryableFailure, retryDelayMs } from "./retry-policy.js";
 import type { Result } from "../result.js";
 
 const MAX_ERROR_HISTORY = 10;
@@ -37,6 +52,8 @@ const MAX_ERROR_HISTORY = 10;
 export interface CaptureWorkerInput {
   /** Maximum retry count for failed capture tasks */
   maxRetryCount: number;
+  /** Which failures spend that budget, and the backoff between attempts. */
+  retryPolicy: RetryPolicy;
   /** Worker runtime (browser client, shared queue, polling) */
   runtime: WorkerRuntime;
 }
@@ -47,12 +64,24 @@ interface CaptureWorkerStats {
   errorCount: number;
   errorHistory: ErrorRecord[];
   /**
-   * Snapshot of the task currently being processed. Set on TASK_STARTED,
-   * cleared on TASK_DONE / TASK_FAILED / CONNECTION_LOST. `startedAt` is a
-   * `Date.now()` epoch ms value — converted to ISO at the domain boundary
-   * (`toInfo`) so the wire layer can compute `elapsedMs` cheaply.
+   * The task each slot is processing, indexed by slot, `null` for an idle
+   * one. Set on TASK_STARTED, cleared on TASK_DONE / TASK_FAILED /
+   * TASK_CANCELLED / CONNECTION_LOST. `startedAt` is a `Date.now()` epoch ms
+   * value — converted to ISO at the domain boundary (`toInfo`) so the wire
+   * layer can compute `elapsedMs` cheaply.
    */
-  currentTask: { task: CaptureTask; startedAt: number } | null;
+  currentTasks: ({ task: CaptureTask; startedAt: number } | null)[];
+  /**
+   * A slot reported CONNECTION_LOST while others still held tasks. The
+   * worker stays `operational` until they have reported too, then goes to
+   * `error`.
+   */
+  connectionLost: boolean;
+  /**
+   * Superseded by the coordinator (DRAIN): no new tasks are taken, and the
+   * worker disconnects once the held ones have reported.
+   */
+  draining: boolean;
 }
 
 export interface CaptureWorkerContext
@@ -87,6 +116,7 @@ const addErrorToHistory = (
  * 子の状態機械(browserURL ごとに 1 つ)。1 ワーカーの状態台帳で、
  * `disconnected → connecting → operational{idle,processing} → error → disconnecting`
  * を遷移する。`operational` の間だけ処理ループ(`workerLoop`)を invoke する。
+ * `processing` はいずれかのスロットがタスクを持っている間。
  *
  * @glossary captureWorkerMachine
  * @category コンポーネント
@@ -98,9 +128,11 @@ export const captureWorkerMachine = setup({
     events: {} as
       | { type: "CONNECT" }
       | { type: "DISCONNECT" }
-      | { type: "TASK_STARTED"; task: CaptureTask }
+      | { type: "DRAIN" }
+      | { type: "TASK_STARTED"; task: CaptureTask; slot: number }
       | { type: "TASK_DONE"; task: CaptureTask; result: CaptureResult }
       | { type: "TASK_FAILED"; task: CaptureTask; result: CaptureResult }
+      | { type: "TASK_CANCELLED"; task: CaptureTask }
       | { type: "CONNECTION_LOST"; task: CaptureTask; message: string },
   },
   actors: {
@@ -113,35 +145,77 @@ export const captureWorkerMachine = setup({
     workerLoop: workerLoopCallback,
   },
   guards: {
+    noTaskInFlight: ({ context }) => context.currentTasks.every((current) => current === null),
+    // The last slot has reported after a connection loss.
+    connectionLostAndDrained: ({ context }) =>
+      context.connectionLost && context.currentTasks.every((current) => current === null),
+    // The last slot has reported after DRAIN.
+    drainedForRetire: ({ context }) =>
+      context.draining && context.currentTasks.every((current) => current === null),
+    isDraining: ({ context }) => context.draining,
     // Both `TASK_FAILED` and `CONNECTION_LOST` carry an in-flight task, and
     // both should consume the same retry budget — the failure mode (task-level
     // error vs. connection drop) does not change whether the task itself
-    // deserves another attempt.
+    // deserves another attempt. What does is the kind of failure: a 404 is
+    // the site's answer, and asking again only costs the site another hit.
     canRetry: ({ context, event }) => {
       if (event.type !== "TASK_FAILED" && event.type !== "CONNECTION_LOST") {
         return false;
       }
-      return event.task.retryCount < context.maxRetryCount;
+      if (event.task.retryCount >= context.maxRetryCount) return false;
+      const errorDetails =
+        event.type === "TASK_FAILED"
+          ? event.result.errorDetails
+          : createConnectionError(event.message);
+      return isRetryableFailure(context.retryPolicy, errorDetails);
     },
   },
   actions: {
     setCurrentTask: assign({
-      currentTask: ({ event }) => {
-        if (event.type !== "TASK_STARTED") return null;
-        return { task: event.task, startedAt: Date.now() };
+      currentTasks: ({ context, event }) => {
+        if (event.type !== "TASK_STARTED") return context.currentTasks;
+        return context.currentTasks.map((current, slot) =>
+          slot === event.slot ? { task: event.task, startedAt: Date.now() } : current,
+        );
       },
     }),
-    clearCurrentTask: assign({ currentTask: () => null }),
+    // Found by task rather than carried slot: only TASK_STARTED names one.
+    clearCurrentTask: assign({
+      currentTasks: ({ context, event }) => {
+        if (!("task" in event)) return context.currentTasks;
+        return context.currentTasks.map((current) =>
+          current?.task.taskId === event.task.taskId ? null : current,
+        );
+      },
+    }),
+    markConnectionLost: assign({ connectionLost: () => true }),
+    resetConnectionLost: assign({ connectionLost: () => false }),
+    markDraining: assign({ draining: () => true }),
+    // Slots stop dequeuing; the ones holding a task still report it.
+    stopLoop: sendTo("workerLoop", { type: "STOP_LOOP" }),
     retryTask: ({ context, event }) => {
       if (event.type !== "TASK_FAILED" && event.type !== "CONNECTION_LOST") return;
-      context.runtime.taskQueue.requeue(event.task);
+      const attempt = event.task.retryCount + 1;
+      const delayMs = retryDelayMs(context.retryPolicy, attempt);
+      const retried = context.runtime.taskQueue.requeue(event.task, delayMs);
+      const notBefore = retried.notBefore ?? new Date().toISOString();
+      context.runtime.taskEvents.publish({
+        type: "task.retrying",
+        task: event.task,
+        workerIndex: context.runtime.client.index,
+        attempt,
+        maxRetryCount: context.maxRetryCount,
+        reason: event.type === "CONNECTION_LOST" ? "connection lost" : "task failed",
+        notBefore,
+      });
       context.runtime.client.logger.info(
         {
           taskLabels: event.task.labels,
           taskId: event.task.taskId,
           ...(event.task.correlationId && { correlationId: event.task.correlationId }),
-          attempt: event.task.retryCount + 1,
+          attempt,
           maxRetryCount: context.maxRetryCount,
+          delayMs,
           url: event.task.url,
           // Disambiguate "the task failed" vs "the connection dropped" in logs;
           // both go through the same retry path now.
@@ -186,6 +260,17 @@ export const captureWorkerMachine = setup({
         "Task failed",
       );
     },
+    // Entry action of the states that change `WorkerHealth`, except the
+    // ready ⇄ busy flip: that one happens on every task and is already told
+    // by `task.started` / `task.completed`.
+    publishHealth: ({ context }, params: { health: WorkerHealth }) => {
+      context.runtime.taskEvents.publish({
+        type: "worker.health",
+        workerIndex: context.runtime.client.index,
+        browserUrl: context.runtime.client.profile.browserURL.href,
+        health: params.health,
+      });
+    },
     recordTaskSuccess: assign({
       processedCount: ({ context }) => context.processedCount + 1,
     }),
@@ -229,10 +314,18 @@ export const captureWorkerMachine = setup({
     processedCount: 0,
     errorCount: 0,
     errorHistory: [],
-    currentTask: null,
+    currentTasks: Array.from({ length: input.runtime.concurrency }, () => null),
+    connectionLost: false,
+    draining: false,
   }),
+  // Outside `operational` and `error` there is no loop to stop and no
+  // connection to close yet; remembering the request is enough.
+  on: {
+    DRAIN: { actions: "markDraining" },
+  },
   states: {
     disconnected: {
+      entry: { type: "publishHealth", params: { health: "disconnected" } },
       on: { CONNECT: "connecting" },
     },
     connecting: {
@@ -240,6 +333,12 @@ export const captureWorkerMachine = setup({
         src: "connectBrowser",
         input: ({ context }): { client: BrowserClient } => ({ client: context.runtime.client }),
         onDone: [
+          {
+            // Drained while connecting: close the fresh connection instead
+            // of taking tasks with superseded settings.
+            guard: ({ context, event }) => event.output.ok && context.draining,
+            target: "disconnecting",
+          },
           {
             guard: ({ event }) => event.output.ok,
             target: "operational",
@@ -260,8 +359,10 @@ export const captureWorkerMachine = setup({
     operational: {
       tags: ["healthy"],
       initial: "idle",
+      entry: [{ type: "publishHealth", params: { health: "ready" } }, "resetConnectionLost"],
       // #region operational-invoke
       invoke: {
+        id: "workerLoop",
         src: "workerLoop",
         input: ({ context }) => context.runtime,
       },
@@ -277,23 +378,29 @@ export const captureWorkerMachine = setup({
           },
         },
         // #region processing-transitions
+        // Back to `idle` once the last busy slot has reported; until then a
+        // finished task only frees its own slot.
         processing: {
+          always: { guard: "noTaskInFlight", target: "idle" },
           on: {
+            TASK_STARTED: { actions: "setCurrentTask" },
             TASK_DONE: {
-              target: "idle",
               actions: ["recordTaskSuccess", "clearCurrentTask"],
             },
             TASK_FAILED: [
               {
                 guard: "canRetry",
-                target: "idle",
                 actions: ["retryTask", "clearCurrentTask"],
               },
               {
-                target: "idle",
                 actions: ["markTaskComplete", "recordTaskFailure", "clearCurrentTask"],
               },
             ],
+            // Neither a success nor a failure, so neither counter moves; the
+            // loop has already recorded the result.
+            TASK_CANCELLED: {
+              actions: "clearCurrentTask",
+            },
           },
         },
         // #endregion
@@ -302,36 +409,50 @@ export const captureWorkerMachine = setup({
         // 2-branch mirroring TASK_FAILED so the in-flight task is always
         // either requeued (within retry budget) or markComplete'd (budget
         // exhausted) — without this, the task stays pinned in
-        // TaskQueue.processing forever after a connection drop. Both
-        // branches still target `error` so the worker's overall state
-        // reflects the connection loss; the coordinator's degraded retry
-        // is what brings it back to operational.
+        // TaskQueue.processing forever after a connection drop. Either way
+        // the worker then goes to `error` (through `always` below, once the
+        // other slots have reported) so its overall state reflects the
+        // connection loss; the coordinator's degraded retry is what brings
+        // it back to operational.
         CONNECTION_LOST: [
           {
             guard: "canRetry",
-            target: "error",
-            actions: ["retryTask", "recordConnectionError", "clearCurrentTask"],
+            actions: [
+              "retryTask",
+              "recordConnectionError",
+              "clearCurrentTask",
+              "markConnectionLost",
+            ],
           },
           {
-            target: "error",
             actions: [
               "markTaskComplete",
               "recordConnectionError",
               "recordConnectionFinalProcessed",
               "clearCurrentTask",
+              "markConnectionLost",
             ],
           },
         ],
         DISCONNECT: "disconnecting",
+        DRAIN: { actions: ["markDraining", "stopLoop"] },
       },
+      always: [
+        { guard: "connectionLostAndDrained", target: "error" },
+        { guard: "drainedForRetire", target: "disconnecting" },
+      ],
     },
     error: {
+      entry: { type: "publishHealth", params: { health: "error" } },
+      // Lost the connection while draining: nothing left to wait for.
+      always: { guard: "isDraining", target: "disconnecting" },
       on: {
         // Allow re-attempting the browser connection without first
         // disconnecting. The coordinator's retry actor (in `degraded`)
         // sends CONNECT here directly.
         CONNECT: "connecting",
         DISCONNECT: "disconnecting",
+        DRAIN: { target: "disconnecting", actions: "markDraining" },
       },
     },
     disconnecting: {
@@ -464,9 +585,12 @@ export class CaptureWorker {
   get isInError(): boolean {
     return this.ref.getSnapshot().value === "error";
   }
-  /** True while the worker is holding a capture task (used to drain before retire). */
+  /** True while any slot is holding a capture task (used to drain before retire). */
   get isProcessing(): boolean {
-    return this.ref.getSnapshot().context.currentTask !== null;
+    return this.ref.getSnapshot().context.currentTasks.some((current) => current !== null);
+  }
+  get isDraining(): boolean {
+    return this.ref.getSnapshot().context.draining;
   }
 
   // -- actions --
@@ -476,11 +600,27 @@ export class CaptureWorker {
   disconnect(): void {
     this.ref.send({ type: "DISCONNECT" });
   }
+  /** Stop taking tasks, then disconnect once the held ones have reported. */
+  drain(): void {
+    this.ref.send({ type: "DRAIN" });
+  }
 
   // -- reporting --
   toInfo(): WorkerInfo {
     const snapshot = this.ref.getSnapshot();
-    const current = snapshot.context.currentTask;
+    const { currentTasks } = snapshot.context;
+    const toCurrentTask = (current: { task: CaptureTask; startedAt: number }): CurrentTaskInfo => ({
+      task: current.task,
+      startedAt: new Date(current.startedAt).toISOString(),
+    });
+    // The longest-running, for readers of `currentTask` from before slots.
+    const oldest = currentTasks.reduce<{ task: CaptureTask; startedAt: number } | null>(
+      (found, current) =>
+        current !== null && (found === null || current.startedAt < found.startedAt)
+          ? current
+          : found,
+      null,
+    );
     return {
       index: this.client.index,
       browserProfile: this.client.profile,
@@ -488,12 +628,11 @@ export class CaptureWorker {
       processedCount: snapshot.context.processedCount,
       errorCount: snapshot.context.errorCount,
       errorHistory: [...snapshot.context.errorHistory],
-      ...(current && {
-        currentTask: {
-          task: current.task,
-          startedAt: new Date(current.startedAt).toISOString(),
-        },
-      }),
+      slots: currentTasks.map((current, slot) => ({
+        slot,
+        ...(current && { currentTask: toCurrentTask(current) }),
+      })),
+      ...(oldest && { currentTask: toCurrentTask(oldest) }),
     };
   }
 
@@ -12,6 +12,8 @@
  *     `degraded`.
  *   - `watchWorkerHealth` (fromCallback): observe-only (informational).
  *     Reserved for future re-purposing in Phase 2.
+ *   - `watchDrainingWorkers` (fromCallback): report when a superseded
+ *     worker has drained, so the coordinator reconciles again.
  *   - `shutdownWorkers` (fromPromise): disconnect all worker actors and
  *     return Result<void, ShutdownFailure>. Treats the disconnect
  *     timeout as a structured failure (still proceeds to disconnect).
@@ -195,6 +197,45 @@ export const watchWorkerHealth = fromCallback<
   };
 });
 
+/**
+ * Subscribe to the superseded workers (the ones a reconcile sent DRAIN) and
+ * emit WORKER_DRAINED once one of them has disconnected. Registries only
+ * report membership when it changes, so without this nothing would retire
+ * the worker or spawn its replacement.
+ *
+ * Invoked from `active` with the workers superseded at that point; a worker
+ * that drained while the coordinator was reconciling is reported at once.
+ */
+export const watchDrainingWorkers = fromCallback<
+  { type: "WORKER_DRAINED" },
+  CaptureWorker[]
+>(({ sendBack, input }) => {
+  if (input.length === 0) return;
+
+  const isDrained = (worker: CaptureWorker): boolean =>
+    worker.isDisconnected && !worker.isProcessing;
+
+  if (input.some(isDrained)) {
+    sendBack({ type: "WORKER_DRAINED" });
+    return;
+  }
+
+  let sent = false;
+  const subscriptions = input.map((worker) =>
+    worker.ref.subscribe(() => {
+      if (sent || !isDrained(worker)) return;
+      sent = true;
+      sendBack({ type: "WORKER_DRAINED" });
+    }),
+  );
+
+  return () => {
+    subscriptions.forEach((sub) => {
+      sub.unsubscribe();
+    });
+  };
+});
+
 /**
  * Periodically send CONNECT to every worker currently in the `error`
  * state, with exponential backoff (1s → 2s → 4s → … capped at 60s).
@@ -23,6 +23,7 @@
  *   | `workerStatus` (State machine)       | yes            | yes         | yes          | yes   | yes    |
  *   | `initializeWorkers` (Promise)        | no             | yes         | no           | yes   | yes    |
  *   | `watchWorkerHealth` (Callback)       | no             | yes         | no           | yes   | no     |
+ *   | `watchDrainingWorkers` (Callback)    | no             | yes         | no           | yes   | no     |
  *   | `retryFailedWorkers` (Callback)      | no             | no          | no           | yes   | no     |
  *   | `shutdownWorkers` (Promise)          | no             | yes         | no           | yes   | yes    |
  */
@@ -33,15 +34,18 @@ import {
 } from "xstate";
 import type { BrowserProfile, CoordinatorConfig } from "../config/index.js";
 import type { ArtifactStore } from "../storage/index.js";
+import { memberKey } from "../discovery/worker-registry.js";
 import { logger } from "../logger.js";
 import {
   initializeWorkers,
   retryFailedWorkers,
   shutdownWorkers,
+  watchDrainingWorkers,
   watchWorkerHealth,
 } from "./coordinator-actors.js";
 import { TaskQueue } from "./task-queue.js";
 import type { CaptureResultSink } from "./result-sink.js";
+import type { TaskEventPublisher } from "./task-events.js";
 import { BrowserClient } from "./browser-client.js";
 import { CaptureWorker, captureWorkerMachine } from "./capture-worker.js";
 
@@ -55,6 +59,8 @@ export interface CoordinatorMachineContext {
    * `store`) and handed to each spawned worker's runtime.
    */
   resultSink: CaptureResultSink;
+  /** Lifecycle events for `GET /v1/events`, handed to each worker's runtime like `resultSink`. */
+  taskEvents: TaskEventPublisher;
   /**
    * The membership target — the profiles that *should* have a worker. The
    * source of truth for spawning, decoupled from `config.browserProfiles`:
@@ -68,14 +74,39 @@ export interface CoordinatorMachineContext {
   spawnCount: number;
 }
 
-/** The endpoint host (`hostname:port`) that identifies a worker's membership. */
+/** The endpoint host (`hostname:port`) a worker holds. */
 const workerHost = (worker: CaptureWorker): string =>
   new URL(worker.browserAddress).host;
 
+/** Workers serving a current member, as opposed to superseded ones still draining. */
+const currentWorkers = (context: CoordinatorMachineContext): CaptureWorker[] => {
+  const wanted = new Set(context.desiredMembers.map(memberKey));
+  return context.workers.filter((w) => wanted.has(memberKey(w.profile)));
+};
+
+const supersededWorkers = (context: CoordinatorMachineContext): CaptureWorker[] => {
+  const wanted = new Set(context.desiredMembers.map(memberKey));
+  return context.workers.filter((w) => !wanted.has(memberKey(w.profile)));
+};
+
+/**
+ * A superseded worker can be stopped outright once it holds no task and
+ * either has disconnected (DRAIN closed its client) or its browser left
+ * membership — a container that is gone has no CDP connection to close.
+ */
+const isRetirable = (worker: CaptureWorker, memberHosts: Set<string>): boolean =>
+  !worker.isProcessing && (worker.isDisconnected || !memberHosts.has(workerHost(worker)));
+
+const memberHostsOf = (context: CoordinatorMachineContext): Set<string> =>
+  new Set(context.desiredMembers.map((profile) => profile.browserURL.host));
+
 export interface CoordinatorMachineInput {
   config: CoordinatorConfig;
   store: ArtifactStore;
   resultSink: CaptureResultSink;
+  taskEvents: TaskEventPublisher;
+  /** A prepared queue (e.g. a `JournaledTaskQueue`). Defaults to an in-memory one. */
+  taskQueue?: TaskQueue;
 }
 
 /**
@@ -95,54 +126,68 @@ export const coordinatorMachine = setup({
       | { type: "MEMBERSHIP_CHANGED"; members: BrowserProfile[] }
       | { type: "SHUTDOWN" }
       | { type: "WORKER_DEGRADED" }
-      | { type: "ALL_WORKERS_HEALTHY" },
+      | { type: "ALL_WORKERS_HEALTHY" }
+      | { type: "WORKER_DRAINED" },
   },
   actors: {
     captureWorker: captureWorkerMachine,
     initializeWorkers,
     watchWorkerHealth,
+    watchDrainingWorkers,
     retryFailedWorkers,
     shutdownWorkers,
   },
   actions: {
-    // Retire workers that left membership. Drain: a worker mid-capture is
-    // kept and retired on a later reconcile once idle. Only stops the child
-    // actor — under the compose stack a retired worker's container is gone,
-    // so there is no live CDP connection to close gracefully.
+    // Retire workers that left membership — or whose member did, in the
+    // sense of `memberKey`: a browser whose capture settings were edited
+    // gets a new worker. A retirable one (see `isRetirable`) is stopped;
+    // any other is sent DRAIN, so it stops taking tasks with the old
+    // settings and, once its held ones have reported, disconnects its
+    // client — closing the CDP connection and the slot contexts in a
+    // browser that is still serving. `watchDrainingWorkers` then brings the
+    // coordinator back here to stop it.
     retireGoneWorkers: enqueueActions(({ context, enqueue }) => {
-      const wanted = new Set(context.desiredMembers.map((p) => p.browserURL.host));
-      for (const worker of context.workers) {
-        if (!wanted.has(workerHost(worker)) && !worker.isProcessing) {
+      const memberHosts = memberHostsOf(context);
+      for (const worker of supersededWorkers(context)) {
+        if (isRetirable(worker, memberHosts)) {
           enqueue.stopChild(worker.ref);
+        } else {
+          enqueue.sendTo(worker.ref, { type: "DRAIN" });
         }
       }
     }),
     // Keep survivors (still wanted, or draining), spawn workers for members
-    // that have no worker yet. `spawn` inside assign returns the ref to wrap.
+    // that have no worker yet. A browser still held by a draining worker
+    // waits for it: two workers would share one browser's tab. `spawn`
+    // inside assign returns the ref to wrap.
     spawnMissingWorkers: assign(({ context, spawn }) => {
-      const wanted = new Map(
-        context.desiredMembers.map((p) => [p.browserURL.host, p]),
-      );
-      const haveHosts = new Set(context.workers.map(workerHost));
+      const wanted = new Set(context.desiredMembers.map(memberKey));
+      const memberHosts = memberHostsOf(context);
       const survivors = context.workers.filter(
-        (w) => wanted.has(workerHost(w)) || w.isProcessing,
+        (w) => wanted.has(memberKey(w.profile)) || !isRetirable(w, memberHosts),
       );
+      const haveKeys = new Set(survivors.map((w) => memberKey(w.profile)));
+      const heldHosts = new Set(survivors.map(workerHost));
       let spawnCount = context.spawnCount;
       const added: CaptureWorker[] = [];
-      for (const [host, profile] of wanted) {
-        if (haveHosts.has(host)) continue;
+      for (const profile of context.desiredMembers) {
+        if (haveKeys.has(memberKey(profile))) continue;
+        if (heldHosts.has(profile.browserURL.host)) continue;
         const index = spawnCount;
         spawnCount += 1;
         const client = new BrowserClient(index, profile, context.store, context.config.signing);
         const ref = spawn("captureWorker", {
-          id: `worker-${host}`,
+          id: `worker-${String(index)}`,
           input: {
             maxRetryCount: context.config.maxRetryCount,
+            retryPolicy: context.config.retry,
             runtime: {
               client,
               taskQueue: context.taskQueue,
               resultSink: context.resultSink,
+              taskEvents: context.taskEvents,
               pollIntervalMs: context.config.queuePollIntervalMs,
+              concurrency: profile.capture.concurrency,
             },
           },
         });
@@ -157,8 +202,14 @@ export const coordinatorMachine = setup({
   context: ({ input }): CoordinatorMachineContext => ({
     config: input.config,
     store: input.store,
-    taskQueue: new TaskQueue(),
+    taskQueue:
+      input.taskQueue ??
+      new TaskQueue({
+        weights: input.config.queueWeights,
+        hostLimits: input.config.hostLimits,
+      }),
     resultSink: input.resultSink,
+    taskEvents: input.taskEvents,
     desiredMembers: input.config.browserProfiles,
     workers: [],
     spawnCount: 0,
@@ -219,7 +270,7 @@ export const coordinatorMachine = setup({
       entry: ["retireGoneWorkers", "spawnMissingWorkers"],
       invoke: {
         src: "initializeWorkers",
-        input: ({ context }): { workers: CaptureWorker[] } => ({ workers: context.workers }),
+        input: ({ context }): { workers: CaptureWorker[] } => ({ workers: currentWorkers(context) }),
         onDone: [
           {
             guard: ({ event }) => event.output.allHealthy,
@@ -245,16 +296,26 @@ export const coordinatorMachine = setup({
       on: { SHUTDOWN: "shuttingDown" },
     },
     active: {
-      invoke: {
-        src: "watchWorkerHealth",
-        input: ({ context }) => context.workers,
-      },
+      // Health is judged on current workers only: a draining one
+      // disconnecting on purpose is not a degradation.
+      invoke: [
+        {
+          src: "watchWorkerHealth",
+          input: ({ context }) => currentWorkers(context),
+        },
+        {
+          src: "watchDrainingWorkers",
+          input: ({ context }) => supersededWorkers(context),
+        },
+      ],
       on: {
         SHUTDOWN: "shuttingDown",
         MEMBERSHIP_CHANGED: {
           target: "reconciling",
           actions: assign({ desiredMembers: ({ event }) => event.members }),
         },
+        // A superseded worker has drained: retire it and spawn its replacement.
+        WORKER_DRAINED: "reconciling",
       },
       initial: "running",
       states: {
@@ -271,7 +332,7 @@ export const coordinatorMachine = setup({
         degraded: {
           invoke: {
             src: "retryFailedWorkers",
-            input: ({ context }) => context.workers,
+            input: ({ context }) => currentWorkers(context),
           },
           on: {
             ALL_WORKERS_HEALTHY: {
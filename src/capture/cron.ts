@@ -0,0 +1,152 @@
+/**
+ * Cron
+ *
+ * スケジュールの `cron` 式を読み、次の実行時刻を求める。外部依存を増やさない
+ * ための最小実装で、扱うのは 5 フィールド(分 時 日 月 曜日)の
+ * `*`・数値・範囲 `a-b`・間隔(`*` や範囲の後ろに `/n`)と、それらの
+ * カンマ区切りだけ。
+ * `MON` / `JAN` のような名前、`@daily` のような略記、秒フィールドは無い。
+ *
+ * 時刻はすべて **UTC** で解釈する。サーバをどのタイムゾーンで動かしても
+ * 同じ式が同じ時刻を指すように。
+ *
+ * 日と曜日の両方が `*` 以外なら、伝統的な cron と同じく**どちらか一方**に
+ * 合った日に走る(`0 0 1 * 1` は「毎月 1 日」と「毎週月曜」)。
+ */
+import { err, ok, type Result } from "../result.js";
+
+export interface CronExpression {
+  minutes: ReadonlySet<number>;
+  hours: ReadonlySet<number>;
+  days: ReadonlySet<number>;
+  months: ReadonlySet<number>;
+  /** 0 = Sunday. A `7` in the expression is folded into `0`. */
+  weekdays: ReadonlySet<number>;
+  /** Whether the day-of-month field was anything but `*`. */
+  daysRestricted: boolean;
+  /** Whether the day-of-week field was anything but `*`. */
+  weekdaysRestricted: boolean;
+}
+
+interface FieldRange {
+  name: string;
+  min: number;
+  max: number;
+}
+
+const FIELDS: FieldRange[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+];
+
+const MINUTE_MS = 60_000;
+
+/**
+ * Days searched for a match before {@link nextCronRun} gives up. Covers the
+ * eight years between two February 29ths across a skipped leap year.
+ */
+const SEARCH_DAYS = 366 * 8;
+
+const parseNumber = (text: string, field: FieldRange): Result<number, string> => {
+  if (!/^[0-9]+$/.test(text)) return err(`${field.name}: "${text}" is not a number`);
+  const value = Number(text);
+  if (value < field.min || value > field.max) {
+    return err(`${field.name}: ${text} is outside ${String(field.min)}-${String(field.max)}`);
+  }
+  return ok(value);
+};
+
+const parseField = (text: string, field: FieldRange): Result<Set<number>, string> => {
+  const values = new Set<number>();
+  for (const part of text.split(",")) {
+    const [range = "", stepText] = part.split("/");
+    let step = 1;
+    if (stepText !== undefined) {
+      if (!/^[0-9]+$/.test(stepText) || Number(stepText) === 0) {
+        return err(`${field.name}: "${stepText}" is not a positive step`);
+      }
+      step = Number(stepText);
+    }
+    let from = field.min;
+    let to = field.max;
+    if (range !== "*") {
+      const [fromText = "", toText] = range.split("-");
+      const start = parseNumber(fromText, field);
+      if (!start.ok) return start;
+      from = start.value;
+      // `5/15` reads as "from 5, every 15", as in common cron implementations.
+      to = stepText === undefined ? from : field.max;
+      if (toText !== undefined) {
+        const end = parseNumber(toText, field);
+        if (!end.ok) return end;
+        if (end.value < from) return err(`${field.name}: range ${range} runs backwards`);
+        to = end.value;
+      }
+    }
+    for (let value = from; value <= to; value += step) values.add(value);
+  }
+  return ok(values);
+};
+
+/** Parse a five-field cron expression. */
+export const parseCron = (expression: string): Result<CronExpression, string> => {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    return err(
+      `cron expression needs ${String(FIELDS.length)} fields (minute hour day month weekday), got ${String(parts.length)}`,
+    );
+  }
+  const sets: Set<number>[] = [];
+  for (const [index, field] of FIELDS.entries()) {
+    const parsed = parseField(parts[index] ?? "", field);
+    if (!parsed.ok) return parsed;
+    sets.push(parsed.value);
+  }
+  const none = new Set<number>();
+  const [minutes = none, hours = none, days = none, months = none, weekdays = none] = sets;
+  if (weekdays.delete(7)) weekdays.add(0);
+  return ok({
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    daysRestricted: parts[2] !== "*",
+    weekdaysRestricted: parts[4] !== "*",
+  });
+};
+
+const matchesDay = (cron: CronExpression, date: Date): boolean => {
+  const dayMatch = cron.days.has(date.getUTCDate());
+  const weekdayMatch = cron.weekdays.has(date.getUTCDay());
+  if (cron.daysRestricted && cron.weekdaysRestricted) return dayMatch || weekdayMatch;
+  return dayMatch && weekdayMatch;
+};
+
+/**
+ * The first minute strictly after `after` (epoch ms) that `cron` matches, or
+ * `undefined` when it matches none — `0 0 31 2 *`, say.
+ */
+export const nextCronRun = (cron: CronExpression, after: number): number | undefined => {
+  const date = new Date(Math.floor(after / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+  const limit = after + SEARCH_DAYS * 24 * 60 * MINUTE_MS;
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return date.getTime();
+    }
+  }
+  return undefined;
+};
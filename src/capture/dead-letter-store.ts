@@ -0,0 +1,117 @@
+/**
+ * Dead-Letter Store
+ *
+ * リトライ枠を使い切って諦めたタスクの、最後の `CaptureResult`(元の
+ * `CaptureTask` を含む)を直近 N 件だけ保持する `CaptureResultSink`。
+ * `GET /v1/failed` で一覧し、`POST /v1/failed/{taskId}:retry` で
+ * キューへ戻す。
+ *
+ * `InMemoryResultStore` と同じく**原本ではない** — 失敗の耐久的な記録は
+ * `.result.json` マニフェストのほう。ここは「いま手で直して流し直したい
+ * 失敗」を、バケットを grep せずに探すための窓口で、溢れた分や再起動前の
+ * 分はマニフェストから拾う。
+ *
+ * 成功と `cancelled` は入らない。後者はクライアント自身が止めたもので、
+ * 流し直す対象ではない。
+ *
+ * 一覧は新しい順。ページ送りのカーソルはエントリごとに振る単調増加の
+ * 連番なので、ページの間に追い出しや再投入でエントリが消えても、
+ * 次のページがずれたり重複したりしない。
+ *
+ * @glossary DeadLetterStore
+ * @category コンポーネント
+ */
+import type { ErrorType } from "./error-type.js";
+import { captureStatus } from "./capture-status.js";
+import type { CaptureResultSink } from "./result-sink.js";
+import type { CaptureResult } from "./types.js";
+
+export interface DeadLetterQuery {
+  /** Only failures of this type. */
+  errorType?: ErrorType;
+  /** Only tasks whose URL host is this host or one of its subdomains. */
+  host?: string;
+  /** `nextCursor` of the previous page; absent starts from the newest. */
+  cursor?: string;
+  limit: number;
+}
+
+export interface DeadLetterPage {
+  results: CaptureResult[];
+  /** Present when more matching entries follow this page. */
+  nextCursor?: string;
+}
+
+interface DeadLetter {
+  seq: number;
+  host: string;
+  result: CaptureResult;
+}
+
+const hostOf = (url: string): string =>
+  URL.canParse(url) ? new URL(url).hostname.toLowerCase() : "";
+
+const matchesHost = (host: string, wanted: string): boolean =>
+  host === wanted || host.endsWith(`.${wanted}`);
+
+export class DeadLetterStore implements CaptureResultSink {
+  private readonly letters = new Map<string, DeadLetter>();
+  private readonly capacity: number;
+  private nextSeq = 1;
+
+  /**
+   * @param capacity 保持する最大件数。1 未満は「保持しない」として扱う。
+   */
+  constructor(capacity: number) {
+    this.capacity = capacity;
+  }
+
+  record(result: CaptureResult): void {
+    if (this.capacity < 1) return;
+    if (result.status === captureStatus.success || result.status === captureStatus.cancelled) {
+      return;
+    }
+    const taskId = result.task.taskId;
+    // Re-recorded ids move to the newest end, so the cursor order holds.
+    this.letters.delete(taskId);
+    this.letters.set(taskId, { seq: this.nextSeq++, host: hostOf(result.task.url), result });
+    if (this.letters.size > this.capacity) {
+      const oldest = this.letters.keys().next();
+      if (!oldest.done) this.letters.delete(oldest.value);
+    }
+  }
+
+  get(taskId: string): CaptureResult | undefined {
+    return this.letters.get(taskId)?.result;
+  }
+
+  /** Forget a task — it was re-enqueued. */
+  delete(taskId: string): boolean {
+    return this.letters.delete(taskId);
+  }
+
+  /** Newest first. The cursor is opaque to callers; a malformed one starts over. */
+  list(query: DeadLetterQuery): DeadLetterPage {
+    const before = query.cursor !== undefined && /^[0-9]+$/.test(query.cursor)
+      ? Number(query.cursor)
+      : Number.POSITIVE_INFINITY;
+    const host = query.host?.toLowerCase().replace(/\.$/, "");
+    const matching = [...this.letters.values()].reverse().filter(
+      (letter) =>
+        letter.seq < before &&
+        (query.errorType === undefined ||
+          (letter.result.errorDetails?.type ?? "internal") === query.errorType) &&
+        (host === undefined || matchesHost(letter.host, host)),
+    );
+    const page = matching.slice(0, query.limit);
+    const last = page.at(-1);
+    return {
+      results: page.map((letter) => letter.result),
+      ...(matching.length > page.length && last && { nextCursor: String(last.seq) }),
+    };
+  }
+
+  get size(): number {
+    return this.letters.size;
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * Device Presets
+ *
+ * Named bundles of everything that makes a browser look like a given phone or
+ * tablet: viewport, device pixel ratio, `isMobile`, touch, user agent and the
+ * client hints that go with it. Setting these one by one per request is easy
+ * to get half right — a phone user agent on a desktop-sized, non-touch page is
+ * a combination no real device produces, and sites that check more than one of
+ * them serve something nobody would see.
+ *
+ * A request names a preset (`device: "pixel-8"`); the request mapper looks it
+ * up in `CaptureConfig.devicePresets` and resolves it onto the task, so the
+ * capture layer never sees a name it has to look up. The server ships
+ * {@link BUILTIN_DEVICE_PRESETS}; `--device-presets <file>` adds to them or
+ * replaces them by name.
+ *
+ * Touch is applied through `page.setViewport({ hasTouch })`, which is
+ * puppeteer's wrapper around `Emulation.setTouchEmulationEnabled`.
+ */
+import { readFileSync } from "node:fs";
+import type { Protocol } from "puppeteer";
+import { err, ok, type Result } from "../result.js";
+
+/** Names a request can use, and a preset file may define. */
+export const DEVICE_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export interface DevicePreset {
+  viewport: { width: number; height: number };
+  deviceScaleFactor: number;
+  /** `isMobile`: the mobile viewport meta tag is honoured and the page is laid out as on a phone. */
+  mobile: boolean;
+  hasTouch: boolean;
+  userAgent: string;
+  /** `navigator.platform`. Browser default when absent. */
+  platform?: string;
+  /**
+   * Client hints — `Sec-CH-UA-*` and `navigator.userAgentData`. Absent for
+   * devices whose browser sends none (Safari); Chromium then sends none
+   * either while the user agent is overridden.
+   */
+  userAgentMetadata?: Protocol.Emulation.UserAgentMetadata;
+}
+
+/**
+ * What of a preset stays on the task once the mapper has resolved it. The
+ * viewport and device pixel ratio go to `task.viewport` /
+ * `task.deviceScaleFactor`, where a request's own values can still win.
+ */
+export interface DeviceEmulation {
+  /** The preset's name, for the log and the archive. */
+  name: string;
+  mobile: boolean;
+  hasTouch: boolean;
+  userAgent: string;
+  platform?: string;
+  userAgentMetadata?: Protocol.Emulation.UserAgentMetadata;
+}
+
+const CHROME_BRANDS: Protocol.Emulation.UserAgentBrandVersion[] = [
+  { brand: "Chromium", version: "120" },
+  { brand: "Google Chrome", version: "120" },
+  { brand: "Not_A Brand", version: "8" },
+];
+
+/**
+ * Shipped presets. Sizes are CSS pixels in portrait. The Android user agent
+ * and its brands name the same Chrome version, so the header and the hints
+ * agree with each other even though neither matches the real browser.
+ */
+export const BUILTIN_DEVICE_PRESETS: Readonly<Record<string, DevicePreset>> = {
+  "iphone-15": {
+    viewport: { width: 393, height: 852 },
+    deviceScaleFactor: 3,
+    mobile: true,
+    hasTouch: true,
+    userAgent:
+      "Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1",
+    platform: "iPhone",
+  },
+  "pixel-8": {
+    viewport: { width: 412, height: 915 },
+    deviceScaleFactor: 2.625,
+    mobile: true,
+    hasTouch: true,
+    userAgent:
+      "Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36",
+    platform: "Linux armv81",
+    userAgentMetadata: {
+      brands: CHROME_BRANDS,
+      platform: "Android",
+      platformVersion: "14.0.0",
+      architecture: "",
+      model: "Pixel 8",
+      mobile: true,
+    },
+  },
+  ipad: {
+    viewport: { width: 820, height: 1180 },
+    deviceScaleFactor: 2,
+    mobile: true,
+    hasTouch: true,
+    userAgent:
+      "Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1",
+    platform: "iPad",
+  },
+};
+
+/** Strip a preset down to what the task carries. */
+export const toDeviceEmulation = (name: string, preset: DevicePreset): DeviceEmulation => ({
+  name,
+  mobile: preset.mobile,
+  hasTouch: preset.hasTouch,
+  userAgent: preset.userAgent,
+  ...(preset.platform !== undefined && { platform: preset.platform }),
+  ...(preset.userAgentMetadata !== undefined && {
+    userAgentMetadata: preset.userAgentMetadata,
+  }),
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isPositive = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0;
+
+const parsePreset = (name: string, value: unknown): Result<DevicePreset, string> => {
+  if (!isObject(value)) return err(`${name}: must be an object`);
+  const { viewport, deviceScaleFactor, mobile, hasTouch, userAgent, platform, userAgentMetadata } =
+    value;
+  if (
+    !isObject(viewport) ||
+    !Number.isInteger(viewport["width"]) ||
+    !Number.isInteger(viewport["height"]) ||
+    !isPositive(viewport["width"]) ||
+    !isPositive(viewport["height"])
+  ) {
+    return err(`${name}: viewport needs positive integer width and height`);
+  }
+  if (!isPositive(deviceScaleFactor)) {
+    return err(`${name}: deviceScaleFactor must be a positive number`);
+  }
+  if (typeof mobile !== "boolean" || typeof hasTouch !== "boolean") {
+    return err(`${name}: mobile and hasTouch must be booleans`);
+  }
+  if (typeof userAgent !== "string" || userAgent === "") {
+    return err(`${name}: userAgent is required`);
+  }
+  if (platform !== undefined && typeof platform !== "string") {
+    return err(`${name}: platform must be a string`);
+  }
+  // Passed to CDP as is; Chromium refuses a malformed one on first use.
+  if (
+    userAgentMetadata !== undefined &&
+    (!isObject(userAgentMetadata) || typeof userAgentMetadata["platform"] !== "string")
+  ) {
+    return err(`${name}: userAgentMetadata must be an object with at least platform`);
+  }
+  return ok({
+    viewport: { width: viewport["width"], height: viewport["height"] },
+    deviceScaleFactor,
+    mobile,
+    hasTouch,
+    userAgent,
+    ...(platform !== undefined && { platform }),
+    ...(userAgentMetadata !== undefined && {
+      userAgentMetadata: userAgentMetadata as unknown as Protocol.Emulation.UserAgentMetadata,
+    }),
+  });
+};
+
+/**
+ * Parse a preset file: a JSON object of name → preset. Every entry is checked
+ * and the first problem is reported, so a typo stops the server at startup
+ * rather than surfacing as an odd capture later.
+ */
+export const parseDevicePresets = (
+  content: string,
+): Result<Record<string, DevicePreset>, string> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    return err(`not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!isObject(parsed)) return err("must be a JSON object of name → preset");
+  const presets: Record<string, DevicePreset> = {};
+  for (const [name, value] of Object.entries(parsed)) {
+    if (!DEVICE_NAME_PATTERN.test(name)) {
+      return err(`invalid preset name "${name}" (letters, digits, - and _, up to 64)`);
+    }
+    const preset = parsePreset(name, value);
+    if (!preset.ok) return preset;
+    presets[name] = preset.value;
+  }
+  return ok(presets);
+};
+
+/** Read and parse a preset file. */
+export const loadDevicePresets = (path: string): Result<Record<string, DevicePreset>, string> => {
+  let content: string;
+  try {
+    content = readFileSync(path, "utf-8");
+  } catch (error) {
+    return err(error instanceof Error ? error.message : String(error));
+  }
+  return parseDevicePresets(content);
+};
@@ -0,0 +1,402 @@
+/**
+ * Diagnostics Recorder
+ *
+ * `diagnostics` 形式のために、キャプチャ中にページが出した「壊れている兆候」を
+ * CDP から集める。対象は 5 種類:
+ *
+ * - **console**: `Runtime.consoleAPICalled`(`console.*` の呼び出し)
+ * - **exceptions**: `Runtime.exceptionThrown`(捕まらなかった例外とスタック)
+ * - **log**: `Log.entryAdded`。`Log.startViolationsReport` で long task などの
+ *   violation も出させる。`network` ソースの行は `failedRequests` と重複する
+ *   ので載せない。
+ * - **failedRequests**: `Network.loadingFailed` と 4xx / 5xx の応答。ページ
+ *   自身が取り消したもの(`canceled`)は失敗ではないので除く。
+ * - **securityIssues**: `Audits.issueAdded` のうち CSP 違反と mixed content。
+ *
+ * BrowserHive 自身が書く `[bh]` トレース(`page-trace.ts` と behavior
+ * runtime)はページの出力ではないので、グループごと読み飛ばす。
+ *
+ * `NetworkRecorder` とは別の CDP セッションで動く。WACZ / HAR を頼まない
+ * キャプチャでもこれだけを付けられるように。種類ごとに
+ * {@link MAX_DIAGNOSTICS_PER_KIND} 件で打ち切るが、`counts` は打ち切った分も
+ * 数える。
+ */
+import type { CDPSession, Page, Protocol } from "puppeteer";
+import { TRACE_PREFIX } from "./page-trace.js";
+import { logger as rootLogger } from "../logger.js";
+
+export interface ConsoleDiagnostic {
+  /** ISO 8601. */
+  at: string;
+  /** `console` method as CDP names it: `log`, `warning`, `error`, `assert`, … */
+  level: string;
+  text: string;
+  url?: string;
+  line?: number;
+  column?: number;
+}
+
+export interface StackFrameDiagnostic {
+  functionName: string;
+  url: string;
+  line: number;
+  column: number;
+}
+
+export interface ExceptionDiagnostic {
+  at: string;
+  /** The error's own message when there is one, else CDP's summary line. */
+  message: string;
+  url?: string;
+  line: number;
+  column: number;
+  stack: StackFrameDiagnostic[];
+}
+
+export interface LogDiagnostic {
+  at: string;
+  /** `Log.LogEntry.source`: `violation`, `security`, `intervention`, … */
+  source: string;
+  level: string;
+  text: string;
+  url?: string;
+  line?: number;
+}
+
+export interface FailedRequestDiagnostic {
+  at: string;
+  url: string;
+  /** CDP `ResourceType` (`Script`, `Image`, `XHR`, …). */
+  resourceType?: string;
+  /** HTTP status, for a request that got an error response. */
+  status?: number;
+  /** `net::ERR_*`, for a request that got no response. */
+  errorText?: string;
+  blockedReason?: string;
+}
+
+export interface SecurityIssueDiagnostic {
+  at: string;
+  kind: "content-security-policy" | "mixed-content";
+  /** The resource that was blocked or loaded insecurely, when CDP names one. */
+  url?: string;
+  /** CSP: the violated directive. Mixed content: how the browser resolved it. */
+  detail: string;
+  /** CSP only: reported, not enforced. */
+  reportOnly?: boolean;
+  sourceUrl?: string;
+  line?: number;
+}
+
+/** Totals per kind, including entries beyond the per-kind cap. */
+export interface DiagnosticsCounts {
+  consoleErrors: number;
+  consoleWarnings: number;
+  consoleOther: number;
+  exceptions: number;
+  logEntries: number;
+  failedRequests: number;
+  securityIssues: number;
+}
+
+/** Shape of the JSON file written when `task.captureFormats.diagnostics` is true. */
+export interface DiagnosticsFile {
+  taskId: string;
+  url: string;
+  counts: DiagnosticsCounts;
+  console: ConsoleDiagnostic[];
+  exceptions: ExceptionDiagnostic[];
+  log: LogDiagnostic[];
+  failedRequests: FailedRequestDiagnostic[];
+  securityIssues: SecurityIssueDiagnostic[];
+}
+
+/** Entries kept per kind; a page logging in a loop must not fill the store. */
+export const MAX_DIAGNOSTICS_PER_KIND = 500;
+
+/**
+ * Thresholds for `Log.startViolationsReport`, in milliseconds. Chromium's
+ * DevTools defaults, so the file shows what the Console panel would.
+ */
+const VIOLATION_SETTINGS: Protocol.Log.ViolationSetting[] = [
+  { name: "longTask", threshold: 200 },
+  { name: "longLayout", threshold: 30 },
+  { name: "blockedEvent", threshold: 100 },
+  { name: "blockedParser", threshold: -1 },
+  { name: "handler", threshold: 150 },
+  { name: "recurringHandler", threshold: 50 },
+  { name: "discouragedAPIUse", threshold: -1 },
+];
+
+export const createEmptyDiagnosticsCounts = (): DiagnosticsCounts => ({
+  consoleErrors: 0,
+  consoleWarnings: 0,
+  consoleOther: 0,
+  exceptions: 0,
+  logEntries: 0,
+  failedRequests: 0,
+  securityIssues: 0,
+});
+
+/** One console argument as DevTools would print it. */
+const remoteObjectText = (arg: Protocol.Runtime.RemoteObject): string => {
+  if (arg.type === "string" && typeof arg.value === "string") return arg.value;
+  if (arg.unserializableValue !== undefined) return arg.unserializableValue;
+  if (arg.description !== undefined) return arg.description;
+  if (arg.value !== undefined) return JSON.stringify(arg.value);
+  return arg.type;
+};
+
+const topFrame = (
+  stackTrace: Protocol.Runtime.StackTrace | undefined,
+): Protocol.Runtime.CallFrame | undefined => stackTrace?.callFrames[0];
+
+/** Runtime timestamps are epoch milliseconds. */
+const isoFromEpochMs = (ms: number): string => new Date(ms).toISOString();
+
+interface PendingRequest {
+  url: string;
+  /** Epoch seconds at `requestWillBeSent`, paired with `timestamp` below. */
+  wallTime: number;
+  /** Monotonic seconds at `requestWillBeSent`. */
+  timestamp: number;
+}
+
+export class DiagnosticsRecorder {
+  private readonly counts = createEmptyDiagnosticsCounts();
+  private readonly consoleEntries: ConsoleDiagnostic[] = [];
+  private readonly exceptionEntries: ExceptionDiagnostic[] = [];
+  private readonly logEntries: LogDiagnostic[] = [];
+  private readonly failedRequestEntries: FailedRequestDiagnostic[] = [];
+  private readonly securityEntries: SecurityIssueDiagnostic[] = [];
+  private readonly requests = new Map<string, PendingRequest>();
+  private readonly logger = rootLogger.child({ component: "DiagnosticsRecorder" });
+  /** Depth of the `[bh]` console group being skipped; 0 outside one. */
+  private traceDepth = 0;
+  private session: CDPSession | null = null;
+  private started = false;
+  private stopped = false;
+
+  /**
+   * Inject a CDP session directly (test-only). Skips `page.createCDPSession`
+   * and the domain `enable` calls, which is what `start()` would otherwise do.
+   */
+  static async startWithSession(session: CDPSession): Promise<DiagnosticsRecorder> {
+    const recorder = new DiagnosticsRecorder();
+    await recorder.attachSession(session, /* enableDomains */ false);
+    return recorder;
+  }
+
+  async start(page: Page): Promise<void> {
+    if (this.started) throw new Error("DiagnosticsRecorder already started");
+    const session = await page.createCDPSession();
+    await this.attachSession(session, /* enableDomains */ true);
+  }
+
+  private async attachSession(session: CDPSession, enableDomains: boolean): Promise<void> {
+    this.session = session;
+    this.started = true;
+
+    session.on("Runtime.consoleAPICalled", this.onConsoleApiCalled);
+    session.on("Runtime.exceptionThrown", this.onExceptionThrown);
+    session.on("Log.entryAdded", this.onLogEntryAdded);
+    session.on("Network.requestWillBeSent", this.onRequestWillBeSent);
+    session.on("Network.responseReceived", this.onResponseReceived);
+    session.on("Network.loadingFinished", this.onLoadingFinished);
+    session.on("Network.loadingFailed", this.onLoadingFailed);
+    session.on("Audits.issueAdded", this.onIssueAdded);
+
+    if (enableDomains) {
+      await session.send("Runtime.enable");
+      await session.send("Log.enable");
+      await session.send("Log.startViolationsReport", { config: VIOLATION_SETTINGS });
+      await session.send("Network.enable");
+      await session.send("Audits.enable");
+    }
+  }
+
+  /** Detach and hand back what was collected. */
+  async stop(taskId: string, url: string): Promise<DiagnosticsFile> {
+    if (this.stopped) throw new Error("DiagnosticsRecorder already stopped");
+    this.stopped = true;
+    if (this.session) {
+      try {
+        await this.session.detach();
+      } catch (err) {
+        this.logger.warn({ err }, "CDP session detach failed");
+      }
+      this.session = null;
+    }
+    this.requests.clear();
+    return {
+      taskId,
+      url,
+      counts: { ...this.counts },
+      console: this.consoleEntries,
+      exceptions: this.exceptionEntries,
+      log: this.logEntries,
+      failedRequests: this.failedRequestEntries,
+      securityIssues: this.securityEntries,
+    };
+  }
+
+  private keep<T>(entries: T[], entry: T): void {
+    if (entries.length < MAX_DIAGNOSTICS_PER_KIND) entries.push(entry);
+  }
+
+  // ─── Runtime / Log ───────────────────────────────────────────────────
+
+  private readonly onConsoleApiCalled = (
+    event: Protocol.Runtime.ConsoleAPICalledEvent,
+  ): void => {
+    const text = event.args.map(remoteObjectText).join(" ");
+    const opensGroup = event.type === "startGroup" || event.type === "startGroupCollapsed";
+    if (this.traceDepth > 0) {
+      if (opensGroup) this.traceDepth += 1;
+      if (event.type === "endGroup") this.traceDepth -= 1;
+      return;
+    }
+    if (opensGroup && text.startsWith(TRACE_PREFIX)) {
+      this.traceDepth = 1;
+      return;
+    }
+    if (event.type === "endGroup") return;
+
+    if (event.type === "error" || event.type === "assert") this.counts.consoleErrors += 1;
+    else if (event.type === "warning") this.counts.consoleWarnings += 1;
+    else this.counts.consoleOther += 1;
+
+    const frame = topFrame(event.stackTrace);
+    this.keep(this.consoleEntries, {
+      at: isoFromEpochMs(event.timestamp),
+      level: event.type,
+      text,
+      ...(frame !== undefined && {
+        url: frame.url,
+        line: frame.lineNumber + 1,
+        column: frame.columnNumber + 1,
+      }),
+    });
+  };
+
+  private readonly onExceptionThrown = (
+    event: Protocol.Runtime.ExceptionThrownEvent,
+  ): void => {
+    this.counts.exceptions += 1;
+    const details = event.exceptionDetails;
+    // `description` is "TypeError: x is undefined\n    at …"; its first line
+    // is the message a reader wants, the rest is `stack` below.
+    const description = details.exception?.description?.split("\n")[0];
+    this.keep(this.exceptionEntries, {
+      at: isoFromEpochMs(event.timestamp),
+      message: description ?? details.text,
+      ...(details.url !== undefined && { url: details.url }),
+      line: details.lineNumber + 1,
+      column: details.columnNumber + 1,
+      stack: (details.stackTrace?.callFrames ?? []).map((frame) => ({
+        functionName: frame.functionName,
+        url: frame.url,
+        line: frame.lineNumber + 1,
+        column: frame.columnNumber + 1,
+      })),
+    });
+  };
+
+  private readonly onLogEntryAdded = (event: Protocol.Log.EntryAddedEvent): void => {
+    const { entry } = event;
+    if (entry.source === "network") return;
+    this.counts.logEntries += 1;
+    this.keep(this.logEntries, {
+      at: isoFromEpochMs(entry.timestamp),
+      source: entry.source,
+      level: entry.level,
+      text: entry.text,
+      ...(entry.url !== undefined && { url: entry.url }),
+      ...(entry.lineNumber !== undefined && { line: entry.lineNumber + 1 }),
+    });
+  };
+
+  // ─── Network ─────────────────────────────────────────────────────────
+
+  private readonly onRequestWillBeSent = (
+    event: Protocol.Network.RequestWillBeSentEvent,
+  ): void => {
+    this.requests.set(event.requestId, {
+      url: event.request.url,
+      wallTime: event.wallTime,
+      timestamp: event.timestamp,
+    });
+  };
+
+  /** Wall-clock time of a monotonic Network timestamp for `requestId`. */
+  private networkTime(requestId: string, timestamp: number): string {
+    const request = this.requests.get(requestId);
+    if (request === undefined) return new Date().toISOString();
+    return isoFromEpochMs((request.wallTime + (timestamp - request.timestamp)) * 1000);
+  }
+
+  private readonly onResponseReceived = (
+    event: Protocol.Network.ResponseReceivedEvent,
+  ): void => {
+    if (event.response.status < 400) return;
+    this.counts.failedRequests += 1;
+    this.keep(this.failedRequestEntries, {
+      at: this.networkTime(event.requestId, event.timestamp),
+      url: event.response.url,
+      resourceType: event.type,
+      status: event.response.status,
+    });
+  };
+
+  private readonly onLoadingFinished = (
+    event: Protocol.Network.LoadingFinishedEvent,
+  ): void => {
+    this.requests.delete(event.requestId);
+  };
+
+  private readonly onLoadingFailed = (event: Protocol.Network.LoadingFailedEvent): void => {
+    const request = this.requests.get(event.requestId);
+    if (event.canceled !== true) {
+      this.counts.failedRequests += 1;
+      this.keep(this.failedRequestEntries, {
+        at: this.networkTime(event.requestId, event.timestamp),
+        url: request?.url ?? "",
+        resourceType: event.type,
+        errorText: event.errorText,
+        ...(event.blockedReason !== undefined && { blockedReason: event.blockedReason }),
+      });
+    }
+    this.requests.delete(event.requestId);
+  };
+
+  // ─── Audits ──────────────────────────────────────────────────────────
+
+  private readonly onIssueAdded = (event: Protocol.Audits.IssueAddedEvent): void => {
+    const { details } = event.issue;
+    const at = new Date().toISOString();
+    const csp = details.contentSecurityPolicyIssueDetails;
+    const mixed = details.mixedContentIssueDetails;
+    if (csp !== undefined) {
+      this.counts.securityIssues += 1;
+      this.keep(this.securityEntries, {
+        at,
+        kind: "content-security-policy",
+        ...(csp.blockedURL !== undefined && { url: csp.blockedURL }),
+        detail: csp.violatedDirective,
+        reportOnly: csp.isReportOnly,
+        ...(csp.sourceCodeLocation !== undefined && {
+          sourceUrl: csp.sourceCodeLocation.url,
+          line: csp.sourceCodeLocation.lineNumber + 1,
+        }),
+      });
+    } else if (mixed !== undefined) {
+      this.counts.securityIssues += 1;
+      this.keep(this.securityEntries, {
+        at,
+        kind: "mixed-content",
+        url: mixed.insecureURL,
+        detail: mixed.resolutionStatus,
+      });
+    }
+  };
+}
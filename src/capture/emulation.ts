@@ -0,0 +1,235 @@
+/**
+ * Locale / Time Zone / Media / Geolocation Emulation
+ *
+ * `acceptLanguage` changes one request header and nothing else. `Intl`,
+ * `Date`, `navigator.language`, `prefers-color-scheme`,
+ * `prefers-reduced-motion` and `navigator.geolocation` keep answering for
+ * the worker's container, so a Japanese page comes back with UTC timestamps
+ * and only ever in light mode. `emulation` overrides those through the
+ * matching CDP `Emulation.*` calls.
+ *
+ * Same Spec → Options shape as the other per-request settings: the HTTP
+ * layer accepts an `EmulationSpec`, the request mapper checks and resolves
+ * it into `EmulationOptions`, and the capture layer applies it.
+ *
+ * Session scoping
+ * ---------------
+ * The overrides are sent on a CDP session of their own, opened for the task
+ * and kept until `resetPageState` clears them and detaches. Chromium keeps
+ * `Emulation.*` state per session, so this session is the only handle that
+ * can take them back off — a fresh one opened later would see nothing to
+ * clear. The geolocation permission is the exception: it is browser-wide,
+ * which is why it is reset explicitly rather than left to the detach.
+ */
+import type { CDPSession } from "puppeteer";
+import type { CapturePage } from "./capture-page.js";
+import { err, ok, type Result } from "../result.js";
+
+export interface GeolocationSpec {
+  latitude: number;
+  longitude: number;
+  /** Meters. */
+  accuracy?: number;
+}
+
+/**
+ * HTTP wire shape. Mirrors the OpenAPI `EmulationSpec` schema, which bounds
+ * every field; whether a locale or time zone exists is checked by
+ * `resolveEmulationSpec`.
+ */
+export interface EmulationSpec {
+  locale?: string;
+  timezoneId?: string;
+  colorScheme?: "light" | "dark" | "no-preference";
+  reducedMotion?: "reduce" | "no-preference";
+  geolocation?: GeolocationSpec;
+}
+
+/** Resolved options carried on the task as `emulation`. */
+export interface EmulationOptions {
+  /** Canonical form, e.g. `ja-JP` for `ja-jp`. */
+  locale?: string;
+  timezoneId?: string;
+  colorScheme?: "light" | "dark" | "no-preference";
+  reducedMotion?: "reduce" | "no-preference";
+  geolocation?: Required<GeolocationSpec>;
+}
+
+/**
+ * What `applyEmulation` left on the page, for `clearEmulation` to take off
+ * again. Opaque outside this module and `page-capturer`.
+ */
+export interface AppliedEmulation {
+  session: CDPSession;
+  options: EmulationOptions;
+  /** `Page.addScriptToEvaluateOnNewDocument` handle for the `navigator.language` shim. */
+  languageScriptId?: string;
+  /**
+   * The page's browser context, when it is not the default one. Permissions
+   * are granted per context, and without it they would go to the default
+   * context rather than the page's.
+   */
+  browserContextId?: string;
+}
+
+/**
+ * Check what the schema cannot: that the locale parses as BCP 47 and the
+ * time zone is one ICU knows. Chromium would refuse both only once the task
+ * is running, as a failed capture rather than a 400.
+ */
+export const resolveEmulationSpec = (spec: EmulationSpec): Result<EmulationOptions, string> => {
+  let locale: string | undefined;
+  if (spec.locale !== undefined) {
+    try {
+      locale = Intl.getCanonicalLocales(spec.locale)[0];
+    } catch {
+      return err(`emulation.locale: "${spec.locale}" is not a BCP 47 language tag`);
+    }
+  }
+  if (spec.timezoneId !== undefined) {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: spec.timezoneId });
+    } catch {
+      return err(`emulation.timezoneId: unknown time zone "${spec.timezoneId}"`);
+    }
+  }
+  return ok({
+    ...(locale !== undefined && { locale }),
+    ...(spec.timezoneId !== undefined && { timezoneId: spec.timezoneId }),
+    ...(spec.colorScheme !== undefined && { colorScheme: spec.colorScheme }),
+    ...(spec.reducedMotion !== undefined && { reducedMotion: spec.reducedMotion }),
+    ...(spec.geolocation !== undefined && {
+      geolocation: {
+        latitude: spec.geolocation.latitude,
+        longitude: spec.geolocation.longitude,
+        accuracy: spec.geolocation.accuracy ?? 0,
+      },
+    }),
+  });
+};
+
+/**
+ * `Emulation.setLocaleOverride` moves `Intl` and the `toLocale*String`
+ * family but not `navigator.language`, which Chromium takes from its
+ * accept-languages preference. That preference is only reachable through
+ * the user-agent override, which the device preset and `--user-agent`
+ * already own, so the two getters are replaced instead.
+ */
+const languageShim = (locale: string): string => `(() => {
+  const languages = Object.freeze([${JSON.stringify(locale)}]);
+  Object.defineProperty(Navigator.prototype, "language", { get: () => languages[0], configurable: true });
+  Object.defineProperty(Navigator.prototype, "languages", { get: () => languages, configurable: true });
+})();`;
+
+const mediaFeatures = (
+  options: EmulationOptions,
+): { name: string; value: string }[] => [
+  ...(options.colorScheme !== undefined
+    ? [{ name: "prefers-color-scheme", value: options.colorScheme }]
+    : []),
+  ...(options.reducedMotion !== undefined
+    ? [{ name: "prefers-reduced-motion", value: options.reducedMotion }]
+    : []),
+];
+
+/**
+ * Apply `options` before navigation. On failure whatever was already
+ * applied is cleared again, so the caller has nothing to clean up.
+ * `browserContextId` is the page's context, undefined for the default one.
+ */
+export const applyEmulation = async (
+  page: CapturePage,
+  options: EmulationOptions,
+  browserContextId?: string,
+): Promise<AppliedEmulation> => {
+  const applied: AppliedEmulation = {
+    session: await page.createCDPSession(),
+    options,
+    ...(browserContextId !== undefined && { browserContextId }),
+  };
+  const { session } = applied;
+  try {
+    if (options.locale !== undefined) {
+      await session.send("Emulation.setLocaleOverride", { locale: options.locale });
+      // Scripts are registered with the session's page agent, which only
+      // runs them once enabled.
+      await session.send("Page.enable");
+      const { identifier } = await session.send("Page.addScriptToEvaluateOnNewDocument", {
+        source: languageShim(options.locale),
+      });
+      applied.languageScriptId = identifier;
+    }
+    if (options.timezoneId !== undefined) {
+      await session.send("Emulation.setTimezoneOverride", { timezoneId: options.timezoneId });
+    }
+    const features = mediaFeatures(options);
+    if (features.length > 0) {
+      await session.send("Emulation.setEmulatedMedia", { features });
+    }
+    if (options.geolocation !== undefined) {
+      // Without the permission the page gets a prompt, which headless
+      // Chromium denies — the override would never be read.
+      await session.send("Browser.grantPermissions", {
+        permissions: ["geolocation"],
+        ...(browserContextId !== undefined && { browserContextId }),
+      });
+      await session.send("Emulation.setGeolocationOverride", options.geolocation);
+    }
+  } catch (error) {
+    await clearEmulation(applied).catch(() => undefined);
+    throw error;
+  }
+  return applied;
+};
+
+/**
+ * Take every override `applyEmulation` set back off, then detach its
+ * session. Explicit rather than left to the detach, which would not reach
+ * the context-wide permission and is Chromium's behaviour rather than the
+ * protocol's promise.
+ */
+export const clearEmulation = async ({
+  session,
+  options,
+  languageScriptId,
+  browserContextId,
+}: AppliedEmulation): Promise<void> => {
+  try {
+    if (options.locale !== undefined) {
+      await session.send("Emulation.setLocaleOverride", {});
+    }
+    if (languageScriptId !== undefined) {
+      await session.send("Page.removeScriptToEvaluateOnNewDocument", {
+        identifier: languageScriptId,
+      });
+    }
+    if (options.timezoneId !== undefined) {
+      await session.send("Emulation.setTimezoneOverride", { timezoneId: "" });
+    }
+    if (mediaFeatures(options).length > 0) {
+      await session.send("Emulation.setEmulatedMedia", { features: [] });
+    }
+    if (options.geolocation !== undefined) {
+      await session.send("Emulation.clearGeolocationOverride");
+      await (browserContextId === undefined
+        ? session.send("Browser.resetPermissions")
+        : session.send("Browser.resetPermissions", { browserContextId }));
+    }
+  } finally {
+    await session.detach();
+  }
+};
+
+/** One line for the trace, e.g. `locale=ja-JP timezone=Asia/Tokyo`. */
+export const describeEmulation = (options: EmulationOptions): string =>
+  [
+    ...(options.locale !== undefined ? [`locale=${options.locale}`] : []),
+    ...(options.timezoneId !== undefined ? [`timezone=${options.timezoneId}`] : []),
+    ...(options.colorScheme !== undefined ? [`color-scheme=${options.colorScheme}`] : []),
+    ...(options.reducedMotion !== undefined ? [`reduced-motion=${options.reducedMotion}`] : []),
+    ...(options.geolocation !== undefined
+      ? [
+          `geolocation=${String(options.geolocation.latitude)},${String(options.geolocation.longitude)}`,
+        ]
+      : []),
+  ].join(" ");
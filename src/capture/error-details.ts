@@ -4,6 +4,10 @@
  * Utility functions for constructing ErrorDetails objects, plus the
  * `TimeoutError` class thrown by `withTimeout` (`page-capturer.ts`).
  *
+ * `CancelledError` is its counterpart for a task withdrawn by the client: the
+ * capture pipeline catches it itself and reports `cancelled`, so it is never
+ * classified here.
+ *
  * `TimeoutError` carries `operation` and `timeoutMs` as typed fields so
  * downstream classification (`errorDetailsFromException`) can identify it
  * via `instanceof` rather than message-string heuristics. The `message`
@@ -52,6 +56,16 @@ export class TimeoutError extends Error {
   }
 }
 
+export class CancelledError extends Error {
+  readonly taskId: string;
+
+  constructor(taskId: string) {
+    super(`Cancelled: task ${taskId} was withdrawn by the client`);
+    this.name = "CancelledError";
+    this.taskId = taskId;
+  }
+}
+
 /**
  * Standard HTTP status text mapping
  * Used as fallback when HTTP/2 doesn't provide status text
@@ -0,0 +1,226 @@
+/**
+ * HAR
+ *
+ * HAR 1.2 (http://www.softwareishard.com/blog/har-12-spec/) の型と、
+ * `NetworkRecorder` が見た CDP イベントを HAR のエントリに変換する関数群。
+ * WARC と同じイベント・同じ本文から作るので、両方を頼んだキャプチャでは
+ * 2 つのファイルが同じ通信を指す。
+ *
+ * CDP と HAR の対応で迷う所だけ書いておく:
+ *
+ * - **timings** は `Network.Response.timing`(`requestTime` 秒 + 各フェーズの
+ *   ミリ秒オフセット)から区間に直す。`ssl` は HAR の定義どおり `connect` に
+ *   含まれ、`time` の合計には足さない。timing の無い応答(キャッシュ・
+ *   `data:` URL)は `send` / `wait` を 0 にし、経過時間をすべて `receive` に置く。
+ * - **リダイレクト**は CDP では同じ `requestId` の続きだが、HAR では 1 ホップ
+ *   1 エントリ。各ホップの `response.redirectURL` に次の URL が入る。
+ * - **失敗したリクエスト**(`loadingFailed`)は `status: 0` と `_error` で残す。
+ *   ブロックリストで落としたものはブラウザが送っていないので載せない。
+ * - **本文**は `includeBodies` のときだけ `content.text` に入る。取得の可否は
+ *   WARC と同じ `RecordingLimits` で決まり、落とした本文は `content.comment`
+ *   に理由が書かれる。
+ */
+import type { Protocol } from "puppeteer";
+
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarPage {
+  startedDateTime: string;
+  id: string;
+  title: string;
+  /** Milliseconds from `startedDateTime`; `-1` when the event was not seen. */
+  pageTimings: { onContentLoad: number; onLoad: number };
+}
+
+export interface HarRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  queryString: HarNameValue[];
+  postData?: { mimeType: string; text: string };
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface HarContent {
+  size: number;
+  mimeType: string;
+  text?: string;
+  encoding?: "base64";
+  comment?: string;
+}
+
+export interface HarResponse {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  content: HarContent;
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+  /** `Network.loadingFailed`'s `errorText`, for requests that got no response. */
+  _error?: string;
+}
+
+export interface HarTimings {
+  blocked: number;
+  dns: number;
+  connect: number;
+  send: number;
+  wait: number;
+  receive: number;
+  ssl: number;
+}
+
+export interface HarEntry {
+  pageref?: string;
+  startedDateTime: string;
+  time: number;
+  request: HarRequest;
+  response: HarResponse;
+  cache: Record<string, never>;
+  timings: HarTimings;
+  serverIPAddress?: string;
+  /** CDP `ResourceType` (`Document`, `Script`, `XHR`, …). */
+  _resourceType?: string;
+}
+
+export interface HarLog {
+  log: {
+    version: "1.2";
+    creator: { name: string; version: string };
+    pages: HarPage[];
+    entries: HarEntry[];
+  };
+}
+
+/** What `NetworkRecorder.stop` hands back for `buildHarLog`. */
+export interface RecordedHar {
+  pages: HarPage[];
+  entries: HarEntry[];
+}
+
+/**
+ * HTTP wire shape. Mirrors the OpenAPI `HarSpec` schema; the request mapper
+ * resolves it into `HarOptions`.
+ */
+export interface HarSpec {
+  includeBodies?: boolean;
+}
+
+/** Resolved options carried on the task as `harOptions`. */
+export interface HarOptions {
+  /** Put response bodies in `content.text`. Off by default: HARs get shared. */
+  includeBodies: boolean;
+}
+
+export const resolveHarSpec = (spec: HarSpec | undefined): HarOptions => ({
+  includeBodies: spec?.includeBodies ?? false,
+});
+
+const round = (ms: number): number => Math.round(ms * 1000) / 1000;
+
+/** CDP header maps fold repeated headers into one value joined by `\n`. */
+export const toHarHeaders = (headers: Record<string, string>): HarNameValue[] =>
+  Object.entries(headers).flatMap(([name, value]) =>
+    value.split("\n").map((line) => ({ name, value: line })),
+  );
+
+export const toHarQueryString = (url: string): HarNameValue[] => {
+  try {
+    return [...new URL(url).searchParams].map(([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Phase durations for one request.
+ *
+ * @param timing `Network.Response.timing`, absent for responses that never
+ *   went to the network.
+ * @param startedAt Monotonic seconds of `requestWillBeSent`; used only when
+ *   `timing` is absent.
+ * @param finishedAt Monotonic seconds at which the last byte arrived
+ *   (`loadingFinished`, or the next hop's `requestWillBeSent` for a redirect).
+ */
+export const harTimings = (
+  timing: Protocol.Network.ResourceTiming | undefined,
+  startedAt: number,
+  finishedAt: number,
+): { timings: HarTimings; time: number } => {
+  if (timing === undefined) {
+    const receive = round(Math.max(0, (finishedAt - startedAt) * 1000));
+    return {
+      timings: { blocked: -1, dns: -1, connect: -1, send: 0, wait: 0, receive, ssl: -1 },
+      time: receive,
+    };
+  }
+  const span = (start: number, end: number): number =>
+    start >= 0 && end >= start ? round(end - start) : -1;
+  const firstPhase = [timing.dnsStart, timing.connectStart, timing.sendStart].find(
+    (at) => at >= 0,
+  );
+  const blocked = firstPhase === undefined ? -1 : round(firstPhase);
+  const dns = span(timing.dnsStart, timing.dnsEnd);
+  const connect = span(timing.connectStart, timing.connectEnd);
+  const ssl = span(timing.sslStart, timing.sslEnd);
+  const send = Math.max(0, round(timing.sendEnd - timing.sendStart));
+  const wait = Math.max(0, round(timing.receiveHeadersEnd - timing.sendEnd));
+  const receive = Math.max(
+    0,
+    round((finishedAt - timing.requestTime) * 1000 - timing.receiveHeadersEnd),
+  );
+  const time = [blocked, dns, connect, send, wait, receive]
+    .filter((phase) => phase > 0)
+    .reduce((sum, phase) => sum + phase, 0);
+  return {
+    timings: { blocked, dns, connect, send, wait, receive, ssl },
+    time: round(time),
+  };
+};
+
+const TEXTUAL_MIME = /^(text\/|application\/(json|javascript|xml|x-www-form-urlencoded)|image\/svg\+xml)|\+(json|xml)$/;
+
+/** A body as HAR content: text for textual types, base64 otherwise. */
+export const toHarContent = (
+  mimeType: string,
+  body: Buffer | undefined,
+  size: number,
+  skipReason: string | undefined,
+): HarContent => {
+  const content: HarContent = { size, mimeType };
+  if (body !== undefined) {
+    if (TEXTUAL_MIME.test(mimeType.split(";")[0]?.trim() ?? "")) {
+      content.text = body.toString("utf-8");
+    } else {
+      content.text = body.toString("base64");
+      content.encoding = "base64";
+    }
+  } else if (skipReason !== undefined) {
+    content.comment = `body not recorded: ${skipReason}`;
+  }
+  return content;
+};
+
+/** Assemble the HAR document, entries in the order their requests started. */
+export const buildHarLog = (
+  recorded: RecordedHar,
+  creator: { name: string; version: string },
+): HarLog => ({
+  log: {
+    version: "1.2",
+    creator,
+    pages: recorded.pages,
+    entries: [...recorded.entries].sort((a, b) =>
+      a.startedDateTime.localeCompare(b.startedDateTime),
+    ),
+  },
+});
@@ -0,0 +1,152 @@
+/**
+ * Host Limiter
+ *
+ * サイト単位の礼儀(politeness)。N 台のワーカーが 1 本のキューを
+ * work-stealing すると、同じサイトの URL が並んだバッチはそのサイトへ
+ * N 並列で一斉に当たり、レート制限やブロックを食らう。これを
+ * `TaskQueue.dequeue` の時点で止める。
+ *
+ * - **同時実行数** — サイトごとに、全ワーカー合計で同時に持てるタスク数。
+ * - **開始間隔** — 同じサイトで、あるタスクの開始から次の開始までの最小時間。
+ *
+ * どちらかに引っかかったタスクはキューの**その場に残る**(後ろへ回さない)。
+ * 枠が空けば、次の `dequeue` で元の順番どおりに取られる。
+ *
+ * ## サイト = 登録可能ドメイン
+ *
+ * サイトが制限をかける単位は FQDN ではなくドメイン全体なので、
+ * `www.example.com` と `img.example.com` は同じ `example.com` として数える。
+ * Public Suffix List は持たず、末尾 2 ラベル(ccTLD の `co.jp` / `com.au`
+ * のような汎用の第 2 レベルなら 3 ラベル)で近似する。外れるのは
+ * `github.io` のような私設のサフィックスで、そこは別々のサイトが 1 つに
+ * まとめられる ― 礼儀正しすぎる側に倒れるだけで、サイトを叩きすぎはしない。
+ *
+ * @glossary HostLimiter
+ * @category コンポーネント
+ */
+import type { HostLimit, HostLimitsConfig } from "../config/index.js";
+import type { CaptureTask } from "./types.js";
+
+/**
+ * Second-level labels that ccTLD registries hand out under, like `co` in
+ * `example.co.jp`. Only consulted under a two-letter TLD.
+ */
+const GENERIC_SECOND_LEVEL = new Set(["ac", "co", "com", "ed", "edu", "go", "gov", "ne", "net", "or", "org"]);
+
+const isIpAddress = (host: string): boolean =>
+  host.includes(":") || /^[0-9.]+$/.test(host);
+
+/**
+ * The registrable domain `host` belongs to, approximated without a public
+ * suffix list. IP addresses and single-label hosts are their own site.
+ */
+export const registrableDomain = (host: string): string => {
+  const normalized = host.toLowerCase().replace(/\.$/, "");
+  if (isIpAddress(normalized)) return normalized;
+  const labels = normalized.split(".");
+  if (labels.length <= 2) return normalized;
+  const tld = labels.at(-1) ?? "";
+  const second = labels.at(-2) ?? "";
+  const keep = tld.length === 2 && GENERIC_SECOND_LEVEL.has(second) ? 3 : 2;
+  return labels.slice(-keep).join(".");
+};
+
+/** Sites being tracked before idle ones are swept out. */
+const SWEEP_FLOOR = 1024;
+
+interface SiteState {
+  active: number;
+  lastStartAt: number;
+}
+
+/**
+ * Admission and accounting for {@link HostLimitsConfig}. Owned by the
+ * `TaskQueue`, which asks before handing a task out and reports when the task
+ * leaves a worker.
+ */
+export class HostLimiter {
+  private readonly defaults: HostLimit;
+  private readonly overrides = new Map<string, Partial<HostLimit>>();
+  private readonly sites = new Map<string, SiteState>();
+  /** `URL` parsing is not free and `dequeue` may look at a task many times. */
+  private readonly siteOf = new WeakMap<CaptureTask, string>();
+  private sweepAt = SWEEP_FLOOR;
+
+  constructor(config: HostLimitsConfig) {
+    this.defaults = { maxConcurrency: config.maxConcurrency, minDelayMs: config.minDelayMs };
+    for (const [host, limit] of Object.entries(config.overrides)) {
+      this.overrides.set(registrableDomain(host), limit);
+    }
+  }
+
+  /** Whether no site can ever be held back — lets the queue skip the scan. */
+  get isUnlimited(): boolean {
+    if (this.defaults.maxConcurrency > 0 || this.defaults.minDelayMs > 0) return false;
+    for (const limit of this.overrides.values()) {
+      if ((limit.maxConcurrency ?? 0) > 0 || (limit.minDelayMs ?? 0) > 0) return false;
+    }
+    return true;
+  }
+
+  site(task: CaptureTask): string {
+    let site = this.siteOf.get(task);
+    if (site === undefined) {
+      // Requests are validated as URIs; a task that still does not parse is
+      // limited on its own.
+      site = URL.canParse(task.url) ? registrableDomain(new URL(task.url).hostname) : task.url;
+      this.siteOf.set(task, site);
+    }
+    return site;
+  }
+
+  /** Whether a task from `site` may start at `now`. */
+  admits(site: string, now: number): boolean {
+    const state = this.sites.get(site);
+    if (!state) return true;
+    const limit = this.limitFor(site);
+    if (limit.maxConcurrency > 0 && state.active >= limit.maxConcurrency) return false;
+    return now - state.lastStartAt >= limit.minDelayMs;
+  }
+
+  /** A worker took `task` at `now`. */
+  start(task: CaptureTask, now: number): void {
+    const site = this.site(task);
+    const state = this.sites.get(site);
+    if (state) {
+      state.active += 1;
+      state.lastStartAt = now;
+    } else {
+      this.sites.set(site, { active: 1, lastStartAt: now });
+    }
+    if (this.sites.size >= this.sweepAt) this.sweep(now);
+  }
+
+  /** `task` left its worker — finished, failed, or went back to the queue. */
+  finish(task: CaptureTask): void {
+    const state = this.sites.get(this.site(task));
+    if (state && state.active > 0) state.active -= 1;
+  }
+
+  /** Sites with tasks in flight, or started too recently to start again. */
+  get trackedSites(): number {
+    return this.sites.size;
+  }
+
+  private limitFor(site: string): HostLimit {
+    const override = this.overrides.get(site);
+    return override ? { ...this.defaults, ...override } : this.defaults;
+  }
+
+  /**
+   * Forget sites that would admit a task anyway: nothing in flight and the
+   * delay served. Without it every site ever captured stays in the map.
+   */
+  private sweep(now: number): void {
+    for (const [site, state] of this.sites) {
+      if (state.active === 0 && now - state.lastStartAt >= this.limitFor(site).minDelayMs) {
+        this.sites.delete(site);
+      }
+    }
+    this.sweepAt = Math.max(SWEEP_FLOOR, this.sites.size * 2);
+  }
+}
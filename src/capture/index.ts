@@ -9,7 +9,10 @@ export type {
   CurrentTaskInfo,
   ErrorTaskInfo,
   ErrorRecord,
+  NamedViewport,
+  ViewportScreenshots,
   WorkerInfo,
+  WorkerSlotInfo,
 } from "./types.js";
 
 // Capture Formats
@@ -37,6 +40,7 @@ export {
   createConnectionError,
   createInternalError,
   errorDetailsFromException,
+  CancelledError,
   TimeoutError,
 } from "./error-details.js";
 
@@ -100,12 +104,177 @@ export {
   resolveResetStateSpec,
 } from "./reset-state.js";
 
+// PDF spec
+export type { PdfMargins, PdfOptions, PdfPaperSize, PdfSpec } from "./pdf-options.js";
+export {
+  DEFAULT_PDF_OPTIONS,
+  PDF_PAPER_SIZES,
+  resolvePdfSpec,
+  toPrintToPdfParams,
+} from "./pdf-options.js";
+
+// HAR
+export type {
+  HarEntry,
+  HarLog,
+  HarOptions,
+  HarPage,
+  HarSpec,
+  RecordedHar,
+} from "./har.js";
+export { buildHarLog, harTimings, resolveHarSpec } from "./har.js";
+
+// Wait-for conditions
+export type {
+  ResolvedWaitForCondition,
+  WaitForCondition,
+  WaitForOptions,
+  WaitForOutcome,
+  WaitForReport,
+  WaitForSpec,
+} from "./wait-for.js";
+export {
+  DEFAULT_WAIT_FOR_TIMEOUT_MS,
+  describeWaitForCondition,
+  resolveWaitForSpec,
+  runWaitFor,
+} from "./wait-for.js";
+
+// Screenshot targets
+export type {
+  ScreenshotClip,
+  ScreenshotOptions,
+  ScreenshotSpec,
+  ScreenshotTarget,
+} from "./screenshot-options.js";
+export { DEFAULT_MAX_ELEMENTS, resolveScreenshotSpec } from "./screenshot-options.js";
+
+// Device presets
+export type { DeviceEmulation, DevicePreset } from "./device-presets.js";
+export {
+  BUILTIN_DEVICE_PRESETS,
+  DEVICE_NAME_PATTERN,
+  loadDevicePresets,
+  parseDevicePresets,
+  toDeviceEmulation,
+} from "./device-presets.js";
+
+// Locale / time zone / media / geolocation emulation
+export type {
+  AppliedEmulation,
+  EmulationOptions,
+  EmulationSpec,
+  GeolocationSpec,
+} from "./emulation.js";
+export {
+  applyEmulation,
+  clearEmulation,
+  describeEmulation,
+  resolveEmulationSpec,
+} from "./emulation.js";
+
+// Request-scoped cookies / headers / basic auth
+export type {
+  AppliedCredentials,
+  HttpAuth,
+  RedactedCredentials,
+  RequestCookie,
+  RequestCredentials,
+  RequestCredentialsSpec,
+} from "./request-credentials.js";
+export {
+  DEFAULT_REDACTED_HEADERS,
+  REDACTED,
+  describeCredentials,
+  installRequestCredentials,
+  redactCredentials,
+  redactedHeaderSet,
+  redactHeaders,
+  removeRequestCredentials,
+  resolveRequestCredentials,
+} from "./request-credentials.js";
+
+// Upstream proxies
+export type { ProxyDefinition, ResolvedProxy } from "./proxies.js";
+export {
+  PROXY_NAME_PATTERN,
+  loadProxies,
+  parseProxies,
+  resolveTaskProxy,
+} from "./proxies.js";
+
+// Page actions
+export type {
+  ActionOutcome,
+  ActionsReport,
+  ActionStatus,
+  PageAction,
+  ResolvedPageAction,
+} from "./page-actions.js";
+export {
+  DEFAULT_ACTION_TIMEOUT_MS,
+  describePageAction,
+  resolvePageActions,
+  runPageActions,
+} from "./page-actions.js";
+
+// Diagnostics
+export type {
+  ConsoleDiagnostic,
+  DiagnosticsCounts,
+  DiagnosticsFile,
+  ExceptionDiagnostic,
+  FailedRequestDiagnostic,
+  LogDiagnostic,
+  SecurityIssueDiagnostic,
+} from "./diagnostics-recorder.js";
+export { DiagnosticsRecorder, MAX_DIAGNOSTICS_PER_KIND } from "./diagnostics-recorder.js";
+
 // Classes
 export { BrowserClient } from "./browser-client.js";
 export { CaptureCoordinator } from "./capture-coordinator.js";
-export type { CoordinatorStatusReport } from "./capture-coordinator.js";
-export { TaskQueue } from "./task-queue.js";
-export type { TaskCounts } from "./task-queue.js";
+export type {
+  CancelOutcome,
+  CoordinatorStatusReport,
+  RedriveOutcome,
+} from "./capture-coordinator.js";
+export {
+  DEFAULT_QUEUE_NAME,
+  DEFAULT_QUEUE_WEIGHT,
+  DEFAULT_TASK_PRIORITY,
+  TaskQueue,
+} from "./task-queue.js";
+export type { QueueCounts, TaskCounts, TaskQueueOptions } from "./task-queue.js";
+export { HostLimiter, registrableDomain } from "./host-limiter.js";
+export { isRetryableFailure, retryDelayMs } from "./retry-policy.js";
+export { JournaledTaskQueue, QueueJournal } from "./queue-journal.js";
+export type { QueueJournalRecord, ReplayedQueue } from "./queue-journal.js";
+export { DeadLetterStore } from "./dead-letter-store.js";
+export type { DeadLetterPage, DeadLetterQuery } from "./dead-letter-store.js";
+export { Scheduler, SCHEDULE_FILE } from "./scheduler.js";
+export type { Schedule, ScheduleSpec, ScheduledEnqueue } from "./scheduler.js";
+export { nextCronRun, parseCron } from "./cron.js";
+export type { CronExpression } from "./cron.js";
+export { checkCallbackUrl, WebhookSink } from "./webhook-sink.js";
+export {
+  TaskEventLog,
+  matchesTaskEventFilter,
+  noopTaskEvents,
+} from "./task-events.js";
+export type {
+  RetryReason,
+  TaskEvent,
+  TaskEventEntry,
+  TaskEventFilter,
+  TaskEventPublisher,
+  TaskEventSubscriber,
+  TaskEventType,
+} from "./task-events.js";
+export type {
+  CaptureCallback,
+  WebhookDeliveryFailure,
+  WebhookDeliveryStats,
+} from "./webhook-sink.js";
 export { PageCapturer } from "./page-capturer.js";
 export {
   validateFilename,
@@ -126,6 +126,17 @@ export interface NetworkRecorderOptions {
   software: string;
   /** Optional task description for the warcinfo record. */
   description?: string;
+  /**
+   * Also build a HAR from the same events (see `har.ts`). `includeBodies`
+   * copies the bodies `limits` let through into the HAR as well.
+   */
+  har?: { includeBodies: boolean };
+  /**
+   * Lower-cased request header names whose values are replaced with
+   * `[REDACTED]` in the WARC request records and the HAR — set when the task
+   * carried request credentials. Response headers are left alone.
+   */
+  redactHeaders?: ReadonlySet<string>;
 }
 
 export const createEmptyRecordingStats = (): RecordingStats => ({
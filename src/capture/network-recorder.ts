@@ -34,7 +34,9 @@
  * The recorder always prefers the ExtraInfo headers when present
  * (regardless of arrival order), so the WARC always carries full Cookie /
  * Authorization / Set-Cookie data — the contract Phase 6 depends on for
- * faithful replay.
+ * faithful replay. The one exception is a task that brought its own
+ * credentials: `options.redactHeaders` then replaces the secret request
+ * header values, because those secrets are the client's, not the site's.
  *
  * Memory / size discipline
  * ------------------------
@@ -50,6 +52,13 @@
  *   3. `maxPendingRequests` — bound on the in-flight tracking map. Old
  *      entries are evicted by insertion order when exceeded.
  *
+ * HAR
+ * ---
+ * With `options.har` set, `recordPair` also appends a HAR entry built from
+ * the same snapshot and body (see `har.ts`), and top-level document loads
+ * open HAR pages. Nothing is fetched for the HAR that the WARC does not
+ * fetch anyway, so both obey the same `RecordingLimits`.
+ *
  * Failure / shutdown
  * ------------------
  * `stop()` drains in-flight entries as `metadata { incomplete: true }`
@@ -75,6 +84,7 @@ import {
 } from "../storage/warc/index.js";
 import { createHash } from "node:crypto";
 import { logger as rootLogger } from "../logger.js";
+import { redactHeaders } from "./request-credentials.js";
 import {
   createEmptyRecordingStats,
   pushSample,
@@ -84,6 +94,15 @@ import {
   type RecordedResponse,
   type RecordingStats,
 } from "./network-recorder-types.js";
+import {
+  harTimings,
+  toHarContent,
+  toHarHeaders,
+  toHarQueryString,
+  type HarEntry,
+  type HarPage,
+  type RecordedHar,
+} from "./har.js";
 
 // CDP types from puppeteer's Protocol namespace, narrowed to what we read.
 type RequestWillBeSentEvent = Protocol.Network.RequestWillBeSentEvent;
@@ -130,6 +149,14 @@ interface PendingRequest {
   enqueuedAt: number;
   /** ResourceType (Image / Script / XHR / Fetch …) from `requestWillBeSent.type`. Emitted into metadata records. */
   resourceType?: string;
+  /** Monotonic seconds of `requestWillBeSent`, the clock CDP timings use. HAR only. */
+  startedAt: number;
+  /** Epoch seconds of `requestWillBeSent`. HAR only. */
+  wallTime: number;
+  /** Monotonic seconds the last byte arrived. HAR only. */
+  finishedAt?: number;
+  /** HAR page the request belongs to. */
+  pageref?: string;
 }
 
 interface ResponseSnapshot {
@@ -142,6 +169,10 @@ interface ResponseSnapshot {
   headers: Record<string, string>;
   remoteIPAddress?: string;
   encodedDataLength?: number;
+  /** Phase offsets for the HAR `timings`. Absent for cache / `data:` responses. */
+  timing?: Protocol.Network.ResourceTiming;
+  /** For a redirect hop, where it sent the browser. */
+  redirectUrl?: string;
 }
 
 /**
@@ -348,6 +379,12 @@ export class NetworkRecorder {
   private readonly tls: ObservedTlsByHost = {};
   /** Chains keyed by their own hash. Filled at stop, not while recording. */
   private readonly tlsChains: CertificateChains = {};
+  private readonly harPages: HarPage[] = [];
+  private readonly harEntries: HarEntry[] = [];
+  /** Monotonic seconds the current HAR page started, for its `pageTimings`. */
+  private harPageStartedAt = 0;
+  /** Frame of the first document request; later documents in it start pages. */
+  private mainFrameId: string | undefined;
 
   constructor(options: NetworkRecorderOptions) {
     this.opts = options;
@@ -412,6 +449,10 @@ export class NetworkRecorder {
     );
     session.on("Network.loadingFinished", this.onLoadingFinished);
     session.on("Network.loadingFailed", this.onLoadingFailed);
+    if (this.opts.har) {
+      session.on("Page.domContentEventFired", this.onDomContentEventFired);
+      session.on("Page.loadEventFired", this.onLoadEventFired);
+    }
 
     if (enableNetwork) {
       await session.send("Network.enable", {
@@ -421,6 +462,8 @@ export class NetworkRecorder {
         maxResourceBufferSize: 50 * 1024 * 1024,
         maxTotalBufferSize: 500 * 1024 * 1024,
       });
+      // Page events reach a session only once it enables the domain itself.
+      if (this.opts.har) await session.send("Page.enable");
     }
   }
 
@@ -521,6 +564,8 @@ export class NetworkRecorder {
     tls: ObservedTlsByHost;
     /** The chains those hosts presented, deduplicated by content. */
     tlsChains: CertificateChains;
+    /** Pages and entries for `buildHarLog`, when `options.har` was set. */
+    har?: RecordedHar;
   }> {
     if (this.stopped) throw new Error("NetworkRecorder already stopped");
     this.stopped = true;
@@ -576,6 +621,9 @@ export class NetworkRecorder {
       responses: this.recordedResponses,
       tls: this.tls,
       tlsChains: this.tlsChains,
+      ...(this.opts.har && {
+        har: { pages: this.harPages, entries: this.harEntries },
+      }),
     };
   }
 
@@ -635,6 +683,8 @@ export class NetworkRecorder {
         blocked: true,
         skipBody: true,
         enqueuedAt: Date.now(),
+        startedAt: event.timestamp,
+        wallTime: event.wallTime,
         ...(event.type && { resourceType: event.type }),
       });
       return;
@@ -662,6 +712,9 @@ export class NetworkRecorder {
         if (r.remoteIPAddress !== undefined) {
           redirectSnap.remoteIPAddress = r.remoteIPAddress;
         }
+        if (r.timing !== undefined) redirectSnap.timing = r.timing;
+        redirectSnap.redirectUrl = request.url;
+        prev.finishedAt = event.timestamp;
         // Redirect records have no body — `getResponseBody` is unavailable
         // for the intermediate hop.
         this.recordPair(prev, redirectSnap, /* body */ undefined);
@@ -690,7 +743,28 @@ export class NetworkRecorder {
       skipBody: false,
       enqueuedAt: Date.now(),
       ...(event.type && { resourceType: event.type }),
+      startedAt: event.timestamp,
+      wallTime: event.wallTime,
     };
+    if (this.opts.har) {
+      // A top-level document load (not a redirect hop of one) opens a page.
+      if (
+        event.type === "Document" &&
+        event.redirectResponse === undefined &&
+        (this.mainFrameId === undefined || event.frameId === this.mainFrameId)
+      ) {
+        this.mainFrameId = event.frameId;
+        this.harPageStartedAt = event.timestamp;
+        this.harPages.push({
+          startedDateTime: new Date(event.wallTime * 1000).toISOString(),
+          id: `page_${String(this.harPages.length + 1)}`,
+          title: request.url,
+          pageTimings: { onContentLoad: -1, onLoad: -1 },
+        });
+      }
+      const page = this.harPages.at(-1);
+      if (page !== undefined) entry.pageref = page.id;
+    }
     // CDP exposes the same body via `postData` (deprecated string form) and
     // `postDataEntries` (preferred, base64). We accept the deprecated path
     // because the preferred one requires an extra `Network.getRequestPostData`
@@ -728,6 +802,7 @@ export class NetworkRecorder {
     if (event.response.remoteIPAddress !== undefined) {
       snap.remoteIPAddress = event.response.remoteIPAddress;
     }
+    if (event.response.timing !== undefined) snap.timing = event.response.timing;
     this.noteTls(event.response);
     entry.response = snap;
 
@@ -794,6 +869,7 @@ export class NetworkRecorder {
     // Carried to the metadata record, which otherwise has only the figure from
     // `responseReceived` — the headers alone, off by whatever the body weighed.
     entry.transferSize = declared;
+    entry.finishedAt = event.timestamp;
     if (
       declared > this.opts.limits.maxResponseBytes ||
       this.stats.totalBodyBytes >= this.opts.limits.maxTaskBytes
@@ -845,6 +921,10 @@ export class NetworkRecorder {
     this.pending.delete(event.requestId);
     if (entry.blocked) return;
     this.stats.totalFailed += 1;
+    if (this.opts.har) {
+      entry.finishedAt = event.timestamp;
+      this.harEntries.push(this.harEntry(entry, entry.response, undefined, event.errorText));
+    }
     this.enqueueRecord(
       // #region metadata-loadingfailed
       buildMetadataRecord({
@@ -864,8 +944,102 @@ export class NetworkRecorder {
     );
   };
 
+  private onDomContentEventFired = (
+    event: Protocol.Page.DomContentEventFiredEvent,
+  ): void => {
+    const page = this.harPages.at(-1);
+    if (page === undefined) return;
+    page.pageTimings.onContentLoad = Math.round((event.timestamp - this.harPageStartedAt) * 1000);
+  };
+
+  private onLoadEventFired = (event: Protocol.Page.LoadEventFiredEvent): void => {
+    const page = this.harPages.at(-1);
+    if (page === undefined) return;
+    page.pageTimings.onLoad = Math.round((event.timestamp - this.harPageStartedAt) * 1000);
+  };
+
   // ─── Record building (sync) ──────────────────────────────────────────
 
+  /**
+   * The request headers as recorded: the full ExtraInfo set when it arrived,
+   * with the values of `opts.redactHeaders` replaced. The archive keeps the
+   * header, so a reader can still see a credential was sent, only not which.
+   */
+  private requestHeadersOf(entry: PendingRequest): Record<string, string> {
+    const headers = entry.fullRequestHeaders ?? entry.basicRequestHeaders;
+    return this.opts.redactHeaders === undefined
+      ? headers
+      : redactHeaders(headers, this.opts.redactHeaders);
+  }
+
+  /**
+   * One HAR entry. `response` is absent only for a request that failed
+   * before any response, which gets `status: 0` and `_error` instead.
+   */
+  private harEntry(
+    entry: PendingRequest,
+    response: ResponseSnapshot | undefined,
+    body: Buffer | undefined,
+    error?: string,
+  ): HarEntry {
+    const { timings, time } = harTimings(
+      response?.timing,
+      entry.startedAt,
+      entry.finishedAt ?? entry.startedAt,
+    );
+    const httpVersion = response?.httpVersion ?? "";
+    const mimeType = response?.mimeType ?? "";
+    const requestContentType = Object.entries(
+      entry.fullRequestHeaders ?? entry.basicRequestHeaders,
+    ).find(([name]) => name.toLowerCase() === "content-type")?.[1];
+    return {
+      ...(entry.pageref !== undefined && { pageref: entry.pageref }),
+      startedDateTime: new Date(entry.wallTime * 1000).toISOString(),
+      time,
+      request: {
+        method: entry.method,
+        url: entry.url,
+        httpVersion,
+        cookies: [],
+        headers: toHarHeaders(this.requestHeadersOf(entry)),
+        queryString: toHarQueryString(entry.url),
+        ...(entry.postData !== undefined && {
+          postData: {
+            mimeType: requestContentType ?? "",
+            text: entry.postData.toString("utf-8"),
+          },
+        }),
+        headersSize: -1,
+        bodySize: entry.postData?.byteLength ?? 0,
+      },
+      response: {
+        status: response?.status ?? 0,
+        statusText: response?.statusText ?? "",
+        httpVersion,
+        cookies: [],
+        headers: toHarHeaders(
+          entry.fullResponseHeaders ?? response?.headers ?? {},
+        ),
+        content: toHarContent(
+          mimeType,
+          this.opts.har?.includeBodies === true ? body : undefined,
+          body?.byteLength ?? entry.transferSize ?? 0,
+          entry.skipBodyReason,
+        ),
+        redirectURL: response?.redirectUrl ?? "",
+        headersSize: -1,
+        bodySize: entry.transferSize ?? -1,
+        ...(error !== undefined && { _error: error }),
+      },
+      cache: {},
+      timings,
+      ...(response?.remoteIPAddress !== undefined && {
+        serverIPAddress: response.remoteIPAddress,
+      }),
+      ...(entry.resourceType !== undefined && { _resourceType: entry.resourceType }),
+    };
+  }
+
   /**
    * Build the request + response record pair (and optional metadata
    * truncation record) and enqueue them for ordered writing. Stat
@@ -907,7 +1081,7 @@ export class NetworkRecorder {
     // is a parseable HTTP/1.1 request line + headers (the form wabac.js /
     // pywb / warcio expect inside the WARC).
     const requestHeadersMap = buildHttp11RequestHeaders(
-      entry.fullRequestHeaders ?? entry.basicRequestHeaders,
+      this.requestHeadersOf(entry),
       entry.url,
     );
     const requestHttpHeaders: HttpHeader[] =
@@ -1007,6 +1181,9 @@ export class NetworkRecorder {
         ...(entry.postData !== undefined && { payload: entry.postData }),
       }),
     );
+    if (this.opts.har) {
+      this.harEntries.push(this.harEntry(entry, response, body));
+    }
     if (entry.skipBody && entry.skipBodyReason !== undefined) {
       this.enqueueRecord(
         buildMetadataRecord({
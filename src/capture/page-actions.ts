@@ -0,0 +1,224 @@
+/**
+ * Page Actions
+ *
+ * Declarative interaction steps run before the page is captured — click a
+ * tab, fill a search box, choose a region. Custom behaviors can do all of
+ * this too, but they mean shipping a class, and they need a server started
+ * with `--allow-custom-behaviors`. A list of steps needs neither, except for
+ * `evaluate`, which is client script like any other and is gated the same way.
+ *
+ * Same Spec → Options shape as the other per-request settings: the HTTP
+ * layer accepts `PageAction[]` with optional timeouts, the request mapper
+ * resolves them, and `runPageActions` only executes.
+ *
+ * Steps run in order through the paced `CapturePage`, so `operationDelayMs`
+ * slows them down like everything else. Steps that target an element wait
+ * for it to be visible first. The first step that fails ends the run — the
+ * steps after it usually depend on it (no tab, no panel to read) — and the
+ * remaining ones are reported `skipped`. The capture itself goes ahead:
+ * what the page looked like when a step failed is still worth having, and
+ * the report says what was not done.
+ */
+import type { KeyInput } from "puppeteer";
+import type { CapturePage, PacingLedger } from "./capture-page.js";
+import { withOperationTimeout } from "./timeouts.js";
+
+/** Timeout for a step that does not give one. */
+export const DEFAULT_ACTION_TIMEOUT_MS = 10_000;
+
+/** Longest `value` kept from an `evaluate` step; JSON beyond it is cut. */
+const MAX_EVALUATE_VALUE_LENGTH = 1000;
+
+/** Longest expression quoted in a step's description. */
+const MAX_DESCRIBED_EXPRESSION_LENGTH = 80;
+
+/**
+ * HTTP wire shape of one step. Mirrors the OpenAPI `PageAction` schema;
+ * bounds are enforced there.
+ */
+export type PageAction =
+  | { type: "click"; selector: string; timeoutMs?: number }
+  | {
+      type: "type";
+      selector: string;
+      text: string;
+      /** Pause between keystrokes, for inputs that react per key. */
+      delayMs?: number;
+      timeoutMs?: number;
+    }
+  | { type: "select"; selector: string; values: string[]; timeoutMs?: number }
+  | { type: "hover"; selector: string; timeoutMs?: number }
+  /** A key (`Enter`, `Escape`, `ArrowDown`, …), into `selector` when given. */
+  | { type: "press"; key: string; selector?: string; timeoutMs?: number }
+  | { type: "scrollTo"; selector: string; timeoutMs?: number }
+  | { type: "waitForSelector"; selector: string; hidden?: boolean; timeoutMs?: number }
+  /** A JavaScript expression; awaited when it yields a promise. */
+  | { type: "evaluate"; expression: string; timeoutMs?: number };
+
+/** A step with its timeout filled in. Carried on the task as `actions`. */
+export type ResolvedPageAction = PageAction & { timeoutMs: number };
+
+export type ActionStatus = "ok" | "failed" | "skipped";
+
+/** What became of one step. */
+export interface ActionOutcome {
+  /** Human-readable form of the step, e.g. `click #tab-reviews`. */
+  action: string;
+  status: ActionStatus;
+  /** `0` for a skipped step. */
+  elapsedMs: number;
+  error?: string;
+  /** What an `evaluate` step returned, as JSON. Absent for `undefined`. */
+  value?: string;
+}
+
+export interface ActionsReport {
+  outcomes: ActionOutcome[];
+  /** Whether every step ran and succeeded. */
+  completed: boolean;
+}
+
+export const resolvePageActions = (actions: PageAction[]): ResolvedPageAction[] =>
+  actions.map((action) => ({
+    ...action,
+    timeoutMs: action.timeoutMs ?? DEFAULT_ACTION_TIMEOUT_MS,
+  }));
+
+/**
+ * `type` steps are described by length, not content: what gets typed into a
+ * page is as likely to be a password as a search term, and the description
+ * ends up in logs, the result and the page console.
+ */
+export const describePageAction = (action: PageAction): string => {
+  switch (action.type) {
+    case "click":
+    case "hover":
+    case "scrollTo":
+      return `${action.type} ${action.selector}`;
+    case "type":
+      return `type ${action.selector} (${String(action.text.length)} chars)`;
+    case "select":
+      return `select ${action.selector} = ${action.values.join(", ")}`;
+    case "press":
+      return action.selector === undefined
+        ? `press ${action.key}`
+        : `press ${action.key} in ${action.selector}`;
+    case "waitForSelector":
+      return `waitForSelector ${action.selector}${action.hidden === true ? " (hidden)" : ""}`;
+    case "evaluate":
+      return action.expression.length > MAX_DESCRIBED_EXPRESSION_LENGTH
+        ? `evaluate ${action.expression.slice(0, MAX_DESCRIBED_EXPRESSION_LENGTH)}…`
+        : `evaluate ${action.expression}`;
+  }
+};
+
+const toValue = (result: unknown): string | undefined => {
+  if (result === undefined) return undefined;
+  const json = JSON.stringify(result) as string | undefined;
+  if (json === undefined) return undefined;
+  return json.length > MAX_EVALUATE_VALUE_LENGTH
+    ? json.slice(0, MAX_EVALUATE_VALUE_LENGTH)
+    : json;
+};
+
+/** Perform one step. Resolves with the `value` an `evaluate` step produced. */
+const performAction = async (
+  page: CapturePage,
+  action: ResolvedPageAction,
+): Promise<string | undefined> => {
+  const visible = async (selector: string): Promise<void> => {
+    await page.waitForSelector(selector, { visible: true, timeout: action.timeoutMs });
+  };
+
+  switch (action.type) {
+    case "click":
+      await visible(action.selector);
+      await page.click(action.selector);
+      return undefined;
+    case "type":
+      await visible(action.selector);
+      await page.type(action.selector, action.text, {
+        ...(action.delayMs !== undefined && { delay: action.delayMs }),
+      });
+      return undefined;
+    case "select":
+      await visible(action.selector);
+      await page.select(action.selector, ...action.values);
+      return undefined;
+    case "hover":
+      await visible(action.selector);
+      await page.hover(action.selector);
+      return undefined;
+    case "press":
+      if (action.selector !== undefined) {
+        await visible(action.selector);
+        await page.focus(action.selector);
+      }
+      // An unknown key name is rejected by puppeteer, which fails the step.
+      await page.keyboard.press(action.key as KeyInput);
+      return undefined;
+    case "scrollTo":
+      await visible(action.selector);
+      await page.evaluate((selector: string) => {
+        document.querySelector(selector)?.scrollIntoView({ block: "center" });
+      }, action.selector);
+      return undefined;
+    case "waitForSelector":
+      await page.waitForSelector(
+        action.selector,
+        action.hidden === true
+          ? { hidden: true, timeout: action.timeoutMs }
+          : { visible: true, timeout: action.timeoutMs },
+      );
+      return undefined;
+    case "evaluate":
+      return toValue(await page.evaluate(action.expression));
+  }
+};
+
+/**
+ * Run the steps in order and report each one.
+ *
+ * Never throws for a failed step: each is bounded by its own `timeoutMs`
+ * (with `operationDelayMs` pauses not counted against it) and a failure is
+ * recorded, not raised. Cancellation is the caller's business.
+ */
+export const runPageActions = async (
+  page: CapturePage,
+  actions: ResolvedPageAction[],
+  pacing: PacingLedger,
+): Promise<ActionsReport> => {
+  const outcomes: ActionOutcome[] = [];
+  let failed = false;
+  for (const action of actions) {
+    const description = describePageAction(action);
+    if (failed) {
+      outcomes.push({ action: description, status: "skipped", elapsedMs: 0 });
+      continue;
+    }
+    const start = Date.now();
+    try {
+      const value = await withOperationTimeout(
+        performAction(page, action),
+        action.timeoutMs,
+        `action ${description}`,
+        pacing,
+      );
+      outcomes.push({
+        action: description,
+        status: "ok",
+        elapsedMs: Date.now() - start,
+        ...(value !== undefined && { value }),
+      });
+    } catch (error) {
+      failed = true;
+      outcomes.push({
+        action: description,
+        status: "failed",
+        elapsedMs: Date.now() - start,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return { outcomes, completed: !failed };
+};
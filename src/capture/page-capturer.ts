@@ -37,13 +37,22 @@ import { BUILD_INFO } from "../generated/version.js";
 import type { CompletenessReport, SignatureReport, WaczSigner } from "../storage/wacz/index.js";
 import { runBehaviors } from "../behaviors/index.js";
 import type { BehaviorRunReport } from "../behaviors/types.js";
-import type { CaptureTask, CaptureResult, LinkRecord, LinksFile } from "./types.js";
+import type {
+  CaptureTask,
+  CaptureResult,
+  LinkRecord,
+  LinksFile,
+  NamedViewport,
+  ViewportScreenshots,
+} from "./types.js";
 import { captureStatus } from "./capture-status.js";
 import {
+  CancelledError,
   createHttpError,
   errorDetailsFromException,
   isExecutionContextDestroyed,
 } from "./error-details.js";
+import { throwIfCancelled, untilCancelled } from "./cancellation.js";
 import { errorType } from "./error-type.js";
 import { err, ok, type Result } from "../result.js";
 import { logger } from "../logger.js";
@@ -52,7 +61,33 @@ import {
   type DismissReport,
 } from "./banner-dismisser.js";
 import type { ResetStateOptions } from "./reset-state.js";
+import { DEFAULT_PDF_OPTIONS, toPrintToPdfParams } from "./pdf-options.js";
+import { buildHarLog, resolveHarSpec } from "./har.js";
 import { NetworkRecorder } from "./network-recorder.js";
+import { DiagnosticsRecorder } from "./diagnostics-recorder.js";
+import { runWaitFor, type WaitForReport } from "./wait-for.js";
+import { runPageActions, type ActionsReport } from "./page-actions.js";
+import type { DeviceEmulation } from "./device-presets.js";
+import {
+  applyEmulation,
+  clearEmulation,
+  describeEmulation,
+  type AppliedEmulation,
+} from "./emulation.js";
+import {
+  describeCredentials,
+  installRequestCredentials,
+  redactedHeaderSet,
+  removeRequestCredentials,
+  type AppliedCredentials,
+} from "./request-credentials.js";
+import {
+  hideFixedElements,
+  locateScreenshotElements,
+  restoreFixedElements,
+  type ScreenshotTarget,
+} from "./screenshot-options.js";
+import type { DiagnosticsCounts } from "./diagnostics-recorder.js";
 import type {
   RecordingFilters,
   RecordingLimits,
@@ -171,6 +206,14 @@ const STABLE_CONTEXT_MAX_RETRIES = 2;
  */
 const MULTIPASS_DEVICE_PIXEL_RATIOS = [1, 2] as const;
 
+/**
+ * Network-idle settle after a `viewports` entry only resized the page: long
+ * enough for the `srcset` / media-query fetches the new size triggers, short
+ * enough that a page with a chatty analytics beacon costs at most the cap.
+ */
+const VIEWPORT_SETTLE_IDLE_MS = 500;
+const VIEWPORT_SETTLE_TIMEOUT_MS = 5_000;
+
 /**
  * Run a puppeteer operation that requires a live execution context, retrying
  * across the "Execution context was destroyed, most likely because of a
@@ -382,6 +425,7 @@ const configureViewport = async (
   page: CapturePage,
   viewport: { width: number; height: number },
   deviceScaleFactor: number,
+  device: DeviceEmulation | undefined,
 ): Promise<void> => {
   await page.setViewport({
     width: viewport.width,
@@ -391,6 +435,9 @@ const configureViewport = async (
     // slides, which carry no srcset and derive their URL from the DPR) get
     // fetched during capture and land in the WACZ.
     deviceScaleFactor,
+    // Left out otherwise, which puppeteer reads as false — so the next task
+    // on this page is not still a phone.
+    ...(device !== undefined && { isMobile: device.mobile, hasTouch: device.hasTouch }),
   });
 };
 
@@ -406,14 +453,42 @@ export const setUserAgent = async (
   }
 };
 
+/**
+ * Set the user agent a task runs with: the device preset's, client hints and
+ * platform included, or else the configured one. With neither it is the
+ * browser's own, which an empty override restores — CDP's "no override",
+ * and the only way to get the browser's client hints back once a preset
+ * replaced them.
+ */
+const resetUserAgent = async (
+  page: CapturePage,
+  device: DeviceEmulation | undefined,
+  configured: string | undefined,
+): Promise<void> => {
+  await page.setUserAgent(
+    device === undefined
+      ? { userAgent: configured ?? "" }
+      : {
+          userAgent: device.userAgent,
+          ...(device.platform !== undefined && { platform: device.platform }),
+          ...(device.userAgentMetadata !== undefined && {
+            userAgentMetadata: device.userAgentMetadata,
+          }),
+        },
+  );
+};
+
+/**
+ * Set `Accept-Language` on every request the page makes. The request's
+ * `extraHeaders` do not go this way: they are for the capture origin only
+ * (see `installRequestCredentials`).
+ */
 export const setAcceptLanguage = async (
   page: CapturePage,
-  acceptLanguage: string | undefined
+  acceptLanguage: string | undefined,
 ): Promise<void> => {
   if (acceptLanguage !== undefined) {
-    await page.setExtraHTTPHeaders({
-      "Accept-Language": acceptLanguage,
-    });
+    await page.setExtraHTTPHeaders({ "Accept-Language": acceptLanguage });
   }
 };
 
@@ -480,6 +555,15 @@ export const hideScrollbars = async (page: CapturePage): Promise<void> => {
  * stateful crawls (post-login captures, multi-page journeys against a
  * single origin).
  *
+ * Request overrides
+ * -----------------
+ * `overrides` is what the task itself put on the page: the emulation
+ * `applyEmulation` left (locale, time zone, media features, geolocation)
+ * and the request's cookies, extra headers and basic auth. Both are taken
+ * off whatever `options` says: those axes are about state the *site* left
+ * behind, and a stateful crawl still wants the next request's settings, not
+ * this one's.
+ *
  * Best-effort
  * -----------
  * Reset failures are logged at `warn` and swallowed: a wedged page should
@@ -493,7 +577,39 @@ export const resetPageState = async (
   workerIndex: number,
   options: ResetStateOptions,
   pacing: PacingLedger,
+  overrides: { emulation?: AppliedEmulation; credentials?: AppliedCredentials } = {},
 ): Promise<void> => {
+  const { emulation, credentials } = overrides;
+  if (credentials !== undefined) {
+    try {
+      await withOperationTimeout(
+        removeRequestCredentials(page, credentials),
+        RESET_PAGE_STATE_TIMEOUT_MS,
+        "resetPageState (request credentials)",
+        pacing,
+      );
+    } catch (error) {
+      logger.warn(
+        { err: error, workerIndex },
+        "resetPageState credential removal failed (best-effort, continuing)",
+      );
+    }
+  }
+  if (emulation !== undefined) {
+    try {
+      await withOperationTimeout(
+        clearEmulation(emulation),
+        RESET_PAGE_STATE_TIMEOUT_MS,
+        "resetPageState (emulation)",
+        pacing,
+      );
+    } catch (error) {
+      logger.warn(
+        { err: error, workerIndex },
+        "resetPageState emulation reset failed (best-effort, continuing)",
+      );
+    }
+  }
   if (!options.cookies && !options.pageContext) return;
 
   let session: Awaited<ReturnType<Page["createCDPSession"]>> | null = null;
@@ -542,11 +658,12 @@ export const resetPageState = async (
  * Session handling mirrors `resetPageState` — opened here, detached in
  * `finally`, so nothing leaks across tasks.
  *
- * `Network.clearBrowserCache` is browser-wide, not page-scoped. That is
- * contained today because a worker owns its browser and reuses a single tab,
- * so "the browser" and "this capture" are the same thing. Putting several
- * pages on one browser would make this reach other tasks, and this is where
- * that would need rethinking.
+ * `Network.clearBrowserCache` is not page-scoped: it empties the cache of
+ * the page's browser context. That is contained because every tab a worker
+ * captures on at the same time lives in a context of its own — each extra
+ * `concurrency` slot, and each task with `isolation: "context"` — so "the
+ * context" and "this capture" are the same thing. Putting two concurrent
+ * captures in one context would make this reach the other.
  */
 const clearBrowserCache = async (
   page: CapturePage,
@@ -610,6 +727,9 @@ export interface WaczCaptureConfig {
   signer?: WaczSigner;
 }
 
+/** `log.creator` of every HAR this server writes. */
+const HAR_CREATOR = { name: "BrowserHive", version: BUILD_INFO.version };
+
 export class PageCapturer {
   private config: CaptureConfig;
   private store: ArtifactStore;
@@ -676,6 +796,19 @@ export class PageCapturer {
      * ask failed, in which case the archive says nothing rather than guessing.
      */
     browserVersion?: string,
+    /**
+     * Aborted by `BrowserClient.cancel` when the client withdraws the task.
+     * Checked between stages and raced against the two long waits
+     * (navigation, behaviors); see `cancellation.ts`.
+     */
+    signal?: AbortSignal,
+    /**
+     * Set when `rawPage` lives in a browser context BrowserClient opened for
+     * this task alone, with the allowlist name of the upstream proxy it goes
+     * through, if any. For the trace and the archive: BrowserClient set the
+     * context up, and nothing here needs more than the names.
+     */
+    ownContext?: { proxy?: string },
   ): Promise<CaptureResult> {
     // Pace every browser operation this capture performs when asked to, so a
     // headless run can be watched live. Request first, then the server default;
@@ -717,7 +850,14 @@ export class PageCapturer {
 
     let recorder: NetworkRecorder | null = null;
     let waczTempDir: string | null = null;
-    if (task.captureFormats.wacz) {
+    // A HAR is built by the same recorder from the same events, so asking for
+    // one starts it too. Its WARC is then simply left in the temp dir.
+    const recordedFormat = task.captureFormats.wacz
+      ? "wacz"
+      : task.captureFormats.har === true
+        ? "har"
+        : undefined;
+    if (recordedFormat !== undefined) {
       if (this.waczConfig === undefined) {
         // The HTTP layer guarantees this never happens for a request that
         // sets `captureFormats.wacz = true` against a WACZ-enabled server,
@@ -728,8 +868,7 @@ export class PageCapturer {
           status: captureStatus.failed,
           errorDetails: {
             type: errorType.internal,
-            message:
-              "wacz capture requested but server has no WaczCaptureConfig wired up",
+            message: `${recordedFormat} capture requested but server has no WaczCaptureConfig wired up`,
           },
           captureProcessingTimeMs: Date.now() - startTime,
           timestamp: new Date().toISOString(),
@@ -745,11 +884,35 @@ export class PageCapturer {
         filters: this.waczConfig.filters,
         limits: this.waczConfig.limits,
         description: `Capture of ${task.url}`,
+        ...(task.captureFormats.har === true && {
+          har: task.harOptions ?? resolveHarSpec(undefined),
+        }),
+        // Only when the request brought secrets. Otherwise the request
+        // headers stay whole, as the header completeness contract promises.
+        ...(task.credentials !== undefined && {
+          redactHeaders: redactedHeaderSet(this.config.redactHeaders),
+        }),
       });
       await recorder.start(rawPage);
     }
+    // Attached before navigation for the same reason as the recorder: an
+    // exception thrown while the document loads is the one most worth seeing.
+    let diagnosticsRecorder: DiagnosticsRecorder | null = null;
+    if (task.captureFormats.diagnostics === true) {
+      diagnosticsRecorder = new DiagnosticsRecorder();
+      await diagnosticsRecorder.start(rawPage);
+    }
+    let appliedEmulation: AppliedEmulation | undefined;
+    let appliedCredentials: AppliedCredentials | undefined;
 
     try {
+      throwIfCancelled(signal, task.taskId);
+      // The request mapper refuses this pair; checked again because the
+      // viewport sweep only knows clip targets, and would otherwise take
+      // whole-page images where the base size took element ones.
+      if (task.viewports !== undefined && task.screenshotOptions?.target.kind === "elements") {
+        throw new Error("viewports cannot be combined with screenshot.selector");
+      }
       const archiveMode = task.archiveMode ?? this.config.archiveMode;
       // One pass per device pixel ratio. `multipass` sweeps DPR 1 and 2 so both
       // variant sets land in the same WACZ; `single-pass` keeps the historical
@@ -759,27 +922,47 @@ export class PageCapturer {
           ? MULTIPASS_DEVICE_PIXEL_RATIOS
           : [task.deviceScaleFactor ?? this.config.viewport.deviceScaleFactor];
 
-      await setUserAgent(page, this.config.userAgent);
+      if (task.device === undefined) {
+        await setUserAgent(page, this.config.userAgent);
+      } else {
+        await resetUserAgent(page, task.device, this.config.userAgent);
+      }
       await setAcceptLanguage(page, task.acceptLanguage);
+      if (task.credentials !== undefined) {
+        appliedCredentials = await installRequestCredentials(page, task.credentials, task.url);
+      }
+      if (task.emulation !== undefined) {
+        appliedEmulation = await applyEmulation(
+          page,
+          task.emulation,
+          rawPage.browserContext().id,
+        );
+      }
 
       let httpStatusCode = 0;
       let dismissReport: DismissReport | undefined;
       let behaviorReport: BehaviorRunReport | undefined;
+      let waitForReport: WaitForReport | undefined;
+      let actionsReport: ActionsReport | undefined;
 
       const traceEnabled = task.trace ?? this.config.trace;
       const viewport = task.viewport ?? this.config.viewport;
 
       for (const [passIndex, deviceScaleFactor] of devicePixelRatios.entries()) {
-        await configureViewport(page, viewport, deviceScaleFactor);
+        await configureViewport(page, viewport, deviceScaleFactor, task.device);
 
-        const response = await withOperationTimeout(
-          page.goto(task.url, {
-            waitUntil: "domcontentloaded",
-            timeout: this.config.timeouts.pageLoadMs,
-          }),
-          this.config.timeouts.pageLoadMs,
-          `Navigation to ${task.url} (dpr=${String(deviceScaleFactor)})`,
-          pacing,
+        const response = await untilCancelled(
+          withOperationTimeout(
+            page.goto(task.url, {
+              waitUntil: "domcontentloaded",
+              timeout: this.config.timeouts.pageLoadMs,
+            }),
+            this.config.timeouts.pageLoadMs,
+            `Navigation to ${task.url} (dpr=${String(deviceScaleFactor)})`,
+            pacing,
+          ),
+          signal,
+          task.taskId,
         );
 
         // The first pass decides the task's HTTP verdict. A later pass failing
@@ -803,35 +986,12 @@ export class PageCapturer {
           }
         }
 
-        // JS-redirect-aware. The original frame's execution context is gone by
-        // the time we get here for sites like imhds.co.jp / itochu.co.jp /
-        // daiwahouse.com — see runOnStableContext for the recovery contract.
-        await runOnStableContext(
+        ({ waitForReport, dismissReport } = await this.settleLoadedPage(
           page,
-          () =>
-            page.evaluate(
-              (waitMs) => new Promise((resolve) => setTimeout(resolve, waitMs)),
-              DEFAULT_DYNAMIC_CONTENT_WAIT_MS,
-            ),
-          `Dynamic content wait for ${task.url}`,
-          EVALUATE_DYNAMIC_WAIT_TIMEOUT_MS,
-          pacing,
-        );
-
-        // Same redirect hazard as the dynamic-content wait above —
-        // `addStyleTag` runs `evaluateHandle` internally and rejects with
-        // destroyed-context if the redirect lands during the call.
-        await runOnStableContext(
-          page,
-          () => hideScrollbars(page),
-          `hideScrollbars for ${task.url}`,
-          STYLE_INJECTION_TIMEOUT_MS,
+          task,
           pacing,
-        );
-
-        if (task.dismissOptions) {
-          dismissReport = await dismissBanners(page, pacing, task.dismissOptions);
-        }
+          signal,
+        ));
 
         // What was done *to* the page, before the behaviors get their turn.
         // None of it is visible from DevTools alone: the Elements panel shows
@@ -842,12 +1002,24 @@ export class PageCapturer {
             traceLine(
               `viewport ${String(viewport.width)}x${String(viewport.height)} dpr=${String(deviceScaleFactor)}`,
             ),
-            ...(this.config.userAgent === undefined
-              ? []
-              : [traceLine("user-agent overridden")]),
+            ...(task.device !== undefined
+              ? [traceLine(`device ${task.device.name}`)]
+              : this.config.userAgent === undefined
+                ? []
+                : [traceLine("user-agent overridden")]),
             ...(task.acceptLanguage === undefined
               ? []
               : [traceLine(`accept-language ${task.acceptLanguage}`)]),
+            ...(task.credentials === undefined
+              ? []
+              : [traceLine(`request credentials ${describeCredentials(task.credentials)}`)]),
+            ...(task.emulation === undefined
+              ? []
+              : [traceLine(`emulation ${describeEmulation(task.emulation)}`)]),
+            ...(ownContext === undefined
+              ? []
+              : [traceLine("isolated browser context (fresh cookies, storage and cache)")]),
+            ...(ownContext?.proxy === undefined ? [] : [traceLine(`proxy ${ownContext.proxy}`)]),
             traceLine("scrollbars hidden (1 style tag)"),
             ...(dismissReport === undefined ||
             (dismissReport.framework === null &&
@@ -868,6 +1040,31 @@ export class PageCapturer {
           ]);
         }
 
+        // The request's own steps, on a page with the overlays gone (a banner
+        // would swallow the clicks) and before the behaviors, so autoscroll /
+        // autofetch see the content the steps revealed. Not routed through
+        // runOnStableContext: a click that navigates is a legitimate step, and
+        // the waits the next step starts with re-arm on the new document.
+        if (task.actions !== undefined) {
+          actionsReport = await untilCancelled(
+            runPageActions(page, task.actions, pacing),
+            signal,
+            task.taskId,
+          );
+          if (traceEnabled) {
+            await pageTrace(
+              page,
+              "actions",
+              actionsReport.outcomes.map((outcome) =>
+                traceLine(
+                  `${outcome.status} ${outcome.action}` +
+                    (outcome.error === undefined ? "" : ` — ${outcome.error}`),
+                ),
+              ),
+            );
+          }
+        }
+
         // Behaviors AFTER banner dismissal (so sticky overlays are gone) and
         // BEFORE any format capture (so lazy/srcset resources are in the WARC and
         // the page is scrolled back to the top for screenshots). The injected
@@ -881,35 +1078,72 @@ export class PageCapturer {
         // 2x image variants into the WARC.
         const behaviorBudgetMs =
           this.config.behaviors.timeoutMs + this.config.behaviors.idleTimeoutMs;
-        behaviorReport = await runOnStableContext(
-          page,
-          () =>
-            withOperationTimeout(
-              runBehaviors(page, this.config.behaviors, task.behaviors, traceEnabled),
-              behaviorBudgetMs,
-              `behaviors for ${task.url}`,
-              pacing,
-            ),
-          `behaviors for ${task.url}`,
-          behaviorBudgetMs + STABLE_CONTEXT_SETTLE_TIMEOUT_MS,
-          pacing,
+        behaviorReport = await untilCancelled(
+          runOnStableContext(
+            page,
+            () =>
+              withOperationTimeout(
+                runBehaviors(page, this.config.behaviors, task.behaviors, traceEnabled),
+                behaviorBudgetMs,
+                `behaviors for ${task.url}`,
+                pacing,
+              ),
+            `behaviors for ${task.url}`,
+            behaviorBudgetMs + STABLE_CONTEXT_SETTLE_TIMEOUT_MS,
+            pacing,
+          ),
+          signal,
+          task.taskId,
         );
       }
+      // Last point at which a withdrawn task costs nothing in the store:
+      // past here, artifacts start being uploaded.
+      throwIfCancelled(signal, task.taskId);
       // Formats below are captured once, from the state left by the LAST pass
       // (under `multipass` that is DPR 2, so PNG/WebP come out at 2x).
 
       let pngLocation: string | undefined;
       let webpLocation: string | undefined;
+      let pngElementLocations: string[] | undefined;
+      let webpElementLocations: string[] | undefined;
       let htmlLocation: string | undefined;
       let linksLocation: string | undefined;
       let mhtmlLocation: string | undefined;
+      let pdfLocation: string | undefined;
+
+      // A selector target yields one image per element instead of the single
+      // screenshot; a clip target is still one image, just a smaller one.
+      const elementTarget =
+        task.screenshotOptions?.target.kind === "elements"
+          ? task.screenshotOptions.target
+          : undefined;
 
       if (task.captureFormats.png) {
-        pngLocation = await this.captureScreenshot(page, task, pacing, "png");
+        if (elementTarget !== undefined) {
+          pngElementLocations = await this.captureElementScreenshots(
+            page,
+            task,
+            elementTarget,
+            pacing,
+            "png",
+          );
+        } else {
+          pngLocation = await this.captureScreenshot(page, task, pacing, "png");
+        }
       }
 
       if (task.captureFormats.webp) {
-        webpLocation = await this.captureScreenshot(page, task, pacing, "webp");
+        if (elementTarget !== undefined) {
+          webpElementLocations = await this.captureElementScreenshots(
+            page,
+            task,
+            elementTarget,
+            pacing,
+            "webp",
+          );
+        } else {
+          webpLocation = await this.captureScreenshot(page, task, pacing, "webp");
+        }
       }
 
       if (task.captureFormats.html) {
@@ -924,17 +1158,69 @@ export class PageCapturer {
         mhtmlLocation = await this.captureMhtml(page, task, pacing);
       }
 
+      if (task.captureFormats.pdf === true) {
+        pdfLocation = await this.capturePdf(page, task, pacing);
+      }
+
+      // After every other format, which describe the page at the request's
+      // own viewport; before the recorders stop, so what the other sizes
+      // fetch is archived too.
+      let viewportLocations: Record<string, ViewportScreenshots> | undefined;
+      if (task.viewports !== undefined) {
+        viewportLocations = await this.captureViewports(
+          page,
+          task,
+          task.viewports,
+          devicePixelRatios[devicePixelRatios.length - 1] ?? this.config.viewport.deviceScaleFactor,
+          pacing,
+          signal,
+        );
+      }
+
+      // The capture window ends with the last format: what the page logs while
+      // the archive is packed is our doing, not its.
+      let diagnosticsLocation: string | undefined;
+      let diagnostics: DiagnosticsCounts | undefined;
+      if (diagnosticsRecorder !== null) {
+        const file = await diagnosticsRecorder.stop(task.taskId, task.url);
+        diagnosticsRecorder = null;
+        diagnostics = file.counts;
+        diagnosticsLocation = await this.store.put(
+          generateFilename(task, "diagnostics.json"),
+          JSON.stringify(file, null, 2),
+          "application/json",
+        );
+      }
+
       // WACZ packaging happens AFTER all other formats so the WARC includes
       // everything those formats requested (e.g. screenshots can drive
       // additional resource fetches via render layouts; rare but possible).
+      // The HAR is written from the same stopped recorder, for the same reason.
+      let harLocation: string | undefined;
       let waczLocation: string | undefined;
       let waczStats: RecordingStats | undefined;
       let completeness: CompletenessReport | undefined;
       let coverage: CoverageReport | undefined;
       let signature: SignatureReport | undefined;
-      if (recorder !== null && waczTempDir !== null && this.waczConfig) {
-        const stopResult = await recorder.stop();
+      let stopResult: Awaited<ReturnType<NetworkRecorder["stop"]>> | undefined;
+      if (recorder !== null) {
+        throwIfCancelled(signal, task.taskId);
+        stopResult = await recorder.stop();
         recorder = null;
+      }
+      if (stopResult?.har !== undefined) {
+        harLocation = await this.store.put(
+          generateFilename(task, "har"),
+          JSON.stringify(buildHarLog(stopResult.har, HAR_CREATOR), null, 2),
+          "application/json",
+        );
+      }
+      if (
+        stopResult !== undefined &&
+        task.captureFormats.wacz &&
+        waczTempDir !== null &&
+        this.waczConfig
+      ) {
         waczStats = stopResult.stats;
         // Same records the CDXJ is built from — no need to re-read the archive.
         completeness = analyzeCompleteness(stopResult.responses);
@@ -977,6 +1263,10 @@ export class PageCapturer {
               ...(task.acceptLanguage !== undefined && {
                 acceptLanguage: task.acceptLanguage,
               }),
+              ...(task.device !== undefined && { device: task.device }),
+              ...(task.emulation !== undefined && { emulation: task.emulation }),
+              ...(ownContext !== undefined && { isolation: "context" as const }),
+              ...(ownContext?.proxy !== undefined && { proxy: ownContext.proxy }),
             },
             completeness,
             ...(coverage !== undefined && { coverage }),
@@ -1031,18 +1321,39 @@ export class PageCapturer {
         workerIndex,
         ...(pngLocation !== undefined && { pngLocation }),
         ...(webpLocation !== undefined && { webpLocation }),
+        ...(pngElementLocations !== undefined && { pngElementLocations }),
+        ...(webpElementLocations !== undefined && { webpElementLocations }),
+        ...(viewportLocations !== undefined && { viewportLocations }),
         ...(htmlLocation !== undefined && { htmlLocation }),
         ...(linksLocation !== undefined && { linksLocation }),
         ...(mhtmlLocation !== undefined && { mhtmlLocation }),
+        ...(pdfLocation !== undefined && { pdfLocation }),
+        ...(harLocation !== undefined && { harLocation }),
+        ...(diagnosticsLocation !== undefined && { diagnosticsLocation }),
         ...(waczLocation !== undefined && { waczLocation }),
         ...(waczStats !== undefined && { waczStats }),
         ...(completeness !== undefined && { completeness }),
         ...(signature !== undefined && { signature }),
+        ...(diagnostics !== undefined && { diagnostics }),
+        ...(waitForReport !== undefined && { waitFor: waitForReport }),
+        ...(actionsReport !== undefined && { actions: actionsReport }),
         ...(dismissReport !== undefined && { dismissReport }),
         ...(behaviorReport !== undefined && { behaviorReport }),
       };
     } catch (error) {
       const captureProcessingTimeMs = Date.now() - startTime;
+      // Not an error to classify or retry: the client asked for this. Artifacts
+      // uploaded before the abort was noticed are left in the store but not
+      // reported, as with any other capture that did not succeed.
+      if (error instanceof CancelledError) {
+        return {
+          task,
+          status: captureStatus.cancelled,
+          captureProcessingTimeMs,
+          timestamp: new Date().toISOString(),
+          workerIndex,
+        };
+      }
       const errorDetails = errorDetailsFromException(error);
       const isTimeout = errorDetails.type === errorType.timeout;
 
@@ -1068,6 +1379,25 @@ export class PageCapturer {
           );
         }
       }
+      if (diagnosticsRecorder !== null) {
+        try {
+          await diagnosticsRecorder.stop(task.taskId, task.url);
+        } catch (err) {
+          logger.warn(
+            { err, taskId: task.taskId },
+            "DiagnosticsRecorder.stop on failure path raised",
+          );
+        }
+      }
+      // The page outlives the task, and the next one only sets a user agent
+      // when one is configured — a preset's must not leak into it.
+      if (task.device !== undefined) {
+        await resetUserAgent(rawPage, undefined, this.config.userAgent).catch(
+          (err: unknown) => {
+            logger.warn({ err, taskId: task.taskId }, "Restoring the user agent raised");
+          },
+        );
+      }
       if (waczTempDir !== null) {
         try {
           await rm(waczTempDir, { recursive: true, force: true });
@@ -1086,20 +1416,102 @@ export class PageCapturer {
       // `task.resetState` is fully merged at the request-mapper boundary
       // against `CaptureConfig.resetPageState`, so this layer never has to
       // branch on undefined or merge defaults itself.
-      await resetPageState(page, workerIndex, task.resetState, pacing);
+      await resetPageState(page, workerIndex, task.resetState, pacing, {
+        ...(appliedEmulation !== undefined && { emulation: appliedEmulation }),
+        // Cookies set before an install that then failed still come off.
+        ...(task.credentials !== undefined && {
+          credentials: appliedCredentials ?? { credentials: task.credentials },
+        }),
+      });
     }
   }
 
+  /**
+   * Everything between a navigation and the page being ready for the
+   * request's own steps: the wait (`task.waitFor`, or the fixed sleep), the
+   * scrollbar style, and banner dismissal. Shared by the passes and by the
+   * viewport sweep, which reloads when an entry changes the user agent or
+   * mobile emulation.
+   */
+  private async settleLoadedPage(
+    page: CapturePage,
+    task: CaptureTask,
+    pacing: PacingLedger,
+    signal: AbortSignal | undefined,
+  ): Promise<{ waitForReport?: WaitForReport; dismissReport?: DismissReport }> {
+    let waitForReport: WaitForReport | undefined;
+    let dismissReport: DismissReport | undefined;
+
+    if (task.waitFor !== undefined) {
+      // The request said what "ready" means, so the fixed sleep below
+      // would only be a guess on top of it. Each condition carries its own
+      // timeout, and puppeteer's waits survive a JS redirect by themselves.
+      waitForReport = await untilCancelled(
+        runWaitFor(page, task.waitFor),
+        signal,
+        task.taskId,
+      );
+    } else {
+      // JS-redirect-aware. The original frame's execution context is gone
+      // by the time we get here for sites like imhds.co.jp / itochu.co.jp /
+      // daiwahouse.com — see runOnStableContext for the recovery contract.
+      await runOnStableContext(
+        page,
+        () =>
+          page.evaluate(
+            (waitMs) => new Promise((resolve) => setTimeout(resolve, waitMs)),
+            DEFAULT_DYNAMIC_CONTENT_WAIT_MS,
+          ),
+        `Dynamic content wait for ${task.url}`,
+        EVALUATE_DYNAMIC_WAIT_TIMEOUT_MS,
+        pacing,
+      );
+    }
+
+    // Same redirect hazard as the dynamic-content wait above —
+    // `addStyleTag` runs `evaluateHandle` internally and rejects with
+    // destroyed-context if the redirect lands during the call.
+    await runOnStableContext(
+      page,
+      () => hideScrollbars(page),
+      `hideScrollbars for ${task.url}`,
+      STYLE_INJECTION_TIMEOUT_MS,
+      pacing,
+    );
+
+    if (task.dismissOptions) {
+      dismissReport = await dismissBanners(page, pacing, task.dismissOptions);
+    }
+
+    return {
+      ...(waitForReport !== undefined && { waitForReport }),
+      ...(dismissReport !== undefined && { dismissReport }),
+    };
+  }
+
   private async captureScreenshot(
     page: CapturePage,
     task: CaptureTask,
     pacing: PacingLedger,
-    type: "png" | "webp"
+    type: "png" | "webp",
+    /** Inserted before the extension, e.g. a `viewports` entry's name. */
+    variant?: string,
   ): Promise<string> {
-    const filename = generateFilename(task, type);
+    const filename = generateFilename(
+      task,
+      variant === undefined ? type : `${variant}.${type}`,
+    );
+    const clip =
+      task.screenshotOptions?.target.kind === "clip"
+        ? task.screenshotOptions.target.clip
+        : undefined;
 
+    // `clip` and `fullPage` are mutually exclusive in puppeteer, and a clip
+    // already says how much of the page to take.
     const options = {
-      fullPage: task.fullPage ?? this.config.screenshot.fullPage,
+      ...(clip !== undefined
+        ? { clip }
+        : { fullPage: task.fullPage ?? this.config.screenshot.fullPage }),
       type,
       ...(type === "webp" &&
         this.config.screenshot.quality !== undefined && {
@@ -1112,12 +1524,19 @@ export class PageCapturer {
     // a delayed locale switch on daiwahouse.com / itochu.co.jp) it rejects
     // with destroyed-context. The retry on the now-stable context produces
     // a screenshot of the actual landing page rather than failing the task.
-    const screenshotBuffer = await runOnStableContext(
+    const screenshotBuffer = await this.withFixedElementsHidden(
       page,
-      () => page.screenshot(options),
-      `Screenshot (${type}) of ${task.url}`,
-      this.config.timeouts.captureMs,
+      task,
+      undefined,
       pacing,
+      () =>
+        runOnStableContext(
+          page,
+          () => page.screenshot(options),
+          `Screenshot (${type}) of ${task.url}`,
+          this.config.timeouts.captureMs,
+          pacing,
+        ),
     );
 
     return this.store.put(
@@ -1127,6 +1546,213 @@ export class PageCapturer {
     );
   }
 
+  /**
+   * One image per element matching the target's selector, uploaded as
+   * `<name>.1.png`, `<name>.2.png`, … in document order. Throws when nothing
+   * matched: the caller asked for that element, and a success with no image
+   * of it would read as "captured" while holding nothing.
+   */
+  private async captureElementScreenshots(
+    page: CapturePage,
+    task: CaptureTask,
+    target: Extract<ScreenshotTarget, { kind: "elements" }>,
+    pacing: PacingLedger,
+    type: "png" | "webp",
+  ): Promise<string[]> {
+    const buffers = await this.withFixedElementsHidden(
+      page,
+      task,
+      target.selector,
+      pacing,
+      () =>
+        runOnStableContext(
+          page,
+          async () => {
+            const clips = await locateScreenshotElements(page, target);
+            const shots: Uint8Array[] = [];
+            for (const clip of clips) {
+              shots.push(
+                await page.screenshot({
+                  clip,
+                  type,
+                  ...(type === "webp" &&
+                    this.config.screenshot.quality !== undefined && {
+                      quality: this.config.screenshot.quality,
+                    }),
+                }),
+              );
+            }
+            return shots;
+          },
+          `Element screenshots (${type}) of ${task.url}`,
+          this.config.timeouts.captureMs,
+          pacing,
+        ),
+    );
+
+    if (buffers.length === 0) {
+      throw new Error(
+        `screenshot selector ${target.selector} matched no rendered element`,
+      );
+    }
+
+    const locations: string[] = [];
+    for (const [index, buffer] of buffers.entries()) {
+      locations.push(
+        await this.store.put(
+          generateFilename(task, `${String(index + 1)}.${type}`),
+          Buffer.from(buffer),
+          type === "png" ? "image/png" : "image/webp",
+        ),
+      );
+    }
+    return locations;
+  }
+
+  /**
+   * Run `shoot` with the page's fixed / sticky elements hidden when the task
+   * asked for it, and put them back afterwards whatever happened — the
+   * formats captured next must see the page as it was.
+   */
+  private async withFixedElementsHidden<T>(
+    page: CapturePage,
+    task: CaptureTask,
+    keepSelector: string | undefined,
+    pacing: PacingLedger,
+    shoot: () => Promise<T>,
+  ): Promise<T> {
+    if (task.screenshotOptions?.hideFixedElements !== true) return shoot();
+    await runOnStableContext(
+      page,
+      () => hideFixedElements(page, keepSelector),
+      `hideFixedElements for ${task.url}`,
+      STYLE_INJECTION_TIMEOUT_MS,
+      pacing,
+    );
+    try {
+      return await shoot();
+    } finally {
+      // Best-effort: a navigation since hiding took the marked elements with it.
+      await restoreFixedElements(page).catch(() => undefined);
+    }
+  }
+
+  /**
+   * One screenshot per `task.viewports` entry, from the page already loaded.
+   *
+   * Most entries only resize: the page lays itself out again, and a short
+   * network-idle settle lets the new size fetch what its `srcset` and media
+   * queries want. An entry that changes the user agent or mobile emulation
+   * needs the page loaded again — the server may answer a phone differently,
+   * and Chromium cannot switch mobile emulation on a loaded page (puppeteer
+   * reloads as part of `setViewport`) — so it repeats the settle, the banner
+   * dismissal and the actions. The behaviors are not run again; the first
+   * load already had them. Entries run in request order, so grouping the
+   * mobile ones saves reloads.
+   */
+  private async captureViewports(
+    page: CapturePage,
+    task: CaptureTask,
+    viewports: NamedViewport[],
+    baseDeviceScaleFactor: number,
+    pacing: PacingLedger,
+    signal: AbortSignal | undefined,
+  ): Promise<Record<string, ViewportScreenshots>> {
+    // The entry's own user agent while one is in force; undefined means the
+    // task's (a device preset's, the configured one, or the browser's).
+    let currentUserAgent: string | undefined;
+    let currentMobile = task.device?.mobile ?? false;
+    let currentTouch = task.device?.hasTouch ?? false;
+    const locations: Record<string, ViewportScreenshots> = {};
+
+    try {
+      for (const entry of viewports) {
+        throwIfCancelled(signal, task.taskId);
+        const mobile = entry.mobile ?? false;
+        const userAgentChanged = entry.userAgent !== currentUserAgent;
+        // puppeteer reloads when either isMobile or hasTouch changes, and an
+        // entry sets both; a device preset may have started them apart.
+        const mobileChanged = mobile !== currentMobile || mobile !== currentTouch;
+
+        if (userAgentChanged) {
+          await (entry.userAgent === undefined
+            ? resetUserAgent(page, task.device, this.config.userAgent)
+            : page.setUserAgent({ userAgent: entry.userAgent }));
+          currentUserAgent = entry.userAgent;
+        }
+        await untilCancelled(
+          withOperationTimeout(
+            page.setViewport({
+              width: entry.width,
+              height: entry.height,
+              deviceScaleFactor: entry.deviceScaleFactor ?? baseDeviceScaleFactor,
+              isMobile: mobile,
+              hasTouch: mobile,
+            }),
+            this.config.timeouts.pageLoadMs,
+            `Viewport ${entry.name} for ${task.url}`,
+            pacing,
+          ),
+          signal,
+          task.taskId,
+        );
+        currentMobile = mobile;
+        currentTouch = mobile;
+        if (userAgentChanged && !mobileChanged) {
+          await untilCancelled(
+            withOperationTimeout(
+              page.goto(task.url, {
+                waitUntil: "domcontentloaded",
+                timeout: this.config.timeouts.pageLoadMs,
+              }),
+              this.config.timeouts.pageLoadMs,
+              `Navigation to ${task.url} (viewport ${entry.name})`,
+              pacing,
+            ),
+            signal,
+            task.taskId,
+          );
+        }
+
+        if (userAgentChanged || mobileChanged) {
+          await this.settleLoadedPage(page, task, pacing, signal);
+          if (task.actions !== undefined) {
+            await untilCancelled(
+              runPageActions(page, task.actions, pacing),
+              signal,
+              task.taskId,
+            );
+          }
+        } else {
+          // Best-effort: a page that never goes quiet is photographed anyway.
+          await page
+            .waitForNetworkIdle({
+              idleTime: VIEWPORT_SETTLE_IDLE_MS,
+              concurrency: 0,
+              timeout: VIEWPORT_SETTLE_TIMEOUT_MS,
+            })
+            .catch(() => undefined);
+        }
+
+        locations[entry.name] = {
+          ...(task.captureFormats.png && {
+            png: await this.captureScreenshot(page, task, pacing, "png", entry.name),
+          }),
+          ...(task.captureFormats.webp && {
+            webp: await this.captureScreenshot(page, task, pacing, "webp", entry.name),
+          }),
+        };
+      }
+    } finally {
+      // The page outlives the task, and the next capture only sets a user
+      // agent when one is configured — an entry's must not leak into it.
+      if (currentUserAgent !== undefined) {
+        await resetUserAgent(page, task.device, this.config.userAgent).catch(() => undefined);
+      }
+    }
+    return locations;
+  }
+
   private async captureHtml(
     page: CapturePage,
     task: CaptureTask,
@@ -1263,4 +1889,46 @@ export class PageCapturer {
       }
     }
   }
+
+  /**
+   * Print the rendered page to PDF via Chromium's CDP `Page.printToPDF`,
+   * with the task's resolved `pdfOptions`. Printing lays the document out
+   * again for paper, so `@media print` rules apply and the result is not a
+   * screenshot cut into pages.
+   *
+   * Same redirect hazard and session handling as `captureMhtml`.
+   */
+  private async capturePdf(
+    page: CapturePage,
+    task: CaptureTask,
+    pacing: PacingLedger,
+  ): Promise<string> {
+    const filename = generateFilename(task, "pdf");
+    const params = toPrintToPdfParams(task.pdfOptions ?? DEFAULT_PDF_OPTIONS);
+    const session = await page.createCDPSession();
+    try {
+      const { data } = await runOnStableContext(
+        page,
+        () =>
+          session.send("Page.printToPDF", params) as Promise<{ data: string }>,
+        `PDF capture of ${task.url}`,
+        this.config.timeouts.captureMs,
+        pacing,
+      );
+      return await this.store.put(
+        filename,
+        Buffer.from(data, "base64"),
+        "application/pdf",
+      );
+    } finally {
+      try {
+        await session.detach();
+      } catch (error) {
+        logger.warn(
+          { err: error, taskId: task.taskId },
+          "capturePdf CDP session detach failed",
+        );
+      }
+    }
+  }
 }
@@ -0,0 +1,100 @@
+/**
+ * PDF Spec / Options
+ *
+ * Print settings for the `pdf` capture format. Same shape as the other
+ * per-request specs: the HTTP layer accepts a partial `PdfSpec`, the request
+ * mapper resolves it into a fully-populated `PdfOptions`, and the capture
+ * layer only translates that into CDP `Page.printToPDF` parameters.
+ *
+ * Sizes are given as paper names and margins in millimetres on the wire —
+ * what a person filling in a print dialog would write — and converted to
+ * the inches CDP expects only at the last step.
+ *
+ * Defaults differ from Chromium's own in two places, both towards "the page
+ * as rendered": backgrounds are printed (Chromium drops them), and the
+ * paper is A4 rather than US Letter.
+ */
+import type { Protocol } from "puppeteer";
+
+/** Paper sizes accepted by `PdfSpec.paperSize`, as width × height in inches. */
+export const PDF_PAPER_SIZES = {
+  A3: { width: 11.69, height: 16.54 },
+  A4: { width: 8.27, height: 11.69 },
+  A5: { width: 5.83, height: 8.27 },
+  Letter: { width: 8.5, height: 11 },
+  Legal: { width: 8.5, height: 14 },
+  Tabloid: { width: 11, height: 17 },
+} as const;
+
+export type PdfPaperSize = keyof typeof PDF_PAPER_SIZES;
+
+export interface PdfMargins {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/**
+ * HTTP wire shape. Mirrors the OpenAPI `PdfSpec` schema. All fields
+ * optional; the resolver fills omitted fields from `DEFAULT_PDF_OPTIONS`.
+ */
+export interface PdfSpec {
+  paperSize?: PdfPaperSize;
+  landscape?: boolean;
+  /** Millimetres. An omitted side keeps its default. */
+  marginMm?: Partial<PdfMargins>;
+  printBackground?: boolean;
+  /** Let a CSS `@page { size: … }` rule win over `paperSize`. */
+  preferCssPageSize?: boolean;
+}
+
+/** Resolved options consumed by `page-capturer.ts:capturePdf`. */
+export interface PdfOptions {
+  paperSize: PdfPaperSize;
+  landscape: boolean;
+  marginMm: PdfMargins;
+  printBackground: boolean;
+  preferCssPageSize: boolean;
+}
+
+export const DEFAULT_PDF_OPTIONS: PdfOptions = {
+  paperSize: "A4",
+  landscape: false,
+  marginMm: { top: 10, right: 10, bottom: 10, left: 10 },
+  printBackground: true,
+  preferCssPageSize: false,
+};
+
+/** Fill the omitted fields of `spec` from {@link DEFAULT_PDF_OPTIONS}. */
+export const resolvePdfSpec = (spec: PdfSpec | undefined): PdfOptions => ({
+  paperSize: spec?.paperSize ?? DEFAULT_PDF_OPTIONS.paperSize,
+  landscape: spec?.landscape ?? DEFAULT_PDF_OPTIONS.landscape,
+  marginMm: { ...DEFAULT_PDF_OPTIONS.marginMm, ...spec?.marginMm },
+  printBackground: spec?.printBackground ?? DEFAULT_PDF_OPTIONS.printBackground,
+  preferCssPageSize:
+    spec?.preferCssPageSize ?? DEFAULT_PDF_OPTIONS.preferCssPageSize,
+});
+
+const MM_PER_INCH = 25.4;
+
+/**
+ * CDP `Page.printToPDF` parameters for `options`. The paper is always given
+ * portrait; Chromium rotates it for `landscape`.
+ */
+export const toPrintToPdfParams = (
+  options: PdfOptions,
+): Protocol.Page.PrintToPDFRequest => {
+  const paper = PDF_PAPER_SIZES[options.paperSize];
+  return {
+    landscape: options.landscape,
+    printBackground: options.printBackground,
+    preferCSSPageSize: options.preferCssPageSize,
+    paperWidth: paper.width,
+    paperHeight: paper.height,
+    marginTop: options.marginMm.top / MM_PER_INCH,
+    marginRight: options.marginMm.right / MM_PER_INCH,
+    marginBottom: options.marginMm.bottom / MM_PER_INCH,
+    marginLeft: options.marginMm.left / MM_PER_INCH,
+  };
+};
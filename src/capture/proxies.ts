@@ -0,0 +1,162 @@
+/**
+ * Upstream Proxies
+ *
+ * Some pages only answer from a given country, and some deployments may only
+ * reach the internet through a corporate egress proxy. Chromium takes its
+ * proxy per browser context, so a task that needs one runs in a context of
+ * its own, created with the proxy and closed after the capture — the next
+ * task on the worker cannot inherit it, whatever `resetState` says.
+ *
+ * Allowlist
+ * ---------
+ * A request names a proxy (`proxy: "jp-exit"`); it cannot give an address.
+ * The names come from `--proxies <file>`, which the operator controls, so a
+ * client can neither point the workers at an endpoint of its choosing nor
+ * learn the credentials of the ones on offer. `--default-proxy` picks one for
+ * every task of a profile that names none.
+ *
+ * The default is resolved by the worker rather than the request mapper
+ * (`resolveTaskProxy`), because it belongs to the browser profile and a task
+ * is not tied to one until a worker takes it. The result and the WACZ record
+ * the name that was used, never the address.
+ */
+import { readFileSync } from "node:fs";
+import type { CaptureConfig } from "../config/index.js";
+import type { CaptureTask } from "./types.js";
+import { err, ok, type Result } from "../result.js";
+
+/** Names a request can use, and a proxy file may define. */
+export const PROXY_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/** Schemes Chromium's `--proxy-server` understands. */
+const PROXY_SCHEMES = new Set(["http:", "https:", "socks4:", "socks5:"]);
+
+export interface ProxyDefinition {
+  /** `scheme://host:port`, as Chromium takes it, e.g. `http://egress.corp:3128`. */
+  server: string;
+  /**
+   * Answered to the proxy's `407` challenge. HTTP(S) proxies only — Chromium
+   * does not authenticate to SOCKS.
+   */
+  username?: string;
+  password?: string;
+  /** Hosts reached directly, in Chromium's bypass-list syntax (`*.internal`, `<local>`). */
+  bypass?: string[];
+}
+
+/** A proxy a task runs through: its allowlist name and what it stands for. */
+export interface ResolvedProxy {
+  name: string;
+  definition: ProxyDefinition;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const parseProxy = (name: string, value: unknown): Result<ProxyDefinition, string> => {
+  if (!isObject(value)) return err(`${name}: must be an object`);
+  const { server, username, password, bypass } = value;
+  if (typeof server !== "string") return err(`${name}: server is required`);
+  let url: URL;
+  try {
+    url = new URL(server);
+  } catch {
+    return err(`${name}: server "${server}" is not a URL`);
+  }
+  if (!PROXY_SCHEMES.has(url.protocol)) {
+    return err(`${name}: server must be http, https, socks4 or socks5`);
+  }
+  // Chromium ignores credentials in the proxy URL; accepting them would
+  // leave the operator believing the proxy was authenticated to.
+  if (url.username !== "" || url.password !== "") {
+    return err(`${name}: put credentials in username / password, not in server`);
+  }
+  if (url.pathname !== "" && url.pathname !== "/") {
+    return err(`${name}: server takes no path`);
+  }
+  if ((username === undefined) !== (password === undefined)) {
+    return err(`${name}: username and password go together`);
+  }
+  if (username !== undefined && (typeof username !== "string" || typeof password !== "string")) {
+    return err(`${name}: username and password must be strings`);
+  }
+  if (username !== undefined && url.protocol.startsWith("socks")) {
+    return err(`${name}: Chromium cannot authenticate to a SOCKS proxy`);
+  }
+  if (
+    bypass !== undefined &&
+    (!Array.isArray(bypass) || !bypass.every((entry) => typeof entry === "string"))
+  ) {
+    return err(`${name}: bypass must be an array of strings`);
+  }
+  return ok({
+    // The origin, so `http://proxy:3128/` and `http://proxy:3128` are one server.
+    server: `${url.protocol}//${url.host}`,
+    ...(typeof username === "string" &&
+      typeof password === "string" && { username, password }),
+    ...(bypass !== undefined && { bypass }),
+  });
+};
+
+/**
+ * Parse a proxy file: a JSON object of name → proxy. Like the device preset
+ * file, every entry is checked and the first problem stops the server.
+ */
+export const parseProxies = (content: string): Result<Record<string, ProxyDefinition>, string> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    return err(`not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!isObject(parsed)) return err("must be a JSON object of name → proxy");
+
+  const proxies: Record<string, ProxyDefinition> = {};
+  for (const [name, value] of Object.entries(parsed)) {
+    if (!PROXY_NAME_PATTERN.test(name)) {
+      return err(`invalid proxy name "${name}" (letters, digits, - and _, up to 64)`);
+    }
+    const proxy = parseProxy(name, value);
+    if (!proxy.ok) return proxy;
+    proxies[name] = proxy.value;
+  }
+  return ok(proxies);
+};
+
+/** Read and parse a proxy file. */
+export const loadProxies = (path: string): Result<Record<string, ProxyDefinition>, string> => {
+  let content: string;
+  try {
+    content = readFileSync(path, "utf-8");
+  } catch (error) {
+    return err(error instanceof Error ? error.message : String(error));
+  }
+  return parseProxies(content);
+};
+
+/**
+ * The proxy `task` runs through on a worker with `config`: the one it named,
+ * else the profile's default, else none.
+ *
+ * Checked again here although the request mapper already refused unknown
+ * names: a task can outlive the configuration it was accepted under, through
+ * the queue journal or a schedule, and a proxy that has since been removed
+ * must fail the capture rather than quietly send it out directly.
+ */
+export const resolveTaskProxy = (
+  task: CaptureTask,
+  config: Pick<CaptureConfig, "proxies" | "defaultProxy">,
+): Result<ResolvedProxy | undefined, string> => {
+  const name = task.proxy ?? config.defaultProxy;
+  if (name === undefined) return ok(undefined);
+  // Own keys only: a name like "constructor" would otherwise find a
+  // prototype member with no server and capture direct.
+  const definition = Object.hasOwn(config.proxies, name) ? config.proxies[name] : undefined;
+  if (definition === undefined) {
+    return err(`proxy ${name} is not configured on this worker`);
+  }
+  if (definition.username !== undefined && task.credentials?.httpAuth !== undefined) {
+    return err(`proxy ${name} authenticates, which cannot be combined with httpAuth`);
+  }
+  return ok({ name, definition });
+};
@@ -0,0 +1,321 @@
+/**
+ * Queue Journal
+ *
+ * `TaskQueue` をプロセスの寿命より長持ちさせるための追記専用ジャーナル。
+ * デプロイやクラッシュで待機中・処理中のタスクが黙って消えないように、
+ * キューを変える操作を 1 行 1 レコードの JSON でファイルに追記し、起動時に
+ * 読み直してキューを組み立て直す。
+ *
+ * ## 追記は同期
+ *
+ * `TaskQueue` のメソッドは同期で、`POST /v1/captures` の 202 は enqueue が
+ * 返った時点で返る。追記も同じ呼び出しの中で `writeSync` するので、202 を
+ * 受け取ったタスクはプロセスが落ちても残る。`fsync` はしない — 守るのは
+ * プロセスの死(デプロイ・クラッシュ)までで、OS ごと落ちたときは末尾の
+ * 数行を失いうる。途中で切れた最終行は読み直しで読み飛ばす。
+ *
+ * ## 処理中だったタスクは再試行として戻す
+ *
+ * 死んだ時点で処理中だったタスクは、ワーカーの再試行と同じく
+ * `retryCount` を 1 つ上げて待機列に戻す。そのページがサーバごと落とす
+ * 類のものなら、再起動のたびに試行を 1 回ずつ消費し、上限で止まる
+ * (止めるのは呼び出し側 — `CaptureCoordinator.initialize`)。
+ *
+ * ## 肥大化はスナップショットで畳む
+ *
+ * 完了したタスクのレコードは読み直しでは打ち消し合うだけなので、起動時と、
+ * 追記が溜まったときに、生きているタスクだけのスナップショットへ書き直す
+ * (一時ファイルに書いて rename — 途中で落ちても古いほうが残る)。
+ *
+ * ファイルにはタスクがそのまま入る。`callback.secret` も含まれるので、
+ * 作成時のパーミッションは所有者のみ(`0600`)。
+ *
+ * @glossary QueueJournal
+ * @category コンポーネント
+ */
+import { closeSync, openSync, renameSync, writeFileSync, writeSync } from "node:fs";
+import { mkdir, readFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import type { Logger } from "../logger.js";
+import { TaskQueue, type TaskOutcome, type TaskQueueOptions } from "./task-queue.js";
+import type { CaptureTask } from "./types.js";
+
+/** Name of the journal inside the configured directory. */
+export const QUEUE_JOURNAL_FILE = "queue.jsonl";
+
+/**
+ * Appends that may pile up before the journal is rewritten, as a floor — the
+ * actual threshold also scales with the number of live tasks, so a deep
+ * queue is not rewritten on every few hundred completions.
+ */
+export const COMPACT_MIN_RECORDS = 10_000;
+
+export type QueueJournalRecord =
+  | { op: "enqueue"; task: CaptureTask }
+  | { op: "dequeue"; taskId: string }
+  /** `notBefore` is present when the retry backs off. */
+  | { op: "requeue"; taskId: string; notBefore?: string }
+  /** Left the queue for good: completed, failed, or cancelled. */
+  | { op: "finish"; taskId: string };
+
+export interface ReplayedQueue {
+  /**
+   * What to put back in the queue, in its original order. Tasks that were
+   * being processed are included, their `retryCount` already raised.
+   */
+  tasks: CaptureTask[];
+  /** How many of `tasks` were being processed when the journal ended. */
+  interrupted: number;
+  /** Lines that did not parse (normally at most one: a torn last write). */
+  skipped: number;
+}
+
+/**
+ * Fold journal lines into the queue they describe.
+ *
+ * A `Map` keeps insertion order, so "delete then set" moves a requeued task
+ * to the back just as `TaskQueue.requeue` does.
+ */
+export const replayQueueJournal = (lines: string[]): ReplayedQueue => {
+  const live = new Map<string, { task: CaptureTask; processing: boolean }>();
+  let skipped = 0;
+
+  for (const line of lines) {
+    if (line.trim() === "") continue;
+    let record: QueueJournalRecord;
+    try {
+      record = JSON.parse(line) as QueueJournalRecord;
+    } catch {
+      skipped++;
+      continue;
+    }
+    switch (record.op) {
+      case "enqueue":
+        live.set(record.task.taskId, { task: record.task, processing: false });
+        break;
+      case "dequeue": {
+        const entry = live.get(record.taskId);
+        if (entry) entry.processing = true;
+        break;
+      }
+      case "requeue": {
+        const entry = live.get(record.taskId);
+        if (!entry) break;
+        live.delete(record.taskId);
+        live.set(record.taskId, {
+          task: {
+            ...entry.task,
+            retryCount: entry.task.retryCount + 1,
+            ...(record.notBefore !== undefined && { notBefore: record.notBefore }),
+          },
+          processing: false,
+        });
+        break;
+      }
+      case "finish":
+        live.delete(record.taskId);
+        break;
+    }
+  }
+
+  let interrupted = 0;
+  const tasks = [...live.values()].map(({ task, processing }) => {
+    if (!processing) return task;
+    interrupted++;
+    return { ...task, retryCount: task.retryCount + 1 };
+  });
+  return { tasks, interrupted, skipped };
+};
+
+const serialize = (records: QueueJournalRecord[]): string =>
+  records.map((record) => `${JSON.stringify(record)}\n`).join("");
+
+/**
+ * The file side: reading it back once at boot, then appending.
+ *
+ * Write failures are logged, not thrown — the queue keeps working in memory,
+ * which is what it did before there was a journal. Only `recover` throws, so
+ * a directory that cannot be used stops the server at startup, like a
+ * misconfigured artifact store does.
+ */
+export class QueueJournal {
+  private readonly path: string;
+  private readonly logger: Logger;
+  private fd: number | undefined;
+  private appended = 0;
+
+  constructor(directory: string, logger: Logger) {
+    this.path = join(directory, QUEUE_JOURNAL_FILE);
+    this.logger = logger;
+  }
+
+  /**
+   * Read what the previous process left. Nothing is appended until
+   * {@link start} has been called.
+   */
+  async recover(): Promise<ReplayedQueue> {
+    await mkdir(dirname(this.path), { recursive: true });
+    let content = "";
+    try {
+      content = await readFile(this.path, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+    const replayed = replayQueueJournal(content.split("\n"));
+    if (replayed.skipped > 0) {
+      this.logger.warn(
+        { path: this.path, skipped: replayed.skipped },
+        "Skipped unreadable queue journal lines",
+      );
+    }
+    return replayed;
+  }
+
+  /**
+   * Rewrite the journal as the queue about to be restored, and open it for
+   * appending. Throws: a journal that cannot be written at boot is a
+   * configuration problem, not something to find out about later.
+   */
+  start(pending: CaptureTask[]): void {
+    this.writeSnapshot(pending.map((task) => ({ op: "enqueue", task })));
+  }
+
+  append(record: QueueJournalRecord): void {
+    if (this.fd === undefined) return;
+    try {
+      writeSync(this.fd, serialize([record]));
+      this.appended++;
+    } catch (error) {
+      this.logger.error(
+        { err: error, path: this.path, op: record.op },
+        "Failed to append to queue journal",
+      );
+    }
+  }
+
+  /** Whether enough has been appended that a rewrite would pay off. */
+  shouldCompact(liveTasks: number): boolean {
+    return this.appended >= Math.max(COMPACT_MIN_RECORDS, liveTasks * 4);
+  }
+
+  /**
+   * Replace the journal with one describing only `pending` and `processing`.
+   * Processing tasks are written as enqueue + dequeue, so a crash right after
+   * still counts them as interrupted.
+   */
+  compact(pending: CaptureTask[], processing: CaptureTask[]): void {
+    const records: QueueJournalRecord[] = [
+      ...processing.flatMap((task): QueueJournalRecord[] => [
+        { op: "enqueue", task },
+        { op: "dequeue", taskId: task.taskId },
+      ]),
+      ...pending.map((task): QueueJournalRecord => ({ op: "enqueue", task })),
+    ];
+    try {
+      this.writeSnapshot(records);
+    } catch (error) {
+      this.logger.error({ err: error, path: this.path }, "Failed to compact queue journal");
+    }
+  }
+
+  close(): void {
+    if (this.fd === undefined) return;
+    closeSync(this.fd);
+    this.fd = undefined;
+  }
+
+  /**
+   * Write `records` beside the journal, rename over it, and append to the new
+   * file from then on. Synchronous from start to finish: an append landing
+   * between the rename and the descriptor swap would go to the replaced file
+   * and be lost.
+   */
+  private writeSnapshot(records: QueueJournalRecord[]): void {
+    const temporary = `${this.path}.tmp`;
+    writeFileSync(temporary, serialize(records), { mode: 0o600 });
+    renameSync(temporary, this.path);
+    this.close();
+    this.fd = openSync(this.path, "a", 0o600);
+    this.appended = 0;
+  }
+}
+
+/**
+ * `TaskQueue` that writes each change to a {@link QueueJournal} as it makes
+ * it. A drop-in: the coordinator machine and the workers see a `TaskQueue`.
+ *
+ * The journal record goes first for additions and after the fact for
+ * removals, so a crash between the two errs towards running a task again
+ * rather than losing it. A requeue is recorded after the fact too: it needs
+ * the `notBefore` the queue chose, and a crash before the record replays
+ * the task as interrupted — a retry either way.
+ */
+export class JournaledTaskQueue extends TaskQueue {
+  private readonly journal: QueueJournal;
+
+  constructor(journal: QueueJournal, options: TaskQueueOptions = {}) {
+    super(options);
+    this.journal = journal;
+  }
+
+  /**
+   * Put recovered tasks back and start journaling. Call once, before any
+   * other method — changes made earlier are not written anywhere.
+   *
+   * A task whose interruption used up its last retry is not put back: it is
+   * counted as failed, like a worker giving up on it, and returned for the
+   * caller to record a result for.
+   */
+  restore(tasks: CaptureTask[], maxRetryCount: number): CaptureTask[] {
+    const exhausted = tasks.filter((task) => task.retryCount > maxRetryCount);
+    const restored = tasks.filter((task) => task.retryCount <= maxRetryCount);
+    this.journal.start(restored);
+    super.enqueueAll(restored);
+    for (const task of exhausted) super.markComplete(task.taskId, "failed");
+    return exhausted;
+  }
+
+  override enqueue(task: CaptureTask): void {
+    this.journal.append({ op: "enqueue", task });
+    super.enqueue(task);
+  }
+
+  override enqueueAll(tasks: CaptureTask[]): void {
+    for (const task of tasks) this.journal.append({ op: "enqueue", task });
+    super.enqueueAll(tasks);
+  }
+
+  override dequeue(): CaptureTask | undefined {
+    const task = super.dequeue();
+    if (task) this.journal.append({ op: "dequeue", taskId: task.taskId });
+    return task;
+  }
+
+  override requeue(task: CaptureTask, delayMs = 0): CaptureTask {
+    const retried = super.requeue(task, delayMs);
+    this.journal.append({
+      op: "requeue",
+      taskId: task.taskId,
+      ...(retried.notBefore !== undefined && { notBefore: retried.notBefore }),
+    });
+    return retried;
+  }
+
+  override remove(taskId: string): CaptureTask | undefined {
+    const task = super.remove(taskId);
+    if (task) this.finish(taskId);
+    return task;
+  }
+
+  override markComplete(taskId: string, outcome: TaskOutcome): void {
+    super.markComplete(taskId, outcome);
+    this.finish(taskId);
+  }
+
+  private finish(taskId: string): void {
+    this.journal.append({ op: "finish", taskId });
+    if (this.journal.shouldCompact(this.remaining + this.processingCount)) {
+      this.journal.compact(this.peekPending(this.remaining), this.heldTasks());
+    }
+  }
+}
@@ -0,0 +1,378 @@
+/**
+ * Request Credentials
+ *
+ * Cookies, extra headers and HTTP basic auth that a request brings with it,
+ * for capturing pages behind a login. The alternative — turning off
+ * `resetState.cookies` and relying on whichever task last ran on the worker
+ * having logged in — depends on which worker picks the task up, and under
+ * work-stealing that is not something a client can arrange.
+ *
+ * Same Spec → Options shape as the other per-request settings: the request
+ * mapper checks the three fields against each other and resolves them into
+ * `RequestCredentials`, the capture layer installs them before `page.goto`,
+ * and `resetPageState` takes them off again whatever `resetState` says — a
+ * stateful crawl keeps what the *site* set, not what the last request
+ * supplied.
+ *
+ * Scope
+ * -----
+ * Headers and basic auth reach the capture URL's origin only. A page pulls
+ * in third-party scripts, fonts and trackers, and a bearer token or a
+ * password handed to each of them would leak the credentials to whoever
+ * runs those hosts. `setExtraHTTPHeaders` and `page.authenticate` have no
+ * notion of an origin, so both go through a `Fetch` session instead: a
+ * paused request from the capture origin gets the headers added, a `401`
+ * challenge from it gets the credentials, and everything else is let
+ * through untouched (a challenge from elsewhere is cancelled). Cookies
+ * already carry their own scope.
+ *
+ * Redaction
+ * ---------
+ * The values are secrets and the task travels: it is logged, listed in
+ * `/v1/status`, and recorded into a WARC that may be handed to someone else.
+ * Every copy that leaves the capture goes through `redactHeaders` /
+ * `redactCredentials`, which keep header *names* and replace the values of
+ * the ones named in `CaptureConfig.redactHeaders` with {@link REDACTED}.
+ * Cookie values and the basic-auth password are never shown at all. The
+ * queue journal and the schedule store keep the real values — they exist to
+ * run the task again — and are written `0600`.
+ */
+import type { CDPSession, Protocol } from "puppeteer";
+import type { CapturePage } from "./capture-page.js";
+import { logger } from "../logger.js";
+import { err, ok, type Result } from "../result.js";
+
+/** What a redacted value is replaced with. */
+export const REDACTED = "[REDACTED]";
+
+/**
+ * Always redacted, whatever `--redact-headers` adds: the headers a browser
+ * uses to carry credentials. Lower case, like every name this module compares.
+ */
+export const DEFAULT_REDACTED_HEADERS: readonly string[] = [
+  "authorization",
+  "proxy-authorization",
+  "cookie",
+];
+
+/**
+ * HTTP wire shape of one cookie. Mirrors the OpenAPI `RequestCookie` schema.
+ * Without `domain`, the cookie is set for the capture URL's host only.
+ */
+export interface RequestCookie {
+  name: string;
+  value: string;
+  domain?: string;
+  path?: string;
+  secure?: boolean;
+  httpOnly?: boolean;
+  sameSite?: "Strict" | "Lax" | "None";
+  /** Unix time in seconds. A session cookie when absent. */
+  expires?: number;
+}
+
+export interface HttpAuth {
+  username: string;
+  password: string;
+}
+
+/** The three request fields, as the mapper reads them. */
+export interface RequestCredentialsSpec {
+  cookies?: RequestCookie[];
+  extraHeaders?: Record<string, string>;
+  httpAuth?: HttpAuth;
+}
+
+/** Resolved credentials carried on the task as `credentials`. */
+export interface RequestCredentials {
+  /** `Network.setCookies` parameters, each with a `url` or a `domain`. */
+  cookies?: Protocol.Network.CookieParam[];
+  extraHeaders?: Record<string, string>;
+  httpAuth?: HttpAuth;
+}
+
+/**
+ * What `installRequestCredentials` left on the page, for
+ * `removeRequestCredentials` to take off again.
+ */
+export interface AppliedCredentials {
+  credentials: RequestCredentials;
+  /** The `Fetch` session scoping headers and basic auth; absent without either. */
+  session?: CDPSession;
+}
+
+/**
+ * What may be shown of `RequestCredentials`: cookie names, header names with
+ * the sensitive values replaced, and the basic-auth user name.
+ */
+export interface RedactedCredentials {
+  cookies?: string[];
+  extraHeaders?: Record<string, string>;
+  httpAuth?: { username: string };
+}
+
+/**
+ * Headers the three fields must not be used to set: `Cookie` and
+ * `Authorization` have fields of their own, and these are the browser's.
+ */
+const RESERVED_HEADERS = new Map<string, string>([
+  ["cookie", "use cookies"],
+  ["host", "set by the browser"],
+  ["content-length", "set by the browser"],
+]);
+
+/**
+ * Check the three fields against each other and against `acceptLanguage`,
+ * and give each cookie somewhere to live. Undefined when the request set
+ * none of them.
+ */
+export const resolveRequestCredentials = (
+  spec: RequestCredentialsSpec,
+  url: string,
+  acceptLanguage: string | undefined,
+): Result<RequestCredentials | undefined, string> => {
+  const { cookies, extraHeaders, httpAuth } = spec;
+  if (cookies === undefined && extraHeaders === undefined && httpAuth === undefined) {
+    return ok(undefined);
+  }
+
+  if (extraHeaders !== undefined) {
+    const seen = new Set<string>();
+    for (const name of Object.keys(extraHeaders)) {
+      const lower = name.toLowerCase();
+      const reserved = RESERVED_HEADERS.get(lower);
+      if (reserved !== undefined) {
+        return err(`extraHeaders: ${name} cannot be set here (${reserved})`);
+      }
+      if (lower === "authorization" && httpAuth !== undefined) {
+        return err("extraHeaders: Authorization cannot be combined with httpAuth");
+      }
+      if (lower === "accept-language" && acceptLanguage !== undefined) {
+        return err("extraHeaders: Accept-Language cannot be combined with acceptLanguage");
+      }
+      if (seen.has(lower)) {
+        return err(`extraHeaders: ${name} is given more than once`);
+      }
+      seen.add(lower);
+    }
+  }
+
+  return ok({
+    ...(cookies !== undefined && {
+      cookies: cookies.map((cookie) => ({
+        name: cookie.name,
+        value: cookie.value,
+        // A cookie needs a URL or a domain to be set against; the capture
+        // URL's host is the one the request is about.
+        ...(cookie.domain !== undefined ? { domain: cookie.domain } : { url }),
+        ...(cookie.path !== undefined && { path: cookie.path }),
+        ...(cookie.secure !== undefined && { secure: cookie.secure }),
+        ...(cookie.httpOnly !== undefined && { httpOnly: cookie.httpOnly }),
+        ...(cookie.sameSite !== undefined && { sameSite: cookie.sameSite }),
+        ...(cookie.expires !== undefined && { expires: cookie.expires }),
+      })),
+    }),
+    ...(extraHeaders !== undefined && { extraHeaders }),
+    ...(httpAuth !== undefined && { httpAuth }),
+  });
+};
+
+/**
+ * The set `redactHeaders` compares against: the defaults plus the configured
+ * names, lower-cased.
+ */
+export const redactedHeaderSet = (configured: readonly string[]): ReadonlySet<string> =>
+  new Set([...DEFAULT_REDACTED_HEADERS, ...configured].map((name) => name.toLowerCase()));
+
+/** A copy of `headers` with the values of the names in `redact` replaced. */
+export const redactHeaders = (
+  headers: Record<string, string>,
+  redact: ReadonlySet<string>,
+): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [
+      name,
+      redact.has(name.toLowerCase()) ? REDACTED : value,
+    ]),
+  );
+
+export const redactCredentials = (
+  credentials: RequestCredentials,
+  redact: ReadonlySet<string>,
+): RedactedCredentials => ({
+  ...(credentials.cookies !== undefined && {
+    cookies: credentials.cookies.map((cookie) => cookie.name),
+  }),
+  ...(credentials.extraHeaders !== undefined && {
+    extraHeaders: redactHeaders(credentials.extraHeaders, redact),
+  }),
+  ...(credentials.httpAuth !== undefined && {
+    httpAuth: { username: credentials.httpAuth.username },
+  }),
+});
+
+/** Counts only, for the trace — e.g. `2 cookie(s), 1 header(s), basic auth`. */
+export const describeCredentials = (credentials: RequestCredentials): string =>
+  [
+    ...(credentials.cookies !== undefined
+      ? [`${String(credentials.cookies.length)} cookie(s)`]
+      : []),
+    ...(credentials.extraHeaders !== undefined
+      ? [`${String(Object.keys(credentials.extraHeaders).length)} header(s)`]
+      : []),
+    ...(credentials.httpAuth !== undefined ? ["basic auth"] : []),
+  ].join(", ");
+
+/** `url`'s origin, or undefined for one that has none (`data:`, `about:`). */
+const originOf = (url: string): string | undefined => {
+  try {
+    const { origin } = new URL(url);
+    return origin === "null" ? undefined : origin;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * The headers a request paused in `Fetch` goes on with: its own plus
+ * `extraHeaders`, which win over a same-named one in any case. Undefined for
+ * a request to another origin — it continues unchanged.
+ */
+export const scopedRequestHeaders = (
+  request: Protocol.Network.Request,
+  origin: string,
+  extraHeaders: Record<string, string>,
+): Protocol.Fetch.HeaderEntry[] | undefined => {
+  if (originOf(request.url) !== origin) return undefined;
+  const replaced = new Set(Object.keys(extraHeaders).map((name) => name.toLowerCase()));
+  return [
+    ...Object.entries(request.headers)
+      .filter(([name]) => !replaced.has(name.toLowerCase()))
+      .map(([name, value]) => ({ name, value })),
+    ...Object.entries(extraHeaders).map(([name, value]) => ({ name, value })),
+  ];
+};
+
+/**
+ * The answer to a `Fetch.authRequired` challenge: the credentials for a
+ * server challenge from `origin`, a cancel for one from anywhere else. A
+ * proxy's challenge is left to whoever authenticates to the proxy.
+ */
+export const scopedAuthResponse = (
+  challenge: Protocol.Fetch.AuthChallenge,
+  origin: string,
+  httpAuth: HttpAuth,
+): Protocol.Fetch.AuthChallengeResponse => {
+  if (challenge.source === "Proxy") return { response: "Default" };
+  if (originOf(challenge.origin) !== origin) return { response: "CancelAuth" };
+  return { response: "ProvideCredentials", ...httpAuth };
+};
+
+/**
+ * Pause every request in `session` and add the headers / answer the basic
+ * auth challenge for `origin` only. A failed continue means the target went
+ * away mid-request, which the capture notices on its own.
+ */
+const scopeToOrigin = async (
+  session: CDPSession,
+  origin: string,
+  { extraHeaders, httpAuth }: RequestCredentials,
+): Promise<void> => {
+  const onFailure = (error: unknown): void => {
+    logger.debug({ err: error }, "Scoped request credentials: continue failed");
+  };
+  session.on("Fetch.requestPaused", ({ requestId, request }) => {
+    const headers =
+      extraHeaders === undefined
+        ? undefined
+        : scopedRequestHeaders(request, origin, extraHeaders);
+    session
+      .send("Fetch.continueRequest", { requestId, ...(headers !== undefined && { headers }) })
+      .catch(onFailure);
+  });
+  if (httpAuth !== undefined) {
+    session.on("Fetch.authRequired", ({ requestId, authChallenge }) => {
+      session
+        .send("Fetch.continueWithAuth", {
+          requestId,
+          authChallengeResponse: scopedAuthResponse(authChallenge, origin, httpAuth),
+        })
+        .catch(onFailure);
+    });
+  }
+  await session.send("Fetch.enable", {
+    patterns: [{ urlPattern: "*" }],
+    handleAuthRequests: httpAuth !== undefined,
+  });
+};
+
+/**
+ * Set the cookies before navigation, and scope the extra headers and basic
+ * auth to `url`'s origin (see Scope above).
+ *
+ * Cookies are browser-scoped, so the session that sets them need not
+ * outlive the call — unlike the `Fetch` session, which has to stay attached
+ * for the whole capture, like the emulation overrides.
+ */
+export const installRequestCredentials = async (
+  page: CapturePage,
+  credentials: RequestCredentials,
+  url: string,
+): Promise<AppliedCredentials> => {
+  if (credentials.cookies !== undefined) {
+    const session = await page.createCDPSession();
+    try {
+      await session.send("Network.setCookies", { cookies: credentials.cookies });
+    } finally {
+      await session.detach();
+    }
+  }
+  const applied: AppliedCredentials = { credentials };
+  const origin = originOf(url);
+  if (
+    origin !== undefined &&
+    (credentials.extraHeaders !== undefined || credentials.httpAuth !== undefined)
+  ) {
+    applied.session = await page.createCDPSession();
+    try {
+      await scopeToOrigin(applied.session, origin, credentials);
+    } catch (error) {
+      await applied.session.detach().catch(() => undefined);
+      throw error;
+    }
+  }
+  return applied;
+};
+
+/**
+ * Take the request's cookies, extra headers and basic auth back off the
+ * page. A cookie the site replaced under the same name goes too — it was
+ * set in answer to these credentials.
+ */
+export const removeRequestCredentials = async (
+  page: CapturePage,
+  { credentials, session: scoped }: AppliedCredentials,
+): Promise<void> => {
+  if (scoped !== undefined) {
+    try {
+      await scoped.send("Fetch.disable");
+    } finally {
+      await scoped.detach();
+    }
+  }
+  if (credentials.cookies !== undefined) {
+    const session = await page.createCDPSession();
+    try {
+      for (const cookie of credentials.cookies) {
+        await session.send("Network.deleteCookies", {
+          name: cookie.name,
+          ...(cookie.url !== undefined && { url: cookie.url }),
+          ...(cookie.domain !== undefined && { domain: cookie.domain }),
+          ...(cookie.path !== undefined && { path: cookie.path }),
+        });
+      }
+    } finally {
+      await session.detach();
+    }
+  }
+};
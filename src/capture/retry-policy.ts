@@ -0,0 +1,44 @@
+/**
+ * Retry Policy
+ *
+ * 失敗したキャプチャを「もう一度試すか」と「いつ試すか」を決める。
+ *
+ * 試すかどうかは失敗の種類で決まる。503 や 429 は「今は無理」という返事で、
+ * 待てば通りうる。404 や 410 は「無い」という返事で、何度聞いても同じ ―
+ * リトライ枠を使っても、そのサイトを余計に叩くだけになる。
+ *
+ * いつ試すかは指数バックオフ。即座にキューの末尾へ戻すと、短いキューでは
+ * 数秒後に(多くは同じワーカーが)同じ相手に同じ失敗をしに行く。
+ *
+ * @glossary RetryPolicy
+ * @category コンポーネント
+ */
+import type { RetryPolicy } from "../config/index.js";
+import type { ErrorDetails } from "./types.js";
+
+/** Whether a failure described by `errorDetails` may be retried at all. */
+export const isRetryableFailure = (
+  policy: RetryPolicy,
+  errorDetails: ErrorDetails | undefined,
+): boolean => {
+  // A failure with no details came from somewhere that did not classify it;
+  // treat it like `internal`.
+  const type = errorDetails?.type ?? "internal";
+  if (!policy.retryableErrorTypes.includes(type)) return false;
+  if (type !== "http" || errorDetails?.httpStatusCode === undefined) return true;
+  return policy.retryableHttpStatuses.includes(errorDetails.httpStatusCode);
+};
+
+/**
+ * How long retry number `attempt` (1 = first retry) waits before a worker may
+ * take it. `random` is injectable for tests.
+ */
+export const retryDelayMs = (
+  policy: RetryPolicy,
+  attempt: number,
+  random: () => number = Math.random,
+): number => {
+  const grown = policy.baseDelayMs * policy.multiplier ** (attempt - 1);
+  const capped = Math.min(grown, policy.maxDelayMs);
+  return Math.round(capped * (1 - policy.jitter * random()));
+};
@@ -0,0 +1,284 @@
+/**
+ * Scheduler
+ *
+ * 決まった間隔・決まった時刻に同じキャプチャを投入し直すサブシステム。
+ * 外部の cron からクライアント CLI を叩く代わりに、サーバ自身が
+ * スケジュール(`CaptureRequest` のテンプレート + `cron` 式か間隔 + ジッタ)を
+ * 持ち、時刻が来たら `CaptureCoordinator.enqueueTask` に流す。
+ *
+ * 投入されるタスクは毎回新しい `taskId` を持ち、`scheduleId` が刻まれる。
+ * `scheduleId` は結果のレポート(= `.result.json` マニフェスト)にも載るので、
+ * あるスケジュールの実行結果をマニフェスト側で束ねられる。
+ *
+ * ## テンプレートは作成時に一度だけ解決する
+ *
+ * `CaptureRequest` からタスクへの変換(既定値の解決・検証)は作成時に済ませ、
+ * 結果のタスクをテンプレートとして持つ。実行のたびに変換し直さないので、
+ * 作成時に通った要求が夜中に 400 相当で落ちることは無い。
+ *
+ * ## ジッタは公称時刻の後ろに足す
+ *
+ * 各回は公称時刻(`cron` の一致時刻、または作成時刻から間隔の倍数)に
+ * `0`〜`jitterMs` の乱数を足した時刻に走る。次回の公称時刻は実際に走った
+ * 時刻の「次」から求めるので、ジッタが積み重なってずれていくことは無い。
+ *
+ * ## 止まっていた間の分は 1 回にまとめる
+ *
+ * サーバが止まっていて実行時刻を過ぎていたスケジュールは、起動後すぐに
+ * 1 回だけ走り、その後は通常の周期に戻る。逃した回をすべて取り返しには
+ * 行かない ― 同じ URL を続けて撮っても同じものが撮れるだけ。
+ *
+ * ## 永続化
+ *
+ * 保存先ディレクトリが設定されていれば、変更のたびに `schedules.json` を
+ * 書き直し(一時ファイル + rename)、起動時に読み直す。タスクのテンプレートを
+ * そのまま含み `callback.secret` も入りうるので、パーミッションは所有者のみ
+ * (`0600`)。設定が無ければスケジュールはメモリにだけあり、再起動で消える。
+ *
+ * @glossary Scheduler
+ * @category コンポーネント
+ */
+import { randomUUID } from "node:crypto";
+import { renameSync, writeFileSync } from "node:fs";
+import { mkdir, readFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import type { CaptureRequest } from "../http/generated/index.js";
+import type { Logger } from "../logger.js";
+import { err, ok, type Result } from "../result.js";
+import { nextCronRun, parseCron, type CronExpression } from "./cron.js";
+import type { CaptureTask } from "./types.js";
+
+/** Name of the schedule file inside the configured directory. */
+export const SCHEDULE_FILE = "schedules.json";
+
+/** How often due schedules are looked for. Runs are minute-grained at best. */
+export const SCHEDULER_TICK_MS = 1000;
+
+/** What a client asks for; everything a {@link Schedule} adds is derived. */
+export interface ScheduleSpec {
+  /** The capture request each run submits, kept as the client sent it. */
+  request: CaptureRequest;
+  /** `request` resolved into a task; each run is a copy with a new taskId. */
+  template: CaptureTask;
+  /** Five-field cron expression, in UTC. Exactly one of `cron` / `intervalMs`. */
+  cron?: string;
+  intervalMs?: number;
+  /** Upper bound of the random delay added to each run. */
+  jitterMs: number;
+}
+
+export interface Schedule extends ScheduleSpec {
+  scheduleId: string;
+  createdAt: string;
+  /** When the next run is due, jitter included. */
+  nextRunAt: string;
+  lastRunAt?: string;
+  /** The task the last run enqueued. Absent until a run got one queued. */
+  lastTaskId?: string;
+}
+
+/** Enqueue a task; the coordinator's duplicate check applies. */
+export type ScheduledEnqueue = (task: CaptureTask) => Result<void, string>;
+
+interface ScheduleFile {
+  schedules: Schedule[];
+}
+
+/**
+ * Owns the schedules, their file, and the timer that runs them.
+ *
+ * Write failures are logged, not thrown — the schedules keep running from
+ * memory. Only {@link start} throws, so an unusable directory stops the
+ * server at boot, as it does for the queue journal.
+ */
+export class Scheduler {
+  private readonly schedules = new Map<string, Schedule>();
+  /** Parsed `cron` per schedule, so a tick does not re-parse. */
+  private readonly crons = new Map<string, CronExpression>();
+  private readonly path: string | undefined;
+  private readonly enqueue: ScheduledEnqueue;
+  private readonly logger: Logger;
+  private readonly random: () => number;
+  private timer: NodeJS.Timeout | undefined;
+
+  /**
+   * @param directory Where `schedules.json` lives; `undefined` keeps
+   *   schedules in memory only.
+   * @param random Injectable for tests.
+   */
+  constructor(
+    directory: string | undefined,
+    enqueue: ScheduledEnqueue,
+    logger: Logger,
+    random: () => number = Math.random,
+  ) {
+    this.path = directory === undefined ? undefined : join(directory, SCHEDULE_FILE);
+    this.enqueue = enqueue;
+    this.logger = logger;
+    this.random = random;
+  }
+
+  /** Load the saved schedules and start running them. */
+  async start(): Promise<void> {
+    if (this.path !== undefined) {
+      await mkdir(dirname(this.path), { recursive: true });
+      let content: string | undefined;
+      try {
+        content = await readFile(this.path, "utf-8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      }
+      if (content !== undefined) {
+        for (const schedule of (JSON.parse(content) as ScheduleFile).schedules) {
+          this.restore(schedule);
+        }
+        this.logger.info({ schedules: this.schedules.size }, "Loaded schedules");
+      }
+    }
+    this.timer = setInterval(() => {
+      this.runDue(Date.now());
+    }, SCHEDULER_TICK_MS);
+    // Do not keep the event loop alive solely for the scheduler.
+    this.timer.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /** Validate `spec` and add it. The first run is the first one after now. */
+  add(spec: ScheduleSpec): Result<Schedule, string> {
+    if ((spec.cron === undefined) === (spec.intervalMs === undefined)) {
+      return err("Give exactly one of cron or intervalMs");
+    }
+    let cron: CronExpression | undefined;
+    if (spec.cron !== undefined) {
+      const parsed = parseCron(spec.cron);
+      if (!parsed.ok) return err(`Invalid cron expression: ${parsed.error}`);
+      cron = parsed.value;
+    }
+    if (spec.intervalMs !== undefined && spec.jitterMs >= spec.intervalMs) {
+      return err("jitterMs must be shorter than intervalMs");
+    }
+
+    const now = Date.now();
+    const scheduleId = randomUUID();
+    const createdAt = new Date(now).toISOString();
+    const nominal = cron
+      ? nextCronRun(cron, now)
+      : now + (spec.intervalMs ?? 0);
+    if (nominal === undefined) {
+      return err(`Cron expression ${spec.cron ?? ""} never matches`);
+    }
+    const schedule: Schedule = {
+      ...spec,
+      scheduleId,
+      createdAt,
+      nextRunAt: new Date(this.jittered(nominal, spec.jitterMs)).toISOString(),
+    };
+    this.schedules.set(scheduleId, schedule);
+    if (cron) this.crons.set(scheduleId, cron);
+    this.save();
+    return ok(schedule);
+  }
+
+  /** In creation order. */
+  list(): Schedule[] {
+    return [...this.schedules.values()];
+  }
+
+  get(scheduleId: string): Schedule | undefined {
+    return this.schedules.get(scheduleId);
+  }
+
+  remove(scheduleId: string): boolean {
+    const removed = this.schedules.delete(scheduleId);
+    this.crons.delete(scheduleId);
+    if (removed) this.save();
+    return removed;
+  }
+
+  /** Run every schedule due at `now`. Called by the timer; public for tests. */
+  runDue(now: number): void {
+    let changed = false;
+    for (const schedule of this.schedules.values()) {
+      if (Date.parse(schedule.nextRunAt) > now) continue;
+      this.run(schedule, now);
+      changed = true;
+    }
+    if (changed) this.save();
+  }
+
+  private run(schedule: Schedule, now: number): void {
+    const task: CaptureTask = {
+      ...schedule.template,
+      taskId: randomUUID(),
+      retryCount: 0,
+      enqueuedAt: new Date(now).toISOString(),
+      scheduleId: schedule.scheduleId,
+    };
+    const enqueued = this.enqueue(task);
+    if (enqueued.ok) {
+      schedule.lastTaskId = task.taskId;
+    } else {
+      // Most likely the previous run is still queued and duplicates are
+      // rejected. Skipping this run is the useful outcome: the queued one
+      // will capture the page.
+      this.logger.warn(
+        { scheduleId: schedule.scheduleId, url: task.url, error: enqueued.error },
+        "Scheduled run skipped",
+      );
+    }
+    schedule.lastRunAt = new Date(now).toISOString();
+    const nominal = this.nextNominal(schedule, now);
+    if (nominal === undefined) {
+      // Only a cron that never matches again, which `add` refuses.
+      this.remove(schedule.scheduleId);
+      return;
+    }
+    schedule.nextRunAt = new Date(this.jittered(nominal, schedule.jitterMs)).toISOString();
+  }
+
+  /** First nominal run time after `after`. */
+  private nextNominal(schedule: Schedule, after: number): number | undefined {
+    const cron = this.crons.get(schedule.scheduleId);
+    if (cron) return nextCronRun(cron, after);
+    const interval = schedule.intervalMs ?? 0;
+    if (interval <= 0) return undefined;
+    const anchor = Date.parse(schedule.createdAt);
+    return anchor + (Math.floor((after - anchor) / interval) + 1) * interval;
+  }
+
+  private jittered(nominal: number, jitterMs: number): number {
+    return nominal + Math.floor(this.random() * jitterMs);
+  }
+
+  /** Put back a schedule from the file, dropping one that no longer parses. */
+  private restore(schedule: Schedule): void {
+    if (schedule.cron !== undefined) {
+      const parsed = parseCron(schedule.cron);
+      if (!parsed.ok) {
+        this.logger.warn(
+          { scheduleId: schedule.scheduleId, error: parsed.error },
+          "Dropped a saved schedule whose cron expression does not parse",
+        );
+        return;
+      }
+      this.crons.set(schedule.scheduleId, parsed.value);
+    }
+    this.schedules.set(schedule.scheduleId, schedule);
+  }
+
+  private save(): void {
+    if (this.path === undefined) return;
+    const file: ScheduleFile = { schedules: this.list() };
+    const temporary = `${this.path}.tmp`;
+    try {
+      writeFileSync(temporary, `${JSON.stringify(file, null, 2)}\n`, { mode: 0o600 });
+      renameSync(temporary, this.path);
+    } catch (error) {
+      this.logger.error({ err: error, path: this.path }, "Failed to save schedules");
+    }
+  }
+}
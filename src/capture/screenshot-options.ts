@@ -0,0 +1,155 @@
+/**
+ * Screenshot Spec / Options
+ *
+ * What the `png` / `webp` formats photograph when the request narrows it down
+ * from "the viewport" (or `fullPage`): the elements matching a CSS selector,
+ * one image each, or one fixed rectangle of the document. Same shape as the
+ * other per-request specs — the HTTP layer accepts a `ScreenshotSpec`, the
+ * request mapper resolves it into `ScreenshotOptions`, and the capture layer
+ * turns that into `page.screenshot({ clip })` calls.
+ *
+ * Every rectangle here is in document coordinates (CSS pixels from the top
+ * left of the page, not of the viewport), which is what `clip` expects, so an
+ * element below the fold is photographed without scrolling to it.
+ *
+ * `hideFixedElements` is for sticky headers and chat widgets that sit on top
+ * of whatever is being photographed. They are hidden only for the duration
+ * of the screenshots and restored before any other format is captured — the
+ * HTML, MHTML and PDF describe the page as it was.
+ */
+import type { CapturePage } from "./capture-page.js";
+
+/** Attribute marking an element this module hid; holds its prior inline value. */
+const HIDDEN_ATTRIBUTE = "data-bh-hidden-fixed";
+
+/** Matching elements photographed when the request does not say. */
+export const DEFAULT_MAX_ELEMENTS = 5;
+
+export interface ScreenshotClip {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * HTTP wire shape. Mirrors the OpenAPI `ScreenshotSpec` schema. Exactly one
+ * of `selector` / `clip` — the request mapper refuses anything else.
+ */
+export interface ScreenshotSpec {
+  selector?: string;
+  /** Cap on the images a `selector` produces. */
+  maxElements?: number;
+  clip?: ScreenshotClip;
+  /** CSS pixels added on every side of each element. Ignored for `clip`. */
+  paddingPx?: number;
+  hideFixedElements?: boolean;
+}
+
+export type ScreenshotTarget =
+  | { kind: "elements"; selector: string; maxElements: number; paddingPx: number }
+  | { kind: "clip"; clip: ScreenshotClip };
+
+/** Resolved options carried on the task as `screenshotOptions`. */
+export interface ScreenshotOptions {
+  target: ScreenshotTarget;
+  hideFixedElements: boolean;
+}
+
+/**
+ * Fill in the defaults. The request mapper has already refused a spec with
+ * both or neither of `selector` / `clip`.
+ */
+export const resolveScreenshotSpec = (spec: ScreenshotSpec): ScreenshotOptions => ({
+  target:
+    spec.clip !== undefined
+      ? { kind: "clip", clip: spec.clip }
+      : {
+          kind: "elements",
+          selector: spec.selector ?? "",
+          maxElements: spec.maxElements ?? DEFAULT_MAX_ELEMENTS,
+          paddingPx: spec.paddingPx ?? 0,
+        },
+  hideFixedElements: spec.hideFixedElements ?? false,
+});
+
+/**
+ * Document rectangles of the first `maxElements` rendered elements matching
+ * `selector`, grown by `paddingPx` and kept inside the document. Elements
+ * without a box (`display: none`, empty) are passed over rather than
+ * counted, so they do not use up the cap.
+ */
+export const locateScreenshotElements = (
+  page: CapturePage,
+  target: Extract<ScreenshotTarget, { kind: "elements" }>,
+): Promise<ScreenshotClip[]> =>
+  page.evaluate(
+    ({ selector, maxElements, paddingPx }) => {
+      const clips: { x: number; y: number; width: number; height: number }[] = [];
+      const docWidth = document.documentElement.scrollWidth;
+      const docHeight = document.documentElement.scrollHeight;
+      for (const element of Array.from(document.querySelectorAll(selector))) {
+        if (clips.length >= maxElements) break;
+        const rect = element.getBoundingClientRect();
+        if (rect.width === 0 || rect.height === 0) continue;
+        const left = Math.max(0, rect.left + window.scrollX - paddingPx);
+        const top = Math.max(0, rect.top + window.scrollY - paddingPx);
+        const right = Math.min(docWidth, rect.right + window.scrollX + paddingPx);
+        const bottom = Math.min(docHeight, rect.bottom + window.scrollY + paddingPx);
+        clips.push({ x: left, y: top, width: right - left, height: bottom - top });
+      }
+      return clips;
+    },
+    {
+      selector: target.selector,
+      maxElements: target.maxElements,
+      paddingPx: target.paddingPx,
+    },
+  );
+
+/**
+ * Hide every `position: fixed` / `sticky` element that neither contains nor
+ * sits inside an element matching `keepSelector` — so a sticky header that
+ * wraps the target survives, and so does a fixed element that IS the target.
+ * Resolves with how many were hidden.
+ */
+export const hideFixedElements = (
+  page: CapturePage,
+  keepSelector: string | undefined,
+): Promise<number> =>
+  page.evaluate(
+    ({ attribute, keepSelector }) => {
+      const keep =
+        keepSelector === null ? [] : Array.from(document.querySelectorAll(keepSelector));
+      let hidden = 0;
+      for (const element of Array.from(document.querySelectorAll<HTMLElement>("body *"))) {
+        const position = getComputedStyle(element).position;
+        if (position !== "fixed" && position !== "sticky") continue;
+        if (keep.some((k) => k.contains(element) || element.contains(k))) continue;
+        element.setAttribute(
+          attribute,
+          `${element.style.getPropertyValue("visibility")}|${element.style.getPropertyPriority("visibility")}`,
+        );
+        element.style.setProperty("visibility", "hidden", "important");
+        hidden += 1;
+      }
+      return hidden;
+    },
+    { attribute: HIDDEN_ATTRIBUTE, keepSelector: keepSelector ?? null },
+  );
+
+/** Undo {@link hideFixedElements}, putting back each element's inline value. */
+export const restoreFixedElements = (page: CapturePage): Promise<void> =>
+  page.evaluate((attribute: string) => {
+    for (const element of Array.from(
+      document.querySelectorAll<HTMLElement>(`[${attribute}]`),
+    )) {
+      const [value = "", priority = ""] = (element.getAttribute(attribute) ?? "").split("|");
+      if (value === "") {
+        element.style.removeProperty("visibility");
+      } else {
+        element.style.setProperty("visibility", value, priority);
+      }
+      element.removeAttribute(attribute);
+    }
+  }, HIDDEN_ATTRIBUTE);
@@ -0,0 +1,209 @@
+/**
+ * Task Event Log
+ *
+ * タスクのライフサイクル(enqueue / start / retry / completion)とワーカーの
+ * 健全性遷移を、連番つきで流すイベントログ。`GET /v1/events`(SSE)の裏付け。
+ *
+ * ## 直近 N 件だけを持つ
+ *
+ * `InMemoryResultStore` と同じく上限つきのリングバッファで、**原本ではない**。
+ * 役割は `Last-Event-ID` での再接続を埋めることだけで、窓から溢れた分は
+ * 再送できない — そのときは購読側に「欠けた」ことを伝え(`since` が
+ * `undefined` を返す)、取りこぼしの確認は `GET /v1/captures/{taskId}` と
+ * マニフェストに任せる。
+ *
+ * ## 完了イベントは Sink として受ける
+ *
+ * 完了とは「結果が記録された」ことそのものなので、このログ自体が
+ * `CaptureResultSink` を実装し、キャッシュやマニフェストと同じ
+ * `compositeSink` にぶら下がる。完了を通知する呼び出し箇所を 4 つ目として
+ * 増やすと、どれか 1 つの経路(キャンセル、接続断での最終失敗…)だけ
+ * 通知が漏れる、という壊れ方をする。
+ *
+ * `publish` / `record` は投げない。購読者(HTTP 接続)の書き込み失敗が
+ * ワーカーループに伝わってはならない。
+ *
+ * @glossary TaskEventLog
+ * @category コンポーネント
+ */
+import type { CaptureResultSink } from "./result-sink.js";
+import type { CaptureResult, CaptureTask } from "./types.js";
+import type { WorkerHealth } from "./capture-worker.js";
+
+/** Why a task went back to the queue. Same wording as the "Retrying task" log. */
+export type RetryReason = "task failed" | "connection lost";
+
+export type TaskEvent =
+  | { type: "task.enqueued"; task: CaptureTask }
+  | { type: "task.started"; task: CaptureTask; workerIndex: number }
+  | {
+      type: "task.retrying";
+      task: CaptureTask;
+      workerIndex: number;
+      /** The attempt about to be made, counting retries only (1 = first retry). */
+      attempt: number;
+      maxRetryCount: number;
+      reason: RetryReason;
+      /** When the retry becomes available to workers (now, without backoff). */
+      notBefore: string;
+    }
+  | { type: "task.completed"; result: CaptureResult }
+  | {
+      type: "worker.health";
+      workerIndex: number;
+      browserUrl: string;
+      health: WorkerHealth;
+    };
+
+export type TaskEventType = TaskEvent["type"];
+
+/** A published event, numbered. `id` is what SSE sends and `Last-Event-ID` returns. */
+export interface TaskEventEntry {
+  id: number;
+  timestamp: string;
+  event: TaskEvent;
+}
+
+/** What the worker side needs: somewhere to say what happened. */
+export interface TaskEventPublisher {
+  publish(event: TaskEvent): void;
+}
+
+/** Publisher for runtimes nobody is listening to (tests, tools). */
+export const noopTaskEvents: TaskEventPublisher = {
+  publish: () => undefined,
+};
+
+/**
+ * Narrows a stream to one batch or one task. Every field set must match;
+ * an empty filter matches everything.
+ *
+ * `worker.health` events pass every filter: they carry no task, and a worker
+ * dropping into `error` is exactly what explains a followed batch stalling.
+ */
+export interface TaskEventFilter {
+  taskId?: string;
+  correlationId?: string;
+  label?: string;
+}
+
+const taskOf = (event: TaskEvent): CaptureTask | undefined => {
+  switch (event.type) {
+    case "task.completed":
+      return event.result.task;
+    case "worker.health":
+      return undefined;
+    default:
+      return event.task;
+  }
+};
+
+export const matchesTaskEventFilter = (
+  event: TaskEvent,
+  filter: TaskEventFilter,
+): boolean => {
+  const task = taskOf(event);
+  if (task === undefined) return true;
+  if (filter.taskId !== undefined && task.taskId !== filter.taskId) return false;
+  if (
+    filter.correlationId !== undefined &&
+    task.correlationId !== filter.correlationId
+  ) {
+    return false;
+  }
+  if (filter.label !== undefined && !task.labels.includes(filter.label)) {
+    return false;
+  }
+  return true;
+};
+
+export interface TaskEventSubscriber {
+  onEvent(entry: TaskEventEntry): void;
+  /** The log is closing (server shutdown); end the stream. */
+  onClose(): void;
+}
+
+export class TaskEventLog implements TaskEventPublisher, CaptureResultSink {
+  private readonly entries: TaskEventEntry[] = [];
+  private readonly capacity: number;
+  private readonly subscribers = new Set<TaskEventSubscriber>();
+  private nextId = 1;
+  private closed = false;
+
+  /**
+   * @param capacity 再接続用に保持する最大件数。1 未満は「保持しない」
+   *   (ライブ配信だけ行い、`Last-Event-ID` での再送は常に欠ける)。
+   */
+  constructor(capacity: number) {
+    this.capacity = capacity;
+  }
+
+  publish(event: TaskEvent): void {
+    const entry: TaskEventEntry = {
+      id: this.nextId++,
+      timestamp: new Date().toISOString(),
+      event,
+    };
+    if (this.capacity >= 1) {
+      this.entries.push(entry);
+      if (this.entries.length > this.capacity) this.entries.shift();
+    }
+    for (const subscriber of this.subscribers) subscriber.onEvent(entry);
+  }
+
+  record(result: CaptureResult): void {
+    this.publish({ type: "task.completed", result });
+  }
+
+  /**
+   * Entries published after `lastId`, oldest first — or `undefined` when the
+   * window no longer reaches back that far and something was missed.
+   *
+   * An id from the future (a client reconnecting across a server restart,
+   * which resets the numbering) is also a gap: nothing it has seen can be
+   * related to anything here.
+   */
+  since(lastId: number): TaskEventEntry[] | undefined {
+    if (lastId >= this.nextId) return undefined;
+    const oldest = this.entries[0]?.id ?? this.nextId;
+    if (lastId + 1 < oldest) return undefined;
+    return this.entries.filter((entry) => entry.id > lastId);
+  }
+
+  subscribe(subscriber: TaskEventSubscriber): () => void {
+    if (this.closed) {
+      subscriber.onClose();
+      return () => undefined;
+    }
+    this.subscribers.add(subscriber);
+    return () => {
+      this.subscribers.delete(subscriber);
+    };
+  }
+
+  /**
+   * End every live stream. Open SSE responses would otherwise hold the HTTP
+   * server's graceful close until its timeout.
+   */
+  close(): void {
+    this.closed = true;
+    const subscribers = [...this.subscribers];
+    this.subscribers.clear();
+    for (const subscriber of subscribers) subscriber.onClose();
+  }
+
+  /** The oldest event still held, if any. Reported alongside a gap. */
+  get oldestId(): number | undefined {
+    return this.entries[0]?.id;
+  }
+
+  /** Live streams currently attached. */
+  get subscriberCount(): number {
+    return this.subscribers.size;
+  }
+
+  /** 保持件数。上限の効きをテストと運用診断で確かめるために公開する。 */
+  get size(): number {
+    return this.entries.length;
+  }
+}
@@ -1,10 +1,21 @@
 /**
  * Task Queue for Capture Tasks
  */
+import type { HostLimitsConfig } from "../config/index.js";
+import { HostLimiter } from "./host-limiter.js";
 import type { CaptureTask } from "./types.js";
 
+/** Queue a task joins when its request names none. */
+export const DEFAULT_QUEUE_NAME = "default";
+
+/** Priority of a task whose request sets none. Higher runs first. */
+export const DEFAULT_TASK_PRIORITY = 0;
+
+/** Share of dequeues a queue gets when `--queue-weights` does not name it. */
+export const DEFAULT_QUEUE_WEIGHT = 1;
+
 /** `markComplete` が記録する最終的な行方。 */
-export type TaskOutcome = "succeeded" | "failed";
+export type TaskOutcome = "succeeded" | "failed" | "cancelled";
 
 export interface TaskCounts {
   pending: number;
@@ -13,12 +24,56 @@ export interface TaskCounts {
   succeeded: number;
   /** リトライ上限まで使って諦めた数。 */
   failed: number;
+  /** クライアントが取り下げた数(待機中・処理中のどちらで取り下げたかは問わない)。 */
+  cancelled: number;
+}
+
+export interface TaskQueueOptions {
+  /**
+   * 名前つきキューの重み。載っていないキューは {@link DEFAULT_QUEUE_WEIGHT}。
+   */
+  weights?: Readonly<Record<string, number>>;
+  /** サイトごとの同時実行数と開始間隔。省略時は制限なし。 */
+  hostLimits?: HostLimitsConfig;
 }
 
+/** Per-queue view for `/v1/status`. */
+export interface QueueCounts {
+  name: string;
+  weight: number;
+  pending: number;
+  processing: number;
+}
+
+const queueOf = (task: CaptureTask): string => task.queue ?? DEFAULT_QUEUE_NAME;
+
+const priorityOf = (task: CaptureTask): number =>
+  task.priority ?? DEFAULT_TASK_PRIORITY;
+
 /**
- * 取り込みタスクの共有キュー。FIFO の待機列に加え、処理中の集合と完了件数を持ち、
- * 全ワーカーが**同一インスタンス**を参照する(work-stealing)。`dequeue` で
- * 取り出すと同時に `processing` へ移し、完了で `markComplete`・再試行で `requeue` する。
+ * 取り込みタスクの共有キュー。名前つきの待機列(レーン)の集まりに加え、
+ * 処理中の集合と完了件数を持ち、全ワーカーが**同一インスタンス**を参照する
+ * (work-stealing)。`dequeue` で取り出すと同時に `processing` へ移し、
+ * 完了で `markComplete`・再試行で `requeue` する。
+ *
+ * ## どのレーンから取るか
+ *
+ * レーン間は重み付きの公平さで回す(smooth weighted round-robin — 重み 3 と 1
+ * なら 4 回に 3 回と 1 回、しかも `AAAB` ではなく `AABA` のように散らす)。
+ * 空のレーンは順番に加わらず、貯金もしない — 1 時間空だったキューが
+ * 戻ってきた途端に他を押しのける、ということは起きない。
+ *
+ * レーンの中は厳密な優先度順で、同じ優先度の中は FIFO。`queue` も
+ * `priority` も指定しないリクエストだけなら、レーンは `default` 1 本・
+ * 優先度は全部 0 なので、従来どおりの単一 FIFO そのものになる。
+ *
+ * `hostLimits` があると、サイトが枠を使い切っているタスクは飛ばして
+ * 次を見る(`HostLimiter`)。飛ばしたタスクは位置を保ち、レーンの先頭が
+ * 全部止められていればそのレーンは今回の順番に加わらない。
+ *
+ * `notBefore` が未来のタスク(バックオフ中の再試行)はレーンに入れず、
+ * 時刻順の待合に置く。時刻が来た `dequeue` でレーンへ移す ― そこからは
+ * 普通の再試行と同じく、同じ優先度の最後尾に並ぶ。
  *
  * 完了したタスクは **件数しか残さない**(`succeeded` / `failed` のカウンタ)。
  * かつては taskId の `Set` を持っていたが、削除する経路が無く走らせるほど
@@ -28,60 +83,115 @@ export interface TaskCounts {
  * @category コンポーネント
  */
 export class TaskQueue {
-  private queue: CaptureTask[] = [];
-  private processing = new Set<string>();
-  private processingUrls = new Map<string, string>(); // taskId -> url
+  /** Queue name → waiting tasks, highest priority first. Empty lanes are deleted. */
+  private lanes = new Map<string, CaptureTask[]>();
+  /** Round-robin credit per non-empty lane. */
+  private credit = new Map<string, number>();
+  private readonly weights: Readonly<Record<string, number>>;
+  /** Absent when no limit is configured, so `dequeue` takes lane heads as-is. */
+  private readonly hostLimiter: HostLimiter | undefined;
+  /** Tasks whose `notBefore` is still ahead, soonest first. */
+  private delayed: { at: number; task: CaptureTask }[] = [];
+  private processing = new Map<string, CaptureTask>();
   private succeeded = 0;
   private failed = 0;
+  private cancelled = 0;
+
+  constructor(options: TaskQueueOptions = {}) {
+    this.weights = options.weights ?? {};
+    const limiter = options.hostLimits && new HostLimiter(options.hostLimits);
+    this.hostLimiter = limiter?.isUnlimited === false ? limiter : undefined;
+  }
 
   enqueue(task: CaptureTask): void {
-    this.queue.push(task);
+    this.insert(task);
   }
 
   enqueueAll(tasks: CaptureTask[]): void {
-    this.queue.push(...tasks);
+    for (const task of tasks) this.insert(task);
   }
 
   // #region dequeue
   dequeue(): CaptureTask | undefined {
-    const task = this.queue.shift();
+    const now = Date.now();
+    this.promoteDue(now);
+    const ready = this.readyPositions(now);
+    const name = pickLane(this.lanes, this.credit, this.weights, (_lane, laneName) =>
+      ready.has(laneName),
+    );
+    if (name === undefined) return undefined;
+    const lane = this.lanes.get(name) ?? [];
+    const [task] = lane.splice(ready.get(name) ?? 0, 1);
+    if (lane.length === 0) this.dropLane(name);
     if (task) {
-      this.processing.add(task.taskId);
-      this.processingUrls.set(task.taskId, task.url);
+      this.processing.set(task.taskId, task);
+      this.hostLimiter?.start(task, now);
     }
     return task;
   }
   // #endregion
 
   // #region requeue
-  requeue(task: CaptureTask): void {
-    this.processing.delete(task.taskId);
-    this.processingUrls.delete(task.taskId);
+  /**
+   * Put a failed task back for another attempt, not to be taken for
+   * `delayMs`. Returns the task as queued.
+   */
+  requeue(task: CaptureTask, delayMs = 0): CaptureTask {
+    this.release(task.taskId);
     // `enqueuedAt` is intentionally preserved so the task's true age stays
     // visible to /v1/status across retries — only `retryCount` is bumped.
     const retriedTask: CaptureTask = {
       ...task,
       retryCount: task.retryCount + 1,
+      ...(delayMs > 0 && { notBefore: new Date(Date.now() + delayMs).toISOString() }),
     };
-    this.queue.push(retriedTask);
+    this.insert(retriedTask);
+    return retriedTask;
   }
   // #endregion
 
   /**
-   * Return up to `limit` tasks from the head of the pending queue without
-   * removing them. Used by `/v1/status` to expose what's waiting.
+   * Take a pending task out of the queue and count it as cancelled. Returns
+   * the removed task, or `undefined` when `taskId` is not waiting — a task a
+   * worker already holds is not touched here; aborting it is the worker's
+   * business, and it reports back through `markComplete`.
+   */
+  remove(taskId: string): CaptureTask | undefined {
+    for (const [name, lane] of this.lanes) {
+      const index = lane.findIndex((task) => task.taskId === taskId);
+      if (index === -1) continue;
+      const [task] = lane.splice(index, 1);
+      if (lane.length === 0) this.dropLane(name);
+      this.cancelled += 1;
+      return task;
+    }
+    const index = this.delayed.findIndex((entry) => entry.task.taskId === taskId);
+    if (index === -1) return undefined;
+    const [entry] = this.delayed.splice(index, 1);
+    this.cancelled += 1;
+    return entry?.task;
+  }
+
+  /**
+   * Return up to `limit` tasks in the order `dequeue` would hand them out,
+   * without removing them. Used by `/v1/status` to expose what's waiting.
+   * Host limits are not simulated — they depend on when workers ask — so
+   * under them this is the order tasks are offered in, not the order they
+   * start. Backed-off retries come last, soonest first.
    */
   peekPending(limit: number): CaptureTask[] {
-    if (limit <= 0) return [];
-    return this.queue.slice(0, limit);
+    const ready = this.peekReady(limit);
+    const rest = limit - ready.length;
+    if (rest <= 0) return ready;
+    return [...ready, ...this.delayed.slice(0, rest).map((entry) => entry.task)];
   }
 
   // #region markComplete
   markComplete(taskId: string, outcome: TaskOutcome): void {
-    this.processing.delete(taskId);
-    this.processingUrls.delete(taskId);
+    this.release(taskId);
     if (outcome === "succeeded") this.succeeded += 1;
-    else this.failed += 1;
+    else if (outcome === "failed") this.failed += 1;
+    else this.cancelled += 1;
   }
   // #endregion
 
@@ -94,11 +204,13 @@ export class TaskQueue {
    */
   isTracking(taskId: string): boolean {
     if (this.processing.has(taskId)) return true;
-    return this.queue.some((task) => task.taskId === taskId);
+    return this.someWaiting((task) => task.taskId === taskId);
   }
 
   get remaining(): number {
-    return this.queue.length;
+    let count = this.delayed.length;
+    for (const lane of this.lanes.values()) count += lane.length;
+    return count;
   }
 
   get processingCount(): number {
@@ -113,31 +225,212 @@ export class TaskQueue {
     return this.failed;
   }
 
+  get cancelledCount(): number {
+    return this.cancelled;
+  }
+
   get isDone(): boolean {
-    return this.queue.length === 0 && this.processing.size === 0;
+    return !this.hasNext && this.processing.size === 0;
   }
 
   get hasNext(): boolean {
-    return this.queue.length > 0;
+    return this.lanes.size > 0 || this.delayed.length > 0;
   }
 
   getStatus(): TaskCounts {
     return {
-      pending: this.queue.length,
+      pending: this.remaining,
       processing: this.processing.size,
       succeeded: this.succeeded,
       failed: this.failed,
+      cancelled: this.cancelled,
     };
   }
 
+  /**
+   * Pending and processing counts per queue, by name. Every weighted queue and
+   * `default` are listed even when idle, so a dashboard has stable rows.
+   */
+  getQueueCounts(): QueueCounts[] {
+    const names = new Set([DEFAULT_QUEUE_NAME, ...Object.keys(this.weights), ...this.lanes.keys()]);
+    const processing = new Map<string, number>();
+    for (const task of this.processing.values()) {
+      const name = queueOf(task);
+      names.add(name);
+      processing.set(name, (processing.get(name) ?? 0) + 1);
+    }
+    const delayed = new Map<string, number>();
+    for (const { task } of this.delayed) {
+      const name = queueOf(task);
+      names.add(name);
+      delayed.set(name, (delayed.get(name) ?? 0) + 1);
+    }
+    return [...names].sort().map((name) => ({
+      name,
+      weight: weightOf(this.weights, name),
+      pending: (this.lanes.get(name)?.length ?? 0) + (delayed.get(name) ?? 0),
+      processing: processing.get(name) ?? 0,
+    }));
+  }
+
   hasUrl(url: string): boolean {
-    const inQueue = this.queue.some((task) => task.url === url);
+    const inQueue = this.someWaiting((task) => task.url === url);
     if (inQueue) return true;
 
-    for (const processingUrl of this.processingUrls.values()) {
-      if (processingUrl === url) return true;
+    for (const task of this.processing.values()) {
+      if (task.url === url) return true;
     }
 
     return false;
   }
+
+  /** Tasks workers currently hold — for a subclass that snapshots the queue. */
+  protected heldTasks(): CaptureTask[] {
+    return [...this.processing.values()];
+  }
+
+  /**
+   * Into the waiting room while `notBefore` is ahead, otherwise behind every
+   * task of at least its priority in its queue.
+   */
+  private insert(task: CaptureTask): void {
+    const readyAt = task.notBefore === undefined ? NaN : Date.parse(task.notBefore);
+    if (readyAt > Date.now()) {
+      const index = this.delayed.findIndex((entry) => entry.at > readyAt);
+      this.delayed.splice(index === -1 ? this.delayed.length : index, 0, { at: readyAt, task });
+      return;
+    }
+    const name = queueOf(task);
+    let lane = this.lanes.get(name);
+    if (!lane) {
+      lane = [];
+      this.lanes.set(name, lane);
+    }
+    const priority = priorityOf(task);
+    const last = lane.at(-1);
+    // Fast path: equal priorities — the common case — append.
+    if (last === undefined || priorityOf(last) >= priority) {
+      lane.push(task);
+      return;
+    }
+    const at = lane.findIndex((queued) => priorityOf(queued) < priority);
+    lane.splice(at, 0, task);
+  }
+
+  /** `peekPending` over the lanes alone: the scheduler run on copies. */
+  private peekReady(limit: number): CaptureTask[] {
+    if (limit <= 0) return [];
+    if (this.lanes.size === 1) {
+      for (const lane of this.lanes.values()) return lane.slice(0, limit);
+    }
+    // Run the scheduler on copies: a cursor per lane instead of shifting.
+    const credit = new Map(this.credit);
+    const cursor = new Map<string, number>();
+    const pending: CaptureTask[] = [];
+    while (pending.length < limit) {
+      const name = pickLane(
+        this.lanes,
+        credit,
+        this.weights,
+        (lane, laneName) => (cursor.get(laneName) ?? 0) < lane.length,
+      );
+      if (name === undefined) break;
+      const lane = this.lanes.get(name) ?? [];
+      const at = cursor.get(name) ?? 0;
+      const task = lane[at];
+      if (task) pending.push(task);
+      cursor.set(name, at + 1);
+      if (at + 1 >= lane.length) credit.delete(name);
+    }
+    return pending;
+  }
+
+  /**
+   * Where each lane's next task is: the head, or under host limits the first
+   * task whose site admits one more start. Lanes with none are left out.
+   * Sites are judged once per call — lanes often share them.
+   */
+  private readyPositions(now: number): Map<string, number> {
+    const ready = new Map<string, number>();
+    const limiter = this.hostLimiter;
+    if (!limiter) {
+      for (const name of this.lanes.keys()) ready.set(name, 0);
+      return ready;
+    }
+    const admitted = new Map<string, boolean>();
+    for (const [name, lane] of this.lanes) {
+      const at = lane.findIndex((task) => {
+        const site = limiter.site(task);
+        let ok = admitted.get(site);
+        if (ok === undefined) {
+          ok = limiter.admits(site, now);
+          admitted.set(site, ok);
+        }
+        return ok;
+      });
+      if (at !== -1) ready.set(name, at);
+    }
+    return ready;
+  }
+
+  /** Move retries whose wait is over into their lanes. */
+  private promoteDue(now: number): void {
+    let due = 0;
+    while (due < this.delayed.length && (this.delayed[due]?.at ?? Infinity) <= now) due++;
+    if (due === 0) return;
+    for (const { task } of this.delayed.splice(0, due)) this.insert(task);
+  }
+
+  /** The task left its worker; its site gets the slot back. */
+  private release(taskId: string): void {
+    const task = this.processing.get(taskId);
+    if (!task) return;
+    this.processing.delete(taskId);
+    this.hostLimiter?.finish(task);
+  }
+
+  /** An empty lane leaves the rotation and forfeits its credit. */
+  private dropLane(name: string): void {
+    this.lanes.delete(name);
+    this.credit.delete(name);
+  }
+
+  private someWaiting(predicate: (task: CaptureTask) => boolean): boolean {
+    for (const lane of this.lanes.values()) {
+      if (lane.some(predicate)) return true;
+    }
+    return this.delayed.some((entry) => predicate(entry.task));
+  }
 }
+
+const weightOf = (weights: Readonly<Record<string, number>>, name: string): number =>
+  weights[name] ?? DEFAULT_QUEUE_WEIGHT;
+
+/**
+ * One step of smooth weighted round-robin over the lanes `eligible` accepts:
+ * every eligible lane earns its weight, the richest is picked and pays the
+ * total back. Mutates `credit`; returns the picked lane's name.
+ */
+const pickLane = (
+  lanes: ReadonlyMap<string, CaptureTask[]>,
+  credit: Map<string, number>,
+  weights: Readonly<Record<string, number>>,
+  eligible: (lane: CaptureTask[], name: string) => boolean,
+): string | undefined => {
+  let picked: string | undefined;
+  let pickedCredit = -Infinity;
+  let total = 0;
+  for (const [name, lane] of lanes) {
+    if (!eligible(lane, name)) continue;
+    const weight = weightOf(weights, name);
+    const earned = (credit.get(name) ?? 0) + weight;
+    credit.set(name, earned);
+    total += weight;
+    if (earned > pickedCredit) {
+      picked = name;
+      pickedCredit = earned;
+    }
+  }
+  if (picked !== undefined) credit.set(picked, pickedCredit - total);
+  return picked;
+};
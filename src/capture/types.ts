@@ -2,14 +2,51 @@
  * Capture Task and Result Types
  */
 
-import type { ArchiveMode, BrowserProfile, CacheMode } from "../config/index.js";
+import type {
+  ArchiveMode,
+  BrowserProfile,
+  CacheMode,
+  IsolationMode,
+} from "../config/index.js";
 import type { WorkerHealth } from "./capture-worker.js";
 import type { CaptureFormats } from "./capture-formats.js";
 import type { CaptureStatus } from "./capture-status.js";
 import type { ErrorType } from "./error-type.js";
 import type { DismissOptions, DismissReport } from "./banner-dismisser.js";
 import type { ResetStateOptions } from "./reset-state.js";
+import type { PdfOptions } from "./pdf-options.js";
+import type { ScreenshotOptions } from "./screenshot-options.js";
+import type { HarOptions } from "./har.js";
+import type { DiagnosticsCounts } from "./diagnostics-recorder.js";
+import type { WaitForOptions, WaitForReport } from "./wait-for.js";
+import type { ActionsReport, ResolvedPageAction } from "./page-actions.js";
+import type { DeviceEmulation } from "./device-presets.js";
+import type { EmulationOptions } from "./emulation.js";
+import type { RequestCredentials } from "./request-credentials.js";
 import type { BehaviorRequest, BehaviorRunReport } from "../behaviors/types.js";
+import type { CaptureCallback } from "./webhook-sink.js";
+
+/**
+ * One entry of `CaptureTask.viewports`. Mirrors the OpenAPI `NamedViewport`
+ * schema, which bounds every field.
+ */
+export interface NamedViewport {
+  name: string;
+  width: number;
+  height: number;
+  /** Defaults to the task's own device pixel ratio. */
+  deviceScaleFactor?: number;
+  /** Mobile emulation: `isMobile` and touch, as a phone would report them. */
+  mobile?: boolean;
+  /** Sent for this entry only; the page is loaded again with it. */
+  userAgent?: string;
+}
+
+/** The screenshots taken at one `viewports` entry. */
+export interface ViewportScreenshots {
+  png?: string;
+  webp?: string;
+}
 
 /** Capture task representing a single URL to capture */
 export interface CaptureTask {
@@ -41,6 +78,17 @@ export interface CaptureTask {
    * means "let Chromium use its built-in default".
    */
   acceptLanguage?: string;
+  /**
+   * Cookies, extra headers and basic auth the request brought for this
+   * capture. Secret: anything that shows a task outside the capture goes
+   * through `redactCredentials` first.
+   */
+  credentials?: RequestCredentials;
+  /**
+   * Allowlist name of the upstream proxy the request asked for. Absent, the
+   * worker's profile default applies, if it has one.
+   */
+  proxy?: string;
   /**
    * Resolved banner / modal dismissal options. Presence indicates the
    * dismissal pass should run with these options; absence means skip.
@@ -70,6 +118,24 @@ export interface CaptureTask {
    * Ignored under `archiveMode: "multipass"`, which sweeps its own DPR set.
    */
   deviceScaleFactor?: number;
+  /**
+   * The rest of a named device preset: `isMobile`, touch, user agent and
+   * client hints. Its viewport and device pixel ratio were already resolved
+   * into the two fields above, unless the request set those itself.
+   */
+  device?: DeviceEmulation;
+  /**
+   * Locale, time zone, media features and geolocation the page is told. The
+   * locale and time zone were checked against ICU at the request-mapper
+   * boundary. Cleared again by `resetPageState`.
+   */
+  emulation?: EmulationOptions;
+  /**
+   * Further viewports to screenshot, each after the formats above are taken
+   * at `viewport`. Names are filename-safe (OpenAPI pattern) and unique
+   * (request-mapper); they key `CaptureResult.viewportLocations`.
+   */
+  viewports?: NamedViewport[];
   /**
    * Per-request delay (ms) inserted before each browser operation, so this one
    * capture can be watched live over the DevTools screencast. Overrides
@@ -93,12 +159,41 @@ export interface CaptureTask {
    * default (`--cache` / `BROWSERHIVE_CACHE`, which ships as `clear`).
    */
   cache?: CacheMode;
+  /**
+   * Where this capture runs. Omitted → the worker's profile default
+   * (`--isolation` / `BROWSERHIVE_ISOLATION`, which ships as `tab`).
+   */
+  isolation?: IsolationMode;
+  /**
+   * Conditions to wait for after navigation, in place of the fixed
+   * `DEFAULT_DYNAMIC_CONTENT_WAIT_MS` sleep. Resolved from the HTTP `waitFor`
+   * field by the request-mapper; undefined keeps the fixed sleep.
+   */
+  waitFor?: WaitForOptions;
+  /**
+   * Interaction steps run after banner dismissal and before the behaviors.
+   * Resolved from the HTTP `actions` field by the request-mapper.
+   */
+  actions?: ResolvedPageAction[];
   /**
    * Per-request override for `screenshot.fullPage`. When defined, takes
    * precedence over `CaptureConfig.screenshot.fullPage` for this task only.
    * Has no effect on HTML / links formats.
    */
   fullPage?: boolean;
+  /**
+   * What the `png` / `webp` formats photograph instead of the viewport: the
+   * elements matching a selector, or a fixed rectangle. Resolved from the
+   * HTTP `screenshot` field by the request-mapper.
+   */
+  screenshotOptions?: ScreenshotOptions;
+  /**
+   * Resolved print settings for the `pdf` format. Set by the request-mapper
+   * exactly when `captureFormats.pdf` is true, defaults filled in.
+   */
+  pdfOptions?: PdfOptions;
+  /** Resolved HAR settings. Set exactly when `captureFormats.har` is true. */
+  harOptions?: HarOptions;
   /**
    * Per-request behavior override. Its `builtins` (if set) replace the server
    * default enabled set, `options` merge over the server options, and `custom`
@@ -114,12 +209,37 @@ export interface CaptureTask {
    * `src/capture/reset-state.ts:resolveResetStateSpec`.
    */
   resetState: ResetStateOptions;
+  /**
+   * Where to POST the result once the task has finished (see
+   * `WebhookSink`). Carries the HMAC secret, so nothing that serialises a
+   * task wholesale may be pointed at the wire or the logs.
+   */
+  callback?: CaptureCallback;
+  /**
+   * Named queue the task waits in. Undefined is `DEFAULT_QUEUE_NAME`; the
+   * queues share workers by the weights in `CoordinatorConfig.queueWeights`.
+   */
+  queue?: string;
+  /**
+   * Order within the queue: higher first, FIFO among equals. Undefined is
+   * `DEFAULT_TASK_PRIORITY` (0). Does not reach across queues — a high
+   * priority jumps its own queue, not its queue's share.
+   */
+  priority?: number;
   /**
    * ISO 8601 wall-clock time of the original enqueue. Preserved across
    * retries (`TaskQueue.requeue`) so a long-stuck task's true age stays
    * visible in `/v1/status`.
    */
   enqueuedAt: string;
+  /**
+   * ISO 8601 time before which no worker takes the task. Set by
+   * `TaskQueue.requeue` for a retry that backs off; left in place once it
+   * has passed.
+   */
+  notBefore?: string;
+  /** The schedule that enqueued this task; absent for a direct submission. */
+  scheduleId?: string;
 }
 
 export interface ErrorDetails {
@@ -144,11 +264,26 @@ export interface CaptureResult {
    */
   pngLocation?: string;
   webpLocation?: string;
+  /**
+   * One location per element photographed, in document order. Set in place
+   * of `pngLocation` / `webpLocation` when `task.screenshotOptions` targets a
+   * selector.
+   */
+  pngElementLocations?: string[];
+  webpElementLocations?: string[];
+  /** Screenshots per `task.viewports` entry, keyed by its name. */
+  viewportLocations?: Record<string, ViewportScreenshots>;
   htmlLocation?: string;
   /** Location of the extracted links JSON (only set when `task.captureFormats.links` is true) */
   linksLocation?: string;
   /** Location of the rendered MHTML archive (only set when `task.captureFormats.mhtml` is true) */
   mhtmlLocation?: string;
+  /** Location of the printed PDF (only set when `task.captureFormats.pdf` is true) */
+  pdfLocation?: string;
+  /** Location of the HAR log (only set when `task.captureFormats.har` is true) */
+  harLocation?: string;
+  /** Location of the diagnostics JSON (only set when `task.captureFormats.diagnostics` is true) */
+  diagnosticsLocation?: string;
   /** Location of the WACZ archive (only set when `task.captureFormats.wacz` is true) */
   waczLocation?: string;
   /**
@@ -201,6 +336,22 @@ export interface CaptureResult {
     reason?: string;
     domain?: string;
   };
+  /**
+   * Which `task.waitFor` conditions held, from the last pass (the one the
+   * formats were captured from). Set only when the task had a `waitFor`.
+   */
+  waitFor?: WaitForReport;
+  /**
+   * What became of each `task.actions` step, from the last pass. Set only
+   * when the task had actions.
+   */
+  actions?: ActionsReport;
+  /**
+   * How much went wrong inside the page while it was captured — console
+   * errors, uncaught exceptions, failed requests and so on. Set alongside
+   * `diagnosticsLocation`; the entries themselves are only in that file.
+   */
+  diagnostics?: DiagnosticsCounts;
   errorDetails?: ErrorDetails;
   captureProcessingTimeMs: number;
   timestamp: string;
@@ -214,6 +365,11 @@ export interface CaptureResult {
    * worker log line (see worker-loop.ts).
    */
   behaviorReport?: BehaviorRunReport;
+  /**
+   * Allowlist name of the upstream proxy the capture went through — the
+   * task's own or the profile default. Absent when it went out directly.
+   */
+  proxy?: string;
 }
 
 /** A single anchor link extracted from a captured page. */
@@ -266,6 +422,13 @@ export interface CurrentTaskInfo {
   startedAt: string;
 }
 
+/** One of a worker's `concurrency` slots and what it is doing. */
+export interface WorkerSlotInfo {
+  slot: number;
+  /** Set only while the slot is processing a task */
+  currentTask?: CurrentTaskInfo;
+}
+
 export interface WorkerInfo {
   index: number;
   browserProfile: BrowserProfile;
@@ -274,7 +437,12 @@ export interface WorkerInfo {
   errorCount: number;
   /** Error history (up to 10 most recent errors, newest first) */
   errorHistory: ErrorRecord[];
-  /** Set only while the worker is busy processing a task */
+  /** Every slot, in order — one per `capture.concurrency`. */
+  slots: WorkerSlotInfo[];
+  /**
+   * Set only while the worker is busy processing a task: the longest-running
+   * of `slots`' tasks. Kept for readers written against one task per worker.
+   */
   currentTask?: CurrentTaskInfo;
 }
 
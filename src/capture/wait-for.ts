@@ -0,0 +1,191 @@
+/**
+ * Wait-for Conditions
+ *
+ * What to wait for after navigation, before the page is captured. Without a
+ * `waitFor`, every capture sleeps a fixed `DEFAULT_DYNAMIC_CONTENT_WAIT_MS`
+ * after `domcontentloaded` — too short for an SPA that renders late, too long
+ * for a static page that was done at once. With one, the listed conditions
+ * replace that sleep.
+ *
+ * Same Spec → Options shape as the other per-request settings: the HTTP
+ * layer accepts `WaitForSpec` with optional timeouts, the request mapper
+ * resolves it into `WaitForOptions`, and `runWaitFor` only executes it.
+ *
+ * Conditions run in order, each against its own timeout, and each is waited
+ * for even when an earlier one was not met — the report then says which
+ * held. Under `strict` the first unmet condition fails the capture instead.
+ *
+ * The waits are puppeteer's own (`waitForSelector`, `waitForFunction`,
+ * `waitForNetworkIdle`), which re-arm on a new execution context, so a
+ * JS redirect in the middle of a wait does not need `runOnStableContext`.
+ */
+import { setTimeout as sleep } from "node:timers/promises";
+import type { CapturePage } from "./capture-page.js";
+import { PuppeteerTimeoutError, TimeoutError } from "./error-details.js";
+
+/** Quiet period puppeteer's `networkidle0` lifecycle event waits for. */
+const NETWORKIDLE0_IDLE_MS = 500;
+
+/** Timeout for a condition that does not give one. */
+export const DEFAULT_WAIT_FOR_TIMEOUT_MS = 10_000;
+
+/**
+ * HTTP wire shape of one condition. Mirrors the OpenAPI `WaitForCondition`
+ * schema; bounds are enforced there.
+ */
+export type WaitForCondition =
+  | { type: "selectorVisible"; selector: string; timeoutMs?: number }
+  | { type: "selectorHidden"; selector: string; timeoutMs?: number }
+  | { type: "networkIdle"; idleMs: number; timeoutMs?: number }
+  /** A JavaScript expression, polled until it evaluates truthy. */
+  | { type: "function"; expression: string; timeoutMs?: number }
+  | { type: "delay"; ms: number }
+  | { type: "lifecycle"; event: "load" | "networkidle0"; timeoutMs?: number };
+
+/** HTTP wire shape. Mirrors the OpenAPI `WaitForSpec` schema. */
+export interface WaitForSpec {
+  conditions: WaitForCondition[];
+  /** Fail the capture when a condition is not met. Default `false`. */
+  strict?: boolean;
+}
+
+/** A condition with its timeout filled in. `delay` has none to fill. */
+export type ResolvedWaitForCondition =
+  | Exclude<WaitForCondition, { type: "delay" }> & { timeoutMs: number }
+  | Extract<WaitForCondition, { type: "delay" }>;
+
+/** Resolved options carried on the task as `waitFor`. */
+export interface WaitForOptions {
+  conditions: ResolvedWaitForCondition[];
+  strict: boolean;
+}
+
+/** What became of one condition. */
+export interface WaitForOutcome {
+  /** Human-readable form of the condition, e.g. `selectorVisible #app`. */
+  condition: string;
+  met: boolean;
+  elapsedMs: number;
+  /** Why it was not met, when that was something other than its timeout. */
+  error?: string;
+}
+
+export interface WaitForReport {
+  outcomes: WaitForOutcome[];
+  /** Whether every condition was met. */
+  met: boolean;
+}
+
+export const resolveWaitForSpec = (spec: WaitForSpec): WaitForOptions => ({
+  conditions: spec.conditions.map((condition) =>
+    condition.type === "delay"
+      ? condition
+      : { ...condition, timeoutMs: condition.timeoutMs ?? DEFAULT_WAIT_FOR_TIMEOUT_MS },
+  ),
+  strict: spec.strict ?? false,
+});
+
+export const describeWaitForCondition = (condition: WaitForCondition): string => {
+  switch (condition.type) {
+    case "selectorVisible":
+    case "selectorHidden":
+      return `${condition.type} ${condition.selector}`;
+    case "networkIdle":
+      return `networkIdle ${String(condition.idleMs)}ms`;
+    case "function":
+      return `function ${condition.expression}`;
+    case "delay":
+      return `delay ${String(condition.ms)}ms`;
+    case "lifecycle":
+      return `lifecycle ${condition.event}`;
+  }
+};
+
+const waitForCondition = async (
+  page: CapturePage,
+  condition: ResolvedWaitForCondition,
+): Promise<void> => {
+  switch (condition.type) {
+    case "selectorVisible":
+      await page.waitForSelector(condition.selector, {
+        visible: true,
+        timeout: condition.timeoutMs,
+      });
+      return;
+    case "selectorHidden":
+      await page.waitForSelector(condition.selector, {
+        hidden: true,
+        timeout: condition.timeoutMs,
+      });
+      return;
+    case "networkIdle":
+      await page.waitForNetworkIdle({
+        idleTime: condition.idleMs,
+        concurrency: 0,
+        timeout: condition.timeoutMs,
+      });
+      return;
+    case "function":
+      await page.waitForFunction(condition.expression, { timeout: condition.timeoutMs });
+      return;
+    case "delay":
+      await sleep(condition.ms);
+      return;
+    case "lifecycle":
+      if (condition.event === "load") {
+        // The `load` event may already have fired; readyState says so either way.
+        await page.waitForFunction(() => document.readyState === "complete", {
+          timeout: condition.timeoutMs,
+        });
+      } else {
+        await page.waitForNetworkIdle({
+          idleTime: NETWORKIDLE0_IDLE_MS,
+          concurrency: 0,
+          timeout: condition.timeoutMs,
+        });
+      }
+      return;
+  }
+};
+
+/**
+ * Wait for each condition in turn and report what held.
+ *
+ * Throws only under `options.strict`: `TimeoutError` for a condition that ran
+ * out of time — so the capture is reported as `timeout`, like any other wait
+ * that did — and a plain `Error` for one that failed outright (a selector
+ * that does not parse, a predicate that throws).
+ */
+export const runWaitFor = async (
+  page: CapturePage,
+  options: WaitForOptions,
+): Promise<WaitForReport> => {
+  const outcomes: WaitForOutcome[] = [];
+  for (const condition of options.conditions) {
+    const description = describeWaitForCondition(condition);
+    const start = Date.now();
+    try {
+      await waitForCondition(page, condition);
+      outcomes.push({ condition: description, met: true, elapsedMs: Date.now() - start });
+    } catch (error) {
+      const timedOut = error instanceof PuppeteerTimeoutError;
+      const message = error instanceof Error ? error.message : String(error);
+      outcomes.push({
+        condition: description,
+        met: false,
+        elapsedMs: Date.now() - start,
+        ...(!timedOut && { error: message }),
+      });
+      if (options.strict) {
+        if (timedOut && condition.type !== "delay") {
+          throw new TimeoutError({
+            operation: `waitFor ${description}`,
+            timeoutMs: condition.timeoutMs,
+          });
+        }
+        throw new Error(`waitFor ${description} failed: ${message}`, { cause: error });
+      }
+    }
+  }
+  return { outcomes, met: outcomes.every((outcome) => outcome.met) };
+};
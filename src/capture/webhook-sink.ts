@@ -0,0 +1,316 @@
+/**
+ * Webhook Sink
+ *
+ * 完了した capture の結果を、リクエストの `callback.url` へ POST する
+ * `CaptureResultSink`。ポーリング(`GET /v1/captures/{taskId}`)や
+ * `.result.json` の一覧に頼らずに結果を受け取るための経路。
+ *
+ * ## 本文はマニフェストと同じ
+ *
+ * 送るのは `captureResultToReport` の出力 — `ManifestWriter` が書くものと
+ * 1 バイトも違わない。経路が 3 つになっても形は 1 つで、受け手は同じ
+ * パーサで読める。
+ *
+ * ## 失敗はログだけでなく status に出す
+ *
+ * 受け手が 1 時間ずっと 500 を返していても、受け手の側から見ればそれは
+ * 「静かな 1 時間」と区別がつかない。だから再試行を使い切った配送は
+ * 件数と直近の一覧を `getStats()` に残し、`GET /v1/status` から見える
+ * ようにする。
+ *
+ * ## 配送失敗は capture の失敗ではない
+ *
+ * `record` は投げない(`CaptureResultSink` の契約)。再試行は fire-and-forget
+ * のまま内部で回し、ワーカーループは一切待たせない。永続化はしない —
+ * 再試行中にプロセスが止まれば、その配送は失われる(結果自体は
+ * マニフェストに残っている)。
+ *
+ * ## 宛先は運用者の許可リストの中だけ
+ *
+ * `callback.url` はクライアントが決める。制限しなければ、API を叩ける者なら
+ * 誰でもサーバに内部アドレスへ署名付きリクエストを送らせられる(SSRF)。
+ * だから `http(s)` のみ、かつ `--webhook-allowed-hosts` に載ったホストだけを
+ * 受け付ける — `--proxies` と同じく、名簿は運用者が持つ。リクエストマッパで
+ * 断り、ジャーナルやスケジュールから戻ってきたタスクは送る直前にもう一度見る。
+ * リダイレクトは追わない(3xx は失敗した試行)— 追えば許可リストを通らない
+ * `Location` へ署名付きの本文を送り直すことになる。
+ *
+ * @glossary WebhookSink
+ * @category コンポーネント
+ */
+import { createHmac, randomUUID } from "node:crypto";
+import { setTimeout as sleep } from "node:timers/promises";
+import type { WebhookConfig } from "../config/index.js";
+import { captureResultToReport } from "../http/response-mapper.js";
+import type { Logger } from "../logger.js";
+import { err, ok, type Result } from "../result.js";
+import type { CaptureStatus } from "./capture-status.js";
+import type { CaptureResultSink } from "./result-sink.js";
+import type { CaptureResult } from "./types.js";
+
+/**
+ * Where one task's result is delivered. Resolved by the request mapper:
+ * `events` is always present here, the wire's "omitted means all" already
+ * expanded.
+ */
+export interface CaptureCallback {
+  url: string;
+  /** HMAC key. Never logged, never part of the report. */
+  secret?: string;
+  events: CaptureStatus[];
+}
+
+/** A delivery given up on after its last attempt. */
+export interface WebhookDeliveryFailure {
+  taskId: string;
+  correlationId?: string;
+  url: string;
+  status: CaptureStatus;
+  attempts: number;
+  /** What the last attempt ran into. */
+  error: string;
+  failedAt: string;
+}
+
+export interface WebhookDeliveryStats {
+  delivered: number;
+  failed: number;
+  /** Deliveries not yet settled, backoff waits included. */
+  retrying: number;
+  /** Newest first, at most {@link RECENT_FAILURES_LIMIT}. */
+  recentFailures: WebhookDeliveryFailure[];
+}
+
+/** How many given-up deliveries `getStats` keeps for display. */
+export const RECENT_FAILURES_LIMIT = 50;
+
+export const WEBHOOK_HEADERS = {
+  event: "x-browserhive-event",
+  delivery: "x-browserhive-delivery",
+  timestamp: "x-browserhive-timestamp",
+  signature: "x-browserhive-signature",
+} as const;
+
+/**
+ * `sha256=<hex>` over `<timestamp>.<body>`.
+ *
+ * The timestamp is inside the MAC so a captured request cannot be replayed
+ * later under a fresh timestamp header; a receiver that checks the skew gets
+ * replay protection for free.
+ */
+export const signWebhookPayload = (
+  secret: string,
+  timestamp: string,
+  body: string,
+): string =>
+  `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+
+/** Schemes a callback may use. */
+const CALLBACK_SCHEMES = new Set(["http:", "https:"]);
+
+/**
+ * Whether `host` (a URL's `hostname`) is on the allowlist. An entry is a host
+ * name or IP literal matched exactly, or `*.` and a domain, which matches
+ * its subdomains but not the domain itself.
+ */
+export const isAllowedCallbackHost = (
+  host: string,
+  allowedHosts: readonly string[],
+): boolean =>
+  allowedHosts.some((entry) =>
+    entry.startsWith("*.") ? host.endsWith(entry.slice(1)) : host === entry,
+  );
+
+/** Refuse a callback the server must not POST to, saying why. */
+export const checkCallbackUrl = (
+  url: string,
+  allowedHosts: readonly string[],
+): Result<void, string> => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return err(`callback url ${url} is not a URL`);
+  }
+  if (!CALLBACK_SCHEMES.has(parsed.protocol)) {
+    return err("callback url must be http or https");
+  }
+  if (!isAllowedCallbackHost(parsed.hostname, allowedHosts)) {
+    return err(
+      `callback host ${parsed.hostname} is not allowed (this server allows: ${allowedHosts.length > 0 ? allowedHosts.join(", ") : "none"})`,
+    );
+  }
+  return ok();
+};
+
+/**
+ * Backoff before attempt `attempt + 1` (1-based `attempt`): doubling from
+ * `initialDelayMs`, capped at `maxDelayMs`.
+ */
+export const webhookRetryDelayMs = (
+  config: WebhookConfig,
+  attempt: number,
+): number =>
+  Math.min(config.maxDelayMs, config.initialDelayMs * 2 ** (attempt - 1));
+
+/** `fetch` reports every transport problem as "fetch failed"; the real one is in `cause`. */
+const explain = (cause: unknown): string => {
+  if (!(cause instanceof Error)) return String(cause);
+  return cause.cause instanceof Error
+    ? `${cause.message}: ${cause.cause.message}`
+    : cause.message;
+};
+
+export class WebhookSink implements CaptureResultSink {
+  private readonly config: WebhookConfig;
+  private readonly logger: Logger;
+  private delivered = 0;
+  private failed = 0;
+  private retrying = 0;
+  private recentFailures: WebhookDeliveryFailure[] = [];
+
+  constructor(config: WebhookConfig, logger: Logger) {
+    this.config = config;
+    this.logger = logger;
+  }
+
+  record(result: CaptureResult): void {
+    const callback = result.task.callback;
+    if (callback === undefined) return;
+    if (!callback.events.includes(result.status)) return;
+
+    this.retrying++;
+    // fire-and-forget: capture の進行を待たせない。`deliver` は投げないが、
+    // 契約違反が黙って消えないように catch はログへ落とす。
+    void this.deliver(result, callback)
+      .catch((cause: unknown) => {
+        this.logger.error(
+          { taskId: result.task.taskId, err: cause },
+          "Webhook delivery crashed",
+        );
+      })
+      .finally(() => {
+        this.retrying--;
+      });
+  }
+
+  getStats(): WebhookDeliveryStats {
+    return {
+      delivered: this.delivered,
+      failed: this.failed,
+      retrying: this.retrying,
+      recentFailures: [...this.recentFailures],
+    };
+  }
+
+  private async deliver(
+    result: CaptureResult,
+    callback: CaptureCallback,
+  ): Promise<void> {
+    // Already refused by the request mapper; a task replayed from the journal
+    // or a schedule may predate the current allowlist.
+    const allowed = checkCallbackUrl(callback.url, this.config.allowedHosts);
+    if (!allowed.ok) {
+      this.giveUp(result, callback, 0, allowed.error);
+      return;
+    }
+    const { taskId } = result.task;
+    // Compact, unlike the manifest: this is a request body, not a file
+    // someone opens. The signature covers exactly these bytes.
+    const body = JSON.stringify(captureResultToReport(result));
+    const deliveryId = randomUUID();
+    let lastError = "";
+
+    for (let attempt = 1; attempt <= this.config.maxAttempts; attempt++) {
+      const outcome = await this.attempt(callback, result.status, deliveryId, body);
+      if (outcome === undefined) {
+        this.delivered++;
+        this.logger.debug(
+          { taskId, url: callback.url, attempt, deliveryId },
+          "Delivered webhook",
+        );
+        return;
+      }
+      lastError = outcome;
+      if (attempt < this.config.maxAttempts) {
+        const delayMs = webhookRetryDelayMs(this.config, attempt);
+        this.logger.warn(
+          { taskId, url: callback.url, attempt, delayMs, error: outcome },
+          "Webhook delivery failed, retrying",
+        );
+        await sleep(delayMs);
+      }
+    }
+
+    this.giveUp(result, callback, this.config.maxAttempts, lastError);
+  }
+
+  /** Count and list a delivery given up on — after its attempts, or before any. */
+  private giveUp(
+    result: CaptureResult,
+    callback: CaptureCallback,
+    attempts: number,
+    error: string,
+  ): void {
+    const { taskId, correlationId } = result.task;
+    this.failed++;
+    const failure: WebhookDeliveryFailure = {
+      taskId,
+      ...(correlationId !== undefined && { correlationId }),
+      url: callback.url,
+      status: result.status,
+      attempts,
+      error,
+      failedAt: new Date().toISOString(),
+    };
+    this.recentFailures = [failure, ...this.recentFailures].slice(
+      0,
+      RECENT_FAILURES_LIMIT,
+    );
+    this.logger.error(
+      { taskId, url: callback.url, attempts, error },
+      "Webhook delivery gave up",
+    );
+  }
+
+  /** One POST. `undefined` on a `2xx`, otherwise what went wrong. */
+  private async attempt(
+    callback: CaptureCallback,
+    status: CaptureStatus,
+    deliveryId: string,
+    body: string,
+  ): Promise<string | undefined> {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    try {
+      const res = await fetch(callback.url, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          [WEBHOOK_HEADERS.event]: status,
+          [WEBHOOK_HEADERS.delivery]: deliveryId,
+          [WEBHOOK_HEADERS.timestamp]: timestamp,
+          ...(callback.secret !== undefined && {
+            [WEBHOOK_HEADERS.signature]: signWebhookPayload(
+              callback.secret,
+              timestamp,
+              body,
+            ),
+          }),
+        },
+        body,
+        // A followed 307/308 would re-send the signed body to a Location
+        // the allowlist never saw.
+        redirect: "manual",
+        signal: AbortSignal.timeout(this.config.timeoutMs),
+      });
+      // The body is of no interest, but an unread one keeps the socket busy.
+      await res.body?.cancel();
+      if (res.status >= 300 && res.status < 400) {
+        return `receiver redirected to ${res.headers.get("location") ?? "nowhere"}`;
+      }
+      return res.ok ? undefined : `receiver returned ${String(res.status)}`;
+    } catch (cause) {
+      return explain(cause);
+    }
+  }
+}
@@ -5,13 +5,18 @@
  * Invoked by the worker status machine when in operational state.
  * Polls the task queue, processes tasks via the BrowserClient instance,
  * and sends events back to the parent machine.
+ *
+ * One loop per slot: with `concurrency` above 1 the actor runs that many
+ * side by side, each taking its own tasks and naming its slot in
+ * TASK_STARTED. They share the client, the queue and the parent.
  */
 import { fromCallback } from "xstate";
 import type { BrowserClient } from "./browser-client.js";
 import type { TaskQueue } from "./task-queue.js";
 import type { CaptureResultSink } from "./result-sink.js";
+import type { TaskEventPublisher } from "./task-events.js";
 import type { CaptureTask, CaptureResult } from "./types.js";
-import { isSuccessStatus } from "./capture-status.js";
+import { captureStatus, isSuccessStatus } from "./capture-status.js";
 import { errorDetailsFromException } from "./error-details.js";
 
 export interface WorkerRuntime {
@@ -23,13 +28,23 @@ export interface WorkerRuntime {
    * successes, so both halves of the outcome land in the same sink.
    */
   resultSink: CaptureResultSink;
+  /**
+   * Lifecycle events for `GET /v1/events`. Completions are not published
+   * here — they reach the event log through `resultSink`.
+   */
+  taskEvents: TaskEventPublisher;
   pollIntervalMs: number;
+  /** Loops to run side by side — the profile's `capture.concurrency`. */
+  concurrency: number;
 }
 
 export type WorkerLoopEvent =
-  | { type: "TASK_STARTED"; task: CaptureTask }
+  | { type: "TASK_STARTED"; task: CaptureTask; slot: number }
   | { type: "TASK_DONE"; task: CaptureTask; result: CaptureResult }
   | { type: "TASK_FAILED"; task: CaptureTask; result: CaptureResult }
+  // Withdrawn mid-capture. Already recorded here, like a success — the
+  // parent only has to stop showing it as the current task.
+  | { type: "TASK_CANCELLED"; task: CaptureTask }
   // `task` is the in-flight task at the moment of disconnection. `CONNECTION_LOST`
   // is only sent from inside the catch block below, where a task has already
   // been dequeued and `process()` was attempted on it — the field is therefore
@@ -75,6 +90,12 @@ const logTaskCompleted = (
       url: task.url,
       ...(result.linksLocation && { linksLocation: result.linksLocation }),
       ...(result.mhtmlLocation && { mhtmlLocation: result.mhtmlLocation }),
+      ...(result.pdfLocation && { pdfLocation: result.pdfLocation }),
+      ...(result.harLocation && { harLocation: result.harLocation }),
+      ...(result.diagnosticsLocation && {
+        diagnosticsLocation: result.diagnosticsLocation,
+      }),
+      ...(result.diagnostics && { diagnostics: result.diagnostics }),
       ...(result.waczLocation && { waczLocation: result.waczLocation }),
       ...(result.waczStats && { waczStats: result.waczStats }),
       ...(result.completeness && {
@@ -89,6 +110,8 @@ const logTaskCompleted = (
       }),
       ...(result.dismissReport && { dismissReport: result.dismissReport }),
       ...(result.behaviorReport && { behaviorReport: result.behaviorReport }),
+      ...(result.waitFor && { waitFor: result.waitFor }),
+      ...(result.actions && { actions: result.actions }),
     },
     incomplete ? "Task completed with an incomplete archive" : "Task completed",
   );
@@ -96,8 +119,8 @@ const logTaskCompleted = (
 
 /**
  * ワーカーの処理ループ(`fromCallback` アクター)。`operational` の間だけ動き、
- * 共有キューから `dequeue` → `BrowserClient.process` → 結果を親機械へ
- * イベント(TASK_STARTED / TASK_DONE / TASK_FAILED / CONNECTION_LOST)で報告する。
+ * スロットごとに共有キューから `dequeue` → `BrowserClient.process` → 結果を親機械へ
+ * イベント(TASK_STARTED / TASK_DONE / TASK_FAILED / TASK_CANCELLED / CONNECTION_LOST)で報告する。
  *
  * @glossary workerLoop
  * @category コンポーネント
@@ -106,31 +129,55 @@ const logTaskCompleted = (
 export const workerLoopCallback = fromCallback<WorkerLoopParentEvent, WorkerRuntime>(
   ({ sendBack, receive, input }) => {
     let running = true;
+    // Set by the first slot to lose the connection. The other slots stop
+    // taking tasks but still report the one they hold: the parent leaves
+    // `operational` only once every slot has, since a report sent after this
+    // actor is disposed would be dropped and its task left in
+    // TaskQueue.processing for good.
+    let connectionLost = false;
 
     // Destructuring copies the reference, not the object itself.
     // All worker loops share the single TaskQueue instance created
     // by CaptureCoordinator, so no duplicate task processing occurs.
-    const { client, taskQueue, resultSink, pollIntervalMs } = input;
+    const { client, taskQueue, resultSink, taskEvents, pollIntervalMs, concurrency } = input;
 
     // #region loop-body
-    const loop = async (): Promise<void> => {
-      while (running) {
+    const loop = async (slot: number): Promise<void> => {
+      while (running && !connectionLost) {
+        // Nothing back means the queue is empty, or every waiting task's site
+        // is at its host limit. Either way the next poll asks again; held
+        // tasks keep their place and go out as soon as their site allows.
         const task = taskQueue.dequeue();
         if (!task) {
           await sleep(pollIntervalMs);
           continue;
         }
 
-        sendBack({ type: "TASK_STARTED", task });
+        sendBack({ type: "TASK_STARTED", task, slot });
+        taskEvents.publish({ type: "task.started", task, workerIndex: client.index });
 
         try {
-          const result = await client.process(task);
+          const result = await client.process(task, slot);
 
           if (isSuccessStatus(result.status)) {
             taskQueue.markComplete(task.taskId, "succeeded");
             resultSink.record(result);
             logTaskCompleted(client, task, result);
             sendBack({ type: "TASK_DONE", task, result });
+          } else if (result.status === captureStatus.cancelled) {
+            // Final, never retried: the client asked for it to stop.
+            taskQueue.markComplete(task.taskId, "cancelled");
+            resultSink.record(result);
+            client.logger.info(
+              {
+                taskLabels: task.labels,
+                taskId: task.taskId,
+                ...(task.correlationId && { correlationId: task.correlationId }),
+                url: task.url,
+              },
+              "Task cancelled",
+            );
+            sendBack({ type: "TASK_CANCELLED", task });
           } else {
             // Report failure to parent machine, which decides retry vs final failure
             sendBack({ type: "TASK_FAILED", task, result });
@@ -143,6 +190,7 @@ export const workerLoopCallback = fromCallback<WorkerLoopParentEvent, WorkerRunt
             // here lets the state machine apply the same retry/markComplete
             // policy as TASK_FAILED instead of leaving the task pinned in
             // TaskQueue.processing.
+            connectionLost = true;
             sendBack({ type: "CONNECTION_LOST", task, message: errorDetails.message });
             break;
           }
@@ -166,8 +214,10 @@ export const workerLoopCallback = fromCallback<WorkerLoopParentEvent, WorkerRunt
     // #endregion
 
     // #region loop-lifecycle
-    // Start the loop (fire-and-forget, errors are handled inside)
-    void loop();
+    // Start one loop per slot (fire-and-forget, errors are handled inside)
+    for (let slot = 0; slot < concurrency; slot += 1) {
+      void loop(slot);
+    }
 
     // Listen for stop signal from parent
     receive(() => {
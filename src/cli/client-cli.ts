@@ -25,6 +25,12 @@ export interface ClientOptions {
   html?: boolean;
   links?: boolean;
   mhtml?: boolean;
+  /** Print the rendered page to PDF (CDP Page.printToPDF). */
+  pdf?: boolean;
+  /** Build a HAR 1.2 log of the session. */
+  har?: boolean;
+  /** Record console messages, exceptions and failed requests as JSON. */
+  diagnostics?: boolean;
   /** Record the full HTTP session as a WACZ archive (replay via ReplayWeb.page). */
   wacz?: boolean;
   limit?: number;
@@ -135,6 +141,12 @@ export const createProgram = (): Command => {
       "--mhtml",
       "Capture as MHTML single-file archive (CDP Page.captureSnapshot)",
     )
+    .option("--pdf", "Print the rendered page to PDF (CDP Page.printToPDF)")
+    .option("--har", "Write a HAR 1.2 log of the session (without bodies)")
+    .option(
+      "--diagnostics",
+      "Record console messages, JavaScript errors and failed requests to a .diagnostics.json file",
+    )
     .option(
       "--wacz",
       "Record the entire HTTP session as a WACZ archive (replay via ReplayWeb.page)",
@@ -228,6 +240,9 @@ export const parseClientOptions = (argv: string[]): ClientOptions => {
     html?: boolean;
     links?: boolean;
     mhtml?: boolean;
+    pdf?: boolean;
+    har?: boolean;
+    diagnostics?: boolean;
     wacz?: boolean;
     limit?: number;
     tlsCaCert?: string;
@@ -258,6 +273,9 @@ export const parseClientOptions = (argv: string[]): ClientOptions => {
     ...(opts.html !== undefined && { html: opts.html }),
     ...(opts.links !== undefined && { links: opts.links }),
     ...(opts.mhtml !== undefined && { mhtml: opts.mhtml }),
+    ...(opts.pdf !== undefined && { pdf: opts.pdf }),
+    ...(opts.har !== undefined && { har: opts.har }),
+    ...(opts.diagnostics !== undefined && { diagnostics: opts.diagnostics }),
     ...(opts.wacz !== undefined && { wacz: opts.wacz }),
     ...(opts.limit !== undefined && { limit: opts.limit }),
     ...(opts.tlsCaCert !== undefined && { tlsCaCert: opts.tlsCaCert }),
@@ -282,6 +300,9 @@ export const getCaptureFormats = (options: ClientOptions): CaptureFormats => {
     html: options.html ?? false,
     links: options.links ?? false,
     mhtml: options.mhtml ?? false,
+    pdf: options.pdf ?? false,
+    har: options.har ?? false,
+    diagnostics: options.diagnostics ?? false,
     wacz: options.wacz ?? false,
   };
 };
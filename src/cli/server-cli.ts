@@ -14,6 +14,11 @@ import type {
   CacheMode,
   BrowserHiveConfig,
   CaptureConfig,
+  DiscoverySource,
+  HostLimit,
+  IsolationMode,
+  LocalBrowsersConfig,
+  RetryPolicy,
   SigningConfig,
   SigningPolicy,
   StorageConfig,
@@ -23,9 +28,22 @@ import type {
 import {
   DEFAULT_BROWSERHIVE_CONFIG,
   DEFAULT_CAPTURE_CONFIG,
+  DEFAULT_LOCAL_BROWSER_BASE_PORT,
   DEFAULT_SIGNING_CONFIG,
+  DEFAULT_WEBHOOK_CONFIG,
   DEFAULT_WACZ_CONFIG,
 } from "../config/index.js";
+import { ALL_ERROR_TYPES, type ErrorType } from "../capture/error-type.js";
+import {
+  BUILTIN_DEVICE_PRESETS,
+  loadDevicePresets,
+  type DevicePreset,
+} from "../capture/device-presets.js";
+import {
+  loadProxies,
+  PROXY_NAME_PATTERN,
+  type ProxyDefinition,
+} from "../capture/proxies.js";
 import { logger } from "../logger.js";
 import { BUILD_INFO } from "../generated/version.js";
 
@@ -80,6 +98,162 @@ const parseBehaviorList = (value: string): string[] => {
   return [...new Set(ids)];
 };
 
+/**
+ * Parse `--redact-headers` into lower-cased header names. A name that could
+ * not appear in a request is a typo, and a typo here means a secret that
+ * goes out unredacted — so it stops the server instead.
+ */
+const parseHeaderNameList = (value: string): string[] => {
+  const names = value
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter((s) => s.length > 0);
+  const invalid = names.find((name) => !/^[!#$%&'*+.^_`|~0-9a-z-]+$/.test(name));
+  if (invalid !== undefined) {
+    throw new InvalidArgumentError(`"${invalid}" is not a header name`);
+  }
+  return [...new Set(names)];
+};
+
+/**
+ * `--webhook-allowed-hosts`: host names or IPs, or `*.domain`, lower-cased.
+ * Only the shape is checked; a name nothing resolves to just never matches.
+ */
+const parseCallbackHostList = (value: string): string[] => {
+  const hosts = value
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter((s) => s.length > 0);
+  const invalid = hosts.find(
+    (host) => !/^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*$/.test(host) && !/^\[[0-9a-f:.]+\]$/.test(host),
+  );
+  if (invalid !== undefined) {
+    throw new InvalidArgumentError(`"${invalid}" is not a host name, IP or *.domain`);
+  }
+  return [...new Set(hosts)];
+};
+
+/**
+ * Parse `--queue-weights` (`name=weight,…`) into a weight map. Names follow
+ * the request's `queue` pattern; an empty string yields `{}` (all equal).
+ */
+const QUEUE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/;
+const parseQueueWeights = (value: string): Record<string, number> => {
+  const weights: Record<string, number> = {};
+  for (const entry of value.split(",").map((s) => s.trim()).filter((s) => s.length > 0)) {
+    const [name = "", weight = ""] = entry.split("=").map((s) => s.trim());
+    if (!QUEUE_NAME_PATTERN.test(name)) {
+      throw new InvalidArgumentError(`Invalid queue name "${name}" (expected name=weight)`);
+    }
+    if (!/^[0-9]+$/.test(weight) || Number(weight) <= 0) {
+      throw new InvalidArgumentError(`Weight for "${name}" must be a positive integer`);
+    }
+    weights[name] = Number(weight);
+  }
+  return weights;
+};
+
+/**
+ * Parse `--host-limits` (`host=concurrency[:delayMs],…`) into per-site
+ * overrides. Either side of the `:` may be left empty to keep the server-wide
+ * value, e.g. `example.com=:5000`. The host is keyed as given; the queue folds
+ * it into its registrable domain.
+ */
+const HOST_PATTERN = /^[A-Za-z0-9]([A-Za-z0-9-]*[A-Za-z0-9])?(\.[A-Za-z0-9]([A-Za-z0-9-]*[A-Za-z0-9])?)*$/;
+const parseHostLimits = (value: string): Record<string, Partial<HostLimit>> => {
+  const overrides: Record<string, Partial<HostLimit>> = {};
+  for (const entry of value.split(",").map((s) => s.trim()).filter((s) => s.length > 0)) {
+    const [host = "", limit = ""] = entry.split("=").map((s) => s.trim());
+    if (!HOST_PATTERN.test(host)) {
+      throw new InvalidArgumentError(
+        `Invalid host "${host}" (expected host=concurrency[:delayMs])`,
+      );
+    }
+    const [concurrency = "", delay = ""] = limit.split(":").map((s) => s.trim());
+    if (!/^[0-9]*$/.test(concurrency) || !/^[0-9]*$/.test(delay) || limit === "") {
+      throw new InvalidArgumentError(
+        `Limit for "${host}" must be concurrency[:delayMs] with non-negative integers`,
+      );
+    }
+    overrides[host.toLowerCase()] = {
+      ...(concurrency !== "" && { maxConcurrency: Number(concurrency) }),
+      ...(delay !== "" && { minDelayMs: Number(delay) }),
+    };
+  }
+  return overrides;
+};
+
+/**
+ * `--device-presets`: read and check the file while parsing, so a bad preset
+ * stops the server with the file's name in the message.
+ */
+const parseDevicePresetFile = (path: string): Record<string, DevicePreset> => {
+  const result = loadDevicePresets(path);
+  if (!result.ok) {
+    throw new InvalidArgumentError(`${path}: ${result.error}`);
+  }
+  return result.value;
+};
+
+/** `--proxies`: read and check the file while parsing, like `--device-presets`. */
+const parseProxyFile = (path: string): Record<string, ProxyDefinition> => {
+  const result = loadProxies(path);
+  if (!result.ok) {
+    throw new InvalidArgumentError(`${path}: ${result.error}`);
+  }
+  return result.value;
+};
+
+/** `--default-proxy`: the name only; whether `--proxies` has it is checked once both are parsed. */
+const parseProxyName = (value: string): string => {
+  if (!PROXY_NAME_PATTERN.test(value)) {
+    throw new InvalidArgumentError(`"${value}" is not a proxy name`);
+  }
+  return value;
+};
+
+/** `--retry-multiplier`: how much each backoff grows. `1` keeps it constant. */
+const parseMultiplier = (value: string): number => {
+  const num = Number(value);
+  if (value.trim() === "" || !Number.isFinite(num) || num < 1) {
+    throw new InvalidArgumentError("Must be a number >= 1");
+  }
+  return num;
+};
+
+/** `--retry-jitter`: the fraction of each backoff randomised away. */
+const parseJitter = (value: string): number => {
+  const num = Number(value);
+  if (value.trim() === "" || !Number.isFinite(num) || num < 0 || num > 1) {
+    throw new InvalidArgumentError("Must be a number between 0 and 1");
+  }
+  return num;
+};
+
+/** `--retry-error-types`: an empty string retries nothing. */
+const parseErrorTypeList = (value: string): ErrorType[] => {
+  const types = parseBehaviorList(value);
+  for (const type of types) {
+    if (!(ALL_ERROR_TYPES as string[]).includes(type)) {
+      throw new InvalidArgumentError(
+        `Unknown error type "${type}" (expected ${ALL_ERROR_TYPES.join(", ")})`,
+      );
+    }
+  }
+  return types as ErrorType[];
+};
+
+/** `--retry-http-statuses`: an empty string retries no `http` failure. */
+const parseHttpStatusList = (value: string): number[] => {
+  const statuses = parseBehaviorList(value).map((s) => Number(s));
+  for (const status of statuses) {
+    if (!Number.isInteger(status) || status < 400 || status > 599) {
+      throw new InvalidArgumentError("HTTP statuses must be integers between 400 and 599");
+    }
+  }
+  return statuses;
+};
+
 /**
  * DNS membership refresh interval. Enforces a floor so a tiny value cannot
  * hammer DNS + trigger constant reconciles (`parsePositiveInt` alone allows
@@ -139,13 +313,62 @@ interface ParsedOptions {
   captureTimeout: number;
   taskTimeout: number;
   maxRetryCount: number;
+  /** Backoff before the first retry. Env BROWSERHIVE_RETRY_BASE_DELAY_MS. */
+  retryBaseDelayMs: number;
+  /** Env BROWSERHIVE_RETRY_MULTIPLIER. */
+  retryMultiplier: number;
+  /** Env BROWSERHIVE_RETRY_JITTER. */
+  retryJitter: number;
+  /** Env BROWSERHIVE_RETRY_MAX_DELAY_MS. */
+  retryMaxDelayMs: number;
+  /** Failure kinds that are retried. Env BROWSERHIVE_RETRY_ERROR_TYPES. */
+  retryErrorTypes: ErrorType[];
+  /** HTTP statuses that are retried. Env BROWSERHIVE_RETRY_HTTP_STATUSES. */
+  retryHttpStatuses: number[];
   queuePollIntervalMs: number;
+  /** Queue journal directory; absent keeps the queue in memory. Env BROWSERHIVE_QUEUE_JOURNAL_DIR. */
+  queueJournalDir?: string;
+  /** Schedule file directory; absent keeps schedules in memory. Env BROWSERHIVE_SCHEDULE_DIR. */
+  scheduleDir?: string;
+  /** Per-queue dequeue weights. Env BROWSERHIVE_QUEUE_WEIGHTS. */
+  queueWeights: Record<string, number>;
+  /** Per-site concurrency, 0 = unlimited. Env BROWSERHIVE_HOST_MAX_CONCURRENCY. */
+  hostMaxConcurrency: number;
+  /** Per-site spacing between task starts. Env BROWSERHIVE_HOST_MIN_DELAY_MS. */
+  hostMinDelayMs: number;
+  /** Per-site overrides of the two above. Env BROWSERHIVE_HOST_LIMITS. */
+  hostLimits: Record<string, Partial<HostLimit>>;
   resultCacheSize: number;
+  /** Failed tasks kept for `GET /v1/failed`. Env BROWSERHIVE_DEAD_LETTER_SIZE. */
+  deadLetterSize: number;
+  /** Events kept for `GET /v1/events` resumption. Env BROWSERHIVE_EVENT_BUFFER_SIZE. */
+  eventBufferSize: number;
+  /** Attempts per `callback` delivery. Env BROWSERHIVE_WEBHOOK_MAX_ATTEMPTS. */
+  webhookMaxAttempts: number;
+  /** Per-attempt wait for a `callback` receiver. Env BROWSERHIVE_WEBHOOK_TIMEOUT_MS. */
+  webhookTimeoutMs: number;
+  /** Hosts a `callback.url` may name, lower-cased. Env BROWSERHIVE_WEBHOOK_ALLOWED_HOSTS. */
+  webhookAllowedHosts: string[];
   discoveryRefreshMs: number;
   /** Boot-time worker-resolve retry attempts. Env BROWSERHIVE_DISCOVERY_INIT_RETRY_ATTEMPTS. */
   discoveryInitRetryAttempts: number;
   /** Base backoff (ms) for the boot-time retry. Env BROWSERHIVE_DISCOVERY_INIT_RETRY_DELAY_MS. */
   discoveryInitRetryDelayMs: number;
+  /** Membership source. Env BROWSERHIVE_DISCOVERY. */
+  discovery: Exclude<DiscoverySource["type"], "local">;
+  /** Member list for `--discovery file`. Env BROWSERHIVE_DISCOVERY_FILE. */
+  discoveryFile?: string;
+  /** Member list endpoint for `--discovery http`. Env BROWSERHIVE_DISCOVERY_URL. */
+  discoveryUrl?: string;
+  /**
+   * Chromium processes to start and supervise here instead of connecting to
+   * `--browser-url`. Env BROWSERHIVE_LAUNCH_LOCAL_BROWSERS.
+   */
+  launchLocalBrowsers?: number;
+  /** Debugging port of the first local browser. Env BROWSERHIVE_LOCAL_BROWSER_BASE_PORT. */
+  localBrowserBasePort: number;
+  /** Local Chromium binary (default: Puppeteer's). Env BROWSERHIVE_CHROMIUM_EXECUTABLE. */
+  chromiumExecutable?: string;
   /**
    * Delay inserted before each browser operation, so a headless capture can be
    * watched live over the DevTools screencast. Applied per capture by the
@@ -159,10 +382,22 @@ interface ParsedOptions {
   archiveMode: ArchiveMode;
   /** Server default for the HTTP cache. Env BROWSERHIVE_CACHE. */
   cache: CacheMode;
+  /** Server default for where a capture runs. Env BROWSERHIVE_ISOLATION. */
+  isolation: IsolationMode;
+  /** Captures each worker runs at once. Env BROWSERHIVE_CONCURRENCY. */
+  concurrency: number;
   viewportWidth: number;
   viewportHeight: number;
   /** Device pixel ratio the capture browser renders at. Env BROWSERHIVE_DEVICE_SCALE_FACTOR. */
   deviceScaleFactor: number;
+  /** Presets from `--device-presets`, already parsed. Env BROWSERHIVE_DEVICE_PRESETS. */
+  devicePresets?: Record<string, DevicePreset>;
+  /** `--redact-headers`, lower-cased. Env BROWSERHIVE_REDACT_HEADERS. */
+  redactHeaders: string[];
+  /** Proxies from `--proxies`, already parsed. Env BROWSERHIVE_PROXIES. */
+  proxies?: Record<string, ProxyDefinition>;
+  /** Env BROWSERHIVE_DEFAULT_PROXY. */
+  defaultProxy?: string;
   screenshotFullPage: boolean;
   screenshotQuality?: number;
   rejectDuplicateUrls: boolean;
@@ -228,6 +463,7 @@ interface ResolvedOptions
     | "waczFuzzyParam"
   > {
   browserUrl: URL[];
+  discoverySource: DiscoverySource;
   storage: StorageConfig;
   waczBlockPattern: string[];
   waczSkipContentTypes: string[];
@@ -278,11 +514,22 @@ const buildServerConfig = (opts: ResolvedOptions): BrowserHiveConfig => {
     timeoutMs: opts.signingTimeoutMs,
   };
 
+  const retry: RetryPolicy = {
+    baseDelayMs: opts.retryBaseDelayMs,
+    multiplier: opts.retryMultiplier,
+    jitter: opts.retryJitter,
+    maxDelayMs: opts.retryMaxDelayMs,
+    retryableErrorTypes: opts.retryErrorTypes,
+    retryableHttpStatuses: opts.retryHttpStatuses,
+  };
+
   const capture: CaptureConfig = {
     operationDelayMs: opts.operationDelayMs,
     trace: opts.captureTrace,
     archiveMode: opts.archiveMode,
     cache: opts.cache,
+    isolation: opts.isolation,
+    concurrency: opts.concurrency,
     timeouts: {
       pageLoadMs: opts.pageLoadTimeout,
       captureMs: opts.captureTimeout,
@@ -310,6 +557,10 @@ const buildServerConfig = (opts: ResolvedOptions): BrowserHiveConfig => {
       ...(opts.screenshotQuality !== undefined && { quality: opts.screenshotQuality }),
     },
     ...(opts.userAgent !== undefined && { userAgent: opts.userAgent }),
+    devicePresets: { ...BUILTIN_DEVICE_PRESETS, ...opts.devicePresets },
+    redactHeaders: opts.redactHeaders,
+    proxies: opts.proxies ?? {},
+    ...(opts.defaultProxy !== undefined && { defaultProxy: opts.defaultProxy }),
     resetPageState: {
       cookies: opts.resetCookies,
       pageContext: opts.resetPageContext,
@@ -324,17 +575,36 @@ const buildServerConfig = (opts: ResolvedOptions): BrowserHiveConfig => {
     },
     coordinator: {
       browserProfiles: opts.browserUrl.map((url) => ({ browserURL: url, capture })),
+      capture,
       storage: opts.storage,
       signing,
       maxRetryCount: opts.maxRetryCount,
+      retry,
       queuePollIntervalMs: opts.queuePollIntervalMs,
       rejectDuplicateUrls: opts.rejectDuplicateUrls,
       resultCacheSize: opts.resultCacheSize,
+      deadLetterSize: opts.deadLetterSize,
+      eventBufferSize: opts.eventBufferSize,
+      ...(opts.queueJournalDir !== undefined && { queueJournalDir: opts.queueJournalDir }),
+      ...(opts.scheduleDir !== undefined && { scheduleDir: opts.scheduleDir }),
+      queueWeights: opts.queueWeights,
+      hostLimits: {
+        maxConcurrency: opts.hostMaxConcurrency,
+        minDelayMs: opts.hostMinDelayMs,
+        overrides: opts.hostLimits,
+      },
+      webhook: {
+        ...DEFAULT_WEBHOOK_CONFIG,
+        allowedHosts: opts.webhookAllowedHosts,
+        maxAttempts: opts.webhookMaxAttempts,
+        timeoutMs: opts.webhookTimeoutMs,
+      },
     },
     discovery: {
       refreshMs: opts.discoveryRefreshMs,
       initRetryAttempts: opts.discoveryInitRetryAttempts,
       initRetryDelayMs: opts.discoveryInitRetryDelayMs,
+      source: opts.discoverySource,
     },
   };
 };
@@ -444,6 +714,54 @@ export const createProgram = (): Command => {
         .default(defaultWorker.maxRetryCount)
         .argParser(parseNonNegativeInt),
     )
+    .addOption(
+      new Option(
+        "--retry-base-delay-ms <ms>",
+        "Backoff before the first retry of a failed capture (0 = retry at once)",
+      )
+        .env("BROWSERHIVE_RETRY_BASE_DELAY_MS")
+        .default(defaultWorker.retry.baseDelayMs)
+        .argParser(parseNonNegativeInt),
+    )
+    .addOption(
+      new Option("--retry-multiplier <n>", "Growth of the backoff per further retry (1 = constant)")
+        .env("BROWSERHIVE_RETRY_MULTIPLIER")
+        .default(defaultWorker.retry.multiplier)
+        .argParser(parseMultiplier),
+    )
+    .addOption(
+      new Option(
+        "--retry-jitter <fraction>",
+        "Fraction (0-1) of each backoff randomised away, so failures that arrived together do not retry together",
+      )
+        .env("BROWSERHIVE_RETRY_JITTER")
+        .default(defaultWorker.retry.jitter)
+        .argParser(parseJitter),
+    )
+    .addOption(
+      new Option("--retry-max-delay-ms <ms>", "Ceiling for the growing retry backoff")
+        .env("BROWSERHIVE_RETRY_MAX_DELAY_MS")
+        .default(defaultWorker.retry.maxDelayMs)
+        .argParser(parseNonNegativeInt),
+    )
+    .addOption(
+      new Option(
+        "--retry-error-types <list>",
+        `Comma-separated failure kinds that are retried (${ALL_ERROR_TYPES.join(", ")}). Empty string retries nothing`,
+      )
+        .env("BROWSERHIVE_RETRY_ERROR_TYPES")
+        .default(defaultWorker.retry.retryableErrorTypes)
+        .argParser(parseErrorTypeList),
+    )
+    .addOption(
+      new Option(
+        "--retry-http-statuses <list>",
+        "Comma-separated HTTP statuses retried when the error type is http; any other status fails at once",
+      )
+        .env("BROWSERHIVE_RETRY_HTTP_STATUSES")
+        .default(defaultWorker.retry.retryableHttpStatuses)
+        .argParser(parseHttpStatusList),
+    )
     .addOption(
       new Option(
         "--queue-poll-interval-ms <ms>",
@@ -453,6 +771,54 @@ export const createProgram = (): Command => {
         .default(defaultWorker.queuePollIntervalMs)
         .argParser(parsePositiveInt),
     )
+    .addOption(
+      new Option(
+        "--queue-journal-dir <path>",
+        "Directory for the queue journal; pending and in-flight tasks survive a restart (memory only if not specified)",
+      ).env("BROWSERHIVE_QUEUE_JOURNAL_DIR"),
+    )
+    .addOption(
+      new Option(
+        "--schedule-dir <path>",
+        "Directory for schedules.json; schedules created via /v1/schedules survive a restart (memory only if not specified)",
+      ).env("BROWSERHIVE_SCHEDULE_DIR"),
+    )
+    .addOption(
+      new Option(
+        "--queue-weights <list>",
+        "Comma-separated name=weight pairs sharing workers between named queues (unlisted queues weigh 1)",
+      )
+        .env("BROWSERHIVE_QUEUE_WEIGHTS")
+        .default(defaultWorker.queueWeights)
+        .argParser(parseQueueWeights),
+    )
+    .addOption(
+      new Option(
+        "--host-max-concurrency <n>",
+        "Tasks from one site (registrable domain) in flight at once across all workers (0 = unlimited)",
+      )
+        .env("BROWSERHIVE_HOST_MAX_CONCURRENCY")
+        .default(defaultWorker.hostLimits.maxConcurrency)
+        .argParser(parseNonNegativeInt),
+    )
+    .addOption(
+      new Option(
+        "--host-min-delay-ms <ms>",
+        "Minimum time between two task starts on one site (0 = no spacing)",
+      )
+        .env("BROWSERHIVE_HOST_MIN_DELAY_MS")
+        .default(defaultWorker.hostLimits.minDelayMs)
+        .argParser(parseNonNegativeInt),
+    )
+    .addOption(
+      new Option(
+        "--host-limits <list>",
+        "Comma-separated host=concurrency[:delayMs] overrides of the two site limits above, e.g. example.com=1:2000",
+      )
+        .env("BROWSERHIVE_HOST_LIMITS")
+        .default(defaultWorker.hostLimits.overrides)
+        .argParser(parseHostLimits),
+    )
     .addOption(
       new Option(
         "--result-cache-size <n>",
@@ -462,10 +828,55 @@ export const createProgram = (): Command => {
         .default(defaultWorker.resultCacheSize)
         .argParser(parseNonNegativeInt),
     )
+    .addOption(
+      new Option(
+        "--dead-letter-size <n>",
+        "How many failed tasks to keep for GET /v1/failed and its retry (0 disables)",
+      )
+        .env("BROWSERHIVE_DEAD_LETTER_SIZE")
+        .default(defaultWorker.deadLetterSize)
+        .argParser(parseNonNegativeInt),
+    )
+    .addOption(
+      new Option(
+        "--event-buffer-size <n>",
+        "How many lifecycle events GET /v1/events keeps for Last-Event-ID resumption (0 = live only)",
+      )
+        .env("BROWSERHIVE_EVENT_BUFFER_SIZE")
+        .default(defaultWorker.eventBufferSize)
+        .argParser(parseNonNegativeInt),
+    )
+    .addOption(
+      new Option(
+        "--webhook-max-attempts <n>",
+        "Attempts per capture callback delivery, the first one included (1 disables retry)",
+      )
+        .env("BROWSERHIVE_WEBHOOK_MAX_ATTEMPTS")
+        .default(defaultWorker.webhook.maxAttempts)
+        .argParser(parsePositiveInt),
+    )
+    .addOption(
+      new Option(
+        "--webhook-timeout-ms <ms>",
+        "How long one capture callback delivery attempt waits for the receiver to answer",
+      )
+        .env("BROWSERHIVE_WEBHOOK_TIMEOUT_MS")
+        .default(defaultWorker.webhook.timeoutMs)
+        .argParser(parsePositiveInt),
+    )
+    .addOption(
+      new Option(
+        "--webhook-allowed-hosts <hosts>",
+        "Comma-separated hosts a capture callback may be POSTed to (host, IP or *.domain). Unset refuses every callback: a client cannot make the server call an address of its choosing",
+      )
+        .env("BROWSERHIVE_WEBHOOK_ALLOWED_HOSTS")
+        .default(defaultWorker.webhook.allowedHosts)
+        .argParser(parseCallbackHostList),
+    )
     .addOption(
       new Option(
         "--discovery-refresh-ms <ms>",
-        "How often to re-resolve worker membership from DNS",
+        "How often to re-check worker membership (--discovery dns or http)",
       )
         .env("BROWSERHIVE_DISCOVERY_REFRESH_MS")
         .default(defaults.discovery.refreshMs)
@@ -489,6 +900,50 @@ export const createProgram = (): Command => {
         .default(defaults.discovery.initRetryDelayMs)
         .argParser(parsePositiveInt),
     )
+    .addOption(
+      new Option(
+        "--discovery <source>",
+        "Where worker membership comes from: dns and static use --browser-url, file and http read a member list",
+      )
+        .env("BROWSERHIVE_DISCOVERY")
+        .choices(["dns", "static", "file", "http"])
+        .default(defaults.discovery.source.type),
+    )
+    .addOption(
+      new Option(
+        "--discovery-file <path>",
+        "YAML/JSON member list for --discovery file, watched for edits",
+      ).env("BROWSERHIVE_DISCOVERY_FILE"),
+    )
+    .addOption(
+      new Option(
+        "--discovery-url <url>",
+        "Member list endpoint for --discovery http, polled every --discovery-refresh-ms",
+      ).env("BROWSERHIVE_DISCOVERY_URL"),
+    )
+    .addOption(
+      new Option(
+        "--launch-local-browsers <n>",
+        "Start and supervise N headless Chromium processes on this host instead of connecting to --browser-url (crashed ones are restarted)",
+      )
+        .env("BROWSERHIVE_LAUNCH_LOCAL_BROWSERS")
+        .argParser(parsePositiveInt),
+    )
+    .addOption(
+      new Option(
+        "--local-browser-base-port <port>",
+        "Debugging port of the first local browser; the others take the ports above it",
+      )
+        .env("BROWSERHIVE_LOCAL_BROWSER_BASE_PORT")
+        .default(DEFAULT_LOCAL_BROWSER_BASE_PORT)
+        .argParser(parsePort),
+    )
+    .addOption(
+      new Option(
+        "--chromium-executable <path>",
+        "Chromium binary for --launch-local-browsers (default: the one Puppeteer installed)",
+      ).env("BROWSERHIVE_CHROMIUM_EXECUTABLE"),
+    )
     .addOption(
       new Option("--viewport-width <px>", "Viewport width in pixels")
         .env("BROWSERHIVE_VIEWPORT_WIDTH")
@@ -519,6 +974,24 @@ export const createProgram = (): Command => {
         .choices(["default", "bypass", "clear"])
         .default(defaultCapture.cache),
     )
+    .addOption(
+      new Option(
+        "--isolation <mode>",
+        "Default place a capture runs: tab (the worker's persistent tab, cleaned up by resetState) | context (a fresh browser context per capture, disposed afterwards — nothing carries over, at the cost of a context and page each time). Overridable per request",
+      )
+        .env("BROWSERHIVE_ISOLATION")
+        .choices(["tab", "context"])
+        .default(defaultCapture.isolation),
+    )
+    .addOption(
+      new Option(
+        "--concurrency <n>",
+        "Captures each worker runs at once against its browser. Slot 0 uses the browser's own tab, every further slot a tab in a browser context of its own; each costs the browser a renderer's worth of memory",
+      )
+        .env("BROWSERHIVE_CONCURRENCY")
+        .default(defaultCapture.concurrency)
+        .argParser(parsePositiveInt),
+    )
     .addOption(
       new Option(
         "--device-scale-factor <n>",
@@ -528,6 +1001,39 @@ export const createProgram = (): Command => {
         .default(defaultCapture.viewport.deviceScaleFactor)
         .argParser(parsePositiveInt),
     )
+    .addOption(
+      new Option(
+        "--device-presets <file>",
+        "JSON file of device presets a request can name in `device` (name → viewport, deviceScaleFactor, mobile, hasTouch, userAgent, platform, userAgentMetadata). Adds to the built-in iphone-15 / pixel-8 / ipad; an entry with a built-in's name replaces it",
+      )
+        .env("BROWSERHIVE_DEVICE_PRESETS")
+        .argParser(parseDevicePresetFile),
+    )
+    .addOption(
+      new Option(
+        "--redact-headers <names>",
+        "Comma-separated header names whose values are secret, in addition to Authorization, Proxy-Authorization and Cookie. Replaced in logs, /v1/status, schedules, and the WARC / HAR request records of captures that carried request credentials",
+      )
+        .env("BROWSERHIVE_REDACT_HEADERS")
+        .default(defaultCapture.redactHeaders)
+        .argParser(parseHeaderNameList),
+    )
+    .addOption(
+      new Option(
+        "--proxies <file>",
+        "JSON file of upstream proxies a request can name in `proxy` (name → server, username, password, bypass). The allowlist: requests cannot give a proxy address of their own",
+      )
+        .env("BROWSERHIVE_PROXIES")
+        .argParser(parseProxyFile),
+    )
+    .addOption(
+      new Option(
+        "--default-proxy <name>",
+        "Proxy from --proxies for every capture whose request names none",
+      )
+        .env("BROWSERHIVE_DEFAULT_PROXY")
+        .argParser(parseProxyName),
+    )
     .option(
       "--screenshot-full-page",
       "Capture full page screenshot (env: BROWSERHIVE_SCREENSHOT_FULL_PAGE)",
@@ -754,6 +1260,95 @@ const requireBrowserUrls = (
   );
 };
 
+/**
+ * `--launch-local-browsers` replaces `--browser-url` rather than adding to
+ * it: the workers are either this host's processes or someone else's. The
+ * port range is checked here so a base port near the top cannot hand
+ * Chromium a port that does not exist.
+ */
+const resolveLocalBrowsers = (
+  opts: ParsedOptions,
+  program: Command,
+): LocalBrowsersConfig | undefined => {
+  const count = opts.launchLocalBrowsers;
+  if (count === undefined) return undefined;
+  if (
+    (opts.browserUrl !== undefined && opts.browserUrl.length > 0) ||
+    process.env["BROWSERHIVE_BROWSER_URLS"] !== undefined
+  ) {
+    program.error(
+      "--launch-local-browsers cannot be combined with --browser-url (or BROWSERHIVE_BROWSER_URLS)",
+    );
+  }
+  const lastPort = opts.localBrowserBasePort + count - 1;
+  if (lastPort > 65535) {
+    program.error(
+      `--launch-local-browsers ${String(count)} from port ${String(opts.localBrowserBasePort)} ` +
+        `would need port ${String(lastPort)}`,
+    );
+  }
+  return {
+    count,
+    basePort: opts.localBrowserBasePort,
+    ...(opts.chromiumExecutable !== undefined && { executablePath: opts.chromiumExecutable }),
+  };
+};
+
+/** The worker URLs of the local browsers, one per port, in order. */
+const localBrowserUrls = (config: LocalBrowsersConfig): URL[] =>
+  Array.from(
+    { length: config.count },
+    (_, index) => new URL(`http://127.0.0.1:${String(config.basePort + index)}/`),
+  );
+
+/**
+ * The membership source and the `--browser-url` profiles that go with it.
+ * `file` and `http` take their members from the list instead, so
+ * `--browser-url` is refused there rather than silently ignored; likewise an
+ * explicit `--discovery` next to `--launch-local-browsers`.
+ */
+const resolveDiscoverySource = (
+  opts: ParsedOptions,
+  program: Command,
+): { source: DiscoverySource; browserUrl: URL[] } => {
+  const browsers = resolveLocalBrowsers(opts, program);
+  if (browsers) {
+    if (program.getOptionValueSource("discovery") !== "default") {
+      program.error("--launch-local-browsers cannot be combined with --discovery");
+    }
+    return { source: { type: "local", browsers }, browserUrl: localBrowserUrls(browsers) };
+  }
+
+  const source = opts.discovery;
+  if (source === "dns" || source === "static") {
+    return { source: { type: source }, browserUrl: requireBrowserUrls(opts.browserUrl, program) };
+  }
+  if (
+    (opts.browserUrl !== undefined && opts.browserUrl.length > 0) ||
+    process.env["BROWSERHIVE_BROWSER_URLS"] !== undefined
+  ) {
+    program.error(
+      `--discovery ${source} takes its members from the list — drop --browser-url (or BROWSERHIVE_BROWSER_URLS)`,
+    );
+  }
+  if (source === "file") {
+    if (opts.discoveryFile === undefined) {
+      program.error("--discovery file needs --discovery-file (or BROWSERHIVE_DISCOVERY_FILE)");
+    }
+    return { source: { type: "file", path: opts.discoveryFile }, browserUrl: [] };
+  }
+  if (opts.discoveryUrl === undefined) {
+    program.error("--discovery http needs --discovery-url (or BROWSERHIVE_DISCOVERY_URL)");
+  }
+  const url = parseHttpUrl(opts.discoveryUrl);
+  if (!url.ok) {
+    program.error(
+      `invalid --discovery-url (or BROWSERHIVE_DISCOVERY_URL): ${opts.discoveryUrl} — must be an http(s) URL`,
+    );
+  }
+  return { source: { type: "http", url: url.url }, browserUrl: [] };
+};
+
 /**
  * Variadic list flags (CLI > env > defaultIfBoth) merged into a final
  * `string[]`. Used for `--wacz-block-pattern` / `--wacz-skip-content-types`
@@ -911,11 +1506,21 @@ export const parseCliOptions = (argv: string[]): BrowserHiveConfig => {
     );
   }
 
+  // Checked here rather than per capture: a default that is not on the
+  // allowlist would fail every task that names no proxy.
+  if (opts.defaultProxy !== undefined && !Object.hasOwn(opts.proxies ?? {}, opts.defaultProxy)) {
+    program.error(
+      `--default-proxy ${opts.defaultProxy} is not defined in --proxies (or BROWSERHIVE_PROXIES)`,
+    );
+  }
+
   const storage = resolveStorageConfig(opts, program);
+  const { source: discoverySource, browserUrl } = resolveDiscoverySource(opts, program);
 
   const resolved: ResolvedOptions = {
     ...opts,
-    browserUrl: requireBrowserUrls(opts.browserUrl, program),
+    browserUrl,
+    discoverySource,
     storage,
     screenshotFullPage: resolveBoolWithEnv(
       opts.screenshotFullPage,
@@ -991,7 +1596,8 @@ const logSafeStorage = (
 
 export const logServerConfig = (config: BrowserHiveConfig): void => {
   const coordinator = config.coordinator;
-  const capture = coordinator.browserProfiles[0]?.capture ?? DEFAULT_CAPTURE_CONFIG;
+  const capture =
+    coordinator.capture ?? coordinator.browserProfiles[0]?.capture ?? DEFAULT_CAPTURE_CONFIG;
 
   logger.info(
     {
@@ -1000,6 +1606,7 @@ export const logServerConfig = (config: BrowserHiveConfig): void => {
         ? { enabled: true, certPath: config.http.tls.certPath }
         : { enabled: false },
       browserProfiles: coordinator.browserProfiles.map((b) => b.browserURL.href),
+      discovery: config.discovery.source,
       operationDelayMs: capture.operationDelayMs,
       trace: capture.trace,
       storage: logSafeStorage(coordinator.storage),
@@ -1015,10 +1622,20 @@ export const logServerConfig = (config: BrowserHiveConfig): void => {
         siteBehaviors: capture.behaviors.siteBehaviors,
       },
       maxRetryCount: coordinator.maxRetryCount,
+      retry: coordinator.retry,
       queuePollIntervalMs: coordinator.queuePollIntervalMs,
+      queueJournalDir: coordinator.queueJournalDir ?? "(memory only)",
+      scheduleDir: coordinator.scheduleDir ?? "(memory only)",
+      queueWeights: coordinator.queueWeights,
+      hostLimits: coordinator.hostLimits,
       resultCacheSize: coordinator.resultCacheSize,
+      deadLetterSize: coordinator.deadLetterSize,
+      eventBufferSize: coordinator.eventBufferSize,
+      webhook: coordinator.webhook,
       archiveMode: capture.archiveMode,
       cache: capture.cache,
+      isolation: capture.isolation,
+      concurrency: capture.concurrency,
       viewport: {
         width: capture.viewport.width,
         height: capture.viewport.height,
@@ -1030,6 +1647,11 @@ export const logServerConfig = (config: BrowserHiveConfig): void => {
       },
       rejectDuplicateUrls: coordinator.rejectDuplicateUrls,
       userAgent: capture.userAgent ?? "(browser default)",
+      devicePresets: Object.keys(capture.devicePresets),
+      redactHeaders: capture.redactHeaders,
+      // Names only — the file holds proxy credentials.
+      proxies: Object.keys(capture.proxies),
+      defaultProxy: capture.defaultProxy ?? "(direct)",
       resetPageState: capture.resetPageState,
       ...(capture.wacz && {
         wacz: {
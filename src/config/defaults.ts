@@ -3,9 +3,12 @@ import type {
   CoordinatorConfig,
   BrowserHiveConfig,
   DiscoveryConfig,
+  RetryPolicy,
   SigningConfig,
   WaczConfig,
+  WebhookConfig,
 } from "./types.js";
+import { BUILTIN_DEVICE_PRESETS } from "../capture/device-presets.js";
 
 /**
  * Default wait time for dynamic content to load (ms).
@@ -82,6 +85,35 @@ export const DEFAULT_SIGNING_CONFIG: SigningConfig = {
   timeoutMs: 5_000,
 };
 
+/**
+ * Five attempts over roughly half a minute (1 + 2 + 4 + 8 s of backoff):
+ * long enough to ride out a receiver restarting, short enough that a
+ * receiver which is simply gone shows up in `/v1/status` while someone is
+ * still looking.
+ */
+export const DEFAULT_WEBHOOK_CONFIG: WebhookConfig = {
+  allowedHosts: [],
+  maxAttempts: 5,
+  initialDelayMs: 1_000,
+  maxDelayMs: 30_000,
+  timeoutMs: 10_000,
+};
+
+/**
+ * 5 s, then 15 s (then 45 s… for a raised `maxRetryCount`): long enough that
+ * a site answering 503 has moved on, and that the retry is usually taken by
+ * a different worker. HTTP statuses are the "try again later" ones; every
+ * other status is the site's answer and retrying cannot change it.
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  baseDelayMs: 5_000,
+  multiplier: 3,
+  jitter: 0.2,
+  maxDelayMs: 300_000,
+  retryableErrorTypes: ["http", "timeout", "connection", "signing", "internal"],
+  retryableHttpStatuses: [408, 425, 429, 500, 502, 503, 504],
+};
+
 export const DEFAULT_CAPTURE_CONFIG: CaptureConfig = {
   // No artificial delay. Raise it (or send `operationDelayMs` on a request) only
   // to watch a headless capture render — see capture/capture-page.ts.
@@ -95,6 +127,12 @@ export const DEFAULT_CAPTURE_CONFIG: CaptureConfig = {
   // declaring every candidate in `srcset` (autofetch already covers the latter).
   archiveMode: "single-pass",
   cache: "clear",
+  // The persistent tab. `context` is opt-in: a context and a page per task is
+  // a cost every capture would pay for a guarantee most do not need.
+  isolation: "tab",
+  // One capture per browser, as before slots existed. Raising it is a
+  // matter of how much memory the browser container has.
+  concurrency: 1,
   timeouts: {
     pageLoadMs: 30000,
     captureMs: 10000,
@@ -147,6 +185,9 @@ export const DEFAULT_CAPTURE_CONFIG: CaptureConfig = {
   screenshot: {
     fullPage: false,
   },
+  devicePresets: { ...BUILTIN_DEVICE_PRESETS },
+  redactHeaders: [],
+  proxies: {},
   resetPageState: {
     cookies: true,
     pageContext: true,
@@ -170,13 +211,28 @@ export const DEFAULT_COORDINATOR_CONFIG = {
   // put failures fall back on this implicit retry budget. Lowering this below
   // 2 weakens that safety net.
   maxRetryCount: 2,
+  retry: DEFAULT_RETRY_POLICY,
   queuePollIntervalMs: 50,
   rejectDuplicateUrls: false,
   // Enough to cover a client that polls minutes behind a burst, while staying
   // trivially small in memory. The durable record is the `.result.json`
   // manifest, so eviction loses nothing — it only turns a 200 into a 404.
   resultCacheSize: 1000,
+  // Failures are what an operator goes through by hand, so this is sized for
+  // a bad hour rather than a burst; the manifest still holds every one.
+  deadLetterSize: 1000,
+  // A burst of 1000 submissions emits ~3000 events (enqueue, start,
+  // completion), so this covers a reconnect of a few seconds mid-burst and
+  // minutes of a quiet server.
+  eventBufferSize: 5000,
+  // Every queue equal until an operator says otherwise.
+  queueWeights: {},
+  // No limit: a deployment that captures one site at a time has nothing to
+  // protect, and one that crawls knows better than a default what a site
+  // tolerates.
+  hostLimits: { maxConcurrency: 0, minDelayMs: 0, overrides: {} },
   signing: DEFAULT_SIGNING_CONFIG,
+  webhook: DEFAULT_WEBHOOK_CONFIG,
 } satisfies Omit<CoordinatorConfig, "storage">;
 
 /**
@@ -194,8 +250,15 @@ export const DEFAULT_DISCOVERY_CONFIG: DiscoveryConfig = {
   // retrying before a genuinely worker-less stack fails fatally.
   initRetryAttempts: 6,
   initRetryDelayMs: 500,
+  source: { type: "dns" },
 };
 
+/**
+ * First debugging port for `--launch-local-browsers` — Chromium's own
+ * default, so a single local browser sits where DevTools users expect it.
+ */
+export const DEFAULT_LOCAL_BROWSER_BASE_PORT = 9222;
+
 export const DEFAULT_BROWSERHIVE_CONFIG = {
   http: { port: 8080 },
   coordinator: DEFAULT_COORDINATOR_CONFIG,
@@ -12,12 +12,19 @@ export type {
   BrowserHiveConfig,
   BrowserProfile,
   DiscoveryConfig,
+  DiscoverySource,
+  HostLimit,
+  HostLimitsConfig,
   HttpServerConfig,
+  IsolationMode,
+  LocalBrowsersConfig,
   ResetPageStateConfig,
+  RetryPolicy,
   StorageConfig,
   TlsConfig,
   ClientTlsConfig,
   WaczConfig,
+  WebhookConfig,
 } from "./types.js";
 export {
   DEFAULT_SIGNING_CONFIG,
@@ -26,7 +33,10 @@ export {
   DEFAULT_BROWSERHIVE_CONFIG,
   DEFAULT_DISCOVERY_CONFIG,
   DEFAULT_DYNAMIC_CONTENT_WAIT_MS,
+  DEFAULT_LOCAL_BROWSER_BASE_PORT,
+  DEFAULT_RETRY_POLICY,
   DEFAULT_WACZ_CONFIG,
   DEFAULT_WACZ_BLOCK_PATTERNS,
   DEFAULT_WACZ_FUZZY_PARAMS,
+  DEFAULT_WEBHOOK_CONFIG,
 } from "./defaults.js";
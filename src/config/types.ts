@@ -6,6 +6,9 @@
  */
 
 import type { BehaviorConfig } from "../behaviors/types.js";
+import type { ErrorType } from "../capture/error-type.js";
+import type { DevicePreset } from "../capture/device-presets.js";
+import type { ProxyDefinition } from "../capture/proxies.js";
 
 /** Screenshot configuration compatible with Puppeteer ScreenshotOptions */
 export interface ScreenshotConfig {
@@ -182,6 +185,21 @@ export type ArchiveMode = "single-pass" | "multipass";
  */
 export type CacheMode = "default" | "bypass" | "clear";
 
+/**
+ * Where a capture runs.
+ *
+ *   tab     — the worker's one persistent tab, wiped between tasks by
+ *             `resetPageState`. Cheap, and what the shipped default is.
+ *   context — a page in a browser context created for the task and disposed
+ *             after it. Nothing survives: service workers, IndexedDB, the
+ *             HTTP cache, permissions — state `resetPageState`'s two axes
+ *             cannot reach. Costs a context and a page per task.
+ *
+ * A task that goes through a proxy always gets its own context, whatever
+ * this says — Chromium sets the proxy per context.
+ */
+export type IsolationMode = "tab" | "context";
+
 export interface CaptureConfig {
   /**
    * Server-wide default delay (ms) inserted before each browser operation, for
@@ -222,6 +240,19 @@ export interface CaptureConfig {
    * `BROWSERHIVE_CACHE=default`.
    */
   cache: CacheMode;
+  /** Server-wide default for where a capture runs. Overridable per request. */
+  isolation: IsolationMode;
+  /**
+   * Captures a worker runs at once against this browser. Slot 0 is the
+   * browser's initial tab; every further slot gets a tab in a browser
+   * context of its own, held for the life of the connection, so one slot's
+   * `resetState` or cache clearing cannot reach another's cookies.
+   *
+   * Most of a capture is spent waiting — for the load, for network idle, for
+   * `dynamicContentWaitMs` — so a browser container with CPU to spare can
+   * take several. Each slot costs a renderer's worth of memory.
+   */
+  concurrency: number;
   timeouts: {
     /** Page load timeout. */
     pageLoadMs: number;
@@ -261,6 +292,30 @@ export interface CaptureConfig {
   screenshot: ScreenshotConfig;
   /** Custom User-Agent string (uses browser default if undefined) */
   userAgent?: string;
+  /**
+   * Device presets a request can name in `device`: the built-ins plus any
+   * from `--device-presets`. Resolved by the request mapper; the capture
+   * layer only sees the result on the task.
+   */
+  devicePresets: Record<string, DevicePreset>;
+  /**
+   * Header names whose values are secret, on top of
+   * `DEFAULT_REDACTED_HEADERS`. Their values are replaced wherever a task's
+   * request credentials are shown — logs, `/v1/status`, schedules — and in
+   * the WARC / HAR request records of a capture that carried credentials.
+   * Lower case.
+   */
+  redactHeaders: string[];
+  /**
+   * Upstream proxies a request can name in `proxy`, from `--proxies`. The
+   * allowlist: a request cannot give an address of its own.
+   */
+  proxies: Record<string, ProxyDefinition>;
+  /**
+   * Proxy for the tasks of this profile that name none. Resolved by the
+   * worker, not the request mapper — see `resolveTaskProxy`.
+   */
+  defaultProxy?: string;
   /** Server-wide default for inter-task wipe. Both axes default to true. */
   resetPageState: ResetPageStateConfig;
   /**
@@ -271,6 +326,74 @@ export interface CaptureConfig {
   wacz?: WaczConfig;
 }
 
+/**
+ * How `callback` deliveries are retried, and where they may go. Server-wide:
+ * the request chooses where a result goes, within what the operator allows,
+ * not how hard the server tries to get it there.
+ */
+export interface WebhookConfig {
+  /**
+   * Hosts a `callback.url` may name, from `--webhook-allowed-hosts`: host
+   * names or IPs, or `*.domain` for its subdomains. Lower case. Empty
+   * refuses every callback — a client must not be able to make the server
+   * POST to an address of its choosing.
+   */
+  allowedHosts: string[];
+  /** Attempts per delivery, the first one included. `1` means no retry. */
+  maxAttempts: number;
+  /** Backoff before the second attempt; doubles after each failed one. */
+  initialDelayMs: number;
+  /** Ceiling for the doubling backoff. */
+  maxDelayMs: number;
+  /** How long one attempt may wait for the receiver to answer. */
+  timeoutMs: number;
+}
+
+/**
+ * When and whether a failed capture is tried again. The attempt budget is
+ * `CoordinatorConfig.maxRetryCount`; this decides which failures may spend it
+ * and how long each retry waits.
+ *
+ * The wait before retry *n* (1-based) is
+ * `min(baseDelayMs × multiplier^(n-1), maxDelayMs)`, less up to `jitter` of
+ * itself at random so a burst of failures does not come back as a burst.
+ */
+export interface RetryPolicy {
+  /** Wait before the first retry. `0` retries at once, as before there was a policy. */
+  baseDelayMs: number;
+  /** Growth of the wait per further retry. */
+  multiplier: number;
+  /** Fraction (0–1) of each wait that is randomised away. */
+  jitter: number;
+  /** Ceiling for the growing wait. */
+  maxDelayMs: number;
+  /** Failure kinds worth another attempt. Others fail on the first try. */
+  retryableErrorTypes: ErrorType[];
+  /**
+   * For `http` failures, the statuses worth another attempt — the ones that
+   * say "not now" (429, 503…). A 404 is an answer and is never retried.
+   */
+  retryableHttpStatuses: number[];
+}
+
+/** Politeness towards one site. `0` means no limit for either field. */
+export interface HostLimit {
+  /** Tasks from the site a worker may hold at once, across all workers. */
+  maxConcurrency: number;
+  /** Minimum time between two task starts on the site. */
+  minDelayMs: number;
+}
+
+/**
+ * Per-site politeness. A "site" is a registrable domain (`www.example.com`
+ * and `img.example.com` are both `example.com`), since that is what a site
+ * rate-limits on.
+ */
+export interface HostLimitsConfig extends HostLimit {
+  /** Registrable domain → fields that differ from the server-wide limit. */
+  overrides: Record<string, Partial<HostLimit>>;
+}
+
 export interface CoordinatorConfig {
   /** List of browser profile configurations */
   browserProfiles: BrowserProfile[];
@@ -280,6 +403,8 @@ export interface CoordinatorConfig {
   signing: SigningConfig;
   /** Maximum retry count for failed capture tasks */
   maxRetryCount: number;
+  /** Which failures are retried, and how long each retry waits. */
+  retry: RetryPolicy;
   /** Queue poll interval in milliseconds when queue is empty */
   queuePollIntervalMs: number;
   /** Reject capture requests for URLs already in the queue */
@@ -291,6 +416,46 @@ export interface CoordinatorConfig {
    * `.result.json` manifest in the artifact store is the sole record.
    */
   resultCacheSize: number;
+  /**
+   * How many tasks that finished without success (cancellations aside) to
+   * keep for `GET /v1/failed` and its re-drive. Oldest are evicted first;
+   * `0` keeps none.
+   */
+  deadLetterSize: number;
+  /**
+   * How many lifecycle events `GET /v1/events` keeps for `Last-Event-ID`
+   * resumption. Oldest are evicted first; a client reconnecting from
+   * further back is told it missed some. `0` keeps none — live only.
+   */
+  eventBufferSize: number;
+  /** Retry policy for per-request `callback` deliveries. */
+  webhook: WebhookConfig;
+  /**
+   * Directory for the queue journal. When set, pending and in-flight tasks
+   * survive a restart: they are replayed from `queue.jsonl` at startup, and
+   * tasks that were processing come back as retries. Absent, the queue lives
+   * in memory only.
+   */
+  queueJournalDir?: string;
+  /**
+   * Directory for `schedules.json`. When set, schedules created through
+   * `/v1/schedules` survive a restart. Absent, they live in memory only.
+   */
+  scheduleDir?: string;
+  /**
+   * Relative share of dequeues per named queue, e.g. `{ interactive: 4 }`
+   * gives `interactive` four tasks for every one of any unnamed queue while
+   * both have work. Queues not listed weigh 1.
+   */
+  queueWeights: Record<string, number>;
+  /** Concurrency and start spacing per site, enforced at dequeue. */
+  hostLimits: HostLimitsConfig;
+  /**
+   * The server's own capture settings, which member-list overrides are laid
+   * over and the HTTP layer resolves requests against. Absent, the first
+   * profile's settings stand in — enough while every profile shares them.
+   */
+  capture?: CaptureConfig;
 }
 
 /** Server TLS configuration */
@@ -316,9 +481,9 @@ export interface ClientTlsConfig {
   caCertPath: string;
 }
 
-/** Worker-membership discovery configuration (DnsRegistry). */
+/** Worker-membership discovery configuration. */
 export interface DiscoveryConfig {
-  /** How often (ms) DnsRegistry re-resolves worker membership from DNS. */
+  /** How often (ms) DnsRegistry and HttpRegistry re-check worker membership. */
   refreshMs: number;
   /**
    * Boot-time only: how many times `CaptureCoordinator.initialize` re-resolves
@@ -331,6 +496,38 @@ export interface DiscoveryConfig {
   initRetryAttempts: number;
   /** Base delay (ms) for the exponential init-retry backoff (capped internally). */
   initRetryDelayMs: number;
+  /** Where membership comes from (`--discovery`, `--launch-local-browsers`). */
+  source: DiscoverySource;
+}
+
+/**
+ * Which WorkerRegistry supplies the members.
+ *
+ * - `dns` — the `--browser-url` hosts, resolved from DNS and re-resolved
+ *   every `refreshMs` (DnsRegistry). The default.
+ * - `static` — the `--browser-url` hosts as given, never re-checked
+ *   (StaticRegistry).
+ * - `file` — a YAML/JSON member list on disk, watched for edits
+ *   (FileRegistry). Members may override capture settings.
+ * - `http` — the same member list served by an endpoint, polled every
+ *   `refreshMs` (HttpRegistry).
+ * - `local` — Chromium processes this server starts and supervises itself
+ *   (LocalBrowserRegistry); `browserProfiles` point at their debugging ports.
+ */
+export type DiscoverySource =
+  | { type: "dns" }
+  | { type: "static" }
+  | { type: "file"; path: string }
+  | { type: "http"; url: URL }
+  | { type: "local"; browsers: LocalBrowsersConfig };
+
+export interface LocalBrowsersConfig {
+  /** How many processes to run — one worker each. */
+  count: number;
+  /** Debugging port of the first process; the others take the ports above it. */
+  basePort: number;
+  /** Chromium binary to run. Puppeteer's bundled build when absent. */
+  executablePath?: string;
 }
 
 export interface BrowserHiveConfig {
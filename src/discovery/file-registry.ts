@@ -0,0 +1,106 @@
+/**
+ * FileRegistry — membership from a YAML or JSON member list on disk
+ * (`--discovery file`), for hosts that are not behind DNS names that
+ * NXDOMAIN cleanly. The file is the whole truth: what is listed has a
+ * worker, with the capture settings it lists, and nothing else does.
+ *
+ * The file is watched rather than polled, so an edit takes effect within a
+ * moment. The *directory* is watched, not the file: editors and config
+ * management usually write a new file and rename it over the old one, and a
+ * watch on the old inode would never hear of it. Events are debounced, since
+ * one save can arrive as several.
+ *
+ * An edit that does not parse, or that empties the list, is logged and
+ * ignored — the pool keeps its current members, as DnsRegistry does when a
+ * refresh finds no one. At boot the same problems fail `list()`, so a broken
+ * file still stops the server.
+ */
+import { watch } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { basename, dirname } from "node:path";
+
+import type { BrowserProfile, CaptureConfig } from "../config/index.js";
+import { logger } from "../logger.js";
+import { parseMemberList } from "./member-list.js";
+import { membershipKey, type WorkerRegistry } from "./worker-registry.js";
+
+/** Quiet period after the last change event before the file is re-read. */
+const DEBOUNCE_MS = 200;
+
+export class FileRegistry implements WorkerRegistry {
+  private readonly path: string;
+  private readonly capture: CaptureConfig;
+
+  /**
+   * @param capture The server's capture settings, which each member's own
+   *   overrides are laid over.
+   */
+  constructor(path: string, capture: CaptureConfig) {
+    this.path = path;
+    this.capture = capture;
+  }
+
+  async list(): Promise<BrowserProfile[]> {
+    let content: string;
+    try {
+      content = await readFile(this.path, "utf-8");
+    } catch (error) {
+      throw new Error(
+        `member list ${this.path}: ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error },
+      );
+    }
+    const members = parseMemberList(content, this.capture);
+    if (!members.ok) throw new Error(`member list ${this.path}: ${members.error}`);
+    if (members.value.length === 0) {
+      throw new Error(`member list ${this.path}: lists no browsers`);
+    }
+    return members.value;
+  }
+
+  subscribe(onChange: (members: BrowserProfile[]) => void): () => void {
+    let lastKey = "";
+    void this.list().then(
+      (members) => {
+        lastKey = membershipKey(members);
+      },
+      () => {
+        // Reported by the next reload; the boot list() already succeeded.
+      },
+    );
+
+    const reload = async (): Promise<void> => {
+      try {
+        const members = await this.list();
+        const key = membershipKey(members);
+        if (key === lastKey) return;
+        lastKey = key;
+        logger.info(
+          { members: members.map((p) => p.browserURL.host), path: this.path },
+          "worker membership changed",
+        );
+        onChange(members);
+      } catch (e) {
+        logger.warn({ err: e }, "member list not usable — keeping current set");
+      }
+    };
+
+    let timer: NodeJS.Timeout | undefined;
+    const file = basename(this.path);
+    const watcher = watch(dirname(this.path), (_event, filename) => {
+      // Some platforms do not say which file changed; re-reading is cheap.
+      if (filename !== null && filename !== file) return;
+      clearTimeout(timer);
+      timer = setTimeout(() => void reload(), DEBOUNCE_MS);
+    });
+    watcher.on("error", (e) => {
+      logger.warn({ err: e, path: this.path }, "member list watch failed — membership is now fixed");
+    });
+    // Do not keep the event loop alive solely for the watch.
+    watcher.unref();
+    return () => {
+      clearTimeout(timer);
+      watcher.close();
+    };
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * HttpRegistry — membership from a member list served over HTTP
+ * (`--discovery http`), polled on the discovery refresh interval. For fleets
+ * whose inventory already lives in a service: the endpoint returns the same
+ * document FileRegistry reads (usually as JSON), and the pool follows it.
+ *
+ * Like DnsRegistry, `onChange` fires only when the member set differs from
+ * the last one, and a poll that fails — the endpoint is down, answers an
+ * error, or serves something that does not parse — keeps the current set
+ * rather than tearing the pool down. At boot the same failures fail `list()`,
+ * which the coordinator's init retry absorbs while the inventory service
+ * comes up.
+ */
+import type { BrowserProfile, CaptureConfig } from "../config/index.js";
+import { logger } from "../logger.js";
+import { parseMemberList } from "./member-list.js";
+import { membershipKey, type WorkerRegistry } from "./worker-registry.js";
+
+/** How long one poll waits for the endpoint. */
+const FETCH_TIMEOUT_MS = 5_000;
+
+export class HttpRegistry implements WorkerRegistry {
+  private readonly url: URL;
+  private readonly capture: CaptureConfig;
+  private readonly refreshMs: number;
+
+  /**
+   * @param capture The server's capture settings, which each member's own
+   *   overrides are laid over.
+   */
+  constructor(url: URL, capture: CaptureConfig, refreshMs: number) {
+    this.url = url;
+    this.capture = capture;
+    this.refreshMs = refreshMs;
+  }
+
+  async list(): Promise<BrowserProfile[]> {
+    const response = await fetch(this.url, {
+      headers: { accept: "application/json, application/yaml" },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`member list ${this.url.href}: HTTP ${String(response.status)}`);
+    }
+    const members = parseMemberList(await response.text(), this.capture);
+    if (!members.ok) throw new Error(`member list ${this.url.href}: ${members.error}`);
+    if (members.value.length === 0) {
+      throw new Error(`member list ${this.url.href}: lists no browsers`);
+    }
+    return members.value;
+  }
+
+  subscribe(onChange: (members: BrowserProfile[]) => void): () => void {
+    let lastKey = "";
+    void this.list().then(
+      (members) => {
+        lastKey = membershipKey(members);
+      },
+      () => {
+        // Reported by the next tick; the boot list() already succeeded.
+      },
+    );
+
+    const tick = async (): Promise<void> => {
+      try {
+        const members = await this.list();
+        const key = membershipKey(members);
+        if (key === lastKey) return;
+        lastKey = key;
+        logger.info(
+          { members: members.map((p) => p.browserURL.host), url: this.url.href },
+          "worker membership changed",
+        );
+        onChange(members);
+      } catch (e) {
+        logger.warn({ err: e }, "membership refresh failed — keeping current set");
+      }
+    };
+
+    const timer = setInterval(() => void tick(), this.refreshMs);
+    // Do not keep the event loop alive solely for the refresh timer.
+    timer.unref();
+    return () => {
+      clearInterval(timer);
+    };
+  }
+}
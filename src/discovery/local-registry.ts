@@ -0,0 +1,244 @@
+/**
+ * LocalBrowserRegistry — membership made of Chromium processes this server
+ * starts itself (`--launch-local-browsers N`), for a laptop or a CI box that
+ * has no chromium-server containers to discover.
+ *
+ * Each process listens for CDP on its own fixed port (`basePort + i`), so a
+ * member's URL never changes: when a process dies it is started again on the
+ * same port, and the worker's ordinary degraded → reconnect cycle finds the
+ * new one there. Restarts are a *health* event, not a membership one — the
+ * registry never emits `onChange`, and the worker keeps its index, counters
+ * and error history across the crash.
+ *
+ * Restarts back off exponentially (capped), and the delay starts over once a
+ * process has stayed up for a while, so a binary that dies on start is not
+ * relaunched in a tight loop. Every launch gets a fresh profile directory,
+ * removed when the process exits: a crashed Chromium leaves its lock behind,
+ * and nothing is meant to carry over between launches anyway.
+ */
+import { spawn, type ChildProcess } from "node:child_process";
+import { existsSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { executablePath as bundledExecutablePath } from "puppeteer";
+
+import type { BrowserProfile, LocalBrowsersConfig } from "../config/index.js";
+import { logger } from "../logger.js";
+import type { WorkerRegistry } from "./worker-registry.js";
+
+/** How long a launch may take to print its DevTools endpoint. */
+const STARTUP_TIMEOUT_MS = 30_000;
+/** First restart delay; doubled per consecutive crash up to the cap. */
+const RESTART_DELAY_MS = 1_000;
+const MAX_RESTART_DELAY_MS = 30_000;
+/** A process that stayed up this long resets the restart backoff. */
+const STABLE_UPTIME_MS = 60_000;
+/** How long `close()` waits after SIGTERM before SIGKILL. */
+const KILL_GRACE_MS = 1_000;
+
+/** Chromium prints this to stderr once CDP is accepting connections. */
+const DEVTOOLS_LISTENING = "DevTools listening on ws://";
+
+/**
+ * Command line for one local browser. Headless, on `port`, with a profile of
+ * its own and one blank tab — BrowserClient reuses a pre-existing tab rather
+ * than opening one, like it does against chromium-server.
+ */
+export const localChromiumArgs = (port: number, userDataDir: string): string[] => [
+  "--headless",
+  `--remote-debugging-port=${String(port)}`,
+  "--remote-debugging-address=127.0.0.1",
+  `--user-data-dir=${userDataDir}`,
+  "--no-first-run",
+  "--no-default-browser-check",
+  "--disable-dev-shm-usage",
+  // Chromium refuses to start its sandbox as root, which is how CI
+  // containers usually run.
+  ...(process.getuid?.() === 0 ? ["--no-sandbox"] : []),
+  "about:blank",
+];
+
+/** One supervised process slot: `profile` stays, `child` comes and goes. */
+interface LocalBrowser {
+  index: number;
+  port: number;
+  profile: BrowserProfile;
+  child: ChildProcess | null;
+  /** The running process's profile directory, removed when it exits. */
+  userDataDir: string | null;
+  startedAt: number;
+  restartDelayMs: number;
+  restartTimer: NodeJS.Timeout | null;
+}
+
+export class LocalBrowserRegistry implements WorkerRegistry {
+  private readonly config: LocalBrowsersConfig;
+  private readonly browsers: LocalBrowser[];
+  private starting: Promise<void> | null = null;
+  private closed = false;
+  private executable = "";
+
+  /**
+   * @param profiles One per process, in port order — what the CLI built
+   *   from `config` (`http://127.0.0.1:<basePort + i>`).
+   */
+  constructor(profiles: BrowserProfile[], config: LocalBrowsersConfig) {
+    this.config = config;
+    this.browsers = profiles.map((profile, index) => ({
+      index,
+      port: config.basePort + index,
+      profile,
+      child: null,
+      userDataDir: null,
+      startedAt: 0,
+      restartDelayMs: RESTART_DELAY_MS,
+      restartTimer: null,
+    }));
+    // A server that dies without `close()` must not leave orphans behind,
+    // nor their profiles: no `exit` of a child is delivered after this one.
+    process.once("exit", () => {
+      for (const browser of this.browsers) {
+        browser.child?.kill("SIGKILL");
+        if (browser.userDataDir !== null) {
+          rmSync(browser.userDataDir, { recursive: true, force: true });
+        }
+      }
+    });
+  }
+
+  /**
+   * Start every process (first call only) and wait until each is listening
+   * or has had its chance to. A process that fails to come up is left to
+   * the supervisor and the worker's health layer; only a missing binary
+   * fails the call, since no restart can fix that.
+   */
+  async list(): Promise<BrowserProfile[]> {
+    this.starting ??= this.start().catch((error: unknown) => {
+      // Let the coordinator's boot retry try again from scratch.
+      this.starting = null;
+      throw error;
+    });
+    await this.starting;
+    return this.browsers.map((browser) => browser.profile);
+  }
+
+  subscribe(): () => void {
+    // The members are fixed; a restart reuses the member's port.
+    return () => {
+      // noop
+    };
+  }
+
+  /** Stop supervising and terminate every process. */
+  async close(): Promise<void> {
+    this.closed = true;
+    await Promise.all(
+      this.browsers.map(async (browser) => {
+        if (browser.restartTimer) clearTimeout(browser.restartTimer);
+        const child = browser.child;
+        if (child === null) return;
+        if (child.exitCode !== null || child.signalCode !== null) return;
+        const exited = new Promise<void>((resolve) => {
+          child.once("exit", () => {
+            resolve();
+          });
+        });
+        child.kill("SIGTERM");
+        const timer = setTimeout(() => child.kill("SIGKILL"), KILL_GRACE_MS);
+        await exited;
+        clearTimeout(timer);
+      }),
+    );
+  }
+
+  private async start(): Promise<void> {
+    const executable = this.config.executablePath ?? (await bundledExecutablePath());
+    if (!existsSync(executable)) {
+      throw new Error(
+        `Chromium not found at ${executable} — set --chromium-executable, or install ` +
+          "Puppeteer's browser (npx puppeteer browsers install chrome)",
+      );
+    }
+    this.executable = executable;
+    logger.info(
+      { count: this.browsers.length, basePort: this.config.basePort, executable },
+      "Launching local Chromium",
+    );
+    await Promise.all(this.browsers.map((browser) => this.launch(browser)));
+  }
+
+  /** Spawn `browser`'s process; resolves once it listens, exits or times out. */
+  private launch(browser: LocalBrowser): Promise<void> {
+    const userDataDir = mkdtempSync(join(tmpdir(), "browserhive-chromium-"));
+    const child = spawn(this.executable, localChromiumArgs(browser.port, userDataDir), {
+      stdio: ["ignore", "ignore", "pipe"],
+    });
+    browser.child = child;
+    browser.userDataDir = userDataDir;
+    browser.startedAt = Date.now();
+
+    let stderrTail = "";
+    const ready = new Promise<void>((resolve) => {
+      const timer = setTimeout(() => {
+        logger.warn(
+          { index: browser.index, port: browser.port },
+          "Local Chromium did not report a DevTools endpoint in time",
+        );
+        resolve();
+      }, STARTUP_TIMEOUT_MS);
+      timer.unref();
+      const done = (): void => {
+        clearTimeout(timer);
+        resolve();
+      };
+      child.stderr.on("data", (chunk: Buffer) => {
+        // Kept short: only the lines before a failed start are of interest.
+        stderrTail = (stderrTail + chunk.toString()).slice(-2000);
+        if (stderrTail.includes(DEVTOOLS_LISTENING)) done();
+      });
+      child.once("exit", done);
+      child.once("error", done);
+    });
+
+    // A failed spawn (not executable, say) reports `error`, and may or may
+    // not report `exit` too; either way the process is gone once.
+    let gone = false;
+    const onGone = (exit: { code: number | null; signal: NodeJS.Signals | null }): void => {
+      if (gone) return;
+      gone = true;
+      rmSync(userDataDir, { recursive: true, force: true });
+      if (browser.userDataDir === userDataDir) browser.userDataDir = null;
+      if (browser.child === child) browser.child = null;
+      if (this.closed) return;
+      this.scheduleRestart(browser, { ...exit, stderr: stderrTail.trim() });
+    };
+    child.once("error", (error) => {
+      logger.error({ err: error, index: browser.index }, "Local Chromium failed to start");
+      onGone({ code: null, signal: null });
+    });
+    child.once("exit", (code, signal) => {
+      onGone({ code, signal });
+    });
+
+    return ready;
+  }
+
+  private scheduleRestart(
+    browser: LocalBrowser,
+    exit: { code: number | null; signal: NodeJS.Signals | null; stderr: string },
+  ): void {
+    if (Date.now() - browser.startedAt >= STABLE_UPTIME_MS) {
+      browser.restartDelayMs = RESTART_DELAY_MS;
+    }
+    const delayMs = browser.restartDelayMs;
+    browser.restartDelayMs = Math.min(delayMs * 2, MAX_RESTART_DELAY_MS);
+    logger.warn(
+      { index: browser.index, port: browser.port, ...exit, restartInMs: delayMs },
+      "Local Chromium exited — restarting",
+    );
+    browser.restartTimer = setTimeout(() => {
+      browser.restartTimer = null;
+      if (!this.closed) void this.launch(browser);
+    }, delayMs);
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * Member Lists — the document FileRegistry reads from disk and HttpRegistry
+ * from an endpoint: the browsers that should have a worker, each with the
+ * capture settings it differs in.
+ *
+ * ```yaml
+ * - http://chromium-1.internal:9222
+ * - url: http://gpu-box.internal:9222
+ *   capture:
+ *     concurrency: 4
+ *     viewport: { width: 1920, height: 1080 }
+ * ```
+ *
+ * JSON is the same document (YAML 1.2 is a superset of it), which is what an
+ * HTTP endpoint will usually serve. A member's `capture` is laid over the
+ * server's own settings — the ones the CLI built — so the list only says
+ * what is different about a browser. The fields on offer are the ones that
+ * describe the browser or its host (how much it can run at once, how big
+ * its screen is, how slow it is); the policies that belong to the server as
+ * a whole (storage, redaction, the proxy allowlist itself) are not.
+ *
+ * Parsing is all-or-nothing, like the proxy and device preset files: one bad
+ * member rejects the document, and the caller keeps the membership it had.
+ */
+import { parse as parseYaml } from "yaml";
+
+import type {
+  BrowserProfile,
+  CacheMode,
+  CaptureConfig,
+  IsolationMode,
+} from "../config/index.js";
+import { err, ok, type Result } from "../result.js";
+
+/** What a member may set for itself. */
+export interface MemberCaptureOverrides {
+  concurrency?: number;
+  isolation?: IsolationMode;
+  cache?: CacheMode;
+  operationDelayMs?: number;
+  userAgent?: string;
+  defaultProxy?: string;
+  viewport?: Partial<CaptureConfig["viewport"]>;
+  timeouts?: Partial<CaptureConfig["timeouts"]>;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const CAPTURE_FIELDS = new Set([
+  "concurrency",
+  "isolation",
+  "cache",
+  "operationDelayMs",
+  "userAgent",
+  "defaultProxy",
+  "viewport",
+  "timeouts",
+]);
+
+/** `fields` of `value` that are present, each a number at least `min`. */
+const parseNumbers = <K extends string>(
+  where: string,
+  value: unknown,
+  fields: readonly K[],
+  min: number,
+): Result<Partial<Record<K, number>>, string> => {
+  if (!isObject(value)) return err(`${where}: must be an object`);
+  const parsed: Partial<Record<K, number>> = {};
+  for (const [name, field] of Object.entries(value)) {
+    if (!(fields as readonly string[]).includes(name)) {
+      return err(`${where}.${name}: not a setting a member can override`);
+    }
+    if (typeof field !== "number" || !Number.isFinite(field) || field < min) {
+      return err(`${where}.${name}: must be a number of at least ${String(min)}`);
+    }
+    parsed[name as K] = field;
+  }
+  return ok(parsed);
+};
+
+const parseCaptureOverrides = (
+  where: string,
+  value: unknown,
+): Result<MemberCaptureOverrides, string> => {
+  if (!isObject(value)) return err(`${where}: must be an object`);
+  for (const name of Object.keys(value)) {
+    if (!CAPTURE_FIELDS.has(name)) {
+      return err(`${where}.${name}: not a setting a member can override`);
+    }
+  }
+  const { concurrency, isolation, cache, operationDelayMs, userAgent, defaultProxy } = value;
+  if (concurrency !== undefined && !(Number.isInteger(concurrency) && Number(concurrency) >= 1)) {
+    return err(`${where}.concurrency: must be a positive integer`);
+  }
+  if (isolation !== undefined && isolation !== "tab" && isolation !== "context") {
+    return err(`${where}.isolation: must be tab or context`);
+  }
+  if (cache !== undefined && cache !== "default" && cache !== "bypass" && cache !== "clear") {
+    return err(`${where}.cache: must be default, bypass or clear`);
+  }
+  if (
+    operationDelayMs !== undefined &&
+    !(Number.isInteger(operationDelayMs) && Number(operationDelayMs) >= 0)
+  ) {
+    return err(`${where}.operationDelayMs: must be a non-negative integer`);
+  }
+  if (userAgent !== undefined && typeof userAgent !== "string") {
+    return err(`${where}.userAgent: must be a string`);
+  }
+  if (defaultProxy !== undefined && typeof defaultProxy !== "string") {
+    return err(`${where}.defaultProxy: must be a string`);
+  }
+
+  let viewport: Partial<CaptureConfig["viewport"]> | undefined;
+  if (value["viewport"] !== undefined) {
+    const parsed = parseNumbers(
+      `${where}.viewport`,
+      value["viewport"],
+      ["width", "height", "deviceScaleFactor"],
+      1,
+    );
+    if (!parsed.ok) return parsed;
+    viewport = parsed.value;
+  }
+  let timeouts: Partial<CaptureConfig["timeouts"]> | undefined;
+  if (value["timeouts"] !== undefined) {
+    const parsed = parseNumbers(
+      `${where}.timeouts`,
+      value["timeouts"],
+      ["pageLoadMs", "captureMs", "taskTotalMs"],
+      1,
+    );
+    if (!parsed.ok) return parsed;
+    timeouts = parsed.value;
+  }
+
+  return ok({
+    ...(typeof concurrency === "number" && { concurrency }),
+    ...(isolation !== undefined && { isolation }),
+    ...(cache !== undefined && { cache }),
+    ...(typeof operationDelayMs === "number" && { operationDelayMs }),
+    ...(typeof userAgent === "string" && { userAgent }),
+    ...(typeof defaultProxy === "string" && { defaultProxy }),
+    ...(viewport !== undefined && { viewport }),
+    ...(timeouts !== undefined && { timeouts }),
+  });
+};
+
+const parseBrowserUrl = (where: string, value: unknown): Result<URL, string> => {
+  if (typeof value !== "string") return err(`${where}: url must be a string`);
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return err(`${where}: "${value}" is not a URL`);
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return err(`${where}: "${value}" must be an http(s) URL`);
+  }
+  return ok(url);
+};
+
+/**
+ * Check a parsed member list and lay each member's overrides over `base`.
+ * Two entries for one browser are refused: there would be no telling which
+ * settings it runs with.
+ */
+export const resolveMemberList = (
+  document: unknown,
+  base: CaptureConfig,
+): Result<BrowserProfile[], string> => {
+  if (!Array.isArray(document)) return err("must be a list of members");
+
+  const profiles: BrowserProfile[] = [];
+  const hosts = new Set<string>();
+  for (const [index, entry] of document.entries()) {
+    const where = `member ${String(index)}`;
+    const url = parseBrowserUrl(where, isObject(entry) ? entry["url"] : entry);
+    if (!url.ok) return url;
+    if (hosts.has(url.value.host)) {
+      return err(`${where}: ${url.value.host} is listed more than once`);
+    }
+    hosts.add(url.value.host);
+
+    let overrides: MemberCaptureOverrides = {};
+    if (isObject(entry)) {
+      for (const name of Object.keys(entry)) {
+        if (name !== "url" && name !== "capture") {
+          return err(`${where}: unknown field ${name}`);
+        }
+      }
+      if (entry["capture"] !== undefined) {
+        const parsed = parseCaptureOverrides(`${where}.capture`, entry["capture"]);
+        if (!parsed.ok) return parsed;
+        overrides = parsed.value;
+      }
+    }
+    // Same reason as --default-proxy at startup: a default that is not on
+    // the allowlist would fail every task on this browser that names none.
+    if (overrides.defaultProxy !== undefined && !Object.hasOwn(base.proxies, overrides.defaultProxy)) {
+      return err(`${where}.capture.defaultProxy: ${overrides.defaultProxy} is not defined in --proxies`);
+    }
+
+    profiles.push({
+      browserURL: url.value,
+      capture: {
+        ...base,
+        ...overrides,
+        viewport: { ...base.viewport, ...overrides.viewport },
+        timeouts: { ...base.timeouts, ...overrides.timeouts },
+      },
+    });
+  }
+  return ok(profiles);
+};
+
+/** Parse a member list document (YAML or JSON) and resolve it against `base`. */
+export const parseMemberList = (
+  content: string,
+  base: CaptureConfig,
+): Result<BrowserProfile[], string> => {
+  let document: unknown;
+  try {
+    document = parseYaml(content);
+  } catch (error) {
+    return err(`not valid YAML or JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return resolveMemberList(document, base);
+};
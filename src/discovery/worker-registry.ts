@@ -11,9 +11,30 @@
  *     and never emits a change. The baseline (== the pre-registry behaviour).
  *   - DnsRegistry (dns-registry.ts) — resolves membership from DNS at start
  *     and on a refresh interval, emitting add/remove as workers come and go.
+ *   - FileRegistry (file-registry.ts) — a YAML/JSON member list on disk,
+ *     watched for edits; members may carry their own capture settings.
+ *   - HttpRegistry (http-registry.ts) — the same member list served by an
+ *     endpoint, polled on the refresh interval.
+ *   - LocalBrowserRegistry (local-registry.ts) — Chromium processes this
+ *     server launches and restarts itself (`--launch-local-browsers`); fixed
+ *     membership, like StaticRegistry.
+ *
+ * `createRegistry` in bootstrap.ts picks one from `DiscoveryConfig.source`.
  */
 import type { BrowserProfile } from "../config/index.js";
 
+/**
+ * What a member stands for: its endpoint and the capture settings a worker
+ * for it runs with. A member whose settings changed (an edited member list)
+ * is a different member on the same browser.
+ */
+export const memberKey = (profile: BrowserProfile): string =>
+  `${profile.browserURL.host} ${JSON.stringify(profile.capture)}`;
+
+/** Stable identity of a member set, order-independent. */
+export const membershipKey = (profiles: BrowserProfile[]): string =>
+  profiles.map(memberKey).sort().join("\n");
+
 export interface WorkerRegistry {
   /** The current membership. */
   list(): Promise<BrowserProfile[]>;
@@ -23,6 +44,11 @@ export interface WorkerRegistry {
    * call `onChange`.
    */
   subscribe(onChange: (members: BrowserProfile[]) => void): () => void;
+  /**
+   * Release what the registry holds beyond its subscriptions (processes it
+   * started, say). Called once at shutdown, after the workers disconnected.
+   */
+  close?(): Promise<void>;
 }
 
 /**
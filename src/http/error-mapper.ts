@@ -35,6 +35,30 @@ export const unknownTaskProblem = (taskId: string): Problem => ({
   detail: `No cached result for task ${taskId}. It was never submitted, or its result aged out of the result cache — read the .result.json manifest in the artifact store for the durable record.`,
 });
 
+export const unknownFailedTaskProblem = (taskId: string): Problem => ({
+  type: "about:blank",
+  title: "Unknown failed task",
+  status: 404,
+  detail: `Task ${taskId} is not in the failed list. It did not fail, was evicted from the bounded list, or has already been re-enqueued.`,
+});
+
+export const unknownScheduleProblem = (scheduleId: string): Problem => ({
+  type: "about:blank",
+  title: "Unknown schedule",
+  status: 404,
+  detail: `No schedule ${scheduleId}.`,
+});
+
+export const taskAlreadyFinishedProblem = (
+  taskId: string,
+  status: string,
+): Problem => ({
+  type: "about:blank",
+  title: "Task already finished",
+  status: 409,
+  detail: `Task ${taskId} already finished with status ${status}; there is nothing left to cancel.`,
+});
+
 export const noOperationalWorkersProblem = (): Problem => ({
   type: "about:blank",
   title: "No operational workers available",
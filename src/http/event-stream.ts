@@ -0,0 +1,114 @@
+/**
+ * Event Stream (SSE)
+ *
+ * Writes the coordinator's `TaskEventLog` to one `GET /v1/events` response
+ * as Server-Sent Events. The handler hijacks the reply and hands the raw
+ * response here; from then on this module owns the connection until the
+ * client leaves, the client falls too far behind, or the log closes.
+ *
+ * Replay and subscription happen in the same synchronous turn, so no event
+ * can be published between "what was retained" and "what comes live" —
+ * the stream has neither a hole nor a duplicate at the seam.
+ */
+import type { IncomingMessage, ServerResponse } from "node:http";
+import {
+  matchesTaskEventFilter,
+  type TaskEventEntry,
+  type TaskEventFilter,
+  type TaskEventLog,
+} from "../capture/index.js";
+import type { Logger } from "../logger.js";
+import type { TaskEventGap } from "./generated/index.js";
+import { taskEventToMessage } from "./response-mapper.js";
+
+/** Idle proxies commonly drop a connection after 30–60s of silence. */
+export const HEARTBEAT_INTERVAL_MS = 15_000;
+
+/**
+ * Unsent bytes tolerated before a client is judged too slow and dropped.
+ * It reconnects with `Last-Event-ID` and catches up from the buffer, which
+ * costs far less than holding an unbounded backlog per connection.
+ */
+export const MAX_BUFFERED_BYTES = 1024 * 1024;
+
+export interface EventStreamOptions {
+  log: TaskEventLog;
+  filter: TaskEventFilter;
+  /** Resume after this id. `undefined` starts the stream live. */
+  lastEventId?: number;
+  logger: Logger;
+}
+
+const formatEntry = (entry: TaskEventEntry): string =>
+  `id: ${String(entry.id)}\nevent: ${entry.event.type}\ndata: ${JSON.stringify(taskEventToMessage(entry))}\n\n`;
+
+const formatGap = (gap: TaskEventGap): string =>
+  `event: gap\ndata: ${JSON.stringify(gap)}\n\n`;
+
+export const openEventStream = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  options: EventStreamOptions,
+): void => {
+  const { log, filter, lastEventId, logger } = options;
+
+  res.writeHead(200, {
+    "content-type": "text/event-stream; charset=utf-8",
+    "cache-control": "no-cache",
+    connection: "keep-alive",
+    // nginx buffers proxied responses by default, which holds events back
+    // until a buffer fills.
+    "x-accel-buffering": "no",
+  });
+
+  let closed = false;
+  let unsubscribe = (): void => undefined;
+  const heartbeat = setInterval(() => {
+    res.write(": ping\n\n");
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+
+  const close = (): void => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    unsubscribe();
+    res.end();
+  };
+
+  const send = (entry: TaskEventEntry): void => {
+    if (closed || !matchesTaskEventFilter(entry.event, filter)) return;
+    res.write(formatEntry(entry));
+    if (res.writableLength > MAX_BUFFERED_BYTES) {
+      logger.warn(
+        { lastEventId: entry.id, bufferedBytes: res.writableLength },
+        "Event stream client too slow, disconnecting",
+      );
+      close();
+    }
+  };
+
+  if (lastEventId !== undefined) {
+    const replay = log.since(lastEventId);
+    if (replay === undefined) {
+      const oldestEventId = log.oldestId;
+      res.write(
+        formatGap({
+          type: "gap",
+          lastEventId,
+          ...(oldestEventId !== undefined && { oldestEventId }),
+        }),
+      );
+      // Nothing after `lastEventId` can be trusted to be complete; send
+      // what is held so the client at least sees the present state.
+      for (const entry of log.since((oldestEventId ?? 1) - 1) ?? []) send(entry);
+    } else {
+      for (const entry of replay) send(entry);
+    }
+  }
+
+  // The replay alone can overrun a slow client; `close` has then ended `res`.
+  if (res.writableEnded) return;
+  unsubscribe = log.subscribe({ onEvent: send, onClose: close });
+  req.on("close", close);
+};
@@ -11,20 +11,43 @@
  * `{ accepted: false }` envelope on the success path.
  */
 import type { FastifyReply, FastifyRequest, RouteHandlerMethod } from "fastify";
-import type { CaptureCoordinator } from "../capture/index.js";
+import {
+  redactCredentials,
+  redactedHeaderSet,
+  type CaptureCoordinator,
+  type CaptureTask,
+  type ErrorType,
+  type TaskEventFilter,
+} from "../capture/index.js";
 import { createChildLogger } from "../logger.js";
-import type { CaptureRequest, Problem } from "./generated/index.js";
+import type {
+  CaptureBatchItemResult,
+  CaptureBatchRequest,
+  CaptureRequest,
+  Problem,
+  ScheduleRequest,
+} from "./generated/index.js";
 import type { OperationId } from "./generated/operations.gen.js";
 import {
   duplicateUrlProblem,
   noOperationalWorkersProblem,
+  taskAlreadyFinishedProblem,
+  unknownFailedTaskProblem,
+  unknownScheduleProblem,
   unknownTaskProblem,
   validationProblem,
 } from "./error-mapper.js";
-import { captureRequestToTask } from "./request-mapper.js";
+import { openEventStream } from "./event-stream.js";
+import {
+  batchItemToCaptureRequest,
+  captureRequestToTask,
+  type RequestMapperDefaults,
+} from "./request-mapper.js";
 import {
   captureResultToReport,
   coordinatorStatusToResponse,
+  deadLetterPageToResponse,
+  scheduleToWire,
   taskToAcceptance,
 } from "./response-mapper.js";
 
@@ -48,21 +71,38 @@ export const createCaptureHandlers = (
   coordinator: CaptureCoordinator,
 ): CaptureHandlers => {
   const handlerLogger = createChildLogger({ handler: "submitCapture" });
+  const batchLogger = createChildLogger({ handler: "submitCaptureBatch" });
+  const cancelLogger = createChildLogger({ handler: "cancelCapture" });
+  const eventsLogger = createChildLogger({ handler: "streamEvents" });
+  const redriveLogger = createChildLogger({ handler: "retryFailed" });
+  const scheduleLogger = createChildLogger({ handler: "createSchedule" });
   // Snapshot the server-wide policy defaults at handler-creation time.
   // Profiles are constructed once at startup in `server-cli.ts` and the
   // coordinator's config is immutable thereafter, so a single read here
   // is safe and avoids a per-request property access.
   const captureDefaults = coordinator.captureDefaults;
+  // Header names whose values never leave the server — see
+  // `request-credentials.ts`.
+  const redact = redactedHeaderSet(captureDefaults.redactHeaders);
+  // What every request is resolved against, whichever endpoint it came in on.
+  const mapperDefaults: RequestMapperDefaults = {
+    resetPageState: captureDefaults.resetPageState,
+    signingPolicy: coordinator.signing.policy,
+    allowCustomScripts: captureDefaults.behaviors.allowCustom,
+    devicePresets: captureDefaults.devicePresets,
+    proxies: captureDefaults.proxies,
+    ...(captureDefaults.defaultProxy !== undefined && {
+      defaultProxy: captureDefaults.defaultProxy,
+    }),
+    callbackHosts: coordinator.webhook.allowedHosts,
+  };
 
   const submitCapture: RouteHandlerMethod = (
     request: FastifyRequest,
     reply: FastifyReply,
   ): FastifyReply => {
     const body = request.body as CaptureRequest;
-    const result = captureRequestToTask(body, {
-      resetPageState: captureDefaults.resetPageState,
-      signingPolicy: coordinator.signing.policy,
-    });
+    const result = captureRequestToTask(body, mapperDefaults);
 
     if (!result.ok) {
       return sendProblem(reply, validationProblem(result.error));
@@ -86,6 +126,9 @@ export const createCaptureHandlers = (
         captureFormats: task.captureFormats,
         dismissBanners: task.dismissOptions !== undefined,
         ...(task.acceptLanguage && { acceptLanguage: task.acceptLanguage }),
+        ...(task.credentials && {
+          credentials: redactCredentials(task.credentials, redact),
+        }),
         url: task.url,
       },
       "Capture request accepted",
@@ -94,6 +137,65 @@ export const createCaptureHandlers = (
     return reply.code(202).send(taskToAcceptance(task));
   };
 
+  /**
+   * Same per-item pipeline as `submitCapture` (map → validate → duplicate
+   * check), but a rejected item becomes a `problem` entry instead of failing
+   * the request. Only the worker check is batch-wide: with no worker to run
+   * them there is nothing useful to say about individual items.
+   *
+   * Mapping finishes for the whole batch before anything is enqueued, and
+   * `coordinator.enqueueTasks` queues the survivors in one step.
+   */
+  const submitCaptureBatch: RouteHandlerMethod = (
+    request: FastifyRequest,
+    reply: FastifyReply,
+  ): FastifyReply => {
+    const body = request.body as CaptureBatchRequest;
+
+    if (!coordinator.isActive || coordinator.operationalWorkerCount === 0) {
+      return sendProblem(reply, noOperationalWorkersProblem());
+    }
+
+    const results: CaptureBatchItemResult[] = [];
+    const mapped: { index: number; task: CaptureTask }[] = [];
+    body.items.forEach((item, index) => {
+      const requestResult = batchItemToCaptureRequest(item, body.defaults);
+      const taskResult = requestResult.ok
+        ? captureRequestToTask(requestResult.value, mapperDefaults)
+        : requestResult;
+      if (!taskResult.ok) {
+        results[index] = { index, problem: validationProblem(taskResult.error) };
+        return;
+      }
+      mapped.push({ index, task: taskResult.value });
+    });
+
+    const enqueueResults = coordinator.enqueueTasks(mapped.map((m) => m.task));
+    mapped.forEach(({ index, task }, i) => {
+      const enqueueResult = enqueueResults[i];
+      results[index] =
+        enqueueResult === undefined || enqueueResult.ok
+          ? { index, acceptance: taskToAcceptance(task) }
+          : { index, problem: duplicateUrlProblem(enqueueResult.error) };
+    });
+
+    const accepted = results.filter((r) => r.acceptance !== undefined).length;
+    batchLogger.info(
+      {
+        items: body.items.length,
+        accepted,
+        rejected: body.items.length - accepted,
+      },
+      "Capture batch evaluated",
+    );
+
+    return reply.code(202).send({
+      accepted,
+      rejected: body.items.length - accepted,
+      results,
+    });
+  };
+
   const getStatus: RouteHandlerMethod = (
     request: FastifyRequest,
     reply: FastifyReply,
@@ -112,6 +214,7 @@ export const createCaptureHandlers = (
           coordinator.getStatus({
             ...(pendingLimit !== undefined && { pendingLimit }),
           }),
+          redact,
         ),
       );
   };
@@ -145,5 +248,203 @@ export const createCaptureHandlers = (
     return sendProblem(reply, unknownTaskProblem(taskId));
   };
 
-  return { submitCapture, getStatus, getCapture };
+  /**
+   * 200 with the final report when the task was only queued (it is finished
+   * on the spot), 202 when a worker has it and is being told to stop, 409 when
+   * there is nothing left to stop, 404 as for `getCapture`.
+   */
+  const cancelCapture: RouteHandlerMethod = (
+    request: FastifyRequest,
+    reply: FastifyReply,
+  ): FastifyReply => {
+    const { taskId } = request.params as { taskId: string };
+
+    const outcome = coordinator.cancelTask(taskId);
+    switch (outcome.kind) {
+      case "removed":
+        cancelLogger.info({ taskId }, "Queued capture cancelled");
+        return reply.code(200).send(captureResultToReport(outcome.result));
+      case "aborting":
+        cancelLogger.info({ taskId }, "In-flight capture signalled to cancel");
+        return reply.code(202).send();
+      case "finished":
+        return sendProblem(
+          reply,
+          taskAlreadyFinishedProblem(taskId, outcome.result.status),
+        );
+      case "unknown":
+        return sendProblem(reply, unknownTaskProblem(taskId));
+    }
+  };
+
+  const listFailed: RouteHandlerMethod = (
+    request: FastifyRequest,
+    reply: FastifyReply,
+  ): FastifyReply => {
+    // As for `getStatus`: Ajv applies the `default: 50`, the fallback covers
+    // handler tests that wire the route without the schema.
+    const query = request.query as {
+      limit?: number;
+      cursor?: string;
+      errorType?: ErrorType;
+      host?: string;
+    };
+    const page = coordinator.listFailed({
+      limit: query.limit ?? 50,
+      ...(query.cursor !== undefined && { cursor: query.cursor }),
+      ...(query.errorType !== undefined && { errorType: query.errorType }),
+      ...(query.host !== undefined && { host: query.host }),
+    });
+    return reply.code(200).send(deadLetterPageToResponse(page));
+  };
+
+  /**
+   * 202 with the new task's acceptance, 404 when the id is not in the failed
+   * list. The worker check comes first, as for `submitCapture`: a task queued
+   * with no worker to run it would only fail again.
+   */
+  const retryFailed: RouteHandlerMethod = (
+    request: FastifyRequest,
+    reply: FastifyReply,
+  ): FastifyReply => {
+    const { taskId } = request.params as { taskId: string };
+
+    if (!coordinator.isActive || coordinator.operationalWorkerCount === 0) {
+      return sendProblem(reply, noOperationalWorkersProblem());
+    }
+
+    const outcome = coordinator.retryFailed(taskId);
+    switch (outcome.kind) {
+      case "enqueued":
+        redriveLogger.info(
+          {
+            taskLabels: outcome.task.labels,
+            failedTaskId: taskId,
+            taskId: outcome.task.taskId,
+            ...(outcome.task.correlationId && {
+              correlationId: outcome.task.correlationId,
+            }),
+            url: outcome.task.url,
+          },
+          "Failed capture re-enqueued",
+        );
+        return reply.code(202).send(taskToAcceptance(outcome.task));
+      case "duplicate":
+        return sendProblem(reply, duplicateUrlProblem(outcome.message));
+      case "unknown":
+        return sendProblem(reply, unknownFailedTaskProblem(taskId));
+    }
+  };
+
+  const listSchedules: RouteHandlerMethod = (
+    _request: FastifyRequest,
+    reply: FastifyReply,
+  ): FastifyReply =>
+    reply.code(200).send({
+      items: coordinator.schedules.list().map((schedule) => scheduleToWire(schedule, redact)),
+    });
+
+  /**
+   * The template goes through the same mapping as `submitCapture`, once; the
+   * timing is checked by the scheduler. No worker check: a schedule is
+   * configuration, and its first run may be hours away.
+   */
+  const createSchedule: RouteHandlerMethod = (
+    request: FastifyRequest,
+    reply: FastifyReply,
+  ): FastifyReply => {
+    const body = request.body as ScheduleRequest;
+    const taskResult = captureRequestToTask(body.request, mapperDefaults);
+    if (!taskResult.ok) {
+      return sendProblem(reply, validationProblem(taskResult.error));
+    }
+
+    const added = coordinator.schedules.add({
+      request: body.request,
+      template: taskResult.value,
+      ...(body.cron !== undefined && { cron: body.cron }),
+      ...(body.intervalMs !== undefined && { intervalMs: body.intervalMs }),
+      jitterMs: body.jitterMs ?? 0,
+    });
+    if (!added.ok) {
+      return sendProblem(reply, validationProblem(added.error));
+    }
+
+    const schedule = added.value;
+    scheduleLogger.info(
+      {
+        scheduleId: schedule.scheduleId,
+        url: schedule.template.url,
+        ...(schedule.cron !== undefined && { cron: schedule.cron }),
+        ...(schedule.intervalMs !== undefined && { intervalMs: schedule.intervalMs }),
+        nextRunAt: schedule.nextRunAt,
+      },
+      "Schedule created",
+    );
+    return reply.code(201).send(scheduleToWire(schedule, redact));
+  };
+
+  const deleteSchedule: RouteHandlerMethod = (
+    request: FastifyRequest,
+    reply: FastifyReply,
+  ): FastifyReply => {
+    const { scheduleId } = request.params as { scheduleId: string };
+    if (!coordinator.schedules.remove(scheduleId)) {
+      return sendProblem(reply, unknownScheduleProblem(scheduleId));
+    }
+    return reply.code(204).send();
+  };
+
+  /**
+   * SSE: the reply is hijacked and the connection handed to
+   * `openEventStream`, which keeps it until the client leaves or the server
+   * shuts down. Everything that can still be refused is refused before that.
+   */
+  const streamEvents: RouteHandlerMethod = (
+    request: FastifyRequest,
+    reply: FastifyReply,
+  ): FastifyReply => {
+    const filter = request.query as TaskEventFilter;
+    // Ajv checks query strings, not headers, so the resume id is checked here.
+    const header = request.headers["last-event-id"];
+    let lastEventId: number | undefined;
+    if (typeof header === "string" && header !== "") {
+      if (!/^[0-9]+$/.test(header)) {
+        return sendProblem(
+          reply,
+          validationProblem("Last-Event-ID must be a non-negative integer"),
+        );
+      }
+      lastEventId = Number(header);
+    }
+
+    reply.hijack();
+    openEventStream(request.raw, reply.raw, {
+      log: coordinator.taskEvents,
+      filter: {
+        ...(filter.taskId !== undefined && { taskId: filter.taskId }),
+        ...(filter.correlationId !== undefined && {
+          correlationId: filter.correlationId,
+        }),
+        ...(filter.label !== undefined && { label: filter.label }),
+      },
+      ...(lastEventId !== undefined && { lastEventId }),
+      logger: eventsLogger,
+    });
+    return reply;
+  };
+
+  return {
+    submitCapture,
+    submitCaptureBatch,
+    getStatus,
+    getCapture,
+    cancelCapture,
+    streamEvents,
+    listFailed,
+    retryFailed,
+    listSchedules,
+    createSchedule,
+    deleteSchedule,
+  };
 };
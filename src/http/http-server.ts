@@ -138,9 +138,18 @@ export const extractParamsSchema = (
  * Without this the route registers under the literal string `{taskId}` and
  * every real request 404s — silently, because Fastify has no reason to
  * complain about a path that contains braces.
+ *
+ * A literal colon (`/v1/captures:batch`) is doubled first: Fastify reads a
+ * bare `:` as the start of a parameter and would register `:batch` as one.
+ * A parameter directly followed by one (`/v1/failed/{taskId}:retry`) also
+ * needs a pattern that stops at the colon — without it the parameter swallows
+ * `:retry` and the route is registered under a parameter named `taskId::retry`.
  */
 export const toFastifyPath = (openApiPath: string): string =>
-  openApiPath.replace(/\{([^}]+)\}/g, ":$1");
+  openApiPath
+    .replace(/:/g, "::")
+    .replace(/\{([^}]+)\}(?=::)/g, ":$1([^:/]+)")
+    .replace(/\{([^}]+)\}/g, ":$1");
 
 const extractRouteSchema = (
   operation: OperationObject | undefined,
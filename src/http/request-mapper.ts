@@ -14,8 +14,18 @@
  */
 import { randomUUID } from "node:crypto";
 import {
+  captureStatus,
+  checkCallbackUrl,
   resolveDismissSpec,
+  resolveEmulationSpec,
+  resolveHarSpec,
+  resolvePageActions,
+  resolvePdfSpec,
+  resolveRequestCredentials,
   resolveResetStateSpec,
+  resolveScreenshotSpec,
+  resolveWaitForSpec,
+  toDeviceEmulation,
   validateCaptureFormats,
   validateFilename,
   validateLabels,
@@ -23,7 +33,11 @@ import {
 import type { CaptureTask } from "../capture/index.js";
 import type { CaptureConfig, SigningPolicy } from "../config/index.js";
 import { err, ok, type Result } from "../result.js";
-import type { CaptureRequest } from "./generated/index.js";
+import type {
+  CaptureBatchDefaults,
+  CaptureBatchItem,
+  CaptureRequest,
+} from "./generated/index.js";
 
 /**
  * Slice of `CaptureConfig` consumed by the request mapper. Avoids dragging
@@ -34,6 +48,20 @@ export interface RequestMapperDefaults {
   resetPageState: CaptureConfig["resetPageState"];
   /** What the deployment offers. The request chooses within it, or is refused. */
   signingPolicy: SigningPolicy;
+  /**
+   * Whether client-supplied JavaScript may run in the page — the
+   * `--allow-custom-behaviors` switch. Gates `waitFor` predicates and
+   * `evaluate` actions too.
+   */
+  allowCustomScripts: boolean;
+  /** Presets a request can name in `device` — `CaptureConfig.devicePresets`. */
+  devicePresets: CaptureConfig["devicePresets"];
+  /** The proxy allowlist — `CaptureConfig.proxies`. */
+  proxies: CaptureConfig["proxies"];
+  /** Only consulted to refuse `httpAuth` next to a proxy that authenticates. */
+  defaultProxy?: string;
+  /** Hosts a `callback.url` may name — `WebhookConfig.allowedHosts`. */
+  callbackHosts: readonly string[];
 }
 
 export const captureRequestToTask = (
@@ -57,6 +85,98 @@ export const captureRequestToTask = (
   if (request.signing === true && !captureFormats.wacz) {
     return err("signing requires captureFormats.wacz");
   }
+  // Same reasoning: print settings for a PDF nobody asked for.
+  if (request.pdfOptions !== undefined && captureFormats.pdf !== true) {
+    return err("pdfOptions requires captureFormats.pdf");
+  }
+  if (request.harOptions !== undefined && captureFormats.har !== true) {
+    return err("harOptions requires captureFormats.har");
+  }
+  if (request.viewports !== undefined) {
+    if (!captureFormats.png && !captureFormats.webp) {
+      return err("viewports requires captureFormats.png or captureFormats.webp");
+    }
+    // Per-element images per viewport would multiply into more files than
+    // anyone asked for; a clip is still one image per viewport.
+    if (request.screenshot?.selector !== undefined) {
+      return err("viewports cannot be combined with screenshot.selector");
+    }
+    // The character set is the schema's; uniqueness is not expressible
+    // there, and two entries with one name would overwrite each other's files.
+    const names = new Set<string>();
+    for (const entry of request.viewports) {
+      if (names.has(entry.name)) {
+        return err(`viewports: duplicate name ${entry.name}`);
+      }
+      names.add(entry.name);
+    }
+  }
+  if (request.screenshot !== undefined) {
+    if (!captureFormats.png && !captureFormats.webp) {
+      return err("screenshot requires captureFormats.png or captureFormats.webp");
+    }
+    const { selector, clip } = request.screenshot;
+    if ((selector === undefined) === (clip === undefined)) {
+      return err("screenshot needs exactly one of selector or clip");
+    }
+  }
+  // Looked up here so the task carries values, not a name a worker would have
+  // to resolve — every worker then emulates the same device. Own keys only,
+  // or "constructor" would find an Object.prototype member.
+  const devicePreset =
+    request.device === undefined || !Object.hasOwn(defaults.devicePresets, request.device)
+      ? undefined
+      : defaults.devicePresets[request.device];
+  if (request.device !== undefined && devicePreset === undefined) {
+    return err(
+      `unknown device ${request.device} (this server has: ${Object.keys(defaults.devicePresets).join(", ")})`,
+    );
+  }
+  // Names only, from the operator's allowlist: a client picks a proxy, it
+  // cannot point the workers at one.
+  // `Object.hasOwn`, not a lookup: "constructor" is a valid proxy name too.
+  if (request.proxy !== undefined && !Object.hasOwn(defaults.proxies, request.proxy)) {
+    const names = Object.keys(defaults.proxies);
+    return err(
+      `unknown proxy ${request.proxy} (this server has: ${names.length > 0 ? names.join(", ") : "none"})`,
+    );
+  }
+  // The client says where its result goes, the operator says where it may:
+  // otherwise any caller could have the server POST to internal addresses.
+  if (request.callback !== undefined) {
+    const allowed = checkCallbackUrl(request.callback.url, defaults.callbackHosts);
+    if (!allowed.ok) return allowed;
+  }
+  // Both answer the page's auth challenges (`Fetch.authRequired`), and two
+  // answerers on one page race each other. Refused here for
+  // the server-wide default too; a worker whose profile differs checks again.
+  const proxyName = request.proxy ?? defaults.defaultProxy;
+  if (
+    request.httpAuth !== undefined &&
+    proxyName !== undefined &&
+    Object.hasOwn(defaults.proxies, proxyName) &&
+    defaults.proxies[proxyName]?.username !== undefined
+  ) {
+    return err(`httpAuth cannot be combined with proxy ${proxyName}, which authenticates`);
+  }
+  // Refused rather than skipped: a capture that silently did not wait for
+  // what the caller said "ready" means is worse than no capture.
+  if (
+    !defaults.allowCustomScripts &&
+    request.waitFor?.conditions.some((condition) => condition.type === "function") === true
+  ) {
+    return err(
+      "waitFor function conditions require a server started with --allow-custom-behaviors",
+    );
+  }
+  if (
+    !defaults.allowCustomScripts &&
+    request.actions?.some((action) => action.type === "evaluate") === true
+  ) {
+    return err(
+      "evaluate actions require a server started with --allow-custom-behaviors",
+    );
+  }
 
   // The deployment decides what is on offer; the request chooses within it.
   // Contradictions are refused rather than resolved silently — a caller who
@@ -112,6 +232,24 @@ export const captureRequestToTask = (
     defaults.resetPageState,
   );
 
+  // Header names and values are shape-checked by Ajv; what is left is how
+  // the three fields and `acceptLanguage` get along.
+  const credentials = resolveRequestCredentials(
+    request,
+    url,
+    acceptLanguage === "" ? undefined : acceptLanguage,
+  );
+  if (!credentials.ok) return err(credentials.error);
+
+  // Shape and bounds are Ajv's; whether the locale and time zone exist is
+  // ICU's, and asked here so a typo is a 400 rather than a failed capture.
+  let emulation: CaptureTask["emulation"];
+  if (request.emulation !== undefined) {
+    const resolved = resolveEmulationSpec(request.emulation);
+    if (!resolved.ok) return err(resolved.error);
+    emulation = resolved.value;
+  }
+
   const taskId = randomUUID();
   const task: CaptureTask = {
     taskId,
@@ -127,15 +265,25 @@ export const captureRequestToTask = (
       }),
     ...(acceptLanguage !== undefined &&
       acceptLanguage !== "" && { acceptLanguage }),
+    ...(credentials.value !== undefined && { credentials: credentials.value }),
+    ...(request.proxy !== undefined && { proxy: request.proxy }),
     ...(dismissOptions !== undefined && { dismissOptions }),
     requireSignature,
     // Range checks (1–7680 × 1–4320) are enforced by Ajv at the OpenAPI
-    // schema boundary, so the value can be passed through unchanged.
-    ...(request.viewport !== undefined && { viewport: request.viewport }),
+    // schema boundary, so the value can be passed through unchanged. A
+    // device preset fills in whichever of the two the request left out.
+    ...(request.viewport !== undefined
+      ? { viewport: request.viewport }
+      : devicePreset !== undefined && { viewport: { ...devicePreset.viewport } }),
     // Bounds (1–3) enforced by Ajv at the OpenAPI boundary; pass through.
-    ...(request.deviceScaleFactor !== undefined && {
-      deviceScaleFactor: request.deviceScaleFactor,
-    }),
+    ...(request.deviceScaleFactor !== undefined
+      ? { deviceScaleFactor: request.deviceScaleFactor }
+      : devicePreset !== undefined && { deviceScaleFactor: devicePreset.deviceScaleFactor }),
+    ...(request.device !== undefined &&
+      devicePreset !== undefined && { device: toDeviceEmulation(request.device, devicePreset) }),
+    ...(emulation !== undefined && { emulation }),
+    // Bounds and name pattern enforced by Ajv, uniqueness above; pass through.
+    ...(request.viewports !== undefined && { viewports: request.viewports }),
     // Bounds (0–5000) enforced by Ajv at the OpenAPI boundary; pass through.
     ...(request.operationDelayMs !== undefined && {
       operationDelayMs: request.operationDelayMs,
@@ -143,10 +291,40 @@ export const captureRequestToTask = (
     ...(request.trace !== undefined && { trace: request.trace }),
     // Enum ("single-pass" | "multipass") enforced by Ajv; pass through.
     ...(request.cache !== undefined && { cache: request.cache }),
+    ...(request.isolation !== undefined && { isolation: request.isolation }),
     ...(request.archiveMode !== undefined && {
       archiveMode: request.archiveMode,
     }),
     ...(request.fullPage !== undefined && { fullPage: request.fullPage }),
+    ...(request.screenshot !== undefined && {
+      screenshotOptions: resolveScreenshotSpec(request.screenshot),
+    }),
+    ...(request.waitFor !== undefined && {
+      waitFor: resolveWaitForSpec(request.waitFor),
+    }),
+    ...(request.actions !== undefined && {
+      actions: resolvePageActions(request.actions),
+    }),
+    ...(captureFormats.pdf === true && {
+      pdfOptions: resolvePdfSpec(request.pdfOptions),
+    }),
+    ...(captureFormats.har === true && {
+      harOptions: resolveHarSpec(request.harOptions),
+    }),
+    // "Omitted means every status" is expanded here, so the sink only ever
+    // asks whether a status is in the list.
+    ...(request.callback !== undefined && {
+      callback: {
+        url: request.callback.url,
+        ...(request.callback.secret !== undefined && {
+          secret: request.callback.secret,
+        }),
+        events: request.callback.events ?? Object.values(captureStatus),
+      },
+    }),
+    // Name pattern and priority range are enforced by Ajv; pass through.
+    ...(request.queue !== undefined && { queue: request.queue }),
+    ...(request.priority !== undefined && { priority: request.priority }),
     ...(request.behaviors !== undefined && {
       behaviors: {
         ...(request.behaviors.builtins !== undefined && {
@@ -170,3 +348,25 @@ export const captureRequestToTask = (
 
   return ok(task);
 };
+
+/**
+ * Fill a batch item's omitted fields from the batch `defaults`, yielding the
+ * `CaptureRequest` it stands for.
+ *
+ * The merge is shallow on purpose — an item's `captureFormats` replaces the
+ * default one rather than being OR-ed into it — so what an item asks for can
+ * be read off the item alone whenever it sets the field. `captureFormats` is
+ * the one field the schema cannot require per item (it may come from
+ * either side), so its absence after the merge is reported here.
+ */
+export const batchItemToCaptureRequest = (
+  item: CaptureBatchItem,
+  defaults: CaptureBatchDefaults = {},
+): Result<CaptureRequest, string> => {
+  const merged = { ...defaults, ...item };
+  const captureFormats = merged.captureFormats;
+  if (captureFormats === undefined) {
+    return err("captureFormats is required (set it on the item or in defaults)");
+  }
+  return ok({ ...merged, captureFormats });
+};
@@ -7,12 +7,21 @@
  * keep the boundary between domain and wire types explicit and to
  * satisfy `exactOptionalPropertyTypes`.
  */
-import type {
-  CaptureResult,
-  CaptureTask,
-  CurrentTaskInfo,
-  ErrorRecord,
-  WorkerInfo,
+import {
+  DEFAULT_QUEUE_NAME,
+  DEFAULT_TASK_PRIORITY,
+  REDACTED,
+  redactCredentials,
+  redactedHeaderSet,
+  redactHeaders,
+  type CaptureResult,
+  type CaptureTask,
+  type CurrentTaskInfo,
+  type DeadLetterPage,
+  type ErrorRecord,
+  type Schedule,
+  type TaskEventEntry,
+  type WorkerInfo,
 } from "../capture/index.js";
 import type {
   CoordinatorStatusReport,
@@ -20,12 +29,17 @@ import type {
 } from "../capture/capture-coordinator.js";
 import type {
   CaptureAcceptance,
+  CaptureRequest,
   CaptureResultReport,
   CurrentTask as CurrentTaskWire,
   ErrorRecord as ErrorRecordWire,
+  FailedTaskPage,
   PendingTask as PendingTaskWire,
   ProcessingTask as ProcessingTaskWire,
+  Schedule as ScheduleWire,
   StatusResponse,
+  TaskEventMessage,
+  TaskEventTask,
   WorkerInfo as WorkerInfoWire,
 } from "./generated/index.js";
 import { BUILD_INFO } from "../generated/version.js";
@@ -89,6 +103,11 @@ export const workerInfoToWire = (
   processedCount: worker.processedCount,
   errorCount: worker.errorCount,
   errorHistory: worker.errorHistory.map(errorRecordToWire),
+  concurrency: worker.slots.length,
+  slots: worker.slots.map(({ slot, currentTask }) => ({
+    slot,
+    ...(currentTask && { currentTask: currentTaskToWire(currentTask, now) }),
+  })),
   ...(worker.currentTask && {
     currentTask: currentTaskToWire(worker.currentTask, now),
   }),
@@ -97,8 +116,14 @@ export const workerInfoToWire = (
 /**
  * Convert a queued `CaptureTask` to its wire snapshot. `queuedMs` is computed
  * against `now` so a single response build observes a consistent clock.
+ * Request credentials appear only in `redactCredentials` form; `redact` is
+ * the server's `redactedHeaderSet`.
  */
-export const taskToPending = (task: CaptureTask, now: number): PendingTaskWire => {
+export const taskToPending = (
+  task: CaptureTask,
+  now: number,
+  redact: ReadonlySet<string> = redactedHeaderSet([]),
+): PendingTaskWire => {
   const queuedMs = Math.max(0, now - new Date(task.enqueuedAt).getTime());
   return {
     taskId: task.taskId,
@@ -108,6 +133,14 @@ export const taskToPending = (task: CaptureTask, now: number): PendingTaskWire =
     enqueuedAt: task.enqueuedAt,
     queuedMs,
     retryCount: task.retryCount,
+    queue: task.queue ?? DEFAULT_QUEUE_NAME,
+    priority: task.priority ?? DEFAULT_TASK_PRIORITY,
+    // Only while it still holds the task back; a passed one says nothing.
+    ...(task.notBefore !== undefined &&
+      Date.parse(task.notBefore) > now && { notBefore: task.notBefore }),
+    ...(task.credentials !== undefined && {
+      credentials: redactCredentials(task.credentials, redact),
+    }),
   };
 };
 
@@ -119,6 +152,7 @@ export const taskToPending = (task: CaptureTask, now: number): PendingTaskWire =
 export const taskToProcessing = (
   view: ProcessingTaskView,
   now: number,
+  redact: ReadonlySet<string> = redactedHeaderSet([]),
 ): ProcessingTaskWire => {
   const queuedMs = Math.max(0, now - new Date(view.task.enqueuedAt).getTime());
   const elapsedMs = Math.max(0, now - new Date(view.startedAt).getTime());
@@ -132,9 +166,15 @@ export const taskToProcessing = (
     enqueuedAt: view.task.enqueuedAt,
     queuedMs,
     retryCount: view.task.retryCount,
+    queue: view.task.queue ?? DEFAULT_QUEUE_NAME,
+    priority: view.task.priority ?? DEFAULT_TASK_PRIORITY,
     workerIndex: view.workerIndex,
+    slot: view.slot,
     startedAt: view.startedAt,
     elapsedMs,
+    ...(view.task.credentials !== undefined && {
+      credentials: redactCredentials(view.task.credentials, redact),
+    }),
   };
 };
 
@@ -158,6 +198,7 @@ export const captureResultToReport = (
   ...(result.task.correlationId !== undefined && {
     correlationId: result.task.correlationId,
   }),
+  ...(result.task.scheduleId !== undefined && { scheduleId: result.task.scheduleId }),
   url: result.task.url,
   labels: result.task.labels,
   status: result.status,
@@ -171,19 +212,84 @@ export const captureResultToReport = (
   artifacts: {
     ...(result.pngLocation !== undefined && { png: result.pngLocation }),
     ...(result.webpLocation !== undefined && { webp: result.webpLocation }),
+    ...(result.pngElementLocations !== undefined && {
+      pngElements: result.pngElementLocations,
+    }),
+    ...(result.webpElementLocations !== undefined && {
+      webpElements: result.webpElementLocations,
+    }),
+    ...(result.viewportLocations !== undefined && {
+      viewports: result.viewportLocations,
+    }),
     ...(result.htmlLocation !== undefined && { html: result.htmlLocation }),
     ...(result.linksLocation !== undefined && { links: result.linksLocation }),
     ...(result.mhtmlLocation !== undefined && { mhtml: result.mhtmlLocation }),
+    ...(result.pdfLocation !== undefined && { pdf: result.pdfLocation }),
+    ...(result.harLocation !== undefined && { har: result.harLocation }),
+    ...(result.diagnosticsLocation !== undefined && {
+      diagnostics: result.diagnosticsLocation,
+    }),
     ...(result.waczLocation !== undefined && { wacz: result.waczLocation }),
   },
   ...(result.waczStats !== undefined && { waczStats: result.waczStats }),
   ...(result.completeness !== undefined && { completeness: result.completeness }),
   ...(result.signature !== undefined && { signature: result.signature }),
+  ...(result.diagnostics !== undefined && { diagnostics: result.diagnostics }),
+  ...(result.waitFor !== undefined && { waitFor: result.waitFor }),
+  ...(result.actions !== undefined && { actions: result.actions }),
+  ...(result.proxy !== undefined && { proxy: result.proxy }),
   ...(result.errorDetails !== undefined && { errorDetails: result.errorDetails }),
 });
 
+export const deadLetterPageToResponse = (page: DeadLetterPage): FailedTaskPage => ({
+  items: page.results.map(captureResultToReport),
+  ...(page.nextCursor !== undefined && { nextCursor: page.nextCursor }),
+});
+
+/**
+ * A stored request as it may be shown: what the client sent, with cookie
+ * values, the basic-auth password, the secret extra-header values and the
+ * callback's HMAC secret replaced. The store itself keeps them — every run
+ * needs the real ones. A schedule's resolved `template` never leaves the
+ * server.
+ */
+const redactCaptureRequest = (
+  request: CaptureRequest,
+  redact: ReadonlySet<string>,
+): CaptureRequest => ({
+  ...request,
+  ...(request.cookies !== undefined && {
+    cookies: request.cookies.map((cookie) => ({ ...cookie, value: REDACTED })),
+  }),
+  ...(request.extraHeaders !== undefined && {
+    extraHeaders: redactHeaders(request.extraHeaders, redact),
+  }),
+  ...(request.httpAuth !== undefined && {
+    httpAuth: { username: request.httpAuth.username, password: REDACTED },
+  }),
+  ...(request.callback?.secret !== undefined && {
+    callback: { ...request.callback, secret: REDACTED },
+  }),
+});
+
+export const scheduleToWire = (
+  schedule: Schedule,
+  redact: ReadonlySet<string> = redactedHeaderSet([]),
+): ScheduleWire => ({
+  scheduleId: schedule.scheduleId,
+  request: redactCaptureRequest(schedule.request, redact),
+  ...(schedule.cron !== undefined && { cron: schedule.cron }),
+  ...(schedule.intervalMs !== undefined && { intervalMs: schedule.intervalMs }),
+  jitterMs: schedule.jitterMs,
+  createdAt: schedule.createdAt,
+  nextRunAt: schedule.nextRunAt,
+  ...(schedule.lastRunAt !== undefined && { lastRunAt: schedule.lastRunAt }),
+  ...(schedule.lastTaskId !== undefined && { lastTaskId: schedule.lastTaskId }),
+});
+
 export const coordinatorStatusToResponse = (
   status: CoordinatorStatusReport,
+  redact: ReadonlySet<string> = redactedHeaderSet([]),
 ): StatusResponse => {
   // Snapshot the wall clock once per response so every worker's
   // currentTask.elapsedMs and every queue.pendingTasks.queuedMs is computed
@@ -194,18 +300,80 @@ export const coordinatorStatusToResponse = (
     processing: status.taskCounts.processing,
     succeeded: status.taskCounts.succeeded,
     failed: status.taskCounts.failed,
+    cancelled: status.taskCounts.cancelled,
     operationalWorkers: status.operationalWorkers,
     totalWorkers: status.totalWorkers,
     isRunning: status.isRunning,
     isDegraded: status.isDegraded,
     workers: status.workers.map((w) => workerInfoToWire(w, now)),
     queue: {
-      pendingTasks: status.pendingTasks.map((t) => taskToPending(t, now)),
+      pendingTasks: status.pendingTasks.map((t) => taskToPending(t, now, redact)),
       processingTasks: status.processingTasks.map((p) =>
-        taskToProcessing(p, now),
+        taskToProcessing(p, now, redact),
       ),
+      queues: status.queues,
     },
+    // Domain and wire shapes coincide (optional `correlationId` is omitted,
+    // never `undefined`), so this passes through.
+    webhooks: status.webhooks,
     // Build fingerprint baked in at build time (src/generated/version.ts).
     build: BUILD_INFO,
   };
 };
+
+const taskToEventTask = (task: CaptureTask): TaskEventTask => ({
+  taskId: task.taskId,
+  ...(task.correlationId !== undefined && {
+    correlationId: task.correlationId,
+  }),
+  url: task.url,
+  labels: task.labels,
+  retryCount: task.retryCount,
+});
+
+/**
+ * Convert one event-log entry to the `data:` of a `GET /v1/events` message.
+ *
+ * `task.completed` carries the full report — the same one the manifest and
+ * the webhook deliver — so a dashboard following a batch never has to call
+ * back for the result it was just told about.
+ */
+export const taskEventToMessage = (entry: TaskEventEntry): TaskEventMessage => {
+  const base = { id: entry.id, type: entry.event.type, timestamp: entry.timestamp };
+  const event = entry.event;
+  switch (event.type) {
+    case "task.enqueued":
+      return { ...base, task: taskToEventTask(event.task) };
+    case "task.started":
+      return {
+        ...base,
+        task: taskToEventTask(event.task),
+        workerIndex: event.workerIndex,
+      };
+    case "task.retrying":
+      return {
+        ...base,
+        task: taskToEventTask(event.task),
+        workerIndex: event.workerIndex,
+        retry: {
+          attempt: event.attempt,
+          maxRetryCount: event.maxRetryCount,
+          reason: event.reason,
+          notBefore: event.notBefore,
+        },
+      };
+    case "task.completed":
+      return {
+        ...base,
+        task: taskToEventTask(event.result.task),
+        report: captureResultToReport(event.result),
+      };
+    case "worker.health":
+      return {
+        ...base,
+        workerIndex: event.workerIndex,
+        browserUrl: event.browserUrl,
+        health: event.health,
+      };
+  }
+};
@@ -23,6 +23,7 @@ export type ArtifactContentType =
   | "text/html"
   | "application/json"
   | "multipart/related"
+  | "application/pdf"
   | "application/wacz+zip";
 
 export interface ArtifactStore {
@@ -7,6 +7,8 @@
  * Hash format: `sha256:<hex>` (the WACZ spec). Distinct from WARC's
  * digest format (`sha256:<base32>`) — see `digest.ts:sha256Hex`.
  */
+import type { Protocol } from "puppeteer";
+import type { EmulationOptions } from "../../capture/emulation.js";
 import type { CompletenessReport } from "./completeness.js";
 import type { CoverageReport } from "./coverage.js";
 import type {
@@ -144,6 +146,40 @@ export interface CaptureSettings {
   behaviors: string[];
   /** Only when the request set one; it changes what the origin returns. */
   acceptLanguage?: string;
+  /**
+   * The device preset emulated, with the values it applied — a preset file
+   * can change between captures, so the name alone would not say what the
+   * page saw. Its size and ratio are `viewport` and `devicePixelRatios`
+   * above, which a request may also have set itself. Only when the request
+   * named a device.
+   */
+  device?: {
+    name: string;
+    mobile: boolean;
+    hasTouch: boolean;
+    userAgent: string;
+    platform?: string;
+    /** Client hints, as given to CDP. */
+    userAgentMetadata?: Protocol.Emulation.UserAgentMetadata;
+  };
+  /**
+   * Locale, time zone, media features and geolocation the page was told.
+   * Only when the request set any; otherwise the page saw the worker's own,
+   * which this archive cannot name.
+   */
+  emulation?: EmulationOptions;
+  /**
+   * `"context"` when the page was loaded in a browser context of its own, so
+   * nothing a previous capture left behind — cookies, storage, cache — could
+   * reach it. Absent for the worker's shared tab, where `resetState` decides.
+   */
+  isolation?: "context";
+  /**
+   * Allowlist name of the upstream proxy the capture went through. The name
+   * only: the address and credentials are the deployment's, not the
+   * archive's. Absent when the capture went out directly.
+   */
+  proxy?: string;
 }
 
 interface DatapackageResource {
@@ -300,6 +300,9 @@ describe("BrowserClient", () => {
         // browser cannot change version between tasks, and the round trip
         // would come out of the capture's own budget.
         "Chrome/150.0.7871.181",
+        expect.any(AbortSignal),
+        // No context of its own: the worker's tab, going out directly.
+        undefined,
       );
     });
 
@@ -341,6 +344,267 @@ describe("BrowserClient", () => {
       expect(result.errorDetails?.message).toBe("Capture failed");
     });
 
+    describe("proxy", () => {
+      const proxiedClient = (): BrowserClient =>
+        new BrowserClient(
+          0,
+          {
+            browserURL: new URL("http://chromium:9222"),
+            capture: createTestCaptureConfig({
+              proxies: {
+                egress: { server: "http://egress:3128", username: "svc", password: "pw" },
+              },
+            }),
+          },
+          createTestArtifactStore(),
+          DEFAULT_SIGNING_CONFIG,
+        );
+
+      it("captures on a page in a context of its own, closed afterwards", async () => {
+        const proxyPage = { authenticate: vi.fn().mockResolvedValue(undefined) };
+        const context = {
+          newPage: vi.fn().mockResolvedValue(proxyPage),
+          close: vi.fn().mockResolvedValue(undefined),
+        };
+        mockBrowser.createBrowserContext = vi.fn().mockResolvedValue(context);
+        const proxied = proxiedClient();
+        await proxied.connect();
+        const task = createTask({ proxy: "egress" });
+        mockCapture.mockResolvedValue({
+          task,
+          status: captureStatus.success,
+          captureProcessingTimeMs: 10,
+          timestamp: new Date().toISOString(),
+          workerIndex: 0,
+        });
+
+        const result = await proxied.process(task);
+
+        expect(mockBrowser.createBrowserContext).toHaveBeenCalledWith({
+          proxyServer: "http://egress:3128",
+        });
+        expect(proxyPage.authenticate).toHaveBeenCalledWith({ username: "svc", password: "pw" });
+        expect(mockCapture.mock.calls[0]?.[0]).toBe(proxyPage);
+        expect(mockCapture.mock.calls[0]?.[5]).toEqual({ proxy: "egress" });
+        expect(context.close).toHaveBeenCalledTimes(1);
+        expect(result.proxy).toBe("egress");
+      });
+
+      it("closes the context when the capture fails, and still names the proxy", async () => {
+        const context = {
+          newPage: vi.fn().mockResolvedValue({ authenticate: vi.fn().mockResolvedValue(undefined) }),
+          close: vi.fn().mockResolvedValue(undefined),
+        };
+        mockBrowser.createBrowserContext = vi.fn().mockResolvedValue(context);
+        const proxied = proxiedClient();
+        await proxied.connect();
+        mockCapture.mockRejectedValue(new Error("net::ERR_PROXY_CONNECTION_FAILED"));
+
+        const result = await proxied.process(createTask({ proxy: "egress" }));
+
+        expect(result.status).toBe(captureStatus.failed);
+        expect(result.proxy).toBe("egress");
+        expect(context.close).toHaveBeenCalledTimes(1);
+      });
+
+      it("fails a task whose proxy is not configured, without capturing", async () => {
+        await client.connect();
+
+        const result = await client.process(createTask({ proxy: "egress" }));
+
+        expect(result.status).toBe(captureStatus.failed);
+        expect(result.errorDetails).toEqual({
+          type: "internal",
+          message: "proxy egress is not configured on this worker",
+        });
+        expect(mockCapture).not.toHaveBeenCalled();
+      });
+    });
+
+    describe("isolation", () => {
+      it("captures a context-isolated task on a fresh page, leaving the tab alone", async () => {
+        const ownPage = {};
+        const context = {
+          newPage: vi.fn().mockResolvedValue(ownPage),
+          close: vi.fn().mockResolvedValue(undefined),
+        };
+        mockBrowser.createBrowserContext = vi.fn().mockResolvedValue(context);
+        await client.connect();
+        const task = createTask({ isolation: "context" });
+        mockCapture.mockResolvedValue({
+          task,
+          status: captureStatus.success,
+          captureProcessingTimeMs: 10,
+          timestamp: new Date().toISOString(),
+          workerIndex: 0,
+        });
+
+        const result = await client.process(task);
+
+        expect(mockBrowser.createBrowserContext).toHaveBeenCalledWith({});
+        expect(mockCapture.mock.calls[0]?.[0]).toBe(ownPage);
+        expect(mockCapture.mock.calls[0]?.[5]).toEqual({});
+        expect(context.close).toHaveBeenCalledTimes(1);
+        expect(result.proxy).toBeUndefined();
+      });
+
+      it("follows the profile default unless the task says otherwise", async () => {
+        const context = {
+          newPage: vi.fn().mockResolvedValue({}),
+          close: vi.fn().mockResolvedValue(undefined),
+        };
+        mockBrowser.createBrowserContext = vi.fn().mockResolvedValue(context);
+        const isolating = new BrowserClient(
+          0,
+          {
+            browserURL: new URL("http://chromium:9222"),
+            capture: createTestCaptureConfig({ isolation: "context" }),
+          },
+          createTestArtifactStore(),
+          DEFAULT_SIGNING_CONFIG,
+        );
+        await isolating.connect();
+        mockCapture.mockResolvedValue({
+          task: createTask(),
+          status: captureStatus.success,
+          captureProcessingTimeMs: 10,
+          timestamp: new Date().toISOString(),
+          workerIndex: 0,
+        });
+
+        await isolating.process(createTask());
+        await isolating.process(createTask({ isolation: "tab" }));
+
+        expect(mockBrowser.createBrowserContext).toHaveBeenCalledTimes(1);
+        expect(mockCapture.mock.calls[1]?.[0]).toBe(mockPage);
+      });
+    });
+
+    describe("slots", () => {
+      it("gives each extra slot a tab in a context of its own, closed on disconnect", async () => {
+        const slotPage = { on: vi.fn(), isClosed: vi.fn().mockReturnValue(false) };
+        const context = {
+          newPage: vi.fn().mockResolvedValue(slotPage),
+          close: vi.fn().mockResolvedValue(undefined),
+        };
+        mockBrowser.createBrowserContext = vi.fn().mockResolvedValue(context);
+        const twoSlots = new BrowserClient(
+          0,
+          {
+            browserURL: new URL("http://chromium:9222"),
+            capture: createTestCaptureConfig({ concurrency: 2 }),
+          },
+          createTestArtifactStore(),
+          DEFAULT_SIGNING_CONFIG,
+        );
+        await twoSlots.connect();
+        mockCapture.mockResolvedValue({
+          task: createTask(),
+          status: captureStatus.success,
+          captureProcessingTimeMs: 10,
+          timestamp: new Date().toISOString(),
+          workerIndex: 0,
+        });
+
+        await twoSlots.process(createTask({ taskId: "a" }), 0);
+        await twoSlots.process(createTask({ taskId: "b" }), 1);
+
+        expect(mockBrowser.createBrowserContext).toHaveBeenCalledTimes(1);
+        expect(mockCapture.mock.calls[0]?.[0]).toBe(mockPage);
+        expect(mockCapture.mock.calls[1]?.[0]).toBe(slotPage);
+        // The slot's context lives as long as the connection, not the task.
+        expect(context.close).not.toHaveBeenCalled();
+
+        await twoSlots.disconnect();
+
+        expect(context.close).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe("cancel", () => {
+      it("aborts the signal handed to the in-flight capture", async () => {
+        await client.connect();
+        const task = createTask();
+        mockCapture.mockImplementation(
+          (_page: Page, t: CaptureTask, index: number, _v: string, signal: AbortSignal) =>
+            new Promise<CaptureResult>((resolve) => {
+              signal.addEventListener("abort", () => {
+                resolve({
+                  task: t,
+                  status: captureStatus.cancelled,
+                  captureProcessingTimeMs: 5,
+                  timestamp: new Date().toISOString(),
+                  workerIndex: index,
+                });
+              });
+            }),
+        );
+
+        const resultPromise = client.process(task);
+        expect(client.cancel(task.taskId)).toBe(true);
+
+        expect((await resultPromise).status).toBe(captureStatus.cancelled);
+      });
+
+      it("reports a failure that lands after the abort as cancelled", async () => {
+        await client.connect();
+        const task = createTask();
+        let rejectCapture: (error: Error) => void = () => undefined;
+        mockCapture.mockReturnValue(
+          new Promise<never>((_, reject) => {
+            rejectCapture = reject;
+          }),
+        );
+
+        const resultPromise = client.process(task);
+        client.cancel(task.taskId);
+        rejectCapture(new Error("net::ERR_ABORTED"));
+
+        const result = await resultPromise;
+        expect(result.status).toBe(captureStatus.cancelled);
+        expect(result.errorDetails).toBeUndefined();
+      });
+
+      it("keeps a success that finished before the cancel was noticed", async () => {
+        await client.connect();
+        const task = createTask();
+        let resolveCapture: (result: CaptureResult) => void = () => undefined;
+        mockCapture.mockReturnValue(
+          new Promise<CaptureResult>((resolve) => {
+            resolveCapture = resolve;
+          }),
+        );
+
+        const resultPromise = client.process(task);
+        client.cancel(task.taskId);
+        resolveCapture({
+          task,
+          status: captureStatus.success,
+          captureProcessingTimeMs: 5,
+          timestamp: new Date().toISOString(),
+          workerIndex: 0,
+        });
+
+        expect((await resultPromise).status).toBe(captureStatus.success);
+      });
+
+      it("returns false for a task this client is not running", async () => {
+        await client.connect();
+        mockCapture.mockResolvedValue({
+          task: createTask(),
+          status: captureStatus.success,
+          captureProcessingTimeMs: 5,
+          timestamp: new Date().toISOString(),
+          workerIndex: 0,
+        });
+
+        expect(client.cancel("test-uuid-1234")).toBe(false);
+        await client.process(createTask());
+        // Finished tasks are not cancellable either.
+        expect(client.cancel("test-uuid-1234")).toBe(false);
+      });
+    });
+
     describe("Layer B taskTotal timeout", () => {
       // Layer B is the outer per-task safety net wired in
       // BrowserClient.process. When the inner pageCapturer.capture promise
@@ -47,6 +47,24 @@ describe("validateCaptureFormats", () => {
     expect(result.ok).toBe(true);
   });
 
+  it("should return valid when only pdf is enabled", () => {
+    const formats: CaptureFormats = { png: false, webp: false, html: false, links: false, mhtml: false, pdf: true, wacz: false };
+    const result = validateCaptureFormats(formats);
+    expect(result.ok).toBe(true);
+  });
+
+  it("should return valid when only har is enabled", () => {
+    const formats: CaptureFormats = { png: false, webp: false, html: false, links: false, mhtml: false, har: true, wacz: false };
+    const result = validateCaptureFormats(formats);
+    expect(result.ok).toBe(true);
+  });
+
+  it("should return valid when only diagnostics is enabled", () => {
+    const formats: CaptureFormats = { png: false, webp: false, html: false, links: false, mhtml: false, diagnostics: true, wacz: false };
+    const result = validateCaptureFormats(formats);
+    expect(result.ok).toBe(true);
+  });
+
   it("should return invalid when all formats are disabled", () => {
     const formats: CaptureFormats = { png: false, webp: false, html: false, links: false, mhtml: false, wacz: false };
     const result = validateCaptureFormats(formats);
@@ -55,6 +73,9 @@ describe("validateCaptureFormats", () => {
       expect(result.error).toContain("At least one capture format must be enabled");
       expect(result.error).toContain("links");
       expect(result.error).toContain("mhtml");
+      expect(result.error).toContain("pdf");
+      expect(result.error).toContain("har");
+      expect(result.error).toContain("diagnostics");
     }
   });
 });
@@ -6,12 +6,14 @@ interface MockPage {
   goto: ReturnType<typeof vi.fn>;
   content: ReturnType<typeof vi.fn>;
   url: ReturnType<typeof vi.fn>;
+  keyboard: { press: ReturnType<typeof vi.fn> };
 }
 
 const buildMockPage = (): MockPage => ({
   goto: vi.fn().mockResolvedValue(null),
   content: vi.fn().mockResolvedValue("<html></html>"),
   url: vi.fn().mockReturnValue("https://example.com/"),
+  keyboard: { press: vi.fn().mockResolvedValue(undefined) },
 });
 
 const asPage = (page: MockPage): Page => page as unknown as Page;
@@ -71,6 +73,19 @@ describe("createPacedPage", () => {
     await expect(paced.content()).resolves.toBe("<html></html>");
   });
 
+  it("paces each key event sent through the keyboard", async () => {
+    vi.useFakeTimers();
+    const page = buildMockPage();
+    const { page: paced } = createPacedPage(asPage(page), 200);
+
+    const pending = paced.keyboard.press("Enter");
+    expect(page.keyboard.press).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(200);
+    await pending;
+    expect(page.keyboard.press).toHaveBeenCalledWith("Enter");
+  });
+
   it("leaves the synchronous url() alone — it must not become a promise", () => {
     const { page: paced } = createPacedPage(asPage(buildMockPage()), 500);
 
@@ -13,12 +13,19 @@ import type { WorkerRuntime } from "../../src/capture/worker-loop.js";
 import type { BrowserClient } from "../../src/capture/browser-client.js";
 import { TaskQueue } from "../../src/capture/task-queue.js";
 import type { CaptureResultSink } from "../../src/capture/result-sink.js";
+import {
+  noopTaskEvents,
+  type TaskEvent,
+  type TaskEventPublisher,
+} from "../../src/capture/task-events.js";
 import type { CaptureResult } from "../../src/capture/types.js";
 import { DEFAULT_RESET_STATE_OPTIONS } from "../../src/capture/reset-state.js";
+import { DEFAULT_RETRY_POLICY, type RetryPolicy } from "../../src/config/index.js";
 
 const createMockClient = (index = 0): BrowserClient =>
   ({
     index,
+    profile: { browserURL: new URL("http://test:9222") },
     logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
     connect: vi.fn().mockResolvedValue({ ok: true, value: undefined }),
     disconnect: vi.fn().mockResolvedValue({ ok: true, value: undefined }),
@@ -31,15 +38,24 @@ const createRecordingSink = (): CaptureResultSink & { recorded: CaptureResult[]
   return { recorded, record: (result) => recorded.push(result) };
 };
 
+/** Publisher that keeps what it was told, in order. */
+const createRecordingEvents = (): TaskEventPublisher & { published: TaskEvent[] } => {
+  const published: TaskEvent[] = [];
+  return { published, publish: (event) => published.push(event) };
+};
+
 const createDefaultRuntime = (index = 0): WorkerRuntime => ({
   client: createMockClient(index),
   taskQueue: new TaskQueue(),
   resultSink: createRecordingSink(),
+  taskEvents: noopTaskEvents,
   pollIntervalMs: 50,
+  concurrency: 1,
 });
 
-const createInput = (overrides?: { index?: number; maxRetryCount?: number; runtime?: Partial<WorkerRuntime> }): CaptureWorkerInput => ({
+const createInput = (overrides?: { index?: number; maxRetryCount?: number; retryPolicy?: RetryPolicy; runtime?: Partial<WorkerRuntime> }): CaptureWorkerInput => ({
   maxRetryCount: overrides?.maxRetryCount ?? 2,
+  retryPolicy: overrides?.retryPolicy ?? DEFAULT_RETRY_POLICY,
   runtime: {
     ...createDefaultRuntime(overrides?.index),
     ...overrides?.runtime,
@@ -51,7 +67,7 @@ const createInput = (overrides?: { index?: number; maxRetryCount?: number; runti
  * The machine has invoked actors, so we test state transitions
  * by sending events directly.
  */
-const createWorkerActor = (overrides?: { index?: number; maxRetryCount?: number; runtime?: Partial<WorkerRuntime> }) => {
+const createWorkerActor = (overrides?: { index?: number; maxRetryCount?: number; retryPolicy?: RetryPolicy; runtime?: Partial<WorkerRuntime> }) => {
   const input = createInput(overrides);
   const actor = createActor(captureWorkerMachine, { input });
   actor.start();
@@ -83,7 +99,7 @@ describe("capture-worker", () => {
         expect(ctx.processedCount).toBe(0);
         expect(ctx.errorCount).toBe(0);
         expect(ctx.errorHistory).toHaveLength(0);
-        expect(ctx.currentTask).toBeNull();
+        expect(ctx.currentTasks).toEqual([null]);
       });
     });
 
@@ -139,7 +155,7 @@ describe("capture-worker", () => {
     });
 
     describe("operational state", () => {
-      const createOperationalActor = async (overrides?: { maxRetryCount?: number; runtime?: Partial<WorkerRuntime> }) => {
+      const createOperationalActor = async (overrides?: { maxRetryCount?: number; retryPolicy?: RetryPolicy; runtime?: Partial<WorkerRuntime> }) => {
         const result = createWorkerActor(overrides);
         result.actor.send({ type: "CONNECT" });
         await vi.waitFor(() => {
@@ -162,12 +178,12 @@ describe("capture-worker", () => {
         const { actor } = await createOperationalActor();
         const task = { taskId: "t1", labels: [], url: "https://example.com", retryCount: 0, captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false }, resetState: { cookies: true, pageContext: true }, requireSignature: false, enqueuedAt: "2024-01-01T00:00:00.000Z" };
         const before = Date.now();
-        actor.send({ type: "TASK_STARTED", task });
+        actor.send({ type: "TASK_STARTED", task, slot: 0 });
         const after = Date.now();
         expect(actor.getSnapshot().value).toEqual({ operational: "processing" });
         expect(actor.getSnapshot().hasTag("healthy")).toBe(true);
         expect(actor.getSnapshot().hasTag("canProcess")).toBe(false);
-        const current = actor.getSnapshot().context.currentTask;
+        const current = actor.getSnapshot().context.currentTasks[0];
         expect(current).not.toBeNull();
         expect(current?.task).toBe(task);
         expect(current?.startedAt).toBeGreaterThanOrEqual(before);
@@ -179,12 +195,28 @@ describe("capture-worker", () => {
         const task = { taskId: "t1", labels: [], url: "https://example.com", retryCount: 0, captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false }, resetState: { cookies: true, pageContext: true }, requireSignature: false, enqueuedAt: "2024-01-01T00:00:00.000Z" };
         const result = { task, status: "success" as const, captureProcessingTimeMs: 100, timestamp: new Date().toISOString(), workerIndex: 0 };
 
-        actor.send({ type: "TASK_STARTED", task });
+        actor.send({ type: "TASK_STARTED", task, slot: 0 });
         actor.send({ type: "TASK_DONE", task, result });
 
         expect(actor.getSnapshot().value).toEqual({ operational: "idle" });
         expect(actor.getSnapshot().context.processedCount).toBe(1);
-        expect(actor.getSnapshot().context.currentTask).toBeNull();
+        expect(actor.getSnapshot().context.currentTasks).toEqual([null]);
+      });
+
+      it("should return to idle on TASK_CANCELLED without retrying or counting", async () => {
+        const taskQueue = new TaskQueue();
+        const { actor } = await createOperationalActor({ runtime: { taskQueue } });
+        const task = { taskId: "t1", labels: [], url: "https://example.com", retryCount: 0, captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false }, resetState: { cookies: true, pageContext: true }, requireSignature: false, enqueuedAt: "2024-01-01T00:00:00.000Z" };
+
+        actor.send({ type: "TASK_STARTED", task, slot: 0 });
+        actor.send({ type: "TASK_CANCELLED", task });
+
+        expect(actor.getSnapshot().value).toEqual({ operational: "idle" });
+        const ctx = actor.getSnapshot().context;
+        expect(ctx.processedCount).toBe(0);
+        expect(ctx.errorCount).toBe(0);
+        expect(ctx.currentTasks).toEqual([null]);
+        expect(taskQueue.remaining).toBe(0);
       });
 
       it("should requeue task on TASK_FAILED when retries remain (canRetry guard)", async () => {
@@ -200,7 +232,7 @@ describe("capture-worker", () => {
           workerIndex: 0,
         };
 
-        actor.send({ type: "TASK_STARTED", task });
+        actor.send({ type: "TASK_STARTED", task, slot: 0 });
         actor.send({ type: "TASK_FAILED", task, result });
 
         expect(actor.getSnapshot().value).toEqual({ operational: "idle" });
@@ -212,7 +244,38 @@ describe("capture-worker", () => {
         // Task was requeued
         expect(taskQueue.remaining).toBe(1);
         // currentTask cleared even on retry path
-        expect(ctx.currentTask).toBeNull();
+        expect(ctx.currentTasks).toEqual([null]);
+      });
+
+      it("should hold a retried task back for the policy's backoff", async () => {
+        const taskQueue = new TaskQueue();
+        const retryPolicy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 10_000, jitter: 0 };
+        const { actor } = await createOperationalActor({ retryPolicy, runtime: { taskQueue } });
+        const task = { taskId: "t1", labels: [], url: "https://example.com", retryCount: 0, captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false }, resetState: { cookies: true, pageContext: true }, requireSignature: false, enqueuedAt: "2024-01-01T00:00:00.000Z" };
+        const result = { task, status: "httpError" as const, errorDetails: { type: "http" as const, message: "HTTP 503", httpStatusCode: 503 }, captureProcessingTimeMs: 50, timestamp: new Date().toISOString(), workerIndex: 0 };
+        const before = Date.now();
+
+        actor.send({ type: "TASK_STARTED", task, slot: 0 });
+        actor.send({ type: "TASK_FAILED", task, result });
+
+        const [queued] = taskQueue.peekPending(1);
+        expect(Date.parse(queued!.notBefore!) - before).toBeGreaterThanOrEqual(10_000);
+        expect(taskQueue.dequeue()).toBeUndefined();
+      });
+
+      it("should fail a 404 at once even with retries left", async () => {
+        const taskQueue = new TaskQueue();
+        const { actor } = await createOperationalActor({ runtime: { taskQueue } });
+        const task = { taskId: "t1", labels: [], url: "https://example.com", retryCount: 0, captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false }, resetState: { cookies: true, pageContext: true }, requireSignature: false, enqueuedAt: "2024-01-01T00:00:00.000Z" };
+        taskQueue.enqueue(task);
+        taskQueue.dequeue();
+        const result = { task, status: "httpError" as const, errorDetails: { type: "http" as const, message: "HTTP 404", httpStatusCode: 404 }, captureProcessingTimeMs: 50, timestamp: new Date().toISOString(), workerIndex: 0 };
+
+        actor.send({ type: "TASK_STARTED", task, slot: 0 });
+        actor.send({ type: "TASK_FAILED", task, result });
+
+        expect(taskQueue.remaining).toBe(0);
+        expect(taskQueue.failedCount).toBe(1);
       });
 
       it("should mark task complete on TASK_FAILED when retries exhausted", async () => {
@@ -231,7 +294,7 @@ describe("capture-worker", () => {
           workerIndex: 0,
         };
 
-        actor.send({ type: "TASK_STARTED", task });
+        actor.send({ type: "TASK_STARTED", task, slot: 0 });
         actor.send({ type: "TASK_FAILED", task, result });
 
         expect(actor.getSnapshot().value).toEqual({ operational: "idle" });
@@ -244,27 +307,27 @@ describe("capture-worker", () => {
         expect(taskQueue.failedCount).toBe(1);
         expect(taskQueue.succeededCount).toBe(0);
         // currentTask cleared on terminal failure path
-        expect(ctx.currentTask).toBeNull();
+        expect(ctx.currentTasks).toEqual([null]);
       });
 
       it("should transition to error on CONNECTION_LOST and clear currentTask", async () => {
         const { actor } = await createOperationalActor();
         const task = { taskId: "t1", labels: [], url: "https://example.com", retryCount: 0, captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false }, resetState: { cookies: true, pageContext: true }, requireSignature: false, enqueuedAt: "2024-01-01T00:00:00.000Z" };
-        actor.send({ type: "TASK_STARTED", task });
-        expect(actor.getSnapshot().context.currentTask).not.toBeNull();
+        actor.send({ type: "TASK_STARTED", task, slot: 0 });
+        expect(actor.getSnapshot().context.currentTasks[0]).not.toBeNull();
         actor.send({ type: "CONNECTION_LOST", task, message: "Browser disconnected" });
 
         expect(actor.getSnapshot().value).toBe("error");
         expect(actor.getSnapshot().context.errorCount).toBe(1);
         // No ghost currentTask after connection drop mid-processing
-        expect(actor.getSnapshot().context.currentTask).toBeNull();
+        expect(actor.getSnapshot().context.currentTasks).toEqual([null]);
       });
 
       it("should requeue task on CONNECTION_LOST when retries remain (canRetry guard)", async () => {
         const taskQueue = new TaskQueue();
         const { actor } = await createOperationalActor({ runtime: { taskQueue } });
         const task = { taskId: "t1", labels: [], url: "https://example.com", retryCount: 0, captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false }, resetState: { cookies: true, pageContext: true }, requireSignature: false, enqueuedAt: "2024-01-01T00:00:00.000Z" };
-        actor.send({ type: "TASK_STARTED", task });
+        actor.send({ type: "TASK_STARTED", task, slot: 0 });
         actor.send({ type: "CONNECTION_LOST", task, message: "Connection closed" });
 
         expect(actor.getSnapshot().value).toBe("error");
@@ -279,7 +342,7 @@ describe("capture-worker", () => {
         // with retryCount bumped).
         expect(taskQueue.remaining).toBe(1);
         expect(taskQueue.processingCount).toBe(0);
-        expect(ctx.currentTask).toBeNull();
+        expect(ctx.currentTasks).toEqual([null]);
       });
 
       it("should mark task complete on CONNECTION_LOST when retries exhausted", async () => {
@@ -290,7 +353,7 @@ describe("capture-worker", () => {
         // has something to remove.
         taskQueue.enqueue(task);
         taskQueue.dequeue();
-        actor.send({ type: "TASK_STARTED", task });
+        actor.send({ type: "TASK_STARTED", task, slot: 0 });
         actor.send({ type: "CONNECTION_LOST", task, message: "Connection closed" });
 
         expect(actor.getSnapshot().value).toBe("error");
@@ -305,7 +368,7 @@ describe("capture-worker", () => {
         expect(taskQueue.processingCount).toBe(0);
         expect(taskQueue.failedCount).toBe(1);
         expect(taskQueue.succeededCount).toBe(0);
-        expect(ctx.currentTask).toBeNull();
+        expect(ctx.currentTasks).toEqual([null]);
       });
 
       // CONNECTION_LOST is the one terminal event that carries no CaptureResult.
@@ -318,7 +381,7 @@ describe("capture-worker", () => {
         const task = { taskId: "t1", labels: ["test"], url: "https://example.com", retryCount: 2, captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false }, resetState: { cookies: true, pageContext: true }, requireSignature: false, enqueuedAt: "2024-01-01T00:00:00.000Z" };
         taskQueue.enqueue(task);
         taskQueue.dequeue();
-        actor.send({ type: "TASK_STARTED", task });
+        actor.send({ type: "TASK_STARTED", task, slot: 0 });
         actor.send({ type: "CONNECTION_LOST", task, message: "Connection closed" });
 
         expect(resultSink.recorded).toHaveLength(1);
@@ -334,17 +397,132 @@ describe("capture-worker", () => {
         const { actor } = await createOperationalActor({ runtime: { resultSink } });
         const task = { taskId: "t1", labels: [], url: "https://example.com", retryCount: 2, captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false }, resetState: { cookies: true, pageContext: true }, requireSignature: false, enqueuedAt: "2024-01-01T00:00:00.000Z" };
         const result = { task, status: "failed" as const, errorDetails: { type: "internal" as const, message: "Page crashed" }, captureProcessingTimeMs: 10, timestamp: "2024-01-01T00:00:01.000Z", workerIndex: 0 };
-        actor.send({ type: "TASK_STARTED", task });
+        actor.send({ type: "TASK_STARTED", task, slot: 0 });
         actor.send({ type: "TASK_FAILED", task, result });
 
         expect(resultSink.recorded).toEqual([result]);
       });
 
+      it("should publish task.retrying with the attempt about to be made", async () => {
+        const taskEvents = createRecordingEvents();
+        const { actor } = await createOperationalActor({ runtime: { taskEvents } });
+        const task = { taskId: "t1", labels: [], url: "https://example.com", retryCount: 0, captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false }, resetState: { cookies: true, pageContext: true }, requireSignature: false, enqueuedAt: "2024-01-01T00:00:00.000Z" };
+        const result = { task, status: "failed" as const, errorDetails: { type: "internal" as const, message: "Page crashed" }, captureProcessingTimeMs: 10, timestamp: "2024-01-01T00:00:01.000Z", workerIndex: 0 };
+        actor.send({ type: "TASK_STARTED", task, slot: 0 });
+        actor.send({ type: "TASK_FAILED", task, result });
+
+        expect(taskEvents.published.filter((e) => e.type === "task.retrying")).toEqual([
+          {
+            type: "task.retrying",
+            task,
+            workerIndex: 0,
+            attempt: 1,
+            maxRetryCount: 2,
+            reason: "task failed",
+            notBefore: expect.any(String) as string,
+          },
+        ]);
+      });
+
+      it("should publish worker.health on health changes, not on idle/busy flips", async () => {
+        const taskEvents = createRecordingEvents();
+        const { actor } = await createOperationalActor({ runtime: { taskEvents } });
+        const task = { taskId: "t1", labels: [], url: "https://example.com", retryCount: 0, captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false }, resetState: { cookies: true, pageContext: true }, requireSignature: false, enqueuedAt: "2024-01-01T00:00:00.000Z" };
+        actor.send({ type: "TASK_STARTED", task, slot: 0 });
+        actor.send({ type: "TASK_CANCELLED", task });
+
+        const health = taskEvents.published.filter((e) => e.type === "worker.health");
+        expect(health.map((e) => e.health)).toEqual(["disconnected", "ready"]);
+        expect(health[1]).toEqual({
+          type: "worker.health",
+          workerIndex: 0,
+          browserUrl: "http://test:9222/",
+          health: "ready",
+        });
+      });
+
       it("should transition to disconnecting on DISCONNECT", async () => {
         const { actor } = await createOperationalActor();
         actor.send({ type: "DISCONNECT" });
         expect(actor.getSnapshot().value).toBe("disconnecting");
       });
+
+      describe("with two slots", () => {
+        const slotTask = (taskId: string) => ({ taskId, labels: [], url: "https://example.com", retryCount: 0, captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false }, resetState: { cookies: true, pageContext: true }, requireSignature: false, enqueuedAt: "2024-01-01T00:00:00.000Z" });
+
+        it("stays processing until the last slot has reported", async () => {
+          const { actor } = await createOperationalActor({ runtime: { concurrency: 2 } });
+          const [a, b] = [slotTask("a"), slotTask("b")];
+          actor.send({ type: "TASK_STARTED", task: a, slot: 0 });
+          actor.send({ type: "TASK_STARTED", task: b, slot: 1 });
+          expect(actor.getSnapshot().context.currentTasks.map((c) => c?.task.taskId)).toEqual(["a", "b"]);
+
+          actor.send({ type: "TASK_DONE", task: b, result: { task: b, status: "success", captureProcessingTimeMs: 1, timestamp: "2024-01-01T00:00:00.000Z", workerIndex: 0 } });
+          expect(actor.getSnapshot().value).toEqual({ operational: "processing" });
+          expect(actor.getSnapshot().context.currentTasks[1]).toBeNull();
+
+          actor.send({ type: "TASK_CANCELLED", task: a });
+          expect(actor.getSnapshot().value).toEqual({ operational: "idle" });
+          expect(actor.getSnapshot().context.processedCount).toBe(1);
+        });
+
+        // The other slot's report would be dropped once the loop is disposed,
+        // and its task left in TaskQueue.processing.
+        it("waits for the other slot before going to error on CONNECTION_LOST", async () => {
+          const taskQueue = new TaskQueue();
+          const { actor } = await createOperationalActor({ runtime: { concurrency: 2, taskQueue } });
+          const [a, b] = [slotTask("a"), slotTask("b")];
+          actor.send({ type: "TASK_STARTED", task: a, slot: 0 });
+          actor.send({ type: "TASK_STARTED", task: b, slot: 1 });
+
+          actor.send({ type: "CONNECTION_LOST", task: a, message: "Connection closed" });
+          expect(actor.getSnapshot().value).toEqual({ operational: "processing" });
+
+          actor.send({ type: "CONNECTION_LOST", task: b, message: "Connection closed" });
+          expect(actor.getSnapshot().value).toBe("error");
+          expect(actor.getSnapshot().context.errorCount).toBe(2);
+          expect(taskQueue.remaining).toBe(2);
+        });
+
+        it("starts over clean after reconnecting", async () => {
+          const { actor } = await createOperationalActor({ runtime: { concurrency: 2 } });
+          const task = slotTask("a");
+          actor.send({ type: "TASK_STARTED", task, slot: 1 });
+          actor.send({ type: "CONNECTION_LOST", task, message: "Connection closed" });
+          expect(actor.getSnapshot().value).toBe("error");
+
+          actor.send({ type: "CONNECT" });
+          await vi.waitFor(() => {
+            expect(actor.getSnapshot().value).toEqual({ operational: "idle" });
+          });
+          expect(actor.getSnapshot().context.connectionLost).toBe(false);
+        });
+
+        // Superseded by a settings edit: finish what it holds, take nothing
+        // new with the old settings, then close the connection.
+        it("stops taking tasks on DRAIN and disconnects once the held ones have reported", async () => {
+          const taskQueue = new TaskQueue();
+          const { actor, input } = await createOperationalActor({ runtime: { concurrency: 2, taskQueue } });
+          const [a, b] = [slotTask("a"), slotTask("b")];
+          actor.send({ type: "TASK_STARTED", task: a, slot: 0 });
+          actor.send({ type: "TASK_STARTED", task: b, slot: 1 });
+
+          actor.send({ type: "DRAIN" });
+          taskQueue.enqueue(slotTask("queued"));
+          await new Promise((resolve) => setTimeout(resolve, 120));
+          expect(taskQueue.remaining).toBe(1);
+          expect(actor.getSnapshot().value).toEqual({ operational: "processing" });
+
+          actor.send({ type: "TASK_DONE", task: a, result: { task: a, status: "success", captureProcessingTimeMs: 1, timestamp: "2024-01-01T00:00:00.000Z", workerIndex: 0 } });
+          expect(actor.getSnapshot().value).toEqual({ operational: "processing" });
+          actor.send({ type: "TASK_CANCELLED", task: b });
+          await vi.waitFor(() => {
+            expect(actor.getSnapshot().value).toBe("disconnected");
+          });
+          expect(input.runtime.client.disconnect).toHaveBeenCalledTimes(1);
+          expect(taskQueue.remaining).toBe(1);
+        });
+      });
     });
 
     describe("error state", () => {
@@ -383,6 +561,12 @@ describe("capture-worker", () => {
         actor.send({ type: "CONNECT" });
         expect(actor.getSnapshot().value).toBe("connecting");
       });
+
+      it("should transition error → disconnecting on DRAIN (nothing held to wait for)", async () => {
+        const { actor } = await createErrorActor();
+        actor.send({ type: "DRAIN" });
+        expect(actor.getSnapshot().value).toBe("disconnecting");
+      });
     });
 
     describe("disconnecting state", () => {
@@ -419,7 +603,7 @@ describe("capture-worker", () => {
             timestamp: new Date().toISOString(),
             workerIndex: 0,
           };
-          actor.send({ type: "TASK_STARTED", task });
+          actor.send({ type: "TASK_STARTED", task, slot: 0 });
           actor.send({ type: "TASK_FAILED", task, result });
         }
 
@@ -453,7 +637,7 @@ describe("capture-worker", () => {
         expect(actor.getSnapshot().value).toEqual({ operational: "idle" });
       });
       const task = { taskId: "t1", labels: [], url: "https://example.com", retryCount: 0, captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false }, resetState: { cookies: true, pageContext: true }, requireSignature: false, enqueuedAt: "2024-01-01T00:00:00.000Z" };
-      actor.send({ type: "TASK_STARTED", task });
+      actor.send({ type: "TASK_STARTED", task, slot: 0 });
       expect(toWorkerHealth(actor.getSnapshot())).toBe("busy");
     });
 
@@ -513,7 +697,7 @@ describe("capture-worker", () => {
         expect(actor.getSnapshot().value).toEqual({ operational: "idle" });
       });
       const task = { taskId: "t1", labels: [], url: "https://example.com", retryCount: 0, captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false }, resetState: { cookies: true, pageContext: true }, requireSignature: false, enqueuedAt: "2024-01-01T00:00:00.000Z" };
-      actor.send({ type: "TASK_STARTED", task });
+      actor.send({ type: "TASK_STARTED", task, slot: 0 });
       expect(actor.getSnapshot().value).toEqual({ operational: "processing" });
       expect(isWorkerSettled(actor.getSnapshot())).toBe(true);
     });
@@ -628,10 +812,13 @@ describe("CaptureWorker class", () => {
     const runtime: WorkerRuntime = {
       client,
       taskQueue: new TaskQueue(),
+      resultSink: createRecordingSink(),
+      taskEvents: noopTaskEvents,
       pollIntervalMs: 50,
+      concurrency: 1,
     };
     const actor = createActor(captureWorkerMachine, {
-      input: { maxRetryCount: 2, runtime },
+      input: { maxRetryCount: 2, retryPolicy: DEFAULT_RETRY_POLICY, runtime },
     });
     actor.start();
     const worker = new CaptureWorker(actor, client);
@@ -680,10 +867,13 @@ describe("CaptureWorker class", () => {
       const runtime: WorkerRuntime = {
         client,
         taskQueue: new TaskQueue(),
+        resultSink: createRecordingSink(),
+        taskEvents: noopTaskEvents,
         pollIntervalMs: 50,
+        concurrency: 1,
       };
       const actor = createActor(captureWorkerMachine, {
-        input: { maxRetryCount: 2, runtime },
+        input: { maxRetryCount: 2, retryPolicy: DEFAULT_RETRY_POLICY, runtime },
       });
       actor.start();
       const worker = new CaptureWorker(actor, client);
@@ -749,6 +939,7 @@ describe("CaptureWorker class", () => {
       expect(info.processedCount).toBe(0);
       expect(info.errorCount).toBe(0);
       expect(info.errorHistory).toEqual([]);
+      expect(info.slots).toEqual([{ slot: 0 }]);
       expect(info.currentTask).toBeUndefined();
     });
 
@@ -775,7 +966,7 @@ describe("CaptureWorker class", () => {
         requireSignature: false,
         enqueuedAt: "2024-01-01T00:00:00.000Z",
       };
-      actor.send({ type: "TASK_STARTED", task });
+      actor.send({ type: "TASK_STARTED", task, slot: 0 });
 
       const info = worker.toInfo();
       expect(info.currentTask).toBeDefined();
@@ -784,6 +975,7 @@ describe("CaptureWorker class", () => {
       expect(info.currentTask?.startedAt).toMatch(
         /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/,
       );
+      expect(info.slots).toEqual([{ slot: 0, currentTask: info.currentTask }]);
     });
   });
 
@@ -4,6 +4,8 @@ import {
   coordinatorMachine,
   ALL_COORDINATOR_LIFECYCLES,
 } from "../../src/capture/coordinator-machine.js";
+import { captureWorkerMachine } from "../../src/capture/capture-worker.js";
+import type { WorkerLoopEvent } from "../../src/capture/worker-loop.js";
 
 /**
  * State value shape accepted by `machine.resolveState({ value })` for the
@@ -16,13 +18,16 @@ type LifecycleStateValue =
   | "shuttingDown"
   | "terminated"
   | { active: "running" | "degraded" };
-import type {
-  InitializeWorkersOutput,
+import {
+  initializeWorkers,
+  type InitializeWorkersOutput,
 } from "../../src/capture/coordinator-actors.js";
 import type {
   ShutdownFailure,
 } from "../../src/capture/coordinator-errors.js";
 import { TaskQueue } from "../../src/capture/task-queue.js";
+import { noopSink } from "../../src/capture/result-sink.js";
+import { noopTaskEvents } from "../../src/capture/task-events.js";
 import { ok, err, type Result } from "../../src/result.js";
 import {
   createTestArtifactStore,
@@ -33,6 +38,8 @@ import {
 const createTestInput = () => ({
   config: createTestCoordinatorConfig(),
   store: createTestArtifactStore(),
+  resultSink: noopSink,
+  taskEvents: noopTaskEvents,
 });
 
 const createTestContext = () => {
@@ -44,6 +51,8 @@ const createTestContext = () => {
     desiredMembers: config.browserProfiles,
     workers: [],
     spawnCount: 0,
+    resultSink: noopSink,
+    taskEvents: noopTaskEvents,
   };
 };
 
@@ -53,6 +62,7 @@ const hangingPromise = fromPromise<undefined>(
 );
 
 interface ActorOverrides {
+  captureWorker?: AnyActorLogic;
   initializeWorkers?: AnyActorLogic;
   shutdownWorkers?: AnyActorLogic;
   watchWorkerHealth?: AnyActorLogic;
@@ -68,6 +78,7 @@ const noopCallback = fromCallback(() => {
 const machineWith = (overrides: ActorOverrides = {}) =>
   coordinatorMachine.provide({
     actors: {
+      ...(overrides.captureWorker && { captureWorker: overrides.captureWorker as never }),
       initializeWorkers: (overrides.initializeWorkers ?? hangingPromise) as never,
       shutdownWorkers: (overrides.shutdownWorkers ?? hangingPromise) as never,
       watchWorkerHealth: (overrides.watchWorkerHealth ?? noopCallback) as never,
@@ -129,10 +140,7 @@ describe("coordinator-machine", () => {
         ];
         const machine = machineWith();
         const actor = createActor(machine, {
-          input: {
-            config: createTestCoordinatorConfig({ browserProfiles: [one, two] }),
-            store: createTestArtifactStore(),
-          },
+          input: { ...createTestInput(), config: createTestCoordinatorConfig({ browserProfiles: [one, two] }) },
         });
         actor.start();
         // Registry resolved only one of the two declared workers as present.
@@ -194,10 +202,7 @@ describe("coordinator-machine", () => {
         });
         // Start operational with a single member (chromium-1).
         const actor = createActor(machine, {
-          input: {
-            config: createTestCoordinatorConfig({ browserProfiles: [one] }),
-            store: createTestArtifactStore(),
-          },
+          input: { ...createTestInput(), config: createTestCoordinatorConfig({ browserProfiles: [one] }) },
         });
         actor.start();
         actor.send({ type: "SET_MEMBERS", members: [one] });
@@ -229,10 +234,7 @@ describe("coordinator-machine", () => {
           ),
         });
         const actor = createActor(machine, {
-          input: {
-            config: createTestCoordinatorConfig({ browserProfiles: [one, two] }),
-            store: createTestArtifactStore(),
-          },
+          input: { ...createTestInput(), config: createTestCoordinatorConfig({ browserProfiles: [one, two] }) },
         });
         actor.start();
         actor.send({ type: "SET_MEMBERS", members: [one, two] });
@@ -252,6 +254,97 @@ describe("coordinator-machine", () => {
         expect(hosts).toEqual(["chromium-1:9222"]);
       });
 
+      it("MEMBERSHIP_CHANGED replaces an idle worker whose capture settings changed", async () => {
+        const one = createTestBrowserProfile("http://chromium-1:9222/");
+        const edited = { ...one, capture: { ...one.capture, concurrency: 3 } };
+        const machine = machineWith({
+          initializeWorkers: fromPromise<InitializeWorkersOutput>(() =>
+            Promise.resolve({ allHealthy: true, failed: [] }),
+          ),
+        });
+        const actor = createActor(machine, {
+          input: { ...createTestInput(), config: createTestCoordinatorConfig({ browserProfiles: [one] }) },
+        });
+        actor.start();
+        actor.send({ type: "SET_MEMBERS", members: [one] });
+        actor.send({ type: "INITIALIZE" });
+        await vi.waitFor(() => {
+          expect(actor.getSnapshot().matches({ active: "running" })).toBe(true);
+        });
+        const [before] = actor.getSnapshot().context.workers;
+
+        // Same browser, new settings (an edited member list).
+        actor.send({ type: "MEMBERSHIP_CHANGED", members: [edited] });
+        await vi.waitFor(() => {
+          expect(actor.getSnapshot().matches({ active: "running" })).toBe(true);
+        });
+        const workers = actor.getSnapshot().context.workers;
+        expect(workers).toHaveLength(1);
+        expect(workers[0]).not.toBe(before);
+        expect(workers[0]?.profile.capture.concurrency).toBe(3);
+      });
+
+      it("MEMBERSHIP_CHANGED drains a busy worker whose capture settings changed, then replaces it", async () => {
+        const one = createTestBrowserProfile("http://chromium-1:9222/");
+        const edited = { ...one, capture: { ...one.capture, concurrency: 3 } };
+        const task = { taskId: "t1", labels: [], url: "https://example.com", retryCount: 0, captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false }, resetState: { cookies: true, pageContext: true }, requireSignature: false, enqueuedAt: "2024-01-01T00:00:00.000Z" };
+        // Workers that connect at once; the first loop starts `task` and
+        // holds it until the test reports it done.
+        const disconnectBrowser = vi.fn(() => Promise.resolve(ok()));
+        const loopStops: string[] = [];
+        let reportFirst: ((event: WorkerLoopEvent) => void) | undefined;
+        const machine = machineWith({
+          initializeWorkers,
+          captureWorker: captureWorkerMachine.provide({
+            actors: {
+              connectBrowser: fromPromise(() => Promise.resolve(ok())) as never,
+              disconnectBrowser: fromPromise(disconnectBrowser) as never,
+              workerLoop: fromCallback<{ type: "STOP_LOOP" }>(({ sendBack, receive }) => {
+                if (reportFirst === undefined) {
+                  reportFirst = sendBack;
+                  sendBack({ type: "TASK_STARTED", task, slot: 0 });
+                }
+                receive((event) => loopStops.push(event.type));
+              }) as never,
+            },
+          }),
+        });
+        const actor = createActor(machine, {
+          input: { ...createTestInput(), config: createTestCoordinatorConfig({ browserProfiles: [one] }) },
+        });
+        actor.start();
+        actor.send({ type: "SET_MEMBERS", members: [one] });
+        actor.send({ type: "INITIALIZE" });
+        await vi.waitFor(() => {
+          expect(actor.getSnapshot().matches({ active: "running" })).toBe(true);
+        });
+        const [before] = actor.getSnapshot().context.workers;
+        expect(before?.isProcessing).toBe(true);
+
+        // Edited while mid-capture: the old worker stops dequeuing but keeps
+        // the browser until its task reports.
+        actor.send({ type: "MEMBERSHIP_CHANGED", members: [edited] });
+        await vi.waitFor(() => {
+          expect(loopStops).toEqual(["STOP_LOOP"]);
+        });
+        expect(actor.getSnapshot().context.workers).toEqual([before]);
+        expect(disconnectBrowser).not.toHaveBeenCalled();
+
+        // No further MEMBERSHIP_CHANGED: the drain itself brings the replacement.
+        reportFirst?.({ type: "TASK_DONE", task, result: { task, status: "success", captureProcessingTimeMs: 1, timestamp: "2024-01-01T00:00:00.000Z", workerIndex: 0 } });
+        await vi.waitFor(() => {
+          expect(actor.getSnapshot().context.workers[0]).not.toBe(before);
+        });
+        await vi.waitFor(() => {
+          expect(actor.getSnapshot().matches({ active: "running" })).toBe(true);
+        });
+        const workers = actor.getSnapshot().context.workers;
+        expect(workers).toHaveLength(1);
+        expect(workers[0]?.profile.capture.concurrency).toBe(3);
+        expect(workers[0]?.isHealthy).toBe(true);
+        expect(disconnectBrowser).toHaveBeenCalledTimes(1);
+      });
+
       it("active.running → active.degraded via WORKER_DEGRADED", () => {
         const actor = actorAt({ active: "running" });
         expect(actor.getSnapshot().can({ type: "WORKER_DEGRADED" })).toBe(true);
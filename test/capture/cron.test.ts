@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { nextCronRun, parseCron, type CronExpression } from "../../src/capture/cron.js";
+
+const parsed = (expression: string): CronExpression => {
+  const result = parseCron(expression);
+  if (!result.ok) throw new Error(result.error);
+  return result.value;
+};
+
+const next = (expression: string, after: string): string | undefined => {
+  const at = nextCronRun(parsed(expression), Date.parse(after));
+  return at === undefined ? undefined : new Date(at).toISOString();
+};
+
+describe("parseCron", () => {
+  it("expands ranges, steps and lists", () => {
+    const cron = parsed("*/15 9-17/4 1,15 * 1-5");
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...cron.hours]).toEqual([9, 13, 17]);
+    expect([...cron.days]).toEqual([1, 15]);
+    expect(cron.months.size).toBe(12);
+    expect([...cron.weekdays]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("reads a start with a step as running to the end of the field", () => {
+    expect([...parsed("50/5 * * * *").minutes]).toEqual([50, 55]);
+  });
+
+  it("folds weekday 7 into Sunday", () => {
+    expect([...parsed("0 0 * * 7").weekdays]).toEqual([0]);
+  });
+
+  it.each([
+    ["0 0 * *", /5 fields/],
+    ["60 * * * *", /minute: 60 is outside/],
+    ["* * 0 * *", /day of month: 0 is outside/],
+    ["*/0 * * * *", /not a positive step/],
+    ["5-1 * * * *", /runs backwards/],
+    ["* * * JAN *", /month: "JAN" is not a number/],
+  ])("rejects %s", (expression, message) => {
+    const result = parseCron(expression);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toMatch(message);
+  });
+});
+
+describe("nextCronRun", () => {
+  it("returns the next matching minute, strictly after the given time", () => {
+    expect(next("0 3 * * *", "2026-03-10T03:00:00.000Z")).toBe("2026-03-11T03:00:00.000Z");
+    expect(next("0 3 * * *", "2026-03-10T02:59:59.999Z")).toBe("2026-03-10T03:00:00.000Z");
+  });
+
+  it("reads the expression in UTC", () => {
+    expect(next("30 * * * *", "2026-03-10T23:45:00.000Z")).toBe("2026-03-11T00:30:00.000Z");
+  });
+
+  it("rolls over months and years", () => {
+    expect(next("0 0 1 1 *", "2026-06-01T00:00:00.000Z")).toBe("2027-01-01T00:00:00.000Z");
+  });
+
+  // Traditional cron: with both day fields restricted, either one is enough.
+  it("runs on either the day of month or the weekday when both are given", () => {
+    // 2026-03-02 is a Monday.
+    expect(next("0 0 15 * 1", "2026-03-01T00:00:00.000Z")).toBe("2026-03-02T00:00:00.000Z");
+    expect(next("0 0 15 * 1", "2026-03-09T00:00:00.000Z")).toBe("2026-03-15T00:00:00.000Z");
+  });
+
+  it("waits for a leap day", () => {
+    expect(next("0 0 29 2 *", "2026-01-01T00:00:00.000Z")).toBe("2028-02-29T00:00:00.000Z");
+  });
+
+  it("returns undefined for a date that never exists", () => {
+    expect(next("0 0 31 2 *", "2026-01-01T00:00:00.000Z")).toBeUndefined();
+  });
+});
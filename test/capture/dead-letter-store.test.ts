@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import { DeadLetterStore } from "../../src/capture/dead-letter-store.js";
+import type { CaptureResult } from "../../src/capture/types.js";
+import { DEFAULT_RESET_STATE_OPTIONS } from "../../src/capture/reset-state.js";
+
+const createResult = (
+  taskId: string,
+  url = `https://example.com/${taskId}`,
+  overrides: Partial<CaptureResult> = {},
+): CaptureResult => ({
+  task: {
+    taskId,
+    labels: [],
+    url,
+    retryCount: 2,
+    captureFormats: { png: false, webp: false, html: false, links: false, mhtml: false, wacz: true },
+    resetState: DEFAULT_RESET_STATE_OPTIONS,
+    requireSignature: false,
+    enqueuedAt: "2024-01-01T00:00:00.000Z",
+  },
+  status: "failed",
+  errorDetails: { type: "connection", message: "socket hang up" },
+  captureProcessingTimeMs: 100,
+  timestamp: "2024-01-01T00:00:01.000Z",
+  workerIndex: 0,
+  ...overrides,
+});
+
+const ids = (results: CaptureResult[]): string[] => results.map((r) => r.task.taskId);
+
+describe("DeadLetterStore", () => {
+  it("keeps failures, timeouts and HTTP errors but not successes or cancellations", () => {
+    const store = new DeadLetterStore(10);
+    store.record(createResult("failed"));
+    store.record(createResult("timeout", undefined, { status: "timeout" }));
+    store.record(createResult("http", undefined, { status: "httpError" }));
+    store.record(createResult("ok", undefined, { status: "success" }));
+    store.record(createResult("cancelled", undefined, { status: "cancelled" }));
+
+    expect(store.size).toBe(3);
+    expect(store.get("ok")).toBeUndefined();
+    expect(store.get("cancelled")).toBeUndefined();
+  });
+
+  it("lists newest first", () => {
+    const store = new DeadLetterStore(10);
+    for (const id of ["t1", "t2", "t3"]) store.record(createResult(id));
+
+    expect(ids(store.list({ limit: 10 }).results)).toEqual(["t3", "t2", "t1"]);
+  });
+
+  it("evicts the oldest entry once capacity is exceeded", () => {
+    const store = new DeadLetterStore(2);
+    for (const id of ["t1", "t2", "t3"]) store.record(createResult(id));
+
+    expect(store.size).toBe(2);
+    expect(store.get("t1")).toBeUndefined();
+  });
+
+  it("keeps nothing when capacity is 0", () => {
+    const store = new DeadLetterStore(0);
+    store.record(createResult("t1"));
+    expect(store.size).toBe(0);
+  });
+
+  it("pages with nextCursor until the last page, which has none", () => {
+    const store = new DeadLetterStore(10);
+    for (const id of ["t1", "t2", "t3", "t4", "t5"]) store.record(createResult(id));
+
+    const first = store.list({ limit: 2 });
+    expect(ids(first.results)).toEqual(["t5", "t4"]);
+    expect(first.nextCursor).toBeDefined();
+
+    const second = store.list({ limit: 2, ...(first.nextCursor && { cursor: first.nextCursor }) });
+    expect(ids(second.results)).toEqual(["t3", "t2"]);
+
+    const last = store.list({ limit: 2, ...(second.nextCursor && { cursor: second.nextCursor }) });
+    expect(ids(last.results)).toEqual(["t1"]);
+    expect(last.nextCursor).toBeUndefined();
+  });
+
+  // The cursor is a sequence number, not a position: removing entries that
+  // were already listed must not make the next page skip any.
+  it("does not shift the next page when listed entries are deleted in between", () => {
+    const store = new DeadLetterStore(10);
+    for (const id of ["t1", "t2", "t3", "t4"]) store.record(createResult(id));
+
+    const first = store.list({ limit: 2 });
+    store.delete("t4");
+    store.delete("t3");
+    store.record(createResult("t5"));
+
+    const second = store.list({ limit: 2, ...(first.nextCursor && { cursor: first.nextCursor }) });
+    expect(ids(second.results)).toEqual(["t2", "t1"]);
+  });
+
+  it("filters by error type, treating a failure without details as internal", () => {
+    const store = new DeadLetterStore(10);
+    store.record(createResult("conn"));
+    store.record(
+      createResult("timeout", undefined, {
+        status: "timeout",
+        errorDetails: { type: "timeout", message: "navigation exceeded", timeoutMs: 30_000 },
+      }),
+    );
+    const bare = createResult("bare");
+    delete bare.errorDetails;
+    store.record(bare);
+
+    expect(ids(store.list({ limit: 10, errorType: "timeout" }).results)).toEqual(["timeout"]);
+    expect(ids(store.list({ limit: 10, errorType: "internal" }).results)).toEqual(["bare"]);
+  });
+
+  it("filters by host, subdomains included, case-insensitively", () => {
+    const store = new DeadLetterStore(10);
+    store.record(createResult("apex", "https://example.com/a"));
+    store.record(createResult("www", "https://www.example.com/b"));
+    store.record(createResult("other", "https://notexample.com/c"));
+
+    expect(ids(store.list({ limit: 10, host: "Example.com" }).results)).toEqual(["www", "apex"]);
+    expect(ids(store.list({ limit: 10, host: "www.example.com" }).results)).toEqual(["www"]);
+  });
+
+  it("forgets a task once deleted", () => {
+    const store = new DeadLetterStore(10);
+    store.record(createResult("t1"));
+
+    expect(store.delete("t1")).toBe(true);
+    expect(store.get("t1")).toBeUndefined();
+    expect(store.delete("t1")).toBe(false);
+  });
+});
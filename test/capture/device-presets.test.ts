@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import {
+  BUILTIN_DEVICE_PRESETS,
+  DEVICE_NAME_PATTERN,
+  parseDevicePresets,
+} from "../../src/capture/device-presets.js";
+
+const phone = {
+  viewport: { width: 360, height: 780 },
+  deviceScaleFactor: 3,
+  mobile: true,
+  hasTouch: true,
+  userAgent: "Mozilla/5.0 (Linux; Android 14; SM-S921B)",
+};
+
+describe("parseDevicePresets", () => {
+  it("reads name → preset, keeping the optional fields that are given", () => {
+    const result = parseDevicePresets(
+      JSON.stringify({
+        "galaxy-s24": {
+          ...phone,
+          platform: "Linux armv81",
+          userAgentMetadata: {
+            platform: "Android",
+            platformVersion: "14.0.0",
+            architecture: "",
+            model: "SM-S921B",
+            mobile: true,
+          },
+        },
+        "plain-phone": phone,
+      }),
+    );
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value["galaxy-s24"]?.userAgentMetadata?.model).toBe("SM-S921B");
+    expect(result.value["plain-phone"]).toEqual(phone);
+  });
+
+  it.each([
+    ["not JSON", "{", /^not valid JSON/],
+    ["not an object", "[]", /JSON object of name → preset/],
+    ["a bad name", JSON.stringify({ "my phone": phone }), /invalid preset name "my phone"/],
+    [
+      "a fractional width",
+      JSON.stringify({ p: { ...phone, viewport: { width: 360.5, height: 780 } } }),
+      /^p: viewport needs positive integer/,
+    ],
+    ["a zero ratio", JSON.stringify({ p: { ...phone, deviceScaleFactor: 0 } }), /^p: deviceScaleFactor/],
+    ["no userAgent", JSON.stringify({ p: { ...phone, userAgent: "" } }), /^p: userAgent is required/],
+    [
+      "client hints without a platform",
+      JSON.stringify({ p: { ...phone, userAgentMetadata: { model: "X" } } }),
+      /^p: userAgentMetadata/,
+    ],
+  ])("refuses %s", (_label, content, message) => {
+    const result = parseDevicePresets(content);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toMatch(message);
+  });
+});
+
+describe("BUILTIN_DEVICE_PRESETS", () => {
+  it("uses only names a request can send", () => {
+    expect(Object.keys(BUILTIN_DEVICE_PRESETS).every((name) => DEVICE_NAME_PATTERN.test(name))).toBe(
+      true,
+    );
+  });
+});
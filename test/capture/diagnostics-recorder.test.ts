@@ -0,0 +1,266 @@
+/**
+ * DiagnosticsRecorder unit tests.
+ *
+ * Same fake-session approach as the NetworkRecorder tests: an EventEmitter
+ * stands in for the CDPSession and the test emits the CDP events directly.
+ */
+import { describe, it, expect } from "vitest";
+import { EventEmitter } from "node:events";
+import type { CDPSession } from "puppeteer";
+import {
+  DiagnosticsRecorder,
+  MAX_DIAGNOSTICS_PER_KIND,
+} from "../../src/capture/diagnostics-recorder.js";
+
+type FakeSession = EventEmitter & { detach: () => Promise<void> };
+
+const makeFakeSession = (): FakeSession => {
+  const session = new EventEmitter() as FakeSession;
+  session.detach = () => Promise.resolve();
+  return session;
+};
+
+const startRecorder = (session: FakeSession): Promise<DiagnosticsRecorder> =>
+  DiagnosticsRecorder.startWithSession(session as unknown as CDPSession);
+
+const T0 = Date.parse("2026-03-10T00:00:00.000Z");
+
+const consoleCall = (type: string, ...texts: string[]) => ({
+  type,
+  args: texts.map((value) => ({ type: "string", value })),
+  executionContextId: 1,
+  timestamp: T0,
+});
+
+describe("DiagnosticsRecorder", () => {
+  it("records console calls with their source location and counts them by level", async () => {
+    const session = makeFakeSession();
+    const recorder = await startRecorder(session);
+
+    session.emit("Runtime.consoleAPICalled", {
+      ...consoleCall("error", "failed to load", "widget"),
+      stackTrace: {
+        callFrames: [
+          { functionName: "init", scriptId: "1", url: "https://example.com/app.js", lineNumber: 9, columnNumber: 4 },
+        ],
+      },
+    });
+    session.emit("Runtime.consoleAPICalled", consoleCall("warning", "deprecated"));
+    session.emit("Runtime.consoleAPICalled", {
+      ...consoleCall("log"),
+      args: [{ type: "number", value: 42, description: "42" }, { type: "undefined" }],
+    });
+    const file = await recorder.stop("task-1", "https://example.com/");
+
+    expect(file.console).toEqual([
+      {
+        at: "2026-03-10T00:00:00.000Z",
+        level: "error",
+        text: "failed to load widget",
+        url: "https://example.com/app.js",
+        line: 10,
+        column: 5,
+      },
+      { at: "2026-03-10T00:00:00.000Z", level: "warning", text: "deprecated" },
+      { at: "2026-03-10T00:00:00.000Z", level: "log", text: "42 undefined" },
+    ]);
+    expect(file.counts).toMatchObject({ consoleErrors: 1, consoleWarnings: 1, consoleOther: 1 });
+  });
+
+  it("leaves BrowserHive's own [bh] trace groups out, nested groups included", async () => {
+    const session = makeFakeSession();
+    const recorder = await startRecorder(session);
+
+    session.emit("Runtime.consoleAPICalled", consoleCall("startGroup", "[bh] interventions"));
+    session.emit("Runtime.consoleAPICalled", consoleCall("startGroup", "dismissBanners"));
+    session.emit("Runtime.consoleAPICalled", consoleCall("log", "removed #cookie"));
+    session.emit("Runtime.consoleAPICalled", consoleCall("endGroup"));
+    session.emit("Runtime.consoleAPICalled", consoleCall("log", "scrollbars hidden"));
+    session.emit("Runtime.consoleAPICalled", consoleCall("endGroup"));
+    session.emit("Runtime.consoleAPICalled", consoleCall("log", "page says hi"));
+    const file = await recorder.stop("task-1", "https://example.com/");
+
+    expect(file.console.map((entry) => entry.text)).toEqual(["page says hi"]);
+    expect(file.counts.consoleOther).toBe(1);
+  });
+
+  it("records uncaught exceptions with the message and stack", async () => {
+    const session = makeFakeSession();
+    const recorder = await startRecorder(session);
+
+    session.emit("Runtime.exceptionThrown", {
+      timestamp: T0,
+      exceptionDetails: {
+        exceptionId: 1,
+        text: "Uncaught",
+        lineNumber: 2,
+        columnNumber: 7,
+        url: "https://example.com/app.js",
+        exception: {
+          type: "object",
+          description: "TypeError: x is undefined\n    at boot (https://example.com/app.js:3:8)",
+        },
+        stackTrace: {
+          callFrames: [
+            { functionName: "boot", scriptId: "1", url: "https://example.com/app.js", lineNumber: 2, columnNumber: 7 },
+          ],
+        },
+      },
+    });
+    const file = await recorder.stop("task-1", "https://example.com/");
+
+    expect(file.exceptions).toEqual([
+      {
+        at: "2026-03-10T00:00:00.000Z",
+        message: "TypeError: x is undefined",
+        url: "https://example.com/app.js",
+        line: 3,
+        column: 8,
+        stack: [{ functionName: "boot", url: "https://example.com/app.js", line: 3, column: 8 }],
+      },
+    ]);
+    expect(file.counts.exceptions).toBe(1);
+  });
+
+  it("keeps Log entries except the network ones failedRequests already covers", async () => {
+    const session = makeFakeSession();
+    const recorder = await startRecorder(session);
+
+    session.emit("Log.entryAdded", {
+      entry: { source: "violation", level: "verbose", text: "'setTimeout' handler took 180ms", timestamp: T0 },
+    });
+    session.emit("Log.entryAdded", {
+      entry: { source: "network", level: "error", text: "Failed to load resource", timestamp: T0 },
+    });
+    const file = await recorder.stop("task-1", "https://example.com/");
+
+    expect(file.log).toEqual([
+      {
+        at: "2026-03-10T00:00:00.000Z",
+        source: "violation",
+        level: "verbose",
+        text: "'setTimeout' handler took 180ms",
+      },
+    ]);
+    expect(file.counts.logEntries).toBe(1);
+  });
+
+  it("records failed loads and error responses, but not requests the page cancelled", async () => {
+    const session = makeFakeSession();
+    const recorder = await startRecorder(session);
+
+    const send = (requestId: string, url: string) => {
+      session.emit("Network.requestWillBeSent", {
+        requestId,
+        timestamp: 100,
+        wallTime: T0 / 1000,
+        request: { url, method: "GET", headers: {} },
+      });
+    };
+    send("gone", "https://gone.example/app.js");
+    send("404", "https://example.com/missing.png");
+    send("abort", "https://example.com/poll");
+    session.emit("Network.loadingFailed", {
+      requestId: "gone",
+      timestamp: 100.5,
+      type: "Script",
+      errorText: "net::ERR_NAME_NOT_RESOLVED",
+    });
+    session.emit("Network.responseReceived", {
+      requestId: "404",
+      timestamp: 101,
+      type: "Image",
+      response: { url: "https://example.com/missing.png", status: 404 },
+    });
+    session.emit("Network.loadingFailed", {
+      requestId: "abort",
+      timestamp: 101,
+      type: "Fetch",
+      errorText: "net::ERR_ABORTED",
+      canceled: true,
+    });
+    const file = await recorder.stop("task-1", "https://example.com/");
+
+    expect(file.failedRequests).toEqual([
+      {
+        at: "2026-03-10T00:00:00.500Z",
+        url: "https://gone.example/app.js",
+        resourceType: "Script",
+        errorText: "net::ERR_NAME_NOT_RESOLVED",
+      },
+      {
+        at: "2026-03-10T00:00:01.000Z",
+        url: "https://example.com/missing.png",
+        resourceType: "Image",
+        status: 404,
+      },
+    ]);
+    expect(file.counts.failedRequests).toBe(2);
+  });
+
+  it("records CSP and mixed-content issues and ignores other audit issues", async () => {
+    const session = makeFakeSession();
+    const recorder = await startRecorder(session);
+
+    session.emit("Audits.issueAdded", {
+      issue: {
+        code: "ContentSecurityPolicyIssue",
+        details: {
+          contentSecurityPolicyIssueDetails: {
+            blockedURL: "https://evil.example/x.js",
+            violatedDirective: "script-src-elem",
+            isReportOnly: false,
+            contentSecurityPolicyViolationType: "kURLViolation",
+            sourceCodeLocation: { url: "https://example.com/", lineNumber: 11, columnNumber: 0 },
+          },
+        },
+      },
+    });
+    session.emit("Audits.issueAdded", {
+      issue: {
+        code: "MixedContentIssue",
+        details: {
+          mixedContentIssueDetails: {
+            resolutionStatus: "MixedContentAutomaticallyUpgraded",
+            insecureURL: "http://example.com/logo.png",
+            mainResourceURL: "https://example.com/",
+          },
+        },
+      },
+    });
+    session.emit("Audits.issueAdded", {
+      issue: { code: "QuirksModeIssue", details: {} },
+    });
+    const file = await recorder.stop("task-1", "https://example.com/");
+
+    expect(file.securityIssues).toMatchObject([
+      {
+        kind: "content-security-policy",
+        url: "https://evil.example/x.js",
+        detail: "script-src-elem",
+        reportOnly: false,
+        sourceUrl: "https://example.com/",
+        line: 12,
+      },
+      {
+        kind: "mixed-content",
+        url: "http://example.com/logo.png",
+        detail: "MixedContentAutomaticallyUpgraded",
+      },
+    ]);
+    expect(file.counts.securityIssues).toBe(2);
+  });
+
+  it("stops keeping entries at the cap but keeps counting", async () => {
+    const session = makeFakeSession();
+    const recorder = await startRecorder(session);
+
+    for (let i = 0; i < MAX_DIAGNOSTICS_PER_KIND + 5; i++) {
+      session.emit("Runtime.consoleAPICalled", consoleCall("error", `tick ${String(i)}`));
+    }
+    const file = await recorder.stop("task-1", "https://example.com/");
+
+    expect(file.console).toHaveLength(MAX_DIAGNOSTICS_PER_KIND);
+    expect(file.counts.consoleErrors).toBe(MAX_DIAGNOSTICS_PER_KIND + 5);
+  });
+});
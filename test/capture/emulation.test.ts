@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from "vitest";
+import type { Page } from "puppeteer";
+import {
+  applyEmulation,
+  clearEmulation,
+  resolveEmulationSpec,
+} from "../../src/capture/emulation.js";
+
+const buildSession = (send = vi.fn().mockResolvedValue({ identifier: "script-1" })) => ({
+  send,
+  detach: vi.fn().mockResolvedValue(undefined),
+});
+
+const pageWith = (session: ReturnType<typeof buildSession>): Page =>
+  ({ createCDPSession: vi.fn().mockResolvedValue(session) }) as unknown as Page;
+
+describe("resolveEmulationSpec", () => {
+  it("canonicalizes the locale and fills the geolocation accuracy", () => {
+    const result = resolveEmulationSpec({
+      locale: "ja-jp",
+      timezoneId: "Asia/Tokyo",
+      geolocation: { latitude: 35.68, longitude: 139.77 },
+    });
+
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        locale: "ja-JP",
+        timezoneId: "Asia/Tokyo",
+        geolocation: { latitude: 35.68, longitude: 139.77, accuracy: 0 },
+      },
+    });
+  });
+
+  it.each([
+    ["a malformed locale", { locale: "not_a-locale-at-all" }, /^emulation\.locale/],
+    ["an unknown time zone", { timezoneId: "Asia/Atlantis" }, /^emulation\.timezoneId: unknown/],
+  ])("refuses %s", (_label, spec, message) => {
+    const result = resolveEmulationSpec(spec);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toMatch(message);
+  });
+});
+
+describe("applyEmulation / clearEmulation", () => {
+  it("sends one override per field and takes each back off", async () => {
+    const session = buildSession();
+    const applied = await applyEmulation(pageWith(session), {
+      locale: "ja-JP",
+      timezoneId: "Asia/Tokyo",
+      colorScheme: "dark",
+      reducedMotion: "reduce",
+      geolocation: { latitude: 35.68, longitude: 139.77, accuracy: 10 },
+    });
+
+    expect(session.send).toHaveBeenCalledWith("Emulation.setLocaleOverride", { locale: "ja-JP" });
+    expect(session.send).toHaveBeenCalledWith("Emulation.setTimezoneOverride", {
+      timezoneId: "Asia/Tokyo",
+    });
+    expect(session.send).toHaveBeenCalledWith("Emulation.setEmulatedMedia", {
+      features: [
+        { name: "prefers-color-scheme", value: "dark" },
+        { name: "prefers-reduced-motion", value: "reduce" },
+      ],
+    });
+    expect(session.send).toHaveBeenCalledWith("Browser.grantPermissions", {
+      permissions: ["geolocation"],
+    });
+    expect(session.send).toHaveBeenCalledWith("Emulation.setGeolocationOverride", {
+      latitude: 35.68,
+      longitude: 139.77,
+      accuracy: 10,
+    });
+    expect(applied.languageScriptId).toBe("script-1");
+    expect(session.detach).not.toHaveBeenCalled();
+
+    session.send.mockClear();
+    await clearEmulation(applied);
+
+    expect(session.send.mock.calls).toEqual([
+      ["Emulation.setLocaleOverride", {}],
+      ["Page.removeScriptToEvaluateOnNewDocument", { identifier: "script-1" }],
+      ["Emulation.setTimezoneOverride", { timezoneId: "" }],
+      ["Emulation.setEmulatedMedia", { features: [] }],
+      ["Emulation.clearGeolocationOverride"],
+      ["Browser.resetPermissions"],
+    ]);
+    expect(session.detach).toHaveBeenCalledTimes(1);
+  });
+
+  it("touches only what was asked for", async () => {
+    const session = buildSession();
+
+    await clearEmulation(await applyEmulation(pageWith(session), { colorScheme: "light" }));
+
+    expect(session.send.mock.calls.map(([method]) => method as string)).toEqual([
+      "Emulation.setEmulatedMedia",
+      "Emulation.setEmulatedMedia",
+    ]);
+  });
+
+  // A slot's page lives in a context of its own; a grant without the id would
+  // land on the default context and leave the page asking.
+  it("grants and resets geolocation on the page's browser context", async () => {
+    const session = buildSession();
+    const applied = await applyEmulation(
+      pageWith(session),
+      { geolocation: { latitude: 35.68, longitude: 139.77, accuracy: 0 } },
+      "ctx-1",
+    );
+
+    expect(session.send).toHaveBeenCalledWith("Browser.grantPermissions", {
+      permissions: ["geolocation"],
+      browserContextId: "ctx-1",
+    });
+
+    await clearEmulation(applied);
+
+    expect(session.send).toHaveBeenLastCalledWith("Browser.resetPermissions", {
+      browserContextId: "ctx-1",
+    });
+  });
+
+  it("clears what it managed to set when a later override is refused", async () => {
+    const send = vi.fn((method: string) =>
+      method === "Emulation.setTimezoneOverride"
+        ? Promise.reject(new Error("Invalid timezone ID"))
+        : Promise.resolve({ identifier: "script-1" }),
+    );
+    const session = buildSession(send);
+
+    await expect(
+      applyEmulation(pageWith(session), { locale: "ja-JP", timezoneId: "Asia/Tokyo" }),
+    ).rejects.toThrow("Invalid timezone ID");
+    expect(send).toHaveBeenCalledWith("Emulation.setLocaleOverride", {});
+    expect(session.detach).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { buildHarLog, harTimings, toHarContent, toHarHeaders } from "../../src/capture/har.js";
+
+describe("harTimings", () => {
+  it("puts the whole duration in receive when there is no timing", () => {
+    expect(harTimings(undefined, 10, 10.25)).toEqual({
+      timings: { blocked: -1, dns: -1, connect: -1, send: 0, wait: 0, receive: 250, ssl: -1 },
+      time: 250,
+    });
+  });
+
+  it("marks phases a reused connection skipped as -1 and leaves them out of time", () => {
+    const { timings, time } = harTimings(
+      {
+        requestTime: 10,
+        proxyStart: -1,
+        proxyEnd: -1,
+        dnsStart: -1,
+        dnsEnd: -1,
+        connectStart: -1,
+        connectEnd: -1,
+        sslStart: -1,
+        sslEnd: -1,
+        workerStart: -1,
+        workerReady: -1,
+        workerFetchStart: -1,
+        workerRespondWithSettled: -1,
+        sendStart: 2,
+        sendEnd: 3,
+        pushStart: 0,
+        pushEnd: 0,
+        receiveHeadersStart: 20,
+        receiveHeadersEnd: 23,
+      },
+      10,
+      10.03,
+    );
+    expect(timings).toEqual({ blocked: 2, dns: -1, connect: -1, send: 1, wait: 20, receive: 7, ssl: -1 });
+    expect(time).toBe(30);
+  });
+});
+
+describe("toHarContent", () => {
+  it("keeps textual bodies as text and binary ones as base64", () => {
+    expect(toHarContent("application/json; charset=utf-8", Buffer.from("{}"), 2, undefined)).toEqual({
+      size: 2,
+      mimeType: "application/json; charset=utf-8",
+      text: "{}",
+    });
+    expect(toHarContent("image/png", Buffer.from([0x89, 0x50]), 2, undefined)).toEqual({
+      size: 2,
+      mimeType: "image/png",
+      text: "iVA=",
+      encoding: "base64",
+    });
+  });
+});
+
+describe("toHarHeaders", () => {
+  it("splits headers CDP joined with newlines", () => {
+    expect(toHarHeaders({ "set-cookie": "a=1\nb=2" })).toEqual([
+      { name: "set-cookie", value: "a=1" },
+      { name: "set-cookie", value: "b=2" },
+    ]);
+  });
+});
+
+describe("buildHarLog", () => {
+  it("orders entries by start time", () => {
+    const entry = (startedDateTime: string) =>
+      ({ startedDateTime }) as Parameters<typeof buildHarLog>[0]["entries"][number];
+    const log = buildHarLog(
+      {
+        pages: [],
+        entries: [entry("2026-03-10T00:00:02.000Z"), entry("2026-03-10T00:00:01.000Z")],
+      },
+      { name: "BrowserHive", version: "1.0.0" },
+    );
+    expect(log.log.version).toBe("1.2");
+    expect(log.log.entries.map((e) => e.startedDateTime)).toEqual([
+      "2026-03-10T00:00:01.000Z",
+      "2026-03-10T00:00:02.000Z",
+    ]);
+  });
+});
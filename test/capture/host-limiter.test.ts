@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { HostLimiter, registrableDomain } from "../../src/capture/host-limiter.js";
+import type { CaptureTask } from "../../src/capture/types.js";
+import { DEFAULT_RESET_STATE_OPTIONS } from "../../src/capture/reset-state.js";
+
+const createTask = (url: string): CaptureTask => ({
+  taskId: url,
+  labels: [],
+  url,
+  retryCount: 0,
+  captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false },
+  resetState: DEFAULT_RESET_STATE_OPTIONS,
+  requireSignature: false,
+  enqueuedAt: "2024-01-01T00:00:00.000Z",
+});
+
+describe("registrableDomain", () => {
+  it.each([
+    ["example.com", "example.com"],
+    ["www.Example.COM.", "example.com"],
+    ["a.b.c.example.org", "example.org"],
+    ["www.example.co.jp", "example.co.jp"],
+    ["shop.example.com.au", "example.com.au"],
+    ["news.bbc.co.uk", "bbc.co.uk"],
+    ["cdn.example.io", "example.io"],
+    ["localhost", "localhost"],
+    ["192.168.0.10", "192.168.0.10"],
+    ["[::1]", "[::1]"],
+  ])("%s → %s", (host, expected) => {
+    expect(registrableDomain(host)).toBe(expected);
+  });
+});
+
+describe("HostLimiter", () => {
+  const limits = { maxConcurrency: 2, minDelayMs: 0, overrides: {} };
+
+  it("counts every host of a site together", () => {
+    const limiter = new HostLimiter(limits);
+    limiter.start(createTask("https://www.example.com/1"), 0);
+    limiter.start(createTask("https://img.example.com/2"), 0);
+    expect(limiter.admits("example.com", 0)).toBe(false);
+    expect(limiter.admits("example.net", 0)).toBe(true);
+  });
+
+  it("is unlimited only when neither the defaults nor an override set a limit", () => {
+    expect(new HostLimiter({ maxConcurrency: 0, minDelayMs: 0, overrides: {} }).isUnlimited).toBe(true);
+    expect(
+      new HostLimiter({ maxConcurrency: 0, minDelayMs: 0, overrides: { "a.example": { minDelayMs: 500 } } })
+        .isUnlimited,
+    ).toBe(false);
+  });
+
+  it("forgets idle sites once enough have been seen", () => {
+    const limiter = new HostLimiter(limits);
+    for (let i = 0; i < 2000; i++) {
+      const task = createTask(`https://site${String(i)}.example/`);
+      limiter.start(task, 0);
+      limiter.finish(task);
+    }
+    expect(limiter.trackedSites).toBeLessThan(1024);
+  });
+});
@@ -14,6 +14,7 @@
  *   - loadingFailed → metadata record + stats bump
  *   - in-flight requests at stop() are recorded as incomplete metadata
  *   - redirect (requestWillBeSent w/ redirectResponse on same requestId)
+ *   - HAR pages / entries / timings built from the same events
  */
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { mkdtempSync, readFileSync, rmSync } from "node:fs";
@@ -251,6 +252,55 @@ describe("NetworkRecorder happy path", () => {
     const setCookieMatches = warc.match(/Set-Cookie: /g) ?? [];
     expect(setCookieMatches.length).toBe(2);
   });
+
+  it("redacts the named request headers, keeping the names and the response", async () => {
+    const path = join(tmpDir, "redacted.warc.gz");
+    const session = makeFakeSession();
+    const recorder = await startRecorder(
+      { ...baseOpts(path), redactHeaders: new Set(["cookie", "authorization", "x-api-key"]) },
+      session,
+    );
+
+    session.setBody("req-1", "ok");
+    session.emit("Network.requestWillBeSent", {
+      requestId: "req-1",
+      request: { url: "https://example.com/secure", method: "GET", headers: {} },
+    });
+    session.emit("Network.requestWillBeSentExtraInfo", {
+      requestId: "req-1",
+      headers: {
+        "User-Agent": "test",
+        Cookie: "session=abc123",
+        Authorization: "Basic dXNlcjpwYXNz",
+        "X-Api-Key": "k-123",
+      },
+    });
+    session.emit("Network.responseReceived", {
+      requestId: "req-1",
+      response: {
+        url: "https://example.com/secure",
+        status: 200,
+        statusText: "OK",
+        protocol: "http/1.1",
+        mimeType: "text/plain",
+        headers: { "Content-Type": "text/plain", "Set-Cookie": "id=1; Path=/" },
+        encodedDataLength: 2,
+      },
+    });
+    session.emit("Network.loadingFinished", { requestId: "req-1", encodedDataLength: 2 });
+
+    await new Promise<void>((resolve) => setImmediate(resolve));
+
+    await recorder.stop();
+    const warc = dumpWarc(path);
+    expect(warc).toContain("Cookie: [REDACTED]");
+    expect(warc).toContain("Authorization: [REDACTED]");
+    expect(warc).toContain("X-Api-Key: [REDACTED]");
+    expect(warc).toContain("User-Agent: test");
+    expect(warc).not.toMatch(/abc123|dXNlcjpwYXNz|k-123/);
+    // What the site sent back is the site's, and stays.
+    expect(warc).toContain("Set-Cookie: id=1; Path=/");
+  });
 });
 
 describe("NetworkRecorder filters", () => {
@@ -955,3 +1005,194 @@ describe("NetworkRecorder — certificate chains", () => {
     await expect(recorder.stop()).resolves.toBeDefined();
   });
 });
+
+describe("NetworkRecorder HAR", () => {
+  const timing = {
+    requestTime: 100,
+    proxyStart: -1,
+    proxyEnd: -1,
+    dnsStart: 1,
+    dnsEnd: 5,
+    connectStart: 5,
+    connectEnd: 20,
+    sslStart: 10,
+    sslEnd: 20,
+    workerStart: -1,
+    workerReady: -1,
+    workerFetchStart: -1,
+    workerRespondWithSettled: -1,
+    sendStart: 21,
+    sendEnd: 22,
+    pushStart: 0,
+    pushEnd: 0,
+    receiveHeadersStart: 60,
+    receiveHeadersEnd: 62,
+  };
+
+  const emitDocumentWithRedirect = (session: FakeSession): void => {
+    session.emit("Network.requestWillBeSent", {
+      requestId: "doc",
+      frameId: "main",
+      type: "Document",
+      timestamp: 100,
+      wallTime: 1_773_100_800,
+      request: { url: "https://example.com/a", method: "GET", headers: {} },
+    });
+    session.emit("Network.requestWillBeSent", {
+      requestId: "doc",
+      frameId: "main",
+      type: "Document",
+      timestamp: 100.1,
+      wallTime: 1_773_100_800.1,
+      request: { url: "https://example.com/b?x=1", method: "GET", headers: {} },
+      redirectResponse: {
+        url: "https://example.com/a",
+        status: 301,
+        statusText: "Moved Permanently",
+        protocol: "http/1.1",
+        mimeType: "",
+        headers: { Location: "/b?x=1" },
+        encodedDataLength: 0,
+        timing,
+      },
+    });
+    session.emit("Network.responseReceived", {
+      requestId: "doc",
+      response: {
+        url: "https://example.com/b?x=1",
+        status: 200,
+        statusText: "OK",
+        protocol: "h2",
+        mimeType: "text/html",
+        headers: { "content-type": "text/html" },
+        encodedDataLength: 100,
+        remoteIPAddress: "192.0.2.1",
+        timing: { ...timing, requestTime: 100.1 },
+      },
+    });
+    session.emit("Page.domContentEventFired", { timestamp: 100.5 });
+    session.emit("Page.loadEventFired", { timestamp: 101 });
+    session.emit("Network.loadingFinished", {
+      requestId: "doc",
+      timestamp: 100.2,
+      encodedDataLength: 18,
+    });
+  };
+
+  it("records a page and one entry per redirect hop, with timings", async () => {
+    const session = makeFakeSession();
+    session.setBody("doc", "<html>hello</html>");
+    const recorder = await startRecorder(
+      baseOpts(join(tmpDir, "har.warc.gz"), { har: { includeBodies: false } }),
+      session,
+    );
+
+    emitDocumentWithRedirect(session);
+    await new Promise<void>((resolve) => setImmediate(resolve));
+    const { har } = await recorder.stop();
+
+    expect(har?.pages).toEqual([
+      {
+        startedDateTime: "2026-03-10T00:00:00.000Z",
+        id: "page_1",
+        title: "https://example.com/a",
+        pageTimings: { onContentLoad: 500, onLoad: 1000 },
+      },
+    ]);
+    const [redirect, final] = har?.entries ?? [];
+    expect(redirect?.response).toMatchObject({
+      status: 301,
+      redirectURL: "https://example.com/b?x=1",
+    });
+    expect(final).toMatchObject({
+      pageref: "page_1",
+      serverIPAddress: "192.0.2.1",
+      _resourceType: "Document",
+      request: { queryString: [{ name: "x", value: "1" }] },
+      timings: { blocked: 1, dns: 4, connect: 15, ssl: 10, send: 1, wait: 40, receive: 38 },
+    });
+    expect(final?.time).toBe(99);
+    // Bodies stay out unless asked for.
+    expect(final?.response.content).toEqual({ size: 18, mimeType: "text/html" });
+  });
+
+  it("copies bodies when asked, and says why one is missing", async () => {
+    const session = makeFakeSession();
+    session.setBody("doc", "<html>hello</html>");
+    const recorder = await startRecorder(
+      baseOpts(join(tmpDir, "har-bodies.warc.gz"), {
+        har: { includeBodies: true },
+        filters: { blockUrlPatterns: [], skipContentTypes: ["image/"] },
+      }),
+      session,
+    );
+
+    emitDocumentWithRedirect(session);
+    session.emit("Network.requestWillBeSent", {
+      requestId: "img",
+      frameId: "main",
+      type: "Image",
+      timestamp: 100.3,
+      wallTime: 1_773_100_800.3,
+      request: { url: "https://example.com/logo.png", method: "GET", headers: {} },
+    });
+    session.emit("Network.responseReceived", {
+      requestId: "img",
+      response: {
+        url: "https://example.com/logo.png",
+        status: 200,
+        statusText: "OK",
+        protocol: "http/1.1",
+        mimeType: "image/png",
+        headers: {},
+        encodedDataLength: 10,
+      },
+    });
+    session.emit("Network.loadingFinished", { requestId: "img", timestamp: 100.4, encodedDataLength: 5000 });
+    await new Promise<void>((resolve) => setImmediate(resolve));
+    const { har } = await recorder.stop();
+
+    const byUrl = (url: string) => har?.entries.find((e) => e.request.url === url);
+    expect(byUrl("https://example.com/b?x=1")?.response.content.text).toBe("<html>hello</html>");
+    expect(byUrl("https://example.com/logo.png")?.response.content).toEqual({
+      size: 5000,
+      mimeType: "image/png",
+      comment: "body not recorded: content-type",
+    });
+  });
+
+  it("keeps a failed request as status 0 with the error", async () => {
+    const session = makeFakeSession();
+    const recorder = await startRecorder(
+      baseOpts(join(tmpDir, "har-failed.warc.gz"), { har: { includeBodies: false } }),
+      session,
+    );
+
+    session.emit("Network.requestWillBeSent", {
+      requestId: "gone",
+      type: "Script",
+      timestamp: 100,
+      wallTime: 1_773_100_800,
+      request: { url: "https://gone.example/app.js", method: "GET", headers: {} },
+    });
+    session.emit("Network.loadingFailed", {
+      requestId: "gone",
+      timestamp: 100.05,
+      type: "Script",
+      errorText: "net::ERR_NAME_NOT_RESOLVED",
+    });
+    await new Promise<void>((resolve) => setImmediate(resolve));
+    const { har } = await recorder.stop();
+
+    expect(har?.entries[0]?.response).toMatchObject({
+      status: 0,
+      _error: "net::ERR_NAME_NOT_RESOLVED",
+    });
+    expect(har?.entries[0]?.timings.receive).toBe(50);
+  });
+
+  it("returns no HAR unless asked", async () => {
+    const recorder = await startRecorder(baseOpts(join(tmpDir, "no-har.warc.gz")), makeFakeSession());
+    expect((await recorder.stop()).har).toBeUndefined();
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi } from "vitest";
+import type { CapturePage } from "../../src/capture/capture-page.js";
+import {
+  describePageAction,
+  resolvePageActions,
+  runPageActions,
+} from "../../src/capture/page-actions.js";
+
+interface MockPage {
+  waitForSelector: ReturnType<typeof vi.fn>;
+  click: ReturnType<typeof vi.fn>;
+  type: ReturnType<typeof vi.fn>;
+  select: ReturnType<typeof vi.fn>;
+  hover: ReturnType<typeof vi.fn>;
+  focus: ReturnType<typeof vi.fn>;
+  evaluate: ReturnType<typeof vi.fn>;
+  keyboard: { press: ReturnType<typeof vi.fn> };
+}
+
+const buildMockPage = (): MockPage => ({
+  waitForSelector: vi.fn().mockResolvedValue(null),
+  click: vi.fn().mockResolvedValue(undefined),
+  type: vi.fn().mockResolvedValue(undefined),
+  select: vi.fn().mockResolvedValue([]),
+  hover: vi.fn().mockResolvedValue(undefined),
+  focus: vi.fn().mockResolvedValue(undefined),
+  evaluate: vi.fn().mockResolvedValue(undefined),
+  keyboard: { press: vi.fn().mockResolvedValue(undefined) },
+});
+
+const asPage = (page: MockPage): CapturePage => page as unknown as CapturePage;
+
+const noPacing = { injectedMs: 0 };
+
+describe("runPageActions", () => {
+  it("waits for each target to be visible, then acts on it", async () => {
+    const page = buildMockPage();
+
+    const report = await runPageActions(
+      asPage(page),
+      resolvePageActions([
+        { type: "click", selector: "#tab-2", timeoutMs: 3_000 },
+        { type: "type", selector: "input[name=q]", text: "tokyo", delayMs: 20 },
+        { type: "select", selector: "select#region", values: ["jp", "kr"] },
+        { type: "hover", selector: ".menu" },
+        { type: "press", key: "Enter", selector: "input[name=q]" },
+      ]),
+      noPacing,
+    );
+
+    expect(page.waitForSelector).toHaveBeenNthCalledWith(1, "#tab-2", { visible: true, timeout: 3_000 });
+    expect(page.waitForSelector).toHaveBeenNthCalledWith(2, "input[name=q]", { visible: true, timeout: 10_000 });
+    expect(page.click).toHaveBeenCalledWith("#tab-2");
+    expect(page.type).toHaveBeenCalledWith("input[name=q]", "tokyo", { delay: 20 });
+    expect(page.select).toHaveBeenCalledWith("select#region", "jp", "kr");
+    expect(page.hover).toHaveBeenCalledWith(".menu");
+    expect(page.focus).toHaveBeenCalledWith("input[name=q]");
+    expect(page.keyboard.press).toHaveBeenCalledWith("Enter");
+    expect(report.completed).toBe(true);
+    expect(report.outcomes.every((o) => o.status === "ok")).toBe(true);
+  });
+
+  it("presses a key without focusing anything when no selector is given", async () => {
+    const page = buildMockPage();
+
+    await runPageActions(asPage(page), resolvePageActions([{ type: "press", key: "Escape" }]), noPacing);
+
+    expect(page.waitForSelector).not.toHaveBeenCalled();
+    expect(page.focus).not.toHaveBeenCalled();
+    expect(page.keyboard.press).toHaveBeenCalledWith("Escape");
+  });
+
+  it("waits for a selector to disappear with hidden: true", async () => {
+    const page = buildMockPage();
+
+    await runPageActions(
+      asPage(page),
+      resolvePageActions([{ type: "waitForSelector", selector: ".spinner", hidden: true }]),
+      noPacing,
+    );
+
+    expect(page.waitForSelector).toHaveBeenCalledWith(".spinner", { hidden: true, timeout: 10_000 });
+  });
+
+  it("reports what an evaluate step returned as JSON", async () => {
+    const page = buildMockPage();
+    page.evaluate.mockResolvedValueOnce({ items: 3 }).mockResolvedValueOnce(undefined);
+
+    const report = await runPageActions(
+      asPage(page),
+      resolvePageActions([
+        { type: "evaluate", expression: "({ items: document.querySelectorAll('li').length })" },
+        { type: "evaluate", expression: "window.scrollTo(0, 0)" },
+      ]),
+      noPacing,
+    );
+
+    expect(page.evaluate).toHaveBeenCalledWith("({ items: document.querySelectorAll('li').length })");
+    expect(report.outcomes[0]?.value).toBe('{"items":3}');
+    expect(report.outcomes[1]).not.toHaveProperty("value");
+  });
+
+  it("stops at the first failed step and skips the rest", async () => {
+    const page = buildMockPage();
+    page.click.mockRejectedValueOnce(new Error("Node is detached from document"));
+
+    const report = await runPageActions(
+      asPage(page),
+      resolvePageActions([
+        { type: "click", selector: "#tab-2" },
+        { type: "click", selector: "#tab-2 .more" },
+        { type: "scrollTo", selector: "#reviews" },
+      ]),
+      noPacing,
+    );
+
+    expect(report.completed).toBe(false);
+    expect(report.outcomes.map((o) => o.status)).toEqual(["failed", "skipped", "skipped"]);
+    expect(report.outcomes[0]?.error).toBe("Node is detached from document");
+    expect(report.outcomes[1]?.elapsedMs).toBe(0);
+    expect(page.click).toHaveBeenCalledTimes(1);
+    expect(page.evaluate).not.toHaveBeenCalled();
+  });
+
+  it("fails a step that outlasts its timeout", async () => {
+    const page = buildMockPage();
+    page.hover.mockReturnValue(new Promise(() => undefined));
+
+    const report = await runPageActions(
+      asPage(page),
+      resolvePageActions([{ type: "hover", selector: ".menu", timeoutMs: 100 }]),
+      noPacing,
+    );
+
+    expect(report.outcomes[0]).toMatchObject({ status: "failed", error: "Timeout: action hover .menu (100ms)" });
+  });
+});
+
+describe("describePageAction", () => {
+  it("describes a type step by length, never by the text typed", () => {
+    expect(describePageAction({ type: "type", selector: "#password", text: "hunter2" })).toBe(
+      "type #password (7 chars)",
+    );
+  });
+
+  it("shortens a long evaluate expression", () => {
+    const description = describePageAction({ type: "evaluate", expression: "x".repeat(200) });
+
+    expect(description).toBe(`evaluate ${"x".repeat(80)}…`);
+  });
+});
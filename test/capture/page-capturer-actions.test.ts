@@ -0,0 +1,141 @@
+/**
+ * PageCapturer integration test for `task.actions`.
+ *
+ * Ordering is read off `invocationCallOrder`: the steps must come after the
+ * banner dismissal's `evaluate` and before the behavior run's.
+ */
+import { describe, it, expect, vi } from "vitest";
+import type { Page } from "puppeteer";
+import { PageCapturer } from "../../src/capture/page-capturer.js";
+import type { CaptureTask } from "../../src/capture/types.js";
+import { createTestArtifactStore, createTestCaptureConfig } from "../helpers/config.js";
+import { DEFAULT_RESET_STATE_OPTIONS } from "../../src/capture/reset-state.js";
+import { DEFAULT_DISMISS_OPTIONS } from "../../src/capture/banner-dismisser.js";
+import { resolvePageActions } from "../../src/capture/page-actions.js";
+
+interface MockPage {
+  setViewport: ReturnType<typeof vi.fn>;
+  setCacheEnabled: ReturnType<typeof vi.fn>;
+  setUserAgent: ReturnType<typeof vi.fn>;
+  setExtraHTTPHeaders: ReturnType<typeof vi.fn>;
+  goto: ReturnType<typeof vi.fn>;
+  evaluate: ReturnType<typeof vi.fn>;
+  addStyleTag: ReturnType<typeof vi.fn>;
+  waitForSelector: ReturnType<typeof vi.fn>;
+  click: ReturnType<typeof vi.fn>;
+  waitForNetworkIdle: ReturnType<typeof vi.fn>;
+  createCDPSession: ReturnType<typeof vi.fn>;
+}
+
+const isBehaviorRun = (arg: unknown): boolean =>
+  arg !== null && typeof arg === "object" && "enabled" in arg;
+
+const buildMockPage = (): MockPage => ({
+  setViewport: vi.fn().mockResolvedValue(undefined),
+  setCacheEnabled: vi.fn().mockResolvedValue(undefined),
+  setUserAgent: vi.fn().mockResolvedValue(undefined),
+  setExtraHTTPHeaders: vi.fn().mockResolvedValue(undefined),
+  goto: vi.fn().mockResolvedValue({ status: () => 200, statusText: () => "OK" }),
+  evaluate: vi.fn().mockImplementation((_fn: unknown, arg?: unknown) =>
+    Promise.resolve(isBehaviorRun(arg) ? { ran: [], timedOut: false } : undefined),
+  ),
+  addStyleTag: vi.fn().mockResolvedValue(undefined),
+  waitForSelector: vi.fn().mockResolvedValue(null),
+  click: vi.fn().mockResolvedValue(undefined),
+  waitForNetworkIdle: vi.fn().mockResolvedValue(undefined),
+  createCDPSession: vi.fn().mockResolvedValue({
+    send: vi.fn().mockResolvedValue(undefined),
+    detach: vi.fn().mockResolvedValue(undefined),
+  }),
+});
+
+const asPage = (page: MockPage): Page => page as unknown as Page;
+
+const buildTask = (overrides: Partial<CaptureTask> = {}): CaptureTask => ({
+  taskId: "test-task",
+  labels: ["test"],
+  url: "https://example.com",
+  retryCount: 0,
+  captureFormats: { png: false, webp: false, html: false, links: false, mhtml: false, wacz: false },
+  resetState: DEFAULT_RESET_STATE_OPTIONS,
+  requireSignature: false,
+  enqueuedAt: "2024-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+/** `pageTrace` calls: evaluate with a `{ title, lines }` payload. */
+const traceTitles = (page: MockPage): string[] =>
+  page.evaluate.mock.calls
+    .map((call) => call[1] as { title?: unknown } | undefined)
+    .flatMap((payload) => (typeof payload?.title === "string" ? [payload.title] : []));
+
+describe("PageCapturer.capture — actions", () => {
+  it("runs the steps after banner dismissal and before the behaviors, and reports them", async () => {
+    const capturer = new PageCapturer(
+      createTestCaptureConfig({ behaviors: { builtins: ["autoscroll"] } }),
+      createTestArtifactStore(),
+    );
+    const page = buildMockPage();
+
+    const result = await capturer.capture(
+      asPage(page),
+      buildTask({
+        dismissOptions: DEFAULT_DISMISS_OPTIONS,
+        actions: resolvePageActions([{ type: "click", selector: "#tab-2" }]),
+      }),
+      0,
+    );
+
+    expect(page.click).toHaveBeenCalledWith("#tab-2");
+    const clickOrder = page.click.mock.invocationCallOrder[0] ?? 0;
+    const evaluateOrder = (match: (call: unknown[]) => boolean): number =>
+      page.evaluate.mock.invocationCallOrder[page.evaluate.mock.calls.findIndex(match)] ?? NaN;
+    // Dismissal is the evaluate of a source string; the behavior run the one
+    // whose argument carries `enabled`.
+    expect(evaluateOrder((call) => typeof call[0] === "string")).toBeLessThan(clickOrder);
+    expect(evaluateOrder((call) => isBehaviorRun(call[1]))).toBeGreaterThan(clickOrder);
+    expect(result.status).toBe("success");
+    expect(result.actions).toMatchObject({
+      completed: true,
+      outcomes: [{ action: "click #tab-2", status: "ok" }],
+    });
+  });
+
+  it("still captures the page when a step fails", async () => {
+    const capturer = new PageCapturer(createTestCaptureConfig(), createTestArtifactStore());
+    const page = buildMockPage();
+    page.click.mockRejectedValue(new Error("Node is not clickable"));
+
+    const result = await capturer.capture(
+      asPage(page),
+      buildTask({ actions: resolvePageActions([{ type: "click", selector: "#gone" }]) }),
+      0,
+    );
+
+    expect(result.status).toBe("success");
+    expect(result.actions?.completed).toBe(false);
+  });
+
+  it("traces the steps into the page console when trace is on", async () => {
+    const capturer = new PageCapturer(createTestCaptureConfig(), createTestArtifactStore());
+    const page = buildMockPage();
+
+    await capturer.capture(
+      asPage(page),
+      buildTask({ trace: true, actions: resolvePageActions([{ type: "click", selector: "#tab-2" }]) }),
+      0,
+    );
+
+    expect(traceTitles(page)).toContain("[bh] actions");
+  });
+
+  it("leaves the result without actions when the task has none", async () => {
+    const capturer = new PageCapturer(createTestCaptureConfig(), createTestArtifactStore());
+    const page = buildMockPage();
+
+    const result = await capturer.capture(asPage(page), buildTask(), 0);
+
+    expect(page.click).not.toHaveBeenCalled();
+    expect(result.actions).toBeUndefined();
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Cancellation of an in-flight capture (`DELETE /v1/captures/{taskId}`).
+ *
+ * `BrowserClient.cancel` aborts the signal passed to `PageCapturer.capture`.
+ * These tests pin what the capture does with it: a hanging navigation is
+ * interrupted rather than waited out, the result is `cancelled` (never a
+ * retryable failure), nothing is uploaded, and `resetPageState` still runs
+ * so the worker's next task gets a clean page.
+ */
+import { describe, it, expect, vi } from "vitest";
+import type { HTTPResponse, Page } from "puppeteer";
+import { PageCapturer } from "../../src/capture/page-capturer.js";
+import type { CaptureTask } from "../../src/capture/types.js";
+import {
+  createTestArtifactStore,
+  createTestCaptureConfig,
+} from "../helpers/config.js";
+import { DEFAULT_RESET_STATE_OPTIONS } from "../../src/capture/reset-state.js";
+
+const createTask = (overrides: Partial<CaptureTask> = {}): CaptureTask => ({
+  taskId: "test-uuid-1234",
+  labels: ["TestTask"],
+  url: "https://example.com",
+  retryCount: 0,
+  captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false },
+  resetState: DEFAULT_RESET_STATE_OPTIONS,
+  requireSignature: false,
+  enqueuedAt: "2024-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+const NEVER: Promise<never> = new Promise<never>(() => {
+  /* never resolves */
+});
+
+const buildMockPage = (
+  gotoHangs: boolean,
+): { page: Page; goto: ReturnType<typeof vi.fn>; screenshot: ReturnType<typeof vi.fn> } => {
+  const successResponse = {
+    status: () => 200,
+    statusText: () => "OK",
+  } as unknown as HTTPResponse;
+
+  const goto = vi.fn().mockImplementation((url: string) =>
+    gotoHangs && url !== "about:blank" ? NEVER : Promise.resolve(successResponse),
+  );
+  const screenshot = vi.fn().mockResolvedValue(Buffer.from("fake"));
+  const page = {
+    setViewport: vi.fn().mockResolvedValue(undefined),
+    setCacheEnabled: vi.fn().mockResolvedValue(undefined),
+    setUserAgent: vi.fn().mockResolvedValue(undefined),
+    setExtraHTTPHeaders: vi.fn().mockResolvedValue(undefined),
+    // The reset's `about:blank` must still go through after a hang.
+    goto,
+    evaluate: vi.fn().mockResolvedValue(undefined),
+    addStyleTag: vi.fn().mockResolvedValue(undefined),
+    screenshot,
+    content: vi.fn().mockResolvedValue("<html></html>"),
+    createCDPSession: vi.fn().mockResolvedValue({
+      send: vi.fn().mockResolvedValue(undefined),
+      detach: vi.fn().mockResolvedValue(undefined),
+    }),
+  } as unknown as Page;
+  return { page, goto, screenshot };
+};
+
+describe("PageCapturer.capture — cancellation", () => {
+  it("interrupts a hanging navigation and reports cancelled", async () => {
+    const store = createTestArtifactStore();
+    const capturer = new PageCapturer(createTestCaptureConfig(), store);
+    const { page, goto, screenshot } = buildMockPage(true);
+    const controller = new AbortController();
+
+    const resultPromise = capturer.capture(page, createTask(), 0, undefined, controller.signal);
+    // Let the capture reach the navigation before withdrawing it.
+    await vi.waitFor(() => {
+      expect(goto).toHaveBeenCalledWith("https://example.com", expect.anything());
+    });
+    controller.abort();
+
+    const result = await resultPromise;
+    expect(result.status).toBe("cancelled");
+    expect(result.errorDetails).toBeUndefined();
+    expect(screenshot).not.toHaveBeenCalled();
+    expect(store.puts).toHaveLength(0);
+    // Same cleanup as any other ending.
+    expect(goto).toHaveBeenCalledWith("about:blank");
+  });
+
+  it("does not start a capture whose signal is already aborted", async () => {
+    const capturer = new PageCapturer(createTestCaptureConfig(), createTestArtifactStore());
+    const { page, goto } = buildMockPage(false);
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await capturer.capture(page, createTask(), 0, undefined, controller.signal);
+
+    expect(result.status).toBe("cancelled");
+    expect(goto).not.toHaveBeenCalledWith("https://example.com", expect.anything());
+    expect(goto).toHaveBeenCalledWith("about:blank");
+  });
+});
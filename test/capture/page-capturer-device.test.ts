@@ -0,0 +1,131 @@
+/**
+ * PageCapturer integration test for `task.device`.
+ *
+ * The mapper has already moved the preset's size and ratio onto
+ * `task.viewport` / `task.deviceScaleFactor`; what is left to check here is
+ * the emulation itself and that none of it outlives the task.
+ */
+import { describe, it, expect, vi } from "vitest";
+import type { Page } from "puppeteer";
+import { PageCapturer } from "../../src/capture/page-capturer.js";
+import type { CaptureTask } from "../../src/capture/types.js";
+import { createTestArtifactStore, createTestCaptureConfig } from "../helpers/config.js";
+import { DEFAULT_RESET_STATE_OPTIONS } from "../../src/capture/reset-state.js";
+import {
+  BUILTIN_DEVICE_PRESETS,
+  toDeviceEmulation,
+} from "../../src/capture/device-presets.js";
+
+interface MockPage {
+  setViewport: ReturnType<typeof vi.fn>;
+  setCacheEnabled: ReturnType<typeof vi.fn>;
+  setUserAgent: ReturnType<typeof vi.fn>;
+  setExtraHTTPHeaders: ReturnType<typeof vi.fn>;
+  goto: ReturnType<typeof vi.fn>;
+  evaluate: ReturnType<typeof vi.fn>;
+  addStyleTag: ReturnType<typeof vi.fn>;
+  screenshot: ReturnType<typeof vi.fn>;
+  createCDPSession: ReturnType<typeof vi.fn>;
+}
+
+const buildMockPage = (): MockPage => ({
+  setViewport: vi.fn().mockResolvedValue(undefined),
+  setCacheEnabled: vi.fn().mockResolvedValue(undefined),
+  setUserAgent: vi.fn().mockResolvedValue(undefined),
+  setExtraHTTPHeaders: vi.fn().mockResolvedValue(undefined),
+  goto: vi.fn().mockResolvedValue({ status: () => 200, statusText: () => "OK" }),
+  evaluate: vi.fn().mockResolvedValue(undefined),
+  addStyleTag: vi.fn().mockResolvedValue(undefined),
+  screenshot: vi.fn().mockResolvedValue(Buffer.from("scr")),
+  createCDPSession: vi.fn().mockResolvedValue({
+    send: vi.fn().mockResolvedValue(undefined),
+    detach: vi.fn().mockResolvedValue(undefined),
+  }),
+});
+
+const asPage = (page: MockPage): Page => page as unknown as Page;
+
+const buildTask = (overrides: Partial<CaptureTask> = {}): CaptureTask => ({
+  taskId: "test-task",
+  labels: ["test"],
+  url: "https://example.com",
+  retryCount: 0,
+  captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false },
+  resetState: DEFAULT_RESET_STATE_OPTIONS,
+  requireSignature: false,
+  enqueuedAt: "2024-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+/** A task the way the request mapper leaves it for `device: name`. */
+const deviceTask = (name: string): CaptureTask => {
+  const preset = BUILTIN_DEVICE_PRESETS[name];
+  if (preset === undefined) throw new Error(`no built-in preset ${name}`);
+  return buildTask({
+    viewport: preset.viewport,
+    deviceScaleFactor: preset.deviceScaleFactor,
+    device: toDeviceEmulation(name, preset),
+  });
+};
+
+describe("PageCapturer.capture — device", () => {
+  it("emulates the preset's mobile layout, touch, user agent and client hints", async () => {
+    const capturer = new PageCapturer(createTestCaptureConfig(), createTestArtifactStore());
+    const page = buildMockPage();
+
+    const result = await capturer.capture(asPage(page), deviceTask("pixel-8"), 0);
+
+    expect(result.status).toBe("success");
+    expect(page.setViewport).toHaveBeenCalledWith({
+      width: 412,
+      height: 915,
+      deviceScaleFactor: 2.625,
+      isMobile: true,
+      hasTouch: true,
+    });
+    expect(page.setUserAgent).toHaveBeenNthCalledWith(1, {
+      userAgent: expect.stringContaining("Pixel 8") as string,
+      platform: "Linux armv81",
+      userAgentMetadata: expect.objectContaining({ platform: "Android", model: "Pixel 8" }) as object,
+    });
+  });
+
+  it("sends no client hints for a preset without them", async () => {
+    const capturer = new PageCapturer(createTestCaptureConfig(), createTestArtifactStore());
+    const page = buildMockPage();
+
+    await capturer.capture(asPage(page), deviceTask("iphone-15"), 0);
+
+    expect(page.setUserAgent.mock.calls[0]?.[0]).not.toHaveProperty("userAgentMetadata");
+  });
+
+  it("hands the page back with the server's user agent", async () => {
+    const configured = createTestCaptureConfig({ userAgent: "BrowserHive/1.0" });
+    const unconfigured = createTestCaptureConfig();
+
+    for (const [config, expected] of [
+      [configured, "BrowserHive/1.0"],
+      // The empty override: the browser's own, client hints included.
+      [unconfigured, ""],
+    ] as const) {
+      const page = buildMockPage();
+      await new PageCapturer(config, createTestArtifactStore()).capture(
+        asPage(page),
+        deviceTask("ipad"),
+        0,
+      );
+
+      expect(page.setUserAgent).toHaveBeenLastCalledWith({ userAgent: expected });
+    }
+  });
+
+  it("leaves the emulation alone for a task without a device", async () => {
+    const capturer = new PageCapturer(createTestCaptureConfig(), createTestArtifactStore());
+    const page = buildMockPage();
+
+    await capturer.capture(asPage(page), buildTask(), 0);
+
+    expect(page.setViewport.mock.calls[0]?.[0]).not.toHaveProperty("isMobile");
+    expect(page.setUserAgent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * PageCapturer integration test for the diagnostics format.
+ *
+ * The mock page hands out one EventEmitter-backed CDP session, so a console
+ * event emitted from `goto` arrives while the capture window is open — the
+ * same order a real page load would produce.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { EventEmitter } from "node:events";
+import type { Page } from "puppeteer";
+import type { CaptureTask } from "../../src/capture/types.js";
+import { PageCapturer } from "../../src/capture/page-capturer.js";
+import {
+  createTestArtifactStore,
+  createTestCaptureConfig,
+  type FakeArtifactStore,
+} from "../helpers/config.js";
+import { DEFAULT_RESET_STATE_OPTIONS } from "../../src/capture/reset-state.js";
+import type { DiagnosticsFile } from "../../src/capture/diagnostics-recorder.js";
+
+type MockCDPSession = EventEmitter & {
+  send: ReturnType<typeof vi.fn>;
+  detach: ReturnType<typeof vi.fn>;
+};
+
+const buildMockCDPSession = (): MockCDPSession => {
+  const session = new EventEmitter() as MockCDPSession;
+  session.send = vi.fn().mockResolvedValue(undefined);
+  session.detach = vi.fn().mockResolvedValue(undefined);
+  return session;
+};
+
+const buildMockPage = (cdpSession: MockCDPSession): Page =>
+  ({
+    setViewport: vi.fn().mockResolvedValue(undefined),
+    setCacheEnabled: vi.fn().mockResolvedValue(undefined),
+    setUserAgent: vi.fn().mockResolvedValue(undefined),
+    setExtraHTTPHeaders: vi.fn().mockResolvedValue(undefined),
+    goto: vi.fn().mockImplementation(() => {
+      cdpSession.emit("Runtime.consoleAPICalled", {
+        type: "error",
+        args: [{ type: "string", value: "boom" }],
+        executionContextId: 1,
+        timestamp: Date.parse("2026-03-10T00:00:00.000Z"),
+      });
+      return Promise.resolve({ status: () => 200, statusText: () => "OK" });
+    }),
+    evaluate: vi.fn().mockResolvedValue(undefined),
+    addStyleTag: vi.fn().mockResolvedValue(undefined),
+    content: vi.fn().mockResolvedValue("<html></html>"),
+    screenshot: vi.fn().mockResolvedValue(Buffer.from("scr")),
+    url: vi.fn().mockReturnValue("https://example.com/"),
+    createCDPSession: vi.fn().mockResolvedValue(cdpSession),
+  }) as unknown as Page;
+
+const buildTask = (overrides: Partial<CaptureTask> = {}): CaptureTask => ({
+  taskId: "test-task-id",
+  labels: ["test"],
+  url: "https://example.com",
+  retryCount: 0,
+  captureFormats: {
+    png: false,
+    webp: false,
+    html: false,
+    links: false,
+    mhtml: false,
+    diagnostics: true,
+    wacz: false,
+  },
+  resetState: DEFAULT_RESET_STATE_OPTIONS,
+  requireSignature: false,
+  enqueuedAt: "2024-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+describe("PageCapturer.capture — diagnostics", () => {
+  let store: FakeArtifactStore;
+
+  beforeEach(() => {
+    store = createTestArtifactStore("/tmp/out");
+  });
+
+  it("writes what the page logged and reports the counts", async () => {
+    const capturer = new PageCapturer(createTestCaptureConfig(), store);
+    const cdpSession = buildMockCDPSession();
+
+    const result = await capturer.capture(buildMockPage(cdpSession), buildTask(), 0);
+
+    expect(result.diagnosticsLocation).toBe("/tmp/out/test-task-id_test.diagnostics.json");
+    expect(result.diagnostics).toMatchObject({ consoleErrors: 1, exceptions: 0 });
+    const written = store.puts.find((p) => p.filename.endsWith(".diagnostics.json"));
+    expect(written?.contentType).toBe("application/json");
+    const file = JSON.parse(String(written?.body)) as DiagnosticsFile;
+    expect(file.taskId).toBe("test-task-id");
+    expect(file.console.map((entry) => entry.text)).toEqual(["boom"]);
+    expect(cdpSession.send).toHaveBeenCalledWith("Runtime.enable");
+    expect(cdpSession.detach).toHaveBeenCalled();
+  });
+
+  it("does not listen to the page when diagnostics is not requested", async () => {
+    const capturer = new PageCapturer(createTestCaptureConfig(), store);
+    const cdpSession = buildMockCDPSession();
+
+    const result = await capturer.capture(
+      buildMockPage(cdpSession),
+      buildTask({
+        captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false },
+      }),
+      0,
+    );
+
+    expect(result.diagnostics).toBeUndefined();
+    expect(cdpSession.send).not.toHaveBeenCalledWith("Runtime.enable");
+    expect(cdpSession.listenerCount("Runtime.consoleAPICalled")).toBe(0);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * PageCapturer integration test for PDF printing wiring.
+ *
+ * Same harness as the MHTML test: the in-memory FakeArtifactStore records
+ * each `put()`, and the mock CDP session's `send` is the assertion target
+ * for `Page.printToPDF`.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Page } from "puppeteer";
+import type { CaptureTask } from "../../src/capture/types.js";
+import { PageCapturer } from "../../src/capture/page-capturer.js";
+import {
+  createTestArtifactStore,
+  createTestCaptureConfig,
+  type FakeArtifactStore,
+} from "../helpers/config.js";
+import { DEFAULT_RESET_STATE_OPTIONS } from "../../src/capture/reset-state.js";
+import { resolvePdfSpec } from "../../src/capture/pdf-options.js";
+
+interface MockCDPSession {
+  send: ReturnType<typeof vi.fn>;
+  detach: ReturnType<typeof vi.fn>;
+}
+
+const FAKE_PDF = Buffer.from("%PDF-1.4\n%fake\n");
+
+const buildMockCDPSession = (): MockCDPSession => ({
+  send: vi.fn().mockImplementation((method: string) => {
+    if (method === "Page.printToPDF") {
+      return Promise.resolve({ data: FAKE_PDF.toString("base64") });
+    }
+    return Promise.resolve(undefined);
+  }),
+  detach: vi.fn().mockResolvedValue(undefined),
+});
+
+const buildMockPage = (cdpSession: MockCDPSession): Page =>
+  ({
+    setViewport: vi.fn().mockResolvedValue(undefined),
+    setCacheEnabled: vi.fn().mockResolvedValue(undefined),
+    setUserAgent: vi.fn().mockResolvedValue(undefined),
+    setExtraHTTPHeaders: vi.fn().mockResolvedValue(undefined),
+    goto: vi.fn().mockResolvedValue({
+      status: () => 200,
+      statusText: () => "OK",
+    }),
+    evaluate: vi.fn().mockResolvedValue(undefined),
+    addStyleTag: vi.fn().mockResolvedValue(undefined),
+    content: vi.fn().mockResolvedValue("<html></html>"),
+    screenshot: vi.fn().mockResolvedValue(Buffer.from("scr")),
+    url: vi.fn().mockReturnValue("https://example.com/"),
+    createCDPSession: vi.fn().mockResolvedValue(cdpSession),
+  }) as unknown as Page;
+
+const buildTask = (overrides: Partial<CaptureTask> = {}): CaptureTask => ({
+  taskId: "test-task-id",
+  labels: ["test"],
+  url: "https://example.com",
+  retryCount: 0,
+  captureFormats: { png: false, webp: false, html: false, links: false, mhtml: false, pdf: true, wacz: false },
+  pdfOptions: resolvePdfSpec(undefined),
+  resetState: DEFAULT_RESET_STATE_OPTIONS,
+  requireSignature: false,
+  enqueuedAt: "2024-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+const printCalls = (session: MockCDPSession): unknown[][] =>
+  session.send.mock.calls.filter((call) => call[0] === "Page.printToPDF");
+
+describe("PageCapturer.capture — PDF printing", () => {
+  let store: FakeArtifactStore;
+
+  beforeEach(() => {
+    store = createTestArtifactStore("/tmp/out");
+  });
+
+  it("writes the decoded PDF as application/pdf when captureFormats.pdf is true", async () => {
+    const capturer = new PageCapturer(createTestCaptureConfig(), store);
+    const cdpSession = buildMockCDPSession();
+
+    const result = await capturer.capture(buildMockPage(cdpSession), buildTask(), 0);
+
+    expect(result.pdfLocation).toBe("/tmp/out/test-task-id_test.pdf");
+    const written = store.puts.find((p) => p.filename.endsWith(".pdf"));
+    expect(written?.filename).toBe("test-task-id_test.pdf");
+    expect(written?.contentType).toBe("application/pdf");
+    expect(Buffer.isBuffer(written?.body) && written.body.equals(FAKE_PDF)).toBe(true);
+    expect(cdpSession.detach).toHaveBeenCalled();
+  });
+
+  it("passes the task's print settings to Page.printToPDF in inches", async () => {
+    const capturer = new PageCapturer(createTestCaptureConfig(), store);
+    const cdpSession = buildMockCDPSession();
+
+    await capturer.capture(
+      buildMockPage(cdpSession),
+      buildTask({
+        pdfOptions: resolvePdfSpec({
+          paperSize: "Letter",
+          landscape: true,
+          marginMm: { top: 25.4 },
+          printBackground: false,
+          preferCssPageSize: true,
+        }),
+      }),
+      0,
+    );
+
+    expect(printCalls(cdpSession)[0]?.[1]).toMatchObject({
+      paperWidth: 8.5,
+      paperHeight: 11,
+      landscape: true,
+      marginTop: 1,
+      printBackground: false,
+      preferCSSPageSize: true,
+    });
+  });
+
+  it("does not call Page.printToPDF when captureFormats.pdf is absent", async () => {
+    const capturer = new PageCapturer(createTestCaptureConfig(), store);
+    const cdpSession = buildMockCDPSession();
+
+    const result = await capturer.capture(
+      buildMockPage(cdpSession),
+      buildTask({
+        captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false },
+      }),
+      0,
+    );
+
+    expect(result.pdfLocation).toBeUndefined();
+    expect(printCalls(cdpSession)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * PageCapturer integration test for `task.screenshotOptions`.
+ *
+ * The in-page work (locating elements, hiding fixed ones) is one `evaluate`
+ * each; the mock tells them apart by their argument, and the assertions are
+ * on what reaches `page.screenshot` and the artifact store.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Page } from "puppeteer";
+import { PageCapturer } from "../../src/capture/page-capturer.js";
+import type { CaptureTask } from "../../src/capture/types.js";
+import {
+  createTestArtifactStore,
+  createTestCaptureConfig,
+  type FakeArtifactStore,
+} from "../helpers/config.js";
+import { DEFAULT_RESET_STATE_OPTIONS } from "../../src/capture/reset-state.js";
+import {
+  resolveScreenshotSpec,
+  type ScreenshotClip,
+} from "../../src/capture/screenshot-options.js";
+
+interface MockPage {
+  setViewport: ReturnType<typeof vi.fn>;
+  setCacheEnabled: ReturnType<typeof vi.fn>;
+  setUserAgent: ReturnType<typeof vi.fn>;
+  setExtraHTTPHeaders: ReturnType<typeof vi.fn>;
+  goto: ReturnType<typeof vi.fn>;
+  evaluate: ReturnType<typeof vi.fn>;
+  addStyleTag: ReturnType<typeof vi.fn>;
+  screenshot: ReturnType<typeof vi.fn>;
+  createCDPSession: ReturnType<typeof vi.fn>;
+}
+
+const ELEMENT_CLIPS: ScreenshotClip[] = [
+  { x: 0, y: 400, width: 800, height: 300 },
+  { x: 0, y: 900, width: 800, height: 250 },
+];
+
+const argHas = (arg: unknown, key: string): boolean =>
+  arg !== null && typeof arg === "object" && key in arg;
+
+const buildMockPage = (clips: ScreenshotClip[] = ELEMENT_CLIPS): MockPage => ({
+  setViewport: vi.fn().mockResolvedValue(undefined),
+  setCacheEnabled: vi.fn().mockResolvedValue(undefined),
+  setUserAgent: vi.fn().mockResolvedValue(undefined),
+  setExtraHTTPHeaders: vi.fn().mockResolvedValue(undefined),
+  goto: vi.fn().mockResolvedValue({ status: () => 200, statusText: () => "OK" }),
+  evaluate: vi.fn().mockImplementation((_fn: unknown, arg?: unknown) => {
+    if (argHas(arg, "maxElements")) return Promise.resolve(clips);
+    if (argHas(arg, "keepSelector")) return Promise.resolve(2);
+    return Promise.resolve(undefined);
+  }),
+  addStyleTag: vi.fn().mockResolvedValue(undefined),
+  screenshot: vi.fn().mockResolvedValue(Buffer.from("scr")),
+  createCDPSession: vi.fn().mockResolvedValue({
+    send: vi.fn().mockResolvedValue(undefined),
+    detach: vi.fn().mockResolvedValue(undefined),
+  }),
+});
+
+const asPage = (page: MockPage): Page => page as unknown as Page;
+
+const buildTask = (overrides: Partial<CaptureTask> = {}): CaptureTask => ({
+  taskId: "test-task-id",
+  labels: ["test"],
+  url: "https://example.com",
+  retryCount: 0,
+  captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false },
+  resetState: DEFAULT_RESET_STATE_OPTIONS,
+  requireSignature: false,
+  enqueuedAt: "2024-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+/** Index of the first evaluate call whose argument carries `key`. */
+const evaluateIndex = (page: MockPage, key: string): number =>
+  page.evaluate.mock.calls.findIndex((call) => argHas(call[1], key));
+
+describe("PageCapturer.capture — screenshot targets", () => {
+  let store: FakeArtifactStore;
+
+  beforeEach(() => {
+    store = createTestArtifactStore("/tmp/out");
+  });
+
+  it("photographs only the clip rectangle, overriding fullPage", async () => {
+    const capturer = new PageCapturer(createTestCaptureConfig(), store);
+    const page = buildMockPage();
+    const clip = { x: 10, y: 20, width: 300, height: 200 };
+
+    const result = await capturer.capture(
+      asPage(page),
+      buildTask({ fullPage: true, screenshotOptions: resolveScreenshotSpec({ clip }) }),
+      0,
+    );
+
+    expect(page.screenshot).toHaveBeenCalledWith({ clip, type: "png" });
+    expect(result.pngLocation).toBe("/tmp/out/test-task-id_test.png");
+    expect(result.pngElementLocations).toBeUndefined();
+  });
+
+  it("uploads one image per matched element with an index suffix", async () => {
+    const capturer = new PageCapturer(createTestCaptureConfig(), store);
+    const page = buildMockPage();
+
+    const result = await capturer.capture(
+      asPage(page),
+      buildTask({
+        screenshotOptions: resolveScreenshotSpec({ selector: "table.pricing", paddingPx: 8 }),
+      }),
+      0,
+    );
+
+    expect(page.evaluate.mock.calls[evaluateIndex(page, "maxElements")]?.[1]).toEqual({
+      selector: "table.pricing",
+      maxElements: 5,
+      paddingPx: 8,
+    });
+    expect(page.screenshot).toHaveBeenNthCalledWith(1, { clip: ELEMENT_CLIPS[0], type: "png" });
+    expect(page.screenshot).toHaveBeenNthCalledWith(2, { clip: ELEMENT_CLIPS[1], type: "png" });
+    expect(store.puts.map((p) => p.filename)).toEqual([
+      "test-task-id_test.1.png",
+      "test-task-id_test.2.png",
+    ]);
+    expect(result.pngElementLocations).toEqual([
+      "/tmp/out/test-task-id_test.1.png",
+      "/tmp/out/test-task-id_test.2.png",
+    ]);
+    expect(result.pngLocation).toBeUndefined();
+  });
+
+  it("fails the capture when the selector matches no rendered element", async () => {
+    const capturer = new PageCapturer(createTestCaptureConfig(), store);
+    const page = buildMockPage([]);
+
+    const result = await capturer.capture(
+      asPage(page),
+      buildTask({ screenshotOptions: resolveScreenshotSpec({ selector: "#missing" }) }),
+      0,
+    );
+
+    expect(result.status).toBe("failed");
+    expect(result.errorDetails?.message).toMatch(/#missing matched no rendered element/);
+    expect(page.screenshot).not.toHaveBeenCalled();
+  });
+
+  it("hides fixed elements around the screenshots and puts them back", async () => {
+    const capturer = new PageCapturer(createTestCaptureConfig(), store);
+    const page = buildMockPage();
+
+    await capturer.capture(
+      asPage(page),
+      buildTask({
+        screenshotOptions: resolveScreenshotSpec({
+          selector: "table.pricing",
+          hideFixedElements: true,
+        }),
+      }),
+      0,
+    );
+
+    const hideIndex = evaluateIndex(page, "keepSelector");
+    expect(page.evaluate.mock.calls[hideIndex]?.[1]).toMatchObject({ keepSelector: "table.pricing" });
+    const restoreIndex = page.evaluate.mock.calls.findIndex(
+      (call) => call[1] === "data-bh-hidden-fixed",
+    );
+    const hideOrder = page.evaluate.mock.invocationCallOrder[hideIndex] ?? NaN;
+    const restoreOrder = page.evaluate.mock.invocationCallOrder[restoreIndex] ?? NaN;
+    const screenshotOrders = page.screenshot.mock.invocationCallOrder;
+    expect(screenshotOrders.every((order) => order > hideOrder && order < restoreOrder)).toBe(true);
+  });
+
+  it("leaves fixed elements alone unless asked", async () => {
+    const capturer = new PageCapturer(createTestCaptureConfig(), store);
+    const page = buildMockPage();
+
+    await capturer.capture(
+      asPage(page),
+      buildTask({ screenshotOptions: resolveScreenshotSpec({ selector: "table.pricing" }) }),
+      0,
+    );
+
+    expect(evaluateIndex(page, "keepSelector")).toBe(-1);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * PageCapturer integration test for `task.viewports`.
+ *
+ * `loadsOf` counts navigations to the task URL (the state reset's
+ * `about:blank` is not one); `setViewport` calls after the pass's own one
+ * are the sweep's entries.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Page } from "puppeteer";
+import { PageCapturer } from "../../src/capture/page-capturer.js";
+import type { CaptureTask } from "../../src/capture/types.js";
+import {
+  createTestArtifactStore,
+  createTestCaptureConfig,
+  type FakeArtifactStore,
+} from "../helpers/config.js";
+import { DEFAULT_RESET_STATE_OPTIONS } from "../../src/capture/reset-state.js";
+import { resolveScreenshotSpec } from "../../src/capture/screenshot-options.js";
+
+interface MockPage {
+  setViewport: ReturnType<typeof vi.fn>;
+  setCacheEnabled: ReturnType<typeof vi.fn>;
+  setUserAgent: ReturnType<typeof vi.fn>;
+  setExtraHTTPHeaders: ReturnType<typeof vi.fn>;
+  goto: ReturnType<typeof vi.fn>;
+  evaluate: ReturnType<typeof vi.fn>;
+  addStyleTag: ReturnType<typeof vi.fn>;
+  screenshot: ReturnType<typeof vi.fn>;
+  waitForNetworkIdle: ReturnType<typeof vi.fn>;
+  createCDPSession: ReturnType<typeof vi.fn>;
+}
+
+const buildMockPage = (): MockPage => ({
+  setViewport: vi.fn().mockResolvedValue(undefined),
+  setCacheEnabled: vi.fn().mockResolvedValue(undefined),
+  setUserAgent: vi.fn().mockResolvedValue(undefined),
+  setExtraHTTPHeaders: vi.fn().mockResolvedValue(undefined),
+  goto: vi.fn().mockResolvedValue({ status: () => 200, statusText: () => "OK" }),
+  evaluate: vi.fn().mockResolvedValue(undefined),
+  addStyleTag: vi.fn().mockResolvedValue(undefined),
+  screenshot: vi.fn().mockResolvedValue(Buffer.from("scr")),
+  waitForNetworkIdle: vi.fn().mockResolvedValue(undefined),
+  createCDPSession: vi.fn().mockResolvedValue({
+    send: vi.fn().mockResolvedValue(undefined),
+    detach: vi.fn().mockResolvedValue(undefined),
+  }),
+});
+
+const asPage = (page: MockPage): Page => page as unknown as Page;
+
+const loadsOf = (page: MockPage): number =>
+  page.goto.mock.calls.filter((call) => call[0] === "https://example.com").length;
+
+const buildTask = (overrides: Partial<CaptureTask> = {}): CaptureTask => ({
+  taskId: "test-task-id",
+  labels: ["test"],
+  url: "https://example.com",
+  retryCount: 0,
+  captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false },
+  resetState: DEFAULT_RESET_STATE_OPTIONS,
+  requireSignature: false,
+  enqueuedAt: "2024-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+describe("PageCapturer.capture — viewports", () => {
+  let store: FakeArtifactStore;
+
+  beforeEach(() => {
+    store = createTestArtifactStore("/tmp/out");
+  });
+
+  it("resizes the loaded page per entry and names each screenshot after it", async () => {
+    const capturer = new PageCapturer(createTestCaptureConfig(), store);
+    const page = buildMockPage();
+
+    const result = await capturer.capture(
+      asPage(page),
+      buildTask({
+        captureFormats: { png: true, webp: true, html: false, links: false, mhtml: false, wacz: false },
+        viewports: [
+          { name: "tablet", width: 820, height: 1180 },
+          { name: "wide", width: 1920, height: 1080, deviceScaleFactor: 2 },
+        ],
+      }),
+      0,
+    );
+
+    expect(loadsOf(page)).toBe(1);
+    expect(page.setViewport).toHaveBeenNthCalledWith(2, {
+      width: 820,
+      height: 1180,
+      deviceScaleFactor: 1,
+      isMobile: false,
+      hasTouch: false,
+    });
+    expect(page.setViewport).toHaveBeenNthCalledWith(3, expect.objectContaining({ deviceScaleFactor: 2 }));
+    expect(store.puts.map((p) => p.filename)).toEqual([
+      "test-task-id_test.png",
+      "test-task-id_test.webp",
+      "test-task-id_test.tablet.png",
+      "test-task-id_test.tablet.webp",
+      "test-task-id_test.wide.png",
+      "test-task-id_test.wide.webp",
+    ]);
+    expect(result.viewportLocations).toEqual({
+      tablet: { png: "/tmp/out/test-task-id_test.tablet.png", webp: "/tmp/out/test-task-id_test.tablet.webp" },
+      wide: { png: "/tmp/out/test-task-id_test.wide.png", webp: "/tmp/out/test-task-id_test.wide.webp" },
+    });
+  });
+
+  it("fails an element screenshot target before loading rather than mixing image kinds", async () => {
+    const capturer = new PageCapturer(createTestCaptureConfig(), store);
+    const page = buildMockPage();
+
+    const result = await capturer.capture(
+      asPage(page),
+      buildTask({
+        screenshotOptions: resolveScreenshotSpec({ selector: "main" }),
+        viewports: [{ name: "tablet", width: 820, height: 1180 }],
+      }),
+      0,
+    );
+
+    expect(result.status).toBe("failed");
+    expect(result.errorDetails?.message).toBe(
+      "viewports cannot be combined with screenshot.selector",
+    );
+    expect(loadsOf(page)).toBe(0);
+    expect(store.puts).toEqual([]);
+  });
+
+  it("loads the page again for an entry with its own user agent, then restores the browser's", async () => {
+    const capturer = new PageCapturer(createTestCaptureConfig(), store);
+    const page = buildMockPage();
+
+    await capturer.capture(
+      asPage(page),
+      buildTask({
+        viewports: [{ name: "phone", width: 390, height: 844, userAgent: "PhoneUA/1.0" }],
+      }),
+      0,
+    );
+
+    expect(loadsOf(page)).toBe(2);
+    expect(page.setUserAgent.mock.calls).toEqual([
+      [{ userAgent: "PhoneUA/1.0" }],
+      // No device and none configured: the empty override, the browser's own.
+      [{ userAgent: "" }],
+    ]);
+  });
+
+  it("relies on setViewport's own reload when only mobile emulation changes", async () => {
+    const capturer = new PageCapturer(createTestCaptureConfig(), store);
+    const page = buildMockPage();
+
+    await capturer.capture(
+      asPage(page),
+      buildTask({ viewports: [{ name: "phone", width: 390, height: 844, mobile: true }] }),
+      0,
+    );
+
+    expect(loadsOf(page)).toBe(1);
+    expect(page.setViewport).toHaveBeenLastCalledWith(
+      expect.objectContaining({ isMobile: true, hasTouch: true }),
+    );
+    // Settled again like a fresh load: the scrollbar style is re-injected.
+    expect(page.addStyleTag).toHaveBeenCalledTimes(2);
+    expect(page.setUserAgent).not.toHaveBeenCalled();
+  });
+});
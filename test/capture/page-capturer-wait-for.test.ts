@@ -0,0 +1,117 @@
+/**
+ * PageCapturer integration test for `task.waitFor`.
+ *
+ * The fixed post-load sleep is the only evaluate whose argument is
+ * `DEFAULT_DYNAMIC_CONTENT_WAIT_MS`, so its absence from the evaluate calls
+ * is the signal that the conditions replaced it.
+ */
+import { describe, it, expect, vi } from "vitest";
+import { TimeoutError as PuppeteerTimeoutError, type Page } from "puppeteer";
+import { PageCapturer } from "../../src/capture/page-capturer.js";
+import type { CaptureTask } from "../../src/capture/types.js";
+import { createTestArtifactStore, createTestCaptureConfig } from "../helpers/config.js";
+import { DEFAULT_RESET_STATE_OPTIONS } from "../../src/capture/reset-state.js";
+import { resolveWaitForSpec } from "../../src/capture/wait-for.js";
+import { DEFAULT_DYNAMIC_CONTENT_WAIT_MS } from "../../src/config/index.js";
+
+interface MockPage {
+  setViewport: ReturnType<typeof vi.fn>;
+  setCacheEnabled: ReturnType<typeof vi.fn>;
+  setUserAgent: ReturnType<typeof vi.fn>;
+  setExtraHTTPHeaders: ReturnType<typeof vi.fn>;
+  goto: ReturnType<typeof vi.fn>;
+  evaluate: ReturnType<typeof vi.fn>;
+  addStyleTag: ReturnType<typeof vi.fn>;
+  waitForSelector: ReturnType<typeof vi.fn>;
+  createCDPSession: ReturnType<typeof vi.fn>;
+}
+
+const buildMockPage = (): MockPage => ({
+  setViewport: vi.fn().mockResolvedValue(undefined),
+  setCacheEnabled: vi.fn().mockResolvedValue(undefined),
+  setUserAgent: vi.fn().mockResolvedValue(undefined),
+  setExtraHTTPHeaders: vi.fn().mockResolvedValue(undefined),
+  goto: vi.fn().mockResolvedValue({ status: () => 200, statusText: () => "OK" }),
+  evaluate: vi.fn().mockResolvedValue(undefined),
+  addStyleTag: vi.fn().mockResolvedValue(undefined),
+  waitForSelector: vi.fn().mockResolvedValue(null),
+  createCDPSession: vi.fn().mockResolvedValue({
+    send: vi.fn().mockResolvedValue(undefined),
+    detach: vi.fn().mockResolvedValue(undefined),
+  }),
+});
+
+const asPage = (page: MockPage): Page => page as unknown as Page;
+
+const buildTask = (overrides: Partial<CaptureTask> = {}): CaptureTask => ({
+  taskId: "test-task",
+  labels: ["test"],
+  url: "https://example.com",
+  retryCount: 0,
+  captureFormats: { png: false, webp: false, html: false, links: false, mhtml: false, wacz: false },
+  resetState: DEFAULT_RESET_STATE_OPTIONS,
+  requireSignature: false,
+  enqueuedAt: "2024-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+const sleptFixedWait = (page: MockPage): boolean =>
+  page.evaluate.mock.calls.some((call) => call[1] === DEFAULT_DYNAMIC_CONTENT_WAIT_MS);
+
+describe("PageCapturer.capture — waitFor", () => {
+  const config = createTestCaptureConfig();
+
+  it("waits for the conditions instead of the fixed sleep and reports them", async () => {
+    const capturer = new PageCapturer(config, createTestArtifactStore());
+    const page = buildMockPage();
+
+    const result = await capturer.capture(
+      asPage(page),
+      buildTask({
+        waitFor: resolveWaitForSpec({ conditions: [{ type: "selectorVisible", selector: "#app" }] }),
+      }),
+      0,
+    );
+
+    expect(page.waitForSelector).toHaveBeenCalledWith("#app", { visible: true, timeout: 10_000 });
+    expect(sleptFixedWait(page)).toBe(false);
+    expect(result.waitFor).toMatchObject({
+      met: true,
+      outcomes: [{ condition: "selectorVisible #app", met: true }],
+    });
+  });
+
+  it("keeps the fixed sleep when the task has no waitFor", async () => {
+    const capturer = new PageCapturer(config, createTestArtifactStore());
+    const page = buildMockPage();
+
+    const result = await capturer.capture(asPage(page), buildTask(), 0);
+
+    expect(sleptFixedWait(page)).toBe(true);
+    expect(result.waitFor).toBeUndefined();
+  });
+
+  it("ends a strict capture as timeout when a condition is not met", async () => {
+    const capturer = new PageCapturer(config, createTestArtifactStore());
+    const page = buildMockPage();
+    page.waitForSelector.mockRejectedValue(new PuppeteerTimeoutError("Waiting failed: 10000ms exceeded"));
+
+    const result = await capturer.capture(
+      asPage(page),
+      buildTask({
+        waitFor: resolveWaitForSpec({
+          conditions: [{ type: "selectorVisible", selector: "#never" }],
+          strict: true,
+        }),
+      }),
+      0,
+    );
+
+    expect(result.status).toBe("timeout");
+    expect(result.errorDetails).toMatchObject({
+      type: "timeout",
+      message: "Timeout: waitFor selectorVisible #never (10000ms)",
+      timeoutMs: 10_000,
+    });
+  });
+});
@@ -19,7 +19,7 @@
  *     poisoned by a wedged reset.
  */
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import type { Page } from "puppeteer";
+import type { CDPSession, Page } from "puppeteer";
 import { resetPageState } from "../../src/capture/page-capturer.js";
 import type { ResetStateOptions } from "../../src/capture/reset-state.js";
 import { logger } from "../../src/logger.js";
@@ -161,4 +161,55 @@ describe("resetPageState", () => {
       expect(session.detach).not.toHaveBeenCalled();
     });
   });
+
+  describe("emulation", () => {
+    it("clears the task's emulation even when both axes are off", async () => {
+      const pageSession = buildSession();
+      const emulationSession = buildSession();
+      const page = buildPage(pageSession);
+
+      await resetPageState(
+        page as unknown as Page,
+        0,
+        { cookies: false, pageContext: false },
+        noPacing,
+        {
+          emulation: {
+            session: emulationSession as unknown as CDPSession,
+            options: { timezoneId: "Asia/Tokyo" },
+          },
+        },
+      );
+
+      expect(emulationSession.send).toHaveBeenCalledWith("Emulation.setTimezoneOverride", {
+        timezoneId: "",
+      });
+      expect(emulationSession.detach).toHaveBeenCalledTimes(1);
+      expect(page.createCDPSession).not.toHaveBeenCalled();
+    });
+
+    it("still resets cookies and the page when clearing the emulation fails", async () => {
+      const warnSpy = vi.spyOn(logger, "warn").mockImplementation(() => undefined);
+      const pageSession = buildSession();
+      const emulationSession = buildSession({
+        send: vi.fn().mockRejectedValue(new Error("Target closed")),
+      });
+      const page = buildPage(pageSession);
+
+      await resetPageState(page as unknown as Page, 3, FULL_RESET, noPacing, {
+        emulation: {
+          session: emulationSession as unknown as CDPSession,
+          options: { colorScheme: "dark" },
+        },
+      });
+
+      expect(emulationSession.detach).toHaveBeenCalledTimes(1);
+      expect(page.goto).toHaveBeenCalledWith("about:blank");
+      expect(pageSession.send).toHaveBeenCalledWith("Network.clearBrowserCookies");
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ workerIndex: 3 }),
+        "resetPageState emulation reset failed (best-effort, continuing)",
+      );
+    });
+  });
 });
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { parseProxies, resolveTaskProxy } from "../../src/capture/proxies.js";
+import type { CaptureTask } from "../../src/capture/types.js";
+import { DEFAULT_RESET_STATE_OPTIONS } from "../../src/capture/reset-state.js";
+
+const buildTask = (overrides: Partial<CaptureTask> = {}): CaptureTask => ({
+  taskId: "test-task",
+  labels: [],
+  url: "https://example.com",
+  retryCount: 0,
+  captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false },
+  resetState: DEFAULT_RESET_STATE_OPTIONS,
+  requireSignature: false,
+  enqueuedAt: "2024-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+describe("parseProxies", () => {
+  it("normalizes the server to its origin and keeps the rest", () => {
+    const result = parseProxies(
+      JSON.stringify({
+        egress: { server: "HTTP://Egress.Corp:3128/", username: "svc", password: "pw" },
+        "jp-exit": { server: "socks5://jp-exit:1080", bypass: ["*.internal", "<local>"] },
+      }),
+    );
+
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        egress: { server: "http://egress.corp:3128", username: "svc", password: "pw" },
+        "jp-exit": { server: "socks5://jp-exit:1080", bypass: ["*.internal", "<local>"] },
+      },
+    });
+  });
+
+  it.each([
+    ["a name with a space", { "jp exit": { server: "http://p:1" } }, /invalid proxy name/],
+    ["no server", { p: {} }, /p: server is required/],
+    ["credentials in the URL", { p: { server: "http://u:pw@p:1" } }, /not in server/],
+    ["a path", { p: { server: "http://p:1/pac" } }, /takes no path/],
+    ["a username alone", { p: { server: "http://p:1", username: "u" } }, /go together/],
+    [
+      "credentials for SOCKS",
+      { p: { server: "socks5://p:1", username: "u", password: "pw" } },
+      /cannot authenticate to a SOCKS proxy/,
+    ],
+    ["a bypass that is not a list", { p: { server: "http://p:1", bypass: "<local>" } }, /bypass/],
+  ])("refuses %s", (_label, content, message) => {
+    const result = parseProxies(JSON.stringify(content));
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toMatch(message);
+  });
+});
+
+describe("resolveTaskProxy", () => {
+  const config = {
+    proxies: {
+      egress: { server: "http://egress:3128", username: "svc", password: "pw" },
+      "jp-exit": { server: "socks5://jp-exit:1080" },
+    },
+    defaultProxy: "egress",
+  };
+
+  it("prefers the task's proxy, then the default, then none", () => {
+    expect(resolveTaskProxy(buildTask({ proxy: "jp-exit" }), config)).toEqual({
+      ok: true,
+      value: { name: "jp-exit", definition: { server: "socks5://jp-exit:1080" } },
+    });
+    expect(resolveTaskProxy(buildTask(), config)).toMatchObject({
+      ok: true,
+      value: { name: "egress" },
+    });
+    expect(resolveTaskProxy(buildTask(), { proxies: config.proxies })).toEqual({
+      ok: true,
+      value: undefined,
+    });
+  });
+
+  // A journaled or scheduled task can come back after the file changed.
+  it("fails a task whose proxy this worker does not have", () => {
+    const result = resolveTaskProxy(buildTask({ proxy: "us-exit" }), config);
+
+    expect(result).toEqual({ ok: false, error: "proxy us-exit is not configured on this worker" });
+  });
+
+  it("does not resolve a name to an Object.prototype member", () => {
+    const result = resolveTaskProxy(buildTask({ proxy: "constructor" }), config);
+
+    expect(result).toEqual({
+      ok: false,
+      error: "proxy constructor is not configured on this worker",
+    });
+  });
+
+  it("fails httpAuth beside a proxy that authenticates", () => {
+    const result = resolveTaskProxy(
+      buildTask({ credentials: { httpAuth: { username: "u", password: "p" } } }),
+      config,
+    );
+
+    expect(result.ok).toBe(false);
+  });
+});
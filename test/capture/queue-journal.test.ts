@@ -0,0 +1,217 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { appendFileSync, mkdtempSync, readFileSync, rmSync, statSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  JournaledTaskQueue,
+  QUEUE_JOURNAL_FILE,
+  QueueJournal,
+  replayQueueJournal,
+  type QueueJournalRecord,
+} from "../../src/capture/queue-journal.js";
+import type { CaptureTask } from "../../src/capture/types.js";
+import { DEFAULT_RESET_STATE_OPTIONS } from "../../src/capture/reset-state.js";
+import type { Logger } from "../../src/logger.js";
+
+const createTask = (taskId: string, overrides: Partial<CaptureTask> = {}): CaptureTask => ({
+  taskId,
+  labels: [],
+  url: `https://example.com/${taskId}`,
+  retryCount: 0,
+  captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false },
+  resetState: DEFAULT_RESET_STATE_OPTIONS,
+  requireSignature: false,
+  enqueuedAt: "2024-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+const lines = (...records: QueueJournalRecord[]): string[] =>
+  records.map((record) => JSON.stringify(record));
+
+const createLogger = (): Logger =>
+  ({
+    error: () => undefined,
+    warn: () => undefined,
+    info: () => undefined,
+  }) as unknown as Logger;
+
+describe("replayQueueJournal", () => {
+  it("keeps pending tasks in order and drops finished ones", () => {
+    const replayed = replayQueueJournal(
+      lines(
+        { op: "enqueue", task: createTask("a") },
+        { op: "enqueue", task: createTask("b") },
+        { op: "enqueue", task: createTask("c") },
+        { op: "dequeue", taskId: "a" },
+        { op: "finish", taskId: "a" },
+      ),
+    );
+    expect(replayed.tasks.map((t) => t.taskId)).toEqual(["b", "c"]);
+    expect(replayed.interrupted).toBe(0);
+  });
+
+  it("moves a requeued task to the back with its retry counted", () => {
+    const replayed = replayQueueJournal(
+      lines(
+        { op: "enqueue", task: createTask("a") },
+        { op: "enqueue", task: createTask("b") },
+        { op: "dequeue", taskId: "a" },
+        { op: "requeue", taskId: "a" },
+      ),
+    );
+    expect(replayed.tasks.map((t) => [t.taskId, t.retryCount])).toEqual([
+      ["b", 0],
+      ["a", 1],
+    ]);
+  });
+
+  it("keeps the backoff a requeue was given", () => {
+    const notBefore = "2030-01-01T00:00:00.000Z";
+    const replayed = replayQueueJournal(
+      lines(
+        { op: "enqueue", task: createTask("a") },
+        { op: "dequeue", taskId: "a" },
+        { op: "requeue", taskId: "a", notBefore },
+      ),
+    );
+    expect(replayed.tasks).toEqual([{ ...createTask("a"), retryCount: 1, notBefore }]);
+  });
+
+  it("returns interrupted tasks as retries, keeping their age and correlation id", () => {
+    const task = createTask("a", { correlationId: "batch-7", retryCount: 1 });
+    const replayed = replayQueueJournal(
+      lines({ op: "enqueue", task }, { op: "dequeue", taskId: "a" }),
+    );
+    expect(replayed.interrupted).toBe(1);
+    expect(replayed.tasks).toEqual([{ ...task, retryCount: 2 }]);
+  });
+
+  it("skips a torn last line", () => {
+    const replayed = replayQueueJournal([
+      ...lines({ op: "enqueue", task: createTask("a") }),
+      '{"op":"enqueue","task":{"taskId":"b"',
+    ]);
+    expect(replayed.tasks.map((t) => t.taskId)).toEqual(["a"]);
+    expect(replayed.skipped).toBe(1);
+  });
+});
+
+describe("JournaledTaskQueue", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "bh-queue-journal-test-"));
+  });
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** A queue as a fresh process would build it from `dir`. */
+  const boot = async (maxRetryCount = 3) => {
+    const journal = new QueueJournal(dir, createLogger());
+    const replayed = await journal.recover();
+    const queue = new JournaledTaskQueue(journal);
+    const exhausted = queue.restore(replayed.tasks, maxRetryCount);
+    return { journal, queue, replayed, exhausted };
+  };
+
+  it("starts empty when there is no journal yet", async () => {
+    const { queue, journal } = await boot();
+    expect(queue.remaining).toBe(0);
+    journal.close();
+  });
+
+  it("brings back pending and in-flight work after a crash", async () => {
+    const first = await boot();
+    first.queue.enqueueAll([
+      createTask("a", { correlationId: "batch-1" }),
+      createTask("b"),
+      createTask("c"),
+    ]);
+    first.queue.dequeue(); // a: in flight
+    const b = first.queue.dequeue()!;
+    first.queue.markComplete(b.taskId, "succeeded");
+    // No close(): the process died.
+
+    const second = await boot();
+    expect(second.replayed.interrupted).toBe(1);
+    expect(second.queue.peekPending(10)).toEqual([
+      { ...createTask("a", { correlationId: "batch-1" }), retryCount: 1 },
+      createTask("c"),
+    ]);
+    second.journal.close();
+  });
+
+  // Otherwise /v1/status would count fewer failures than the manifests show.
+  it("counts a task interrupted on its last retry as failed, not queued", async () => {
+    const first = await boot();
+    first.queue.enqueueAll([createTask("a", { retryCount: 1 }), createTask("b")]);
+    first.queue.dequeue(); // a: in flight on its last retry
+    // No close(): the process died.
+
+    const second = await boot(1);
+    expect(second.exhausted.map((t) => t.taskId)).toEqual(["a"]);
+    expect(second.queue.peekPending(10).map((t) => t.taskId)).toEqual(["b"]);
+    expect(second.queue.getStatus()).toMatchObject({ pending: 1, processing: 0, failed: 1 });
+    second.journal.close();
+
+    const third = await boot(1);
+    expect(third.queue.peekPending(10).map((t) => t.taskId)).toEqual(["b"]);
+    third.journal.close();
+  });
+
+  it("brings a backed-off retry back still waiting", async () => {
+    const first = await boot();
+    first.queue.enqueue(createTask("a"));
+    first.queue.requeue(first.queue.dequeue()!, 60_000);
+    first.journal.close();
+
+    const second = await boot();
+    expect(second.queue.remaining).toBe(1);
+    expect(second.queue.dequeue()).toBeUndefined();
+    second.journal.close();
+  });
+
+  it("journals a cancelled task as gone", async () => {
+    const first = await boot();
+    first.queue.enqueue(createTask("a"));
+    first.queue.remove("a");
+    first.journal.close();
+
+    const second = await boot();
+    expect(second.queue.remaining).toBe(0);
+    second.journal.close();
+  });
+
+  it("rewrites the journal to the surviving tasks at boot", async () => {
+    const first = await boot();
+    for (const id of ["a", "b", "c"]) first.queue.enqueue(createTask(id));
+    for (let i = 0; i < 2; i++) {
+      const task = first.queue.dequeue()!;
+      first.queue.markComplete(task.taskId, "failed");
+    }
+    first.journal.close();
+
+    const second = await boot();
+    const path = join(dir, QUEUE_JOURNAL_FILE);
+    expect(readFileSync(path, "utf-8").trim().split("\n")).toHaveLength(1);
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+    second.journal.close();
+  });
+
+  it("keeps appending to the rewritten journal", async () => {
+    const first = await boot();
+    first.queue.enqueue(createTask("a"));
+    first.journal.close();
+
+    const second = await boot();
+    second.queue.enqueue(createTask("b"));
+    second.journal.close();
+    appendFileSync(join(dir, QUEUE_JOURNAL_FILE), "{torn");
+
+    const third = await boot();
+    expect(third.queue.peekPending(10).map((t) => t.taskId)).toEqual(["a", "b"]);
+    expect(third.replayed.skipped).toBe(1);
+    third.journal.close();
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, vi } from "vitest";
+import type { Page } from "puppeteer";
+import {
+  installRequestCredentials,
+  redactedHeaderSet,
+  redactHeaders,
+  removeRequestCredentials,
+  resolveRequestCredentials,
+} from "../../src/capture/request-credentials.js";
+
+const TASK_URL = "https://example.com/members";
+
+describe("resolveRequestCredentials", () => {
+  it("is undefined when the request brought none", () => {
+    expect(resolveRequestCredentials({}, TASK_URL, undefined)).toEqual({ ok: true, value: undefined });
+  });
+
+  it("sets a cookie without a domain against the capture URL", () => {
+    const result = resolveRequestCredentials(
+      { cookies: [{ name: "sid", value: "1" }, { name: "pref", value: "2", domain: ".example.com" }] },
+      TASK_URL,
+      undefined,
+    );
+
+    expect(result.ok && result.value?.cookies).toEqual([
+      { name: "sid", value: "1", url: TASK_URL },
+      { name: "pref", value: "2", domain: ".example.com" },
+    ]);
+  });
+
+  it.each([
+    ["Cookie", { extraHeaders: { Cookie: "a=1" } }, undefined, /Cookie cannot be set here \(use cookies\)/],
+    [
+      "Authorization beside httpAuth",
+      { extraHeaders: { authorization: "Bearer x" }, httpAuth: { username: "u", password: "p" } },
+      undefined,
+      /cannot be combined with httpAuth/,
+    ],
+    [
+      "Accept-Language beside acceptLanguage",
+      { extraHeaders: { "Accept-Language": "ja" } },
+      "en",
+      /cannot be combined with acceptLanguage/,
+    ],
+    [
+      "a header given twice",
+      { extraHeaders: { "X-Key": "1", "x-key": "2" } },
+      undefined,
+      /x-key is given more than once/,
+    ],
+  ])("refuses %s", (_label, spec, acceptLanguage, message) => {
+    const result = resolveRequestCredentials(spec, TASK_URL, acceptLanguage);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toMatch(message);
+  });
+});
+
+describe("redactHeaders", () => {
+  it("replaces the values of the defaults and the configured names, any case", () => {
+    const redact = redactedHeaderSet(["X-Api-Key"]);
+
+    expect(
+      redactHeaders(
+        { authorization: "Basic x", COOKIE: "a=1", "x-api-key": "k", Accept: "*/*" },
+        redact,
+      ),
+    ).toEqual({
+      authorization: "[REDACTED]",
+      COOKIE: "[REDACTED]",
+      "x-api-key": "[REDACTED]",
+      Accept: "*/*",
+    });
+  });
+});
+
+describe("installRequestCredentials / removeRequestCredentials", () => {
+  /** A CDP session whose `on` handlers a test can fire, as Chromium would. */
+  const buildSession = () => {
+    const handlers = new Map<string, (event: unknown) => void>();
+    return {
+      handlers,
+      on: vi.fn((name: string, handler: (event: unknown) => void) => {
+        handlers.set(name, handler);
+      }),
+      send: vi.fn().mockResolvedValue(undefined),
+      detach: vi.fn().mockResolvedValue(undefined),
+    };
+  };
+  const buildPage = () => {
+    const session = buildSession();
+    const page = {
+      createCDPSession: vi.fn().mockResolvedValue(session),
+      setExtraHTTPHeaders: vi.fn().mockResolvedValue(undefined),
+    };
+    return { session, page, asPage: page as unknown as Page };
+  };
+  const paused = (url: string) => ({
+    requestId: "r-1",
+    request: { url, headers: { Accept: "*/*", "x-api-key": "stale" } },
+  });
+
+  it("sets the cookies and scopes headers and basic auth, then takes them back off", async () => {
+    const { session, page, asPage } = buildPage();
+    const credentials = {
+      cookies: [{ name: "sid", value: "1", url: TASK_URL }],
+      extraHeaders: { "X-Api-Key": "k" },
+      httpAuth: { username: "u", password: "p" },
+    };
+
+    const applied = await installRequestCredentials(asPage, credentials, TASK_URL);
+
+    expect(session.send).toHaveBeenCalledWith("Network.setCookies", {
+      cookies: credentials.cookies,
+    });
+    expect(session.send).toHaveBeenCalledWith("Fetch.enable", {
+      patterns: [{ urlPattern: "*" }],
+      handleAuthRequests: true,
+    });
+    // Not page-wide: that would send them to every host the page loads from.
+    expect(page.setExtraHTTPHeaders).not.toHaveBeenCalled();
+
+    await removeRequestCredentials(asPage, applied);
+
+    expect(session.send).toHaveBeenCalledWith("Fetch.disable");
+    expect(session.send).toHaveBeenCalledWith("Network.deleteCookies", { name: "sid", url: TASK_URL });
+    // The cookie session twice, the Fetch session once.
+    expect(session.detach).toHaveBeenCalledTimes(3);
+  });
+
+  it("adds the headers to requests for the capture origin only", async () => {
+    const { session, asPage } = buildPage();
+    await installRequestCredentials(asPage, { extraHeaders: { "X-Api-Key": "k" } }, TASK_URL);
+    const onPaused = session.handlers.get("Fetch.requestPaused")!;
+
+    onPaused(paused("https://example.com/api/me"));
+    onPaused(paused("https://cdn.tracker.example/pixel.gif"));
+    onPaused(paused("http://example.com/members"));
+
+    expect(session.send).toHaveBeenNthCalledWith(2, "Fetch.continueRequest", {
+      requestId: "r-1",
+      headers: [
+        { name: "Accept", value: "*/*" },
+        { name: "X-Api-Key", value: "k" },
+      ],
+    });
+    expect(session.send).toHaveBeenNthCalledWith(3, "Fetch.continueRequest", { requestId: "r-1" });
+    expect(session.send).toHaveBeenNthCalledWith(4, "Fetch.continueRequest", { requestId: "r-1" });
+  });
+
+  it("answers a basic auth challenge from the capture origin only", async () => {
+    const { session, asPage } = buildPage();
+    await installRequestCredentials(
+      asPage,
+      { httpAuth: { username: "u", password: "p" } },
+      TASK_URL,
+    );
+    const onAuth = session.handlers.get("Fetch.authRequired")!;
+    const challenge = (origin: string, source = "Server") => ({
+      requestId: "r-2",
+      authChallenge: { source, origin, scheme: "basic", realm: "members" },
+    });
+
+    onAuth(challenge("https://example.com"));
+    onAuth(challenge("https://third-party.example"));
+    onAuth(challenge("http://proxy:3128", "Proxy"));
+
+    expect(session.send).toHaveBeenCalledWith("Fetch.continueWithAuth", {
+      requestId: "r-2",
+      authChallengeResponse: { response: "ProvideCredentials", username: "u", password: "p" },
+    });
+    expect(session.send).toHaveBeenCalledWith("Fetch.continueWithAuth", {
+      requestId: "r-2",
+      authChallengeResponse: { response: "CancelAuth" },
+    });
+    expect(session.send).toHaveBeenCalledWith("Fetch.continueWithAuth", {
+      requestId: "r-2",
+      authChallengeResponse: { response: "Default" },
+    });
+  });
+
+  it("opens no session when there is nothing to install", async () => {
+    const { page, asPage } = buildPage();
+
+    const applied = await installRequestCredentials(asPage, {}, TASK_URL);
+    await removeRequestCredentials(asPage, applied);
+
+    expect(page.createCDPSession).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { isRetryableFailure, retryDelayMs } from "../../src/capture/retry-policy.js";
+import { DEFAULT_RETRY_POLICY } from "../../src/config/index.js";
+
+describe("isRetryableFailure", () => {
+  it.each([
+    [503, true],
+    [429, true],
+    [404, false],
+    [410, false],
+    [403, false],
+  ])("HTTP %i → %s", (httpStatusCode, expected) => {
+    expect(
+      isRetryableFailure(DEFAULT_RETRY_POLICY, { type: "http", message: "", httpStatusCode }),
+    ).toBe(expected);
+  });
+
+  it("follows the error types the policy lists", () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, retryableErrorTypes: ["connection" as const] };
+    expect(isRetryableFailure(policy, { type: "connection", message: "" })).toBe(true);
+    expect(isRetryableFailure(policy, { type: "timeout", message: "" })).toBe(false);
+  });
+
+  it("treats a failure without details as internal", () => {
+    expect(isRetryableFailure(DEFAULT_RETRY_POLICY, undefined)).toBe(true);
+    const policy = { ...DEFAULT_RETRY_POLICY, retryableErrorTypes: [] };
+    expect(isRetryableFailure(policy, undefined)).toBe(false);
+  });
+});
+
+describe("retryDelayMs", () => {
+  const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 1000, multiplier: 2, maxDelayMs: 5000, jitter: 0.5 };
+
+  it("grows by the multiplier up to the cap", () => {
+    const delays = [1, 2, 3, 4].map((attempt) => retryDelayMs(policy, attempt, () => 0));
+    expect(delays).toEqual([1000, 2000, 4000, 5000]);
+  });
+
+  it("takes up to the jitter fraction off", () => {
+    expect(retryDelayMs(policy, 1, () => 1)).toBe(500);
+    expect(retryDelayMs(policy, 1, () => 0.5)).toBe(750);
+  });
+});
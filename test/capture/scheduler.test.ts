@@ -0,0 +1,247 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { SCHEDULE_FILE, Scheduler, type ScheduleSpec } from "../../src/capture/scheduler.js";
+import type { CaptureTask } from "../../src/capture/types.js";
+import { DEFAULT_RESET_STATE_OPTIONS } from "../../src/capture/reset-state.js";
+import type { Logger } from "../../src/logger.js";
+import { err, ok, type Result } from "../../src/result.js";
+
+const template: CaptureTask = {
+  taskId: "00000000-0000-4000-8000-000000000000",
+  correlationId: "nightly-front-page",
+  labels: ["front"],
+  url: "https://example.com/",
+  retryCount: 0,
+  captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false },
+  resetState: DEFAULT_RESET_STATE_OPTIONS,
+  requireSignature: false,
+  enqueuedAt: "2026-01-01T00:00:00.000Z",
+};
+
+const spec = (overrides: Partial<ScheduleSpec> = {}): ScheduleSpec => ({
+  request: {
+    url: "https://example.com/",
+    labels: ["front"],
+    correlationId: "nightly-front-page",
+    captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false },
+  },
+  template,
+  jitterMs: 0,
+  ...overrides,
+});
+
+const createLogger = (): Logger =>
+  ({
+    error: () => undefined,
+    warn: () => undefined,
+    info: () => undefined,
+  }) as unknown as Logger;
+
+const HOUR = 3_600_000;
+
+describe("Scheduler", () => {
+  let enqueued: CaptureTask[];
+  const enqueue = (task: CaptureTask): Result<void, string> => {
+    enqueued.push(task);
+    return ok();
+  };
+
+  beforeEach(() => {
+    enqueued = [];
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-10T00:00:00.000Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("add", () => {
+    const scheduler = (): Scheduler => new Scheduler(undefined, enqueue, createLogger());
+
+    it.each([
+      [{}, /exactly one/],
+      [{ cron: "0 * * * *", intervalMs: HOUR }, /exactly one/],
+      [{ cron: "0 * * *" }, /Invalid cron expression/],
+      [{ cron: "0 0 31 2 *" }, /never matches/],
+      [{ intervalMs: HOUR, jitterMs: HOUR }, /jitterMs must be shorter/],
+    ])("refuses %o", (timing, message) => {
+      const added = scheduler().add(spec(timing));
+      expect(added.ok).toBe(false);
+      if (!added.ok) expect(added.error).toMatch(message);
+    });
+
+    it("sets the first run one interval from now", () => {
+      const added = scheduler().add(spec({ intervalMs: HOUR }));
+      expect(added.ok && added.value.nextRunAt).toBe("2026-03-10T01:00:00.000Z");
+    });
+
+    it("sets the first run at the next cron match", () => {
+      const added = scheduler().add(spec({ cron: "30 6 * * *" }));
+      expect(added.ok && added.value.nextRunAt).toBe("2026-03-10T06:30:00.000Z");
+    });
+
+    it("adds jitter on top of the nominal time", () => {
+      const jittery = new Scheduler(undefined, enqueue, createLogger(), () => 0.5);
+      const added = jittery.add(spec({ intervalMs: HOUR, jitterMs: 60_000 }));
+      expect(added.ok && added.value.nextRunAt).toBe("2026-03-10T01:00:30.000Z");
+    });
+  });
+
+  describe("running", () => {
+    it("enqueues a copy of the template with a new taskId and the scheduleId", async () => {
+      const scheduler = new Scheduler(undefined, enqueue, createLogger());
+      await scheduler.start();
+      const added = scheduler.add(spec({ intervalMs: HOUR }));
+      if (!added.ok) throw new Error(added.error);
+
+      vi.advanceTimersByTime(HOUR);
+
+      expect(enqueued).toHaveLength(1);
+      expect(enqueued[0]).toMatchObject({
+        url: "https://example.com/",
+        labels: ["front"],
+        correlationId: "nightly-front-page",
+        retryCount: 0,
+        enqueuedAt: "2026-03-10T01:00:00.000Z",
+        scheduleId: added.value.scheduleId,
+      });
+      expect(enqueued[0]?.taskId).not.toBe(template.taskId);
+      expect(scheduler.get(added.value.scheduleId)).toMatchObject({
+        lastRunAt: "2026-03-10T01:00:00.000Z",
+        lastTaskId: enqueued[0]?.taskId,
+        nextRunAt: "2026-03-10T02:00:00.000Z",
+      });
+      scheduler.stop();
+    });
+
+    // The next nominal time is counted from the schedule, not from when the
+    // jittered run happened to fire, so runs do not drift later and later.
+    it("does not let jitter accumulate", () => {
+      const scheduler = new Scheduler(undefined, enqueue, createLogger(), () => 0.9);
+      const added = scheduler.add(spec({ intervalMs: HOUR, jitterMs: 10 * 60_000 }));
+      if (!added.ok) throw new Error(added.error);
+
+      for (let run = 0; run < 3; run++) scheduler.runDue(Date.parse(added.value.nextRunAt));
+
+      expect(scheduler.get(added.value.scheduleId)?.nextRunAt).toBe("2026-03-10T04:09:00.000Z");
+    });
+
+    it("makes up for missed runs with a single one", () => {
+      const scheduler = new Scheduler(undefined, enqueue, createLogger());
+      const added = scheduler.add(spec({ intervalMs: HOUR }));
+      if (!added.ok) throw new Error(added.error);
+
+      scheduler.runDue(Date.parse("2026-03-10T05:30:00.000Z"));
+
+      expect(enqueued).toHaveLength(1);
+      expect(scheduler.get(added.value.scheduleId)?.nextRunAt).toBe("2026-03-10T06:00:00.000Z");
+    });
+
+    it("skips a run the queue refuses and keeps the schedule going", () => {
+      const scheduler = new Scheduler(
+        undefined,
+        () => err("URL already in queue: https://example.com/"),
+        createLogger(),
+      );
+      const added = scheduler.add(spec({ intervalMs: HOUR }));
+      if (!added.ok) throw new Error(added.error);
+
+      scheduler.runDue(Date.parse("2026-03-10T01:00:00.000Z"));
+
+      const schedule = scheduler.get(added.value.scheduleId);
+      expect(schedule?.lastTaskId).toBeUndefined();
+      expect(schedule?.nextRunAt).toBe("2026-03-10T02:00:00.000Z");
+    });
+
+    it("stops running a removed schedule", () => {
+      const scheduler = new Scheduler(undefined, enqueue, createLogger());
+      const added = scheduler.add(spec({ intervalMs: HOUR }));
+      if (!added.ok) throw new Error(added.error);
+
+      expect(scheduler.remove(added.value.scheduleId)).toBe(true);
+      scheduler.runDue(Date.parse("2026-03-10T01:00:00.000Z"));
+
+      expect(enqueued).toHaveLength(0);
+      expect(scheduler.remove(added.value.scheduleId)).toBe(false);
+    });
+  });
+
+  describe("persistence", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), "browserhive-schedules-"));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("brings schedules back after a restart, as they were", async () => {
+      const before = new Scheduler(dir, enqueue, createLogger());
+      await before.start();
+      const added = before.add(spec({ cron: "0 * * * *" }));
+      if (!added.ok) throw new Error(added.error);
+      before.runDue(Date.parse("2026-03-10T01:00:00.000Z"));
+      before.stop();
+
+      const after = new Scheduler(dir, enqueue, createLogger());
+      await after.start();
+      expect(after.list()).toEqual(before.list());
+
+      after.runDue(Date.parse("2026-03-10T02:00:00.000Z"));
+      expect(enqueued.map((task) => task.scheduleId)).toEqual([
+        added.value.scheduleId,
+        added.value.scheduleId,
+      ]);
+      after.stop();
+    });
+
+    it("forgets a removed schedule across a restart", async () => {
+      const before = new Scheduler(dir, enqueue, createLogger());
+      await before.start();
+      const added = before.add(spec({ intervalMs: HOUR }));
+      if (!added.ok) throw new Error(added.error);
+      before.remove(added.value.scheduleId);
+      before.stop();
+
+      const after = new Scheduler(dir, enqueue, createLogger());
+      await after.start();
+      expect(after.list()).toEqual([]);
+      after.stop();
+    });
+
+    // The template can carry a callback secret.
+    it("writes the file readable by the owner only", async () => {
+      const scheduler = new Scheduler(dir, enqueue, createLogger());
+      await scheduler.start();
+      scheduler.add(spec({ intervalMs: HOUR }));
+      scheduler.stop();
+
+      expect(statSync(join(dir, SCHEDULE_FILE)).mode & 0o777).toBe(0o600);
+      expect(JSON.parse(readFileSync(join(dir, SCHEDULE_FILE), "utf-8"))).toHaveProperty("schedules");
+    });
+
+    it("drops a saved schedule whose cron no longer parses", async () => {
+      const scheduler = new Scheduler(dir, enqueue, createLogger());
+      await scheduler.start();
+      const added = scheduler.add(spec({ intervalMs: HOUR }));
+      if (!added.ok) throw new Error(added.error);
+      scheduler.stop();
+      writeFileSync(
+        join(dir, SCHEDULE_FILE),
+        JSON.stringify({
+          schedules: [{ ...added.value, scheduleId: "broken", intervalMs: undefined, cron: "nope" }, added.value],
+        }),
+      );
+
+      const restarted = new Scheduler(dir, enqueue, createLogger());
+      await restarted.start();
+      expect(restarted.list().map((s) => s.scheduleId)).toEqual([added.value.scheduleId]);
+      restarted.stop();
+    });
+  });
+});
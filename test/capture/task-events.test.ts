@@ -0,0 +1,129 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  TaskEventLog,
+  matchesTaskEventFilter,
+  type TaskEvent,
+} from "../../src/capture/task-events.js";
+import type { CaptureTask } from "../../src/capture/types.js";
+import { DEFAULT_RESET_STATE_OPTIONS } from "../../src/capture/reset-state.js";
+
+const createTask = (taskId: string, overrides: Partial<CaptureTask> = {}): CaptureTask => ({
+  taskId,
+  labels: [],
+  url: `https://example.com/${taskId}`,
+  retryCount: 0,
+  captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false },
+  resetState: DEFAULT_RESET_STATE_OPTIONS,
+  requireSignature: false,
+  enqueuedAt: "2024-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+const enqueued = (taskId: string): TaskEvent => ({ type: "task.enqueued", task: createTask(taskId) });
+
+describe("TaskEventLog", () => {
+  it("numbers events from 1 and keeps only the newest `capacity`", () => {
+    const log = new TaskEventLog(2);
+    for (const id of ["a", "b", "c"]) log.publish(enqueued(id));
+
+    expect(log.size).toBe(2);
+    expect(log.oldestId).toBe(2);
+    expect(log.since(1)?.map((e) => e.id)).toEqual([2, 3]);
+  });
+
+  it("returns an empty replay for a client that is up to date", () => {
+    const log = new TaskEventLog(5);
+    log.publish(enqueued("a"));
+    expect(log.since(1)).toEqual([]);
+  });
+
+  it("reports a gap for an id before the window or from the future", () => {
+    const log = new TaskEventLog(2);
+    for (const id of ["a", "b", "c", "d"]) log.publish(enqueued(id));
+
+    expect(log.since(1)).toBeUndefined();
+    expect(log.since(2)?.map((e) => e.id)).toEqual([3, 4]);
+    expect(log.since(99)).toBeUndefined();
+  });
+
+  it("holds nothing with capacity 0, yet still delivers live", () => {
+    const log = new TaskEventLog(0);
+    const onEvent = vi.fn();
+    log.subscribe({ onEvent, onClose: vi.fn() });
+    log.publish(enqueued("a"));
+
+    expect(log.size).toBe(0);
+    expect(onEvent).toHaveBeenCalledTimes(1);
+    expect(log.since(0)).toBeUndefined();
+  });
+
+  it("publishes a recorded result as task.completed", () => {
+    const log = new TaskEventLog(5);
+    const result = {
+      task: createTask("a"),
+      status: "success" as const,
+      captureProcessingTimeMs: 10,
+      timestamp: "2024-01-01T00:00:01.000Z",
+      workerIndex: 0,
+    };
+    log.record(result);
+    expect(log.since(0)?.[0]?.event).toEqual({ type: "task.completed", result });
+  });
+
+  it("stops delivering to an unsubscribed listener", () => {
+    const log = new TaskEventLog(5);
+    const onEvent = vi.fn();
+    const unsubscribe = log.subscribe({ onEvent, onClose: vi.fn() });
+    unsubscribe();
+    log.publish(enqueued("a"));
+
+    expect(onEvent).not.toHaveBeenCalled();
+    expect(log.subscriberCount).toBe(0);
+  });
+
+  it("closes every subscriber on close, and any that arrive later", () => {
+    const log = new TaskEventLog(5);
+    const first = vi.fn();
+    log.subscribe({ onEvent: vi.fn(), onClose: first });
+    log.close();
+    const late = vi.fn();
+    log.subscribe({ onEvent: vi.fn(), onClose: late });
+
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(late).toHaveBeenCalledTimes(1);
+    expect(log.subscriberCount).toBe(0);
+  });
+});
+
+describe("matchesTaskEventFilter", () => {
+  const task = createTask("t1", { correlationId: "batch-1", labels: ["nightly"] });
+  const event: TaskEvent = { type: "task.started", task, workerIndex: 0 };
+
+  it("matches everything with an empty filter", () => {
+    expect(matchesTaskEventFilter(event, {})).toBe(true);
+  });
+
+  it("requires every set field to match", () => {
+    expect(matchesTaskEventFilter(event, { correlationId: "batch-1", label: "nightly" })).toBe(true);
+    expect(matchesTaskEventFilter(event, { correlationId: "batch-1", label: "weekly" })).toBe(false);
+    expect(matchesTaskEventFilter(event, { taskId: "t2" })).toBe(false);
+  });
+
+  it("reads the task off a completed result", () => {
+    const completed: TaskEvent = {
+      type: "task.completed",
+      result: { task, status: "failed", captureProcessingTimeMs: 1, timestamp: "", workerIndex: 0 },
+    };
+    expect(matchesTaskEventFilter(completed, { taskId: "t1" })).toBe(true);
+  });
+
+  it("lets worker.health through any filter", () => {
+    const health: TaskEvent = {
+      type: "worker.health",
+      workerIndex: 0,
+      browserUrl: "http://chromium:9222/",
+      health: "error",
+    };
+    expect(matchesTaskEventFilter(health, { taskId: "t1" })).toBe(true);
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { TaskQueue } from "../../src/capture/task-queue.js";
 import type { CaptureTask } from "../../src/capture/types.js";
 import { DEFAULT_RESET_STATE_OPTIONS } from "../../src/capture/reset-state.js";
@@ -341,6 +341,37 @@ describe("TaskQueue", () => {
     });
   });
 
+  describe("remove", () => {
+    it("takes a pending task out and counts it as cancelled", () => {
+      queue.enqueue(createTask("1"));
+      queue.enqueue(createTask("2"));
+      queue.enqueue(createTask("3"));
+
+      expect(queue.remove("2")?.taskId).toBe("2");
+
+      expect(queue.isTracking("2")).toBe(false);
+      expect(queue.peekPending(10).map((t) => t.taskId)).toEqual(["1", "3"]);
+      expect(queue.cancelledCount).toBe(1);
+    });
+
+    it("leaves a task held by a worker alone", () => {
+      queue.enqueue(createTask("1"));
+      queue.dequeue();
+
+      expect(queue.remove("1")).toBeUndefined();
+      expect(queue.isTracking("1")).toBe(true);
+      expect(queue.cancelledCount).toBe(0);
+    });
+
+    it("counts an in-flight cancel reported through markComplete", () => {
+      queue.enqueue(createTask("1"));
+      queue.dequeue();
+      queue.markComplete("1", "cancelled");
+
+      expect(queue.getStatus()).toMatchObject({ processing: 0, cancelled: 1, failed: 0 });
+    });
+  });
+
   describe("getStatus", () => {
     it("should return correct status for empty queue", () => {
       const status = queue.getStatus();
@@ -350,6 +381,7 @@ describe("TaskQueue", () => {
         processing: 0,
         succeeded: 0,
         failed: 0,
+        cancelled: 0,
       });
     });
 
@@ -364,6 +396,7 @@ describe("TaskQueue", () => {
         processing: 0,
         succeeded: 0,
         failed: 0,
+        cancelled: 0,
       });
     });
 
@@ -386,7 +419,221 @@ describe("TaskQueue", () => {
         processing: 1,
         succeeded: 1,
         failed: 1,
+        cancelled: 0,
       });
     });
   });
+
+  describe("priority", () => {
+    it("serves higher priority first and FIFO among equals", () => {
+      queue.enqueue(createTask("low", { priority: -1 }));
+      queue.enqueue(createTask("a"));
+      queue.enqueue(createTask("urgent", { priority: 10 }));
+      queue.enqueue(createTask("b"));
+
+      const order = [1, 2, 3, 4].map(() => queue.dequeue()?.taskId);
+      expect(order).toEqual(["urgent", "a", "b", "low"]);
+    });
+
+    it("puts a retried task behind the others of its priority", () => {
+      queue.enqueue(createTask("1", { priority: 5 }));
+      queue.enqueue(createTask("2", { priority: 5 }));
+      queue.enqueue(createTask("3"));
+      const first = queue.dequeue()!;
+      queue.requeue(first);
+
+      expect(queue.peekPending(3).map((t) => t.taskId)).toEqual(["2", "1", "3"]);
+    });
+  });
+
+  describe("named queues", () => {
+    it("shares dequeues by weight, interleaved", () => {
+      queue = new TaskQueue({ weights: { interactive: 3 } });
+      for (let i = 0; i < 8; i++) {
+        queue.enqueue(createTask(`b${String(i)}`, { queue: "backfill" }));
+        queue.enqueue(createTask(`i${String(i)}`, { queue: "interactive" }));
+      }
+
+      const lanes = Array.from({ length: 8 }, () => queue.dequeue()?.queue);
+      expect(lanes).toEqual([
+        "interactive", "backfill", "interactive", "interactive",
+        "interactive", "backfill", "interactive", "interactive",
+      ]);
+    });
+
+    it("lets a single task in another queue past a long backlog", () => {
+      for (let i = 0; i < 100; i++) queue.enqueue(createTask(`b${String(i)}`, { queue: "backfill" }));
+      queue.enqueue(createTask("urgent"));
+
+      const firstTwo = [queue.dequeue()?.taskId, queue.dequeue()?.taskId];
+      expect(firstTwo).toContain("urgent");
+    });
+
+    it("does not bank credit for a queue while it is empty", () => {
+      queue = new TaskQueue({ weights: { a: 1, b: 1 } });
+      for (let i = 0; i < 5; i++) queue.enqueue(createTask(`a${String(i)}`, { queue: "a" }));
+      for (let i = 0; i < 5; i++) queue.dequeue();
+      queue.enqueue(createTask("a5", { queue: "a" }));
+      queue.enqueue(createTask("a6", { queue: "a" }));
+      queue.enqueue(createTask("b0", { queue: "b" }));
+      queue.enqueue(createTask("b1", { queue: "b" }));
+
+      const lanes = Array.from({ length: 4 }, () => queue.dequeue()?.queue);
+      expect(lanes).toEqual(["a", "b", "a", "b"]);
+    });
+
+    it("previews pending tasks in the order they will be dequeued", () => {
+      queue = new TaskQueue({ weights: { interactive: 2 } });
+      for (let i = 0; i < 4; i++) {
+        queue.enqueue(createTask(`b${String(i)}`, { queue: "backfill" }));
+        queue.enqueue(createTask(`i${String(i)}`, { queue: "interactive" }));
+      }
+
+      const preview = queue.peekPending(6).map((t) => t.taskId);
+      const actual = Array.from({ length: 6 }, () => queue.dequeue()?.taskId);
+      expect(preview).toEqual(actual);
+    });
+
+    it("counts pending and processing per queue, listing weighted queues even when idle", () => {
+      queue = new TaskQueue({ weights: { interactive: 4 } });
+      queue.enqueue(createTask("1", { queue: "backfill" }));
+      queue.enqueue(createTask("2", { queue: "backfill" }));
+      queue.dequeue();
+
+      expect(queue.getQueueCounts()).toEqual([
+        { name: "backfill", weight: 1, pending: 1, processing: 1 },
+        { name: "default", weight: 1, pending: 0, processing: 0 },
+        { name: "interactive", weight: 4, pending: 0, processing: 0 },
+      ]);
+    });
+
+    it("finds and removes a task in any queue", () => {
+      queue.enqueue(createTask("1", { queue: "backfill" }));
+      queue.enqueue(createTask("2"));
+
+      expect(queue.isTracking("1")).toBe(true);
+      expect(queue.hasUrl("https://example.com/1")).toBe(true);
+      expect(queue.remove("1")?.taskId).toBe("1");
+      expect(queue.remaining).toBe(1);
+      expect(queue.getQueueCounts().map((c) => c.name)).toEqual(["default"]);
+    });
+  });
+
+  describe("host limits", () => {
+    const onSite = (id: string, host: string, overrides: Partial<CaptureTask> = {}) =>
+      createTask(id, { url: `https://${host}/${id}`, ...overrides });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("skips a site at its concurrency limit and keeps the skipped task in place", () => {
+      queue = new TaskQueue({ hostLimits: { maxConcurrency: 1, minDelayMs: 0, overrides: {} } });
+      queue.enqueueAll([
+        onSite("a1", "www.a.example"),
+        onSite("a2", "img.a.example"),
+        onSite("b1", "b.example"),
+        onSite("a3", "a.example"),
+      ]);
+
+      expect(queue.dequeue()?.taskId).toBe("a1");
+      expect(queue.dequeue()?.taskId).toBe("b1");
+      expect(queue.dequeue()).toBeUndefined();
+      expect(queue.peekPending(10).map((t) => t.taskId)).toEqual(["a2", "a3"]);
+
+      queue.markComplete("a1", "succeeded");
+      expect(queue.dequeue()?.taskId).toBe("a2");
+    });
+
+    it("frees the slot when a task goes back for a retry", () => {
+      queue = new TaskQueue({ hostLimits: { maxConcurrency: 1, minDelayMs: 0, overrides: {} } });
+      queue.enqueueAll([onSite("a1", "a.example"), onSite("a2", "a.example")]);
+
+      const first = queue.dequeue()!;
+      queue.requeue(first);
+      expect(queue.dequeue()?.taskId).toBe("a2");
+    });
+
+    it("spaces starts on one site by the minimum delay", () => {
+      vi.useFakeTimers();
+      queue = new TaskQueue({ hostLimits: { maxConcurrency: 0, minDelayMs: 1000, overrides: {} } });
+      queue.enqueueAll([onSite("a1", "a.example"), onSite("a2", "a.example")]);
+
+      queue.markComplete(queue.dequeue()!.taskId, "succeeded");
+      expect(queue.dequeue()).toBeUndefined();
+      vi.advanceTimersByTime(999);
+      expect(queue.dequeue()).toBeUndefined();
+      vi.advanceTimersByTime(1);
+      expect(queue.dequeue()?.taskId).toBe("a2");
+    });
+
+    it("applies a per-site override over the server-wide limit", () => {
+      queue = new TaskQueue({
+        hostLimits: { maxConcurrency: 1, minDelayMs: 0, overrides: { "www.a.example": { maxConcurrency: 2 } } },
+      });
+      queue.enqueueAll([
+        onSite("a1", "a.example"),
+        onSite("a2", "a.example"),
+        onSite("b1", "b.example"),
+        onSite("b2", "b.example"),
+      ]);
+
+      const taken = Array.from({ length: 4 }, () => queue.dequeue()?.taskId);
+      expect(taken).toEqual(["a1", "a2", "b1", undefined]);
+    });
+
+    it("passes a held lane's turn to a lane that can run", () => {
+      queue = new TaskQueue({ hostLimits: { maxConcurrency: 1, minDelayMs: 0, overrides: {} } });
+      queue.enqueueAll([
+        onSite("a1", "a.example", { queue: "crawl" }),
+        onSite("a2", "a.example", { queue: "crawl" }),
+        onSite("b1", "b.example"),
+        onSite("c1", "c.example"),
+      ]);
+
+      const taken = Array.from({ length: 3 }, () => queue.dequeue()?.taskId);
+      expect(taken).toEqual(["a1", "b1", "c1"]);
+    });
+  });
+
+  describe("backoff", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("holds a requeued task back until its notBefore, letting others run", () => {
+      vi.useFakeTimers();
+      queue.enqueueAll([createTask("1"), createTask("2")]);
+      const first = queue.dequeue()!;
+
+      const retried = queue.requeue(first, 5000);
+      expect(retried.notBefore).toBe(new Date(Date.now() + 5000).toISOString());
+      expect(queue.remaining).toBe(2);
+      expect(queue.dequeue()?.taskId).toBe("2");
+      expect(queue.dequeue()).toBeUndefined();
+
+      vi.advanceTimersByTime(5000);
+      expect(queue.dequeue()).toMatchObject({ taskId: "1", retryCount: 1 });
+    });
+
+    it("lists delayed tasks after ready ones and can cancel them", () => {
+      vi.useFakeTimers();
+      queue.enqueueAll([createTask("1"), createTask("2")]);
+      queue.requeue(queue.dequeue()!, 5000);
+
+      expect(queue.peekPending(10).map((t) => t.taskId)).toEqual(["2", "1"]);
+      expect(queue.isTracking("1")).toBe(true);
+      expect(queue.getQueueCounts()).toEqual([
+        { name: "default", weight: 1, pending: 2, processing: 0 },
+      ]);
+      expect(queue.remove("1")?.taskId).toBe("1");
+      expect(queue.cancelledCount).toBe(1);
+    });
+
+    it("keeps a past notBefore in line with everything else", () => {
+      queue.enqueue(createTask("1", { notBefore: "2000-01-01T00:00:00.000Z" }));
+      expect(queue.dequeue()?.taskId).toBe("1");
+    });
+  });
 });
+
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from "vitest";
+import { TimeoutError as PuppeteerTimeoutError } from "puppeteer";
+import type { CapturePage } from "../../src/capture/capture-page.js";
+import { TimeoutError } from "../../src/capture/error-details.js";
+import { resolveWaitForSpec, runWaitFor } from "../../src/capture/wait-for.js";
+
+interface MockPage {
+  waitForSelector: ReturnType<typeof vi.fn>;
+  waitForFunction: ReturnType<typeof vi.fn>;
+  waitForNetworkIdle: ReturnType<typeof vi.fn>;
+}
+
+const buildMockPage = (): MockPage => ({
+  waitForSelector: vi.fn().mockResolvedValue(null),
+  waitForFunction: vi.fn().mockResolvedValue(null),
+  waitForNetworkIdle: vi.fn().mockResolvedValue(undefined),
+});
+
+const asPage = (page: MockPage): CapturePage => page as unknown as CapturePage;
+
+const timedOut = (): PuppeteerTimeoutError => new PuppeteerTimeoutError("Waiting failed: 100ms exceeded");
+
+describe("runWaitFor", () => {
+  it("maps each condition onto the matching puppeteer wait", async () => {
+    const page = buildMockPage();
+
+    const report = await runWaitFor(
+      asPage(page),
+      resolveWaitForSpec({
+        conditions: [
+          { type: "selectorVisible", selector: "#app", timeoutMs: 5_000 },
+          { type: "selectorHidden", selector: ".spinner" },
+          { type: "networkIdle", idleMs: 750 },
+          { type: "function", expression: "window.ready === true" },
+          { type: "lifecycle", event: "networkidle0" },
+        ],
+      }),
+    );
+
+    expect(page.waitForSelector).toHaveBeenNthCalledWith(1, "#app", { visible: true, timeout: 5_000 });
+    expect(page.waitForSelector).toHaveBeenNthCalledWith(2, ".spinner", { hidden: true, timeout: 10_000 });
+    expect(page.waitForNetworkIdle).toHaveBeenNthCalledWith(1, {
+      idleTime: 750,
+      concurrency: 0,
+      timeout: 10_000,
+    });
+    expect(page.waitForFunction).toHaveBeenCalledWith("window.ready === true", { timeout: 10_000 });
+    expect(page.waitForNetworkIdle).toHaveBeenNthCalledWith(2, {
+      idleTime: 500,
+      concurrency: 0,
+      timeout: 10_000,
+    });
+    expect(report.met).toBe(true);
+    expect(report.outcomes.map((o) => o.condition)).toEqual([
+      "selectorVisible #app",
+      "selectorHidden .spinner",
+      "networkIdle 750ms",
+      "function window.ready === true",
+      "lifecycle networkidle0",
+    ]);
+  });
+
+  it("reports an unmet condition and carries on when not strict", async () => {
+    const page = buildMockPage();
+    page.waitForSelector
+      .mockRejectedValueOnce(timedOut())
+      .mockRejectedValueOnce(new Error("'##' is not a valid selector"));
+
+    const report = await runWaitFor(
+      asPage(page),
+      resolveWaitForSpec({
+        conditions: [
+          { type: "selectorVisible", selector: "#late" },
+          { type: "selectorVisible", selector: "##" },
+          { type: "delay", ms: 0 },
+        ],
+      }),
+    );
+
+    expect(report.met).toBe(false);
+    expect(report.outcomes).toMatchObject([
+      { condition: "selectorVisible #late", met: false },
+      { condition: "selectorVisible ##", met: false, error: "'##' is not a valid selector" },
+      { condition: "delay 0ms", met: true },
+    ]);
+    expect(report.outcomes[0]).not.toHaveProperty("error");
+  });
+
+  it("fails with a TimeoutError at the first timed-out condition when strict", async () => {
+    const page = buildMockPage();
+    page.waitForSelector.mockRejectedValueOnce(timedOut());
+
+    const run = runWaitFor(
+      asPage(page),
+      resolveWaitForSpec({
+        conditions: [
+          { type: "selectorVisible", selector: "#late", timeoutMs: 2_000 },
+          { type: "networkIdle", idleMs: 500 },
+        ],
+        strict: true,
+      }),
+    );
+
+    await expect(run).rejects.toBeInstanceOf(TimeoutError);
+    await expect(run).rejects.toThrow("Timeout: waitFor selectorVisible #late (2000ms)");
+    expect(page.waitForNetworkIdle).not.toHaveBeenCalled();
+  });
+
+  it("fails with the error itself when a strict condition breaks outright", async () => {
+    const page = buildMockPage();
+    page.waitForFunction.mockRejectedValueOnce(new Error("ReferenceError: app is not defined"));
+
+    await expect(
+      runWaitFor(
+        asPage(page),
+        resolveWaitForSpec({
+          conditions: [{ type: "function", expression: "app.ready" }],
+          strict: true,
+        }),
+      ),
+    ).rejects.toThrow("waitFor function app.ready failed: ReferenceError: app is not defined");
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * WebhookSink, against a receiver stub we control.
+ *
+ * A stub rather than a mocked `fetch` so the headers, the body bytes and the
+ * signature are checked as a receiver would see them — the HMAC is only
+ * useful if it covers exactly what arrives on the wire.
+ */
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createHmac } from "node:crypto";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  RECENT_FAILURES_LIMIT,
+  WebhookSink,
+  checkCallbackUrl,
+  webhookRetryDelayMs,
+} from "../../src/capture/webhook-sink.js";
+import type { CaptureCallback } from "../../src/capture/webhook-sink.js";
+import type { CaptureResult } from "../../src/capture/types.js";
+import { DEFAULT_RESET_STATE_OPTIONS } from "../../src/capture/reset-state.js";
+import type { WebhookConfig } from "../../src/config/index.js";
+import { captureResultToReport } from "../../src/http/response-mapper.js";
+import type { Logger } from "../../src/logger.js";
+
+/** Fast enough that a test waiting out every backoff still finishes quickly. */
+const CONFIG: WebhookConfig = {
+  allowedHosts: ["127.0.0.1"],
+  maxAttempts: 3,
+  initialDelayMs: 1,
+  maxDelayMs: 5,
+  timeoutMs: 2_000,
+};
+
+interface Received {
+  headers: IncomingMessage["headers"];
+  body: string;
+}
+
+const servers: Server[] = [];
+
+/**
+ * Start a receiver that answers each request with the next status in
+ * `statuses` (repeating the last one), plus `headers`, and records what it
+ * was sent.
+ */
+const receiver = async (
+  statuses: number[],
+  headers: Record<string, string> = {},
+): Promise<{ url: string; received: Received[] }> => {
+  const received: Received[] = [];
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      received.push({ headers: req.headers, body: Buffer.concat(chunks).toString("utf-8") });
+      res.writeHead(statuses[Math.min(received.length, statuses.length) - 1] ?? 200, headers);
+      res.end();
+    });
+  });
+  servers.push(server);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return {
+    url: `http://127.0.0.1:${String((server.address() as AddressInfo).port)}/hook`,
+    received,
+  };
+};
+
+afterEach(async () => {
+  await Promise.all(
+    servers.splice(0).map(
+      (s) => new Promise<void>((resolve) => s.close(() => { resolve(); })),
+    ),
+  );
+});
+
+const createLogger = (): Logger =>
+  ({
+    error: () => undefined,
+    warn: () => undefined,
+    debug: () => undefined,
+  }) as unknown as Logger;
+
+const createResult = (
+  callback: CaptureCallback | undefined,
+  overrides: Partial<CaptureResult> = {},
+): CaptureResult => ({
+  task: {
+    taskId: "550e8400-e29b-41d4-a716-446655440000",
+    labels: ["nightly"],
+    url: "https://example.com/",
+    retryCount: 0,
+    captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false },
+    resetState: DEFAULT_RESET_STATE_OPTIONS,
+    correlationId: "abc123de",
+    requireSignature: false,
+    enqueuedAt: "2024-01-01T00:00:00.000Z",
+    ...(callback !== undefined && { callback }),
+  },
+  status: "success",
+  httpStatusCode: 200,
+  pngLocation: "s3://browserhive/550e8400-e29b-41d4-a716-446655440000_abc123de_nightly.png",
+  captureProcessingTimeMs: 1200,
+  timestamp: "2024-01-01T00:00:20.000Z",
+  workerIndex: 0,
+  ...overrides,
+});
+
+const ALL_EVENTS: CaptureCallback["events"] = [
+  "success",
+  "failed",
+  "timeout",
+  "httpError",
+  "cancelled",
+];
+
+const settled = async (sink: WebhookSink): Promise<void> => {
+  await vi.waitFor(() => {
+    expect(sink.getStats().retrying).toBe(0);
+  });
+};
+
+describe("WebhookSink", () => {
+  it("POSTs the manifest's report, signed over timestamp and body", async () => {
+    const { url, received } = await receiver([204]);
+    const sink = new WebhookSink(CONFIG, createLogger());
+    const result = createResult({ url, secret: "s3cret", events: ALL_EVENTS });
+
+    sink.record(result);
+    await settled(sink);
+
+    expect(received).toHaveLength(1);
+    const [request] = received;
+    expect(JSON.parse(request!.body)).toEqual(captureResultToReport(result));
+    expect(request!.headers["content-type"]).toBe("application/json");
+    expect(request!.headers["x-browserhive-event"]).toBe("success");
+    expect(request!.headers["x-browserhive-delivery"]).toMatch(/^[0-9a-f-]{36}$/);
+
+    const timestamp = request!.headers["x-browserhive-timestamp"] as string;
+    const expected = createHmac("sha256", "s3cret")
+      .update(`${timestamp}.${request!.body}`)
+      .digest("hex");
+    expect(request!.headers["x-browserhive-signature"]).toBe(`sha256=${expected}`);
+    expect(sink.getStats()).toEqual({
+      delivered: 1,
+      failed: 0,
+      retrying: 0,
+      recentFailures: [],
+    });
+  });
+
+  it("sends no signature header when the callback has no secret", async () => {
+    const { url, received } = await receiver([200]);
+    const sink = new WebhookSink(CONFIG, createLogger());
+
+    sink.record(createResult({ url, events: ALL_EVENTS }));
+    await settled(sink);
+
+    expect(received[0]?.headers["x-browserhive-signature"]).toBeUndefined();
+  });
+
+  it("ignores tasks without a callback and statuses not subscribed to", async () => {
+    const { url, received } = await receiver([200]);
+    const sink = new WebhookSink(CONFIG, createLogger());
+
+    sink.record(createResult(undefined));
+    sink.record(createResult({ url, events: ["failed"] }));
+    await settled(sink);
+
+    expect(received).toHaveLength(0);
+    expect(sink.getStats().delivered).toBe(0);
+  });
+
+  it("retries a non-2xx answer under the same delivery id", async () => {
+    const { url, received } = await receiver([503, 500, 200]);
+    const sink = new WebhookSink(CONFIG, createLogger());
+
+    sink.record(createResult({ url, events: ALL_EVENTS }));
+    await settled(sink);
+
+    expect(received).toHaveLength(3);
+    const ids = new Set(received.map((r) => r.headers["x-browserhive-delivery"]));
+    expect(ids.size).toBe(1);
+    expect(sink.getStats()).toMatchObject({ delivered: 1, failed: 0 });
+  });
+
+  it("reports a delivery that runs out of attempts in its stats", async () => {
+    const { url, received } = await receiver([500]);
+    const sink = new WebhookSink(CONFIG, createLogger());
+
+    sink.record(createResult({ url, events: ALL_EVENTS }, { status: "httpError" }));
+    await settled(sink);
+
+    expect(received).toHaveLength(CONFIG.maxAttempts);
+    const stats = sink.getStats();
+    expect(stats.delivered).toBe(0);
+    expect(stats.failed).toBe(1);
+    expect(stats.recentFailures).toEqual([
+      {
+        taskId: "550e8400-e29b-41d4-a716-446655440000",
+        correlationId: "abc123de",
+        url,
+        status: "httpError",
+        attempts: CONFIG.maxAttempts,
+        error: "receiver returned 500",
+        failedAt: expect.any(String) as string,
+      },
+    ]);
+  });
+
+  it("reports a receiver that is not there with the transport error", async () => {
+    const { url } = await receiver([200]);
+    await new Promise<void>((resolve) => servers.pop()!.close(() => { resolve(); }));
+    const sink = new WebhookSink({ ...CONFIG, maxAttempts: 1 }, createLogger());
+
+    sink.record(createResult({ url, events: ALL_EVENTS }));
+    await settled(sink);
+
+    const [failure] = sink.getStats().recentFailures;
+    expect(failure?.attempts).toBe(1);
+    expect(failure?.error).toMatch(/ECONNREFUSED/);
+  });
+
+  it("caps the failure list while still counting every failure", async () => {
+    const { url } = await receiver([500]);
+    const sink = new WebhookSink({ ...CONFIG, maxAttempts: 1 }, createLogger());
+
+    for (let i = 0; i <= RECENT_FAILURES_LIMIT; i++) {
+      const result = createResult({ url, events: ALL_EVENTS });
+      sink.record({ ...result, task: { ...result.task, taskId: `t-${String(i)}` } });
+    }
+    await settled(sink);
+
+    const stats = sink.getStats();
+    expect(stats.failed).toBe(RECENT_FAILURES_LIMIT + 1);
+    expect(stats.recentFailures).toHaveLength(RECENT_FAILURES_LIMIT);
+  });
+
+  it("does not follow a redirect off the allowlist", async () => {
+    const elsewhere = await receiver([200]);
+    // Same server, but "localhost" is not on CONFIG's allowlist.
+    const location = elsewhere.url.replace("127.0.0.1", "localhost");
+    const { url, received } = await receiver([307], { location });
+    const sink = new WebhookSink(CONFIG, createLogger());
+
+    sink.record(createResult({ url, events: ALL_EVENTS }));
+    await settled(sink);
+
+    expect(received).toHaveLength(CONFIG.maxAttempts);
+    expect(elsewhere.received).toHaveLength(0);
+    const [failure] = sink.getStats().recentFailures;
+    expect(failure?.error).toBe(`receiver redirected to ${location}`);
+  });
+
+  // A task replayed from the journal or a schedule was mapped under an
+  // allowlist that may since have lost its host.
+  it("refuses a host no longer allowed without trying it", async () => {
+    const { url, received } = await receiver([200]);
+    const sink = new WebhookSink({ ...CONFIG, allowedHosts: ["hooks.example.com"] }, createLogger());
+
+    sink.record(createResult({ url, events: ALL_EVENTS }));
+    await settled(sink);
+
+    expect(received).toHaveLength(0);
+    const [failure] = sink.getStats().recentFailures;
+    expect(failure?.attempts).toBe(0);
+    expect(failure?.error).toBe(
+      "callback host 127.0.0.1 is not allowed (this server allows: hooks.example.com)",
+    );
+  });
+});
+
+describe("checkCallbackUrl", () => {
+  it("allows an exact host and the subdomains of a *.domain entry", () => {
+    const allowed = ["ledger.internal", "*.example.com"];
+    expect(checkCallbackUrl("http://ledger.internal:8080/hook", allowed).ok).toBe(true);
+    expect(checkCallbackUrl("https://a.b.example.com/hook", allowed).ok).toBe(true);
+    expect(checkCallbackUrl("https://example.com/hook", allowed).ok).toBe(false);
+    expect(checkCallbackUrl("https://notexample.com/hook", allowed).ok).toBe(false);
+  });
+
+  it("refuses what is not an http(s) URL", () => {
+    expect(checkCallbackUrl("ftp://ledger.internal/hook", ["ledger.internal"])).toEqual({
+      ok: false,
+      error: "callback url must be http or https",
+    });
+    expect(checkCallbackUrl("not a url", ["ledger.internal"]).ok).toBe(false);
+  });
+});
+
+describe("webhookRetryDelayMs", () => {
+  it("doubles from the initial delay and stops at the cap", () => {
+    const config = { ...CONFIG, initialDelayMs: 1_000, maxDelayMs: 5_000 };
+    expect([1, 2, 3, 4].map((n) => webhookRetryDelayMs(config, n))).toEqual([
+      1_000, 2_000, 4_000, 5_000,
+    ]);
+  });
+});
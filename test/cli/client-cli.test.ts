@@ -89,6 +89,9 @@ describe("client-cli parseClientOptions", () => {
       html: false,
       links: false,
       mhtml: true,
+      pdf: false,
+      har: false,
+      diagnostics: false,
       wacz: false,
     });
   });
@@ -99,6 +102,24 @@ describe("client-cli parseClientOptions", () => {
     expect(getCaptureFormats(opts).mhtml).toBe(false);
   });
 
+  it("--pdf を渡すと captureFormats.pdf が true になる", () => {
+    const opts = parseClientOptions(argv("--data", "data/smoke-test.yaml", "--pdf"));
+    expect(opts.pdf).toBe(true);
+    expect(getCaptureFormats(opts).pdf).toBe(true);
+  });
+
+  it("--har を渡すと captureFormats.har が true になる", () => {
+    const opts = parseClientOptions(argv("--data", "data/smoke-test.yaml", "--har"));
+    expect(opts.har).toBe(true);
+    expect(getCaptureFormats(opts).har).toBe(true);
+  });
+
+  it("--diagnostics を渡すと captureFormats.diagnostics が true になる", () => {
+    const opts = parseClientOptions(argv("--data", "data/smoke-test.yaml", "--diagnostics"));
+    expect(opts.diagnostics).toBe(true);
+    expect(getCaptureFormats(opts).diagnostics).toBe(true);
+  });
+
   it("--wacz を渡すと captureFormats.wacz が true になる", () => {
     const opts = parseClientOptions(argv("--data", "data/smoke-test.yaml", "--wacz"));
     expect(opts.wacz).toBe(true);
@@ -108,6 +129,9 @@ describe("client-cli parseClientOptions", () => {
       html: false,
       links: false,
       mhtml: false,
+      pdf: false,
+      har: false,
+      diagnostics: false,
       wacz: true,
     });
   });
@@ -1,5 +1,10 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { parseCliOptions } from "../../src/cli/server-cli.js";
+import {
+  DEFAULT_CAPTURE_CONFIG,
+  DEFAULT_COORDINATOR_CONFIG,
+  DEFAULT_RETRY_POLICY,
+} from "../../src/config/index.js";
 import {
   SERVER_ENV_VARS,
   setupCliTestEnv,
@@ -8,6 +13,16 @@ import {
   ProcessExitError,
 } from "../helpers/cli-env.js";
 import { vi } from "vitest";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+/** Write `content` to a fresh preset file and return its path. */
+const presetFile = (content: string): string => {
+  const path = join(mkdtempSync(join(tmpdir(), "bh-devices-")), "devices.json");
+  writeFileSync(path, content);
+  return path;
+};
 
 /**
  * Common minimum CLI args that satisfy the four required `--s3-*` fields.
@@ -115,6 +130,286 @@ describe("server-cli parseCliOptions", () => {
 
       expect(config.coordinator.browserProfiles[0]?.capture.operationDelayMs).toBe(0);
     });
+
+    it("--queue-journal-dir はコーディネータ設定に載る", () => {
+      const config = parseCliOptions(
+        argv("--browser-url", "http://a:9222", "--queue-journal-dir", "/var/lib/browserhive", ...s3Args),
+      );
+
+      expect(config.coordinator.queueJournalDir).toBe("/var/lib/browserhive");
+    });
+
+    it("--queue-journal-dir 未指定ならキーごと省く（= メモリのみ）", () => {
+      const config = parseCliOptions(
+        argv("--browser-url", "http://a:9222", ...s3Args),
+      );
+
+      expect(config.coordinator).not.toHaveProperty("queueJournalDir");
+    });
+
+    it("--schedule-dir はコーディネータ設定に載り、未指定ならキーごと省く", () => {
+      const config = parseCliOptions(
+        argv("--browser-url", "http://a:9222", "--schedule-dir", "/var/lib/browserhive", ...s3Args),
+      );
+      const memoryOnly = parseCliOptions(argv("--browser-url", "http://a:9222", ...s3Args));
+
+      expect(config.coordinator.scheduleDir).toBe("/var/lib/browserhive");
+      expect(memoryOnly.coordinator).not.toHaveProperty("scheduleDir");
+    });
+
+    it("--queue-weights は name=weight の組をコーディネータ設定に載せる", () => {
+      const config = parseCliOptions(
+        argv("--browser-url", "http://a:9222", "--queue-weights", "interactive=4, backfill=1", ...s3Args),
+      );
+
+      expect(config.coordinator.queueWeights).toEqual({ interactive: 4, backfill: 1 });
+    });
+
+    it("--queue-weights 未指定なら空（= 全キュー等しい）", () => {
+      const config = parseCliOptions(
+        argv("--browser-url", "http://a:9222", ...s3Args),
+      );
+
+      expect(config.coordinator.queueWeights).toEqual({});
+    });
+
+    it("--dead-letter-size はコーディネータ設定に載る（未指定なら既定値）", () => {
+      const config = parseCliOptions(
+        argv("--browser-url", "http://a:9222", "--dead-letter-size", "0", ...s3Args),
+      );
+      const defaults = parseCliOptions(argv("--browser-url", "http://a:9222", ...s3Args));
+
+      expect(config.coordinator.deadLetterSize).toBe(0);
+      expect(defaults.coordinator.deadLetterSize).toBe(DEFAULT_COORDINATOR_CONFIG.deadLetterSize);
+    });
+
+    it("--host-max-concurrency / --host-min-delay-ms / --host-limits をサイト制限に載せる", () => {
+      const config = parseCliOptions(
+        argv(
+          "--browser-url", "http://a:9222",
+          "--host-max-concurrency", "2",
+          "--host-min-delay-ms", "500",
+          "--host-limits", "Slow.Example.com=1:5000, fast.example.org=8, quiet.example.net=:3000",
+          ...s3Args,
+        ),
+      );
+
+      expect(config.coordinator.hostLimits).toEqual({
+        maxConcurrency: 2,
+        minDelayMs: 500,
+        overrides: {
+          "slow.example.com": { maxConcurrency: 1, minDelayMs: 5000 },
+          "fast.example.org": { maxConcurrency: 8 },
+          "quiet.example.net": { minDelayMs: 3000 },
+        },
+      });
+    });
+
+    it("--device-presets のファイルを組み込みのプリセットに足す(同名は置き換え)", () => {
+      const path = presetFile(
+        JSON.stringify({
+          "galaxy-s24": {
+            viewport: { width: 360, height: 780 },
+            deviceScaleFactor: 3,
+            mobile: true,
+            hasTouch: true,
+            userAgent: "Mozilla/5.0 (Linux; Android 14; SM-S921B)",
+          },
+          ipad: {
+            viewport: { width: 1024, height: 1366 },
+            deviceScaleFactor: 2,
+            mobile: false,
+            hasTouch: true,
+            userAgent: "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7)",
+          },
+        }),
+      );
+      const config = parseCliOptions(
+        argv("--browser-url", "http://a:9222", "--device-presets", path, ...s3Args),
+      );
+
+      const presets = config.coordinator.browserProfiles[0]?.capture.devicePresets ?? {};
+      expect(Object.keys(presets)).toEqual(["iphone-15", "pixel-8", "ipad", "galaxy-s24"]);
+      expect(presets["ipad"]?.mobile).toBe(false);
+    });
+
+    it("--redact-headers を小文字にして重複を除く", () => {
+      const config = parseCliOptions(
+        argv("--browser-url", "http://a:9222", "--redact-headers", "X-Api-Key, x-api-key,X-Session", ...s3Args),
+      );
+
+      expect(config.coordinator.browserProfiles[0]?.capture.redactHeaders).toEqual([
+        "x-api-key",
+        "x-session",
+      ]);
+    });
+
+    it("--webhook-allowed-hosts を小文字にして callback の許可リストにする", () => {
+      const config = parseCliOptions(
+        argv("--browser-url", "http://a:9222", "--webhook-allowed-hosts", "Ledger.internal, *.example.com", ...s3Args),
+      );
+
+      expect(config.coordinator.webhook.allowedHosts).toEqual(["ledger.internal", "*.example.com"]);
+    });
+
+    it("--webhook-allowed-hosts が無ければ callback はどこへも送らない", () => {
+      const config = parseCliOptions(argv("--browser-url", "http://a:9222", ...s3Args));
+
+      expect(config.coordinator.webhook.allowedHosts).toEqual([]);
+    });
+
+    it("--proxies と --default-proxy をキャプチャ設定に載せる", () => {
+      const path = presetFile(
+        JSON.stringify({
+          egress: { server: "http://egress.corp:3128/", username: "svc", password: "pw" },
+          "jp-exit": { server: "socks5://jp-exit:1080", bypass: ["<local>"] },
+        }),
+      );
+      const config = parseCliOptions(
+        argv(
+          "--browser-url", "http://a:9222",
+          "--proxies", path,
+          "--default-proxy", "egress",
+          ...s3Args,
+        ),
+      );
+
+      const capture = config.coordinator.browserProfiles[0]?.capture;
+      expect(capture?.proxies).toEqual({
+        egress: { server: "http://egress.corp:3128", username: "svc", password: "pw" },
+        "jp-exit": { server: "socks5://jp-exit:1080", bypass: ["<local>"] },
+      });
+      expect(capture?.defaultProxy).toBe("egress");
+    });
+
+    it("--isolation の既定は tab、context を指定できる", () => {
+      const defaults = parseCliOptions(argv("--browser-url", "http://a:9222", ...s3Args));
+      const isolated = parseCliOptions(
+        argv("--browser-url", "http://a:9222", "--isolation", "context", ...s3Args),
+      );
+
+      expect(defaults.coordinator.browserProfiles[0]?.capture.isolation).toBe("tab");
+      expect(isolated.coordinator.browserProfiles[0]?.capture.isolation).toBe("context");
+    });
+
+    it("--launch-local-browsers は 127.0.0.1 の連番ポートをワーカーにする", () => {
+      const config = parseCliOptions(
+        argv(
+          "--launch-local-browsers", "2",
+          "--local-browser-base-port", "9300",
+          "--chromium-executable", "/usr/bin/chromium",
+          ...s3Args,
+        ),
+      );
+
+      expect(config.coordinator.browserProfiles.map((p) => p.browserURL.href)).toEqual([
+        "http://127.0.0.1:9300/",
+        "http://127.0.0.1:9301/",
+      ]);
+      expect(config.discovery.source).toEqual({
+        type: "local",
+        browsers: { count: 2, basePort: 9300, executablePath: "/usr/bin/chromium" },
+      });
+    });
+
+    it("--discovery の既定は dns、static は --browser-url をそのまま使う", () => {
+      const defaults = parseCliOptions(argv("--browser-url", "http://a:9222", ...s3Args));
+      const fixed = parseCliOptions(
+        argv("--browser-url", "http://a:9222", "--discovery", "static", ...s3Args),
+      );
+
+      expect(defaults.discovery.source).toEqual({ type: "dns" });
+      expect(fixed.discovery.source).toEqual({ type: "static" });
+      expect(fixed.coordinator.browserProfiles.map((p) => p.browserURL.href)).toEqual([
+        "http://a:9222/",
+      ]);
+    });
+
+    it("--discovery file はメンバー一覧のパスを載せ、--browser-url なしで通る", () => {
+      const config = parseCliOptions(
+        argv("--discovery", "file", "--discovery-file", "/etc/browserhive/members.yaml", ...s3Args),
+      );
+
+      expect(config.discovery.source).toEqual({
+        type: "file",
+        path: "/etc/browserhive/members.yaml",
+      });
+      expect(config.coordinator.browserProfiles).toEqual([]);
+      // メンバーの上書きの土台になるサーバー全体のキャプチャ設定
+      expect(config.coordinator.capture?.viewport).toEqual(DEFAULT_CAPTURE_CONFIG.viewport);
+    });
+
+    it("BROWSERHIVE_DISCOVERY=http と BROWSERHIVE_DISCOVERY_URL でエンドポイントを載せる", () => {
+      vi.stubEnv("BROWSERHIVE_DISCOVERY", "http");
+      vi.stubEnv("BROWSERHIVE_DISCOVERY_URL", "http://inventory.internal/members.json");
+      const config = parseCliOptions(argv(...s3Args));
+
+      expect(config.discovery.source).toEqual({
+        type: "http",
+        url: new URL("http://inventory.internal/members.json"),
+      });
+    });
+
+    it("--concurrency の既定は 1、指定した数を全プロファイルに載せる", () => {
+      const defaults = parseCliOptions(argv("--browser-url", "http://a:9222", ...s3Args));
+      const parallel = parseCliOptions(
+        argv(
+          "--browser-url", "http://a:9222",
+          "--browser-url", "http://b:9222",
+          "--concurrency", "3",
+          ...s3Args,
+        ),
+      );
+
+      expect(defaults.coordinator.browserProfiles[0]?.capture.concurrency).toBe(1);
+      expect(
+        parallel.coordinator.browserProfiles.map((profile) => profile.capture.concurrency),
+      ).toEqual([3, 3]);
+    });
+
+    it("--retry-* をリトライポリシーに載せる", () => {
+      const config = parseCliOptions(
+        argv(
+          "--browser-url", "http://a:9222",
+          "--retry-base-delay-ms", "1000",
+          "--retry-multiplier", "1.5",
+          "--retry-jitter", "0",
+          "--retry-max-delay-ms", "60000",
+          "--retry-error-types", "http,connection",
+          "--retry-http-statuses", "429, 503",
+          ...s3Args,
+        ),
+      );
+
+      expect(config.coordinator.retry).toEqual({
+        baseDelayMs: 1000,
+        multiplier: 1.5,
+        jitter: 0,
+        maxDelayMs: 60000,
+        retryableErrorTypes: ["http", "connection"],
+        retryableHttpStatuses: [429, 503],
+      });
+    });
+
+    it("--retry-* 未指定なら既定のポリシー", () => {
+      const config = parseCliOptions(
+        argv("--browser-url", "http://a:9222", ...s3Args),
+      );
+
+      expect(config.coordinator.retry).toEqual(DEFAULT_RETRY_POLICY);
+    });
+
+    it("サイト制限は未指定なら無制限", () => {
+      const config = parseCliOptions(
+        argv("--browser-url", "http://a:9222", ...s3Args),
+      );
+
+      expect(config.coordinator.hostLimits).toEqual({
+        maxConcurrency: 0,
+        minDelayMs: 0,
+        overrides: {},
+      });
+    });
   });
 
   describe("env のみ", () => {
@@ -362,6 +657,124 @@ describe("server-cli parseCliOptions", () => {
       expect(() => parseCliOptions(argv())).toThrow(ProcessExitError);
     });
 
+    it.each([["backfill"], ["backfill=0"], ["bad name=2"]])(
+      "--queue-weights %s は exit する",
+      (value) => {
+        stubS3Env();
+        vi.stubEnv("BROWSERHIVE_BROWSER_URLS", "http://a:9222");
+
+        expect(() => parseCliOptions(argv("--queue-weights", value))).toThrow(ProcessExitError);
+      },
+    );
+
+    it("--launch-local-browsers と --browser-url の併用は exit する", () => {
+      stubS3Env();
+
+      expect(() =>
+        parseCliOptions(argv("--launch-local-browsers", "1", "--browser-url", "http://a:9222")),
+      ).toThrow(ProcessExitError);
+    });
+
+    it("--launch-local-browsers のポートが 65535 を超えるなら exit する", () => {
+      stubS3Env();
+
+      expect(() =>
+        parseCliOptions(argv("--launch-local-browsers", "2", "--local-browser-base-port", "65535")),
+      ).toThrow(ProcessExitError);
+    });
+
+    it.each([
+      [["--discovery", "file"]],
+      [["--discovery", "http"]],
+      [["--discovery", "http", "--discovery-url", "ftp://inventory.internal/"]],
+      [["--discovery", "file", "--discovery-file", "m.yaml", "--browser-url", "http://a:9222"]],
+      [["--discovery", "consul", "--browser-url", "http://a:9222"]],
+      [["--discovery", "dns", "--launch-local-browsers", "1"]],
+    ])("%j は exit する", (args) => {
+      stubS3Env();
+
+      expect(() => parseCliOptions(argv(...args))).toThrow(ProcessExitError);
+    });
+
+    it.each([
+      ["--retry-multiplier", "0.5"],
+      ["--retry-jitter", "1.5"],
+      ["--retry-error-types", "http,bogus"],
+      ["--retry-http-statuses", "200"],
+      ["--concurrency", "0"],
+    ])("%s %s は exit する", (flag, value) => {
+      stubS3Env();
+      vi.stubEnv("BROWSERHIVE_BROWSER_URLS", "http://a:9222");
+
+      expect(() => parseCliOptions(argv(flag, value))).toThrow(ProcessExitError);
+    });
+
+    it.each([["example.com"], ["example.com="], ["example.com=-1"], ["bad host=1"], ["example.com=1:x"]])(
+      "--host-limits %s は exit する",
+      (value) => {
+        stubS3Env();
+        vi.stubEnv("BROWSERHIVE_BROWSER_URLS", "http://a:9222");
+
+        expect(() => parseCliOptions(argv("--host-limits", value))).toThrow(ProcessExitError);
+      },
+    );
+
+    it.each([
+      ["JSON でない", "{"],
+      ["userAgent が無い", JSON.stringify({ phone: { viewport: { width: 1, height: 1 }, deviceScaleFactor: 1, mobile: true, hasTouch: true } })],
+      ["名前に使えない文字", JSON.stringify({ "my phone": {} })],
+    ])("--device-presets が %s なら exit する", (_label, content) => {
+      stubS3Env();
+      vi.stubEnv("BROWSERHIVE_BROWSER_URLS", "http://a:9222");
+
+      expect(() => parseCliOptions(argv("--device-presets", presetFile(content)))).toThrow(
+        ProcessExitError,
+      );
+    });
+
+    it.each([
+      ["アドレスに認証情報がある", JSON.stringify({ egress: { server: "http://u:p@egress:3128" } })],
+      ["SOCKS に認証情報がある", JSON.stringify({ jp: { server: "socks5://jp:1080", username: "u", password: "p" } })],
+      ["scheme が対応外", JSON.stringify({ ftp: { server: "ftp://proxy:21" } })],
+    ])("--proxies が %s なら exit する", (_label, content) => {
+      stubS3Env();
+      vi.stubEnv("BROWSERHIVE_BROWSER_URLS", "http://a:9222");
+
+      expect(() => parseCliOptions(argv("--proxies", presetFile(content)))).toThrow(
+        ProcessExitError,
+      );
+    });
+
+    // 既定のプロキシが許可リストに無いと、proxy を指定しないキャプチャがすべて失敗する。
+    it("--default-proxy が --proxies に無ければ exit する", () => {
+      stubS3Env();
+      vi.stubEnv("BROWSERHIVE_BROWSER_URLS", "http://a:9222");
+      const path = presetFile(JSON.stringify({ egress: { server: "http://egress:3128" } }));
+
+      expect(() =>
+        parseCliOptions(argv("--proxies", path, "--default-proxy", "jp-exit")),
+      ).toThrow(ProcessExitError);
+    });
+
+    // 打ち間違えたヘッダ名は何も伏せない。秘密が漏れる前に起動を止める。
+    it("--redact-headers にヘッダ名でないものがあれば exit する", () => {
+      stubS3Env();
+      vi.stubEnv("BROWSERHIVE_BROWSER_URLS", "http://a:9222");
+
+      expect(() => parseCliOptions(argv("--redact-headers", "X-Api-Key,X Session"))).toThrow(
+        ProcessExitError,
+      );
+    });
+
+    it("--webhook-allowed-hosts にホスト名でないものがあれば exit する", () => {
+      stubS3Env();
+      vi.stubEnv("BROWSERHIVE_BROWSER_URLS", "http://a:9222");
+
+      expect(() =>
+        parseCliOptions(argv("--webhook-allowed-hosts", "https://ledger.internal/hook")),
+      ).toThrow(ProcessExitError);
+    });
+
     // 署名を要求する構成なのに署名サービスが無い、が一番起きやすい設定ミス。
     // 起動を通すと、キャプチャが 1 件ずつ失敗して初めて分かることになる。
     it("--signing-policy required なのに --signing-url が無ければ exit する", () => {
@@ -0,0 +1,70 @@
+import { mkdtempSync, renameSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+import { FileRegistry } from "../../src/discovery/file-registry.js";
+import { DEFAULT_CAPTURE_CONFIG, type BrowserProfile } from "../../src/config/index.js";
+
+const hosts = (members: BrowserProfile[]): string[] => members.map((p) => p.browserURL.host);
+
+describe("FileRegistry", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "browserhive-members-"));
+    path = join(dir, "members.yaml");
+  });
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("lists the members in the file", async () => {
+    writeFileSync(path, "- http://a:9222\n- url: http://b:9222\n  capture: { concurrency: 2 }\n");
+    const members = await new FileRegistry(path, DEFAULT_CAPTURE_CONFIG).list();
+
+    expect(hosts(members)).toEqual(["a:9222", "b:9222"]);
+    expect(members[1]?.capture.concurrency).toBe(2);
+  });
+
+  it("fails list() when the file is missing, invalid or empty", async () => {
+    const registry = new FileRegistry(path, DEFAULT_CAPTURE_CONFIG);
+    await expect(registry.list()).rejects.toThrow(/members\.yaml/);
+
+    writeFileSync(path, "- ws://a:9222\n");
+    await expect(registry.list()).rejects.toThrow(/http\(s\)/);
+
+    writeFileSync(path, "[]\n");
+    await expect(registry.list()).rejects.toThrow(/lists no browsers/);
+  });
+
+  it("emits the new set when the file is replaced, and ignores a broken edit", async () => {
+    writeFileSync(path, "- http://a:9222\n");
+    const registry = new FileRegistry(path, DEFAULT_CAPTURE_CONFIG);
+    const changes: string[][] = [];
+    const unsubscribe = registry.subscribe((members) => changes.push(hosts(members)));
+    // Let the seed list() settle.
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    // Written aside and renamed over, as editors and config management do.
+    writeFileSync(join(dir, "next.yaml"), "- http://a:9222\n- http://b:9222\n");
+    renameSync(join(dir, "next.yaml"), path);
+    await vi.waitFor(() => {
+      expect(changes).toEqual([["a:9222", "b:9222"]]);
+    });
+
+    // An edit that does not parse keeps the current set.
+    writeFileSync(path, "- [unclosed\n");
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    expect(changes).toHaveLength(1);
+
+    // An override edit is a change even though the hosts stayed the same.
+    writeFileSync(path, "- http://a:9222\n- url: http://b:9222\n  capture: { concurrency: 3 }\n");
+    await vi.waitFor(() => {
+      expect(changes).toHaveLength(2);
+    });
+
+    unsubscribe();
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+import { HttpRegistry } from "../../src/discovery/http-registry.js";
+import { DEFAULT_CAPTURE_CONFIG, type BrowserProfile } from "../../src/config/index.js";
+
+const fetchMock = vi.fn<(url: URL) => Promise<Response>>();
+
+const serves = (body: unknown, status = 200): Promise<Response> =>
+  Promise.resolve(new Response(JSON.stringify(body), { status }));
+
+const hosts = (members: BrowserProfile[]): string[] => members.map((p) => p.browserURL.host);
+
+const url = new URL("http://inventory.internal/members.json");
+
+describe("HttpRegistry", () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("lists the members the endpoint serves", async () => {
+    fetchMock.mockImplementation(() =>
+      serves(["http://a:9222", { url: "http://b:9222", capture: { cache: "bypass" } }]),
+    );
+    const members = await new HttpRegistry(url, DEFAULT_CAPTURE_CONFIG, 5000).list();
+
+    expect(hosts(members)).toEqual(["a:9222", "b:9222"]);
+    expect(members[1]?.capture.cache).toBe("bypass");
+    expect(fetchMock.mock.calls[0]?.[0]).toBe(url);
+  });
+
+  it("fails list() on an error status or an empty list", async () => {
+    const registry = new HttpRegistry(url, DEFAULT_CAPTURE_CONFIG, 5000);
+
+    fetchMock.mockImplementation(() => serves({ error: "down" }, 503));
+    await expect(registry.list()).rejects.toThrow(/HTTP 503/);
+
+    fetchMock.mockImplementation(() => serves([]));
+    await expect(registry.list()).rejects.toThrow(/lists no browsers/);
+  });
+
+  it("emits on the refresh interval only when the set changed, keeping it on failure", async () => {
+    fetchMock.mockImplementation(() => serves(["http://a:9222"]));
+    const registry = new HttpRegistry(url, DEFAULT_CAPTURE_CONFIG, 5000);
+    const changes: string[][] = [];
+    const unsubscribe = registry.subscribe((members) => changes.push(hosts(members)));
+    await vi.advanceTimersByTimeAsync(0);
+
+    // Same set: nothing to report.
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(changes).toHaveLength(0);
+
+    // The endpoint fails: the current set stands.
+    fetchMock.mockImplementation(() => Promise.reject(new Error("ECONNREFUSED")));
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(changes).toHaveLength(0);
+
+    fetchMock.mockImplementation(() => serves(["http://a:9222", "http://b:9222"]));
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(changes).toEqual([["a:9222", "b:9222"]]);
+
+    unsubscribe();
+  });
+});
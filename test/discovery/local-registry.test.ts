@@ -0,0 +1,159 @@
+import { EventEmitter } from "node:events";
+import { existsSync } from "node:fs";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+/** Just enough of a ChildProcess for the supervisor. */
+class FakeChild extends EventEmitter {
+  readonly stderr = new EventEmitter();
+  exitCode: number | null = null;
+  signalCode: NodeJS.Signals | null = null;
+  readonly kill = vi.fn((signal: NodeJS.Signals) => {
+    this.signalCode = signal;
+    this.emit("exit", null, signal);
+    return true;
+  });
+
+  crash(): void {
+    this.exitCode = 1;
+    this.emit("exit", 1, null);
+  }
+}
+
+const children: FakeChild[] = [];
+const spawn = vi.fn((_command: string, args: string[]) => {
+  const child = new FakeChild();
+  children.push(child);
+  const port = args.find((arg) => arg.startsWith("--remote-debugging-port="))?.split("=")[1];
+  queueMicrotask(() =>
+    child.stderr.emit(
+      "data",
+      Buffer.from(`\nDevTools listening on ws://127.0.0.1:${String(port)}/devtools/browser/x\n`),
+    ),
+  );
+  return child;
+});
+vi.mock("node:child_process", () => ({
+  spawn: (command: string, args: string[]) => spawn(command, args),
+}));
+
+const bundledExecutablePath = vi.fn<() => Promise<string>>();
+vi.mock("puppeteer", () => ({ executablePath: () => bundledExecutablePath() }));
+
+import { LocalBrowserRegistry } from "../../src/discovery/local-registry.js";
+import type { BrowserProfile } from "../../src/config/index.js";
+
+const profiles = (basePort: number, count: number): BrowserProfile[] =>
+  Array.from(
+    { length: count },
+    (_, i) => ({ browserURL: new URL(`http://127.0.0.1:${String(basePort + i)}/`) }) as BrowserProfile,
+  );
+
+/** A binary that certainly exists; the spawn itself is faked. */
+const executablePath = process.execPath;
+
+const portsSpawned = (): string[] =>
+  spawn.mock.calls.map(
+    ([, args]) => args.find((arg) => arg.startsWith("--remote-debugging-port=")) ?? "",
+  );
+
+describe("LocalBrowserRegistry", () => {
+  beforeEach(() => {
+    children.length = 0;
+    spawn.mockClear();
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("starts one headless process per member on consecutive ports", async () => {
+    const members = profiles(9300, 2);
+    const registry = new LocalBrowserRegistry(members, { count: 2, basePort: 9300, executablePath });
+
+    await expect(registry.list()).resolves.toEqual(members);
+    // A second list() does not launch again.
+    await registry.list();
+
+    expect(spawn).toHaveBeenCalledTimes(2);
+    expect(spawn.mock.calls[0]?.[0]).toBe(executablePath);
+    expect(spawn.mock.calls[0]?.[1]).toContain("--headless");
+    expect(portsSpawned()).toEqual([
+      "--remote-debugging-port=9300",
+      "--remote-debugging-port=9301",
+    ]);
+
+    await registry.close();
+  });
+
+  it("restarts a crashed process on the same port, backing off", async () => {
+    const registry = new LocalBrowserRegistry(profiles(9300, 1), {
+      count: 1,
+      basePort: 9300,
+      executablePath,
+    });
+    await registry.list();
+
+    children[0]?.crash();
+    await vi.advanceTimersByTimeAsync(999);
+    expect(spawn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(spawn).toHaveBeenCalledTimes(2);
+
+    // Straight down again: the next wait is twice as long.
+    children[1]?.crash();
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(spawn).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(portsSpawned()).toEqual(Array(3).fill("--remote-debugging-port=9300"));
+
+    await registry.close();
+  });
+
+  it("terminates the processes on close and starts none again", async () => {
+    const registry = new LocalBrowserRegistry(profiles(9300, 2), {
+      count: 2,
+      basePort: 9300,
+      executablePath,
+    });
+    await registry.list();
+
+    await registry.close();
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(children.map((child) => child.kill.mock.calls)).toEqual([[["SIGTERM"]], [["SIGTERM"]]]);
+    expect(spawn).toHaveBeenCalledTimes(2);
+  });
+
+  it("kills the processes and removes their profiles when the server exits unclosed", async () => {
+    const once = vi.spyOn(process, "once");
+    const registry = new LocalBrowserRegistry(profiles(9300, 2), {
+      count: 2,
+      basePort: 9300,
+      executablePath,
+    });
+    const onExit = once.mock.calls.find(([event]) => event === "exit")?.[1] as () => void;
+    once.mockRestore();
+    await registry.list();
+    const dirs = spawn.mock.calls.map(
+      ([, args]) => args.find((arg) => arg.startsWith("--user-data-dir="))?.split("=")[1] ?? "",
+    );
+    expect(dirs.every((dir) => existsSync(dir))).toBe(true);
+    // Past process exit no child `exit` is delivered, so no onGone runs.
+    for (const child of children) child.kill.mockImplementation(() => true);
+
+    onExit();
+
+    expect(children.map((child) => child.kill.mock.calls)).toEqual([[["SIGKILL"]], [["SIGKILL"]]]);
+    expect(dirs.some((dir) => existsSync(dir))).toBe(false);
+  });
+
+  it("fails list() when there is no Chromium to run, and can be retried", async () => {
+    bundledExecutablePath.mockResolvedValue("/nonexistent/chrome");
+    const registry = new LocalBrowserRegistry(profiles(9300, 1), { count: 1, basePort: 9300 });
+
+    await expect(registry.list()).rejects.toThrow(/Chromium not found at \/nonexistent\/chrome/);
+    await expect(registry.list()).rejects.toThrow(/Chromium not found/);
+    expect(bundledExecutablePath).toHaveBeenCalledTimes(2);
+    expect(spawn).not.toHaveBeenCalled();
+  });
+});
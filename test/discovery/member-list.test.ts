@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+
+import { parseMemberList } from "../../src/discovery/member-list.js";
+import { DEFAULT_CAPTURE_CONFIG, type CaptureConfig } from "../../src/config/index.js";
+
+const base: CaptureConfig = {
+  ...DEFAULT_CAPTURE_CONFIG,
+  proxies: { corp: { server: "http://proxy.internal:3128" } },
+};
+
+describe("parseMemberList", () => {
+  it("reads bare URLs and lays each member's overrides over the base", () => {
+    const result = parseMemberList(
+      [
+        "- http://chromium-1.internal:9222",
+        "- url: http://gpu-box.internal:9222",
+        "  capture:",
+        "    concurrency: 4",
+        "    defaultProxy: corp",
+        "    viewport: { width: 1920 }",
+        "    timeouts: { pageLoadMs: 60000 }",
+      ].join("\n"),
+      base,
+    );
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    const [plain, gpu] = result.value;
+    expect(plain?.browserURL.host).toBe("chromium-1.internal:9222");
+    expect(plain?.capture).toEqual(base);
+    expect(gpu?.capture.concurrency).toBe(4);
+    expect(gpu?.capture.defaultProxy).toBe("corp");
+    expect(gpu?.capture.viewport).toEqual({ ...base.viewport, width: 1920 });
+    expect(gpu?.capture.timeouts).toEqual({ ...base.timeouts, pageLoadMs: 60000 });
+  });
+
+  it("reads the same document as JSON", () => {
+    const result = parseMemberList(
+      JSON.stringify([{ url: "https://a.internal:9222", capture: { isolation: "context" } }]),
+      base,
+    );
+
+    expect(result.ok && result.value[0]?.capture.isolation).toBe("context");
+  });
+
+  it.each([
+    ["not a list", "url: http://a:9222"],
+    ["not YAML", "- [unclosed"],
+    ["not http(s)", "- ws://a:9222"],
+    ["a browser twice", "- http://a:9222\n- url: http://a:9222"],
+    ["an unknown member field", "- url: http://a:9222\n  weight: 2"],
+    ["a server-wide setting", "- url: http://a:9222\n  capture: { redactHeaders: [] }"],
+    ["a bad concurrency", "- url: http://a:9222\n  capture: { concurrency: 0 }"],
+    ["an unknown viewport field", "- url: http://a:9222\n  capture: { viewport: { depth: 3 } }"],
+    ["a proxy not on the allowlist", "- url: http://a:9222\n  capture: { defaultProxy: home }"],
+  ])("rejects %s", (_case, content) => {
+    expect(parseMemberList(content, base).ok).toBe(false);
+  });
+});
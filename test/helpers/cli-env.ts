@@ -11,6 +11,12 @@ import { vi } from "vitest";
 export const SERVER_ENV_VARS = [
   "BROWSERHIVE_PORT",
   "BROWSERHIVE_BROWSER_URLS",
+  "BROWSERHIVE_DISCOVERY",
+  "BROWSERHIVE_DISCOVERY_FILE",
+  "BROWSERHIVE_DISCOVERY_URL",
+  "BROWSERHIVE_LAUNCH_LOCAL_BROWSERS",
+  "BROWSERHIVE_LOCAL_BROWSER_BASE_PORT",
+  "BROWSERHIVE_CHROMIUM_EXECUTABLE",
   "BROWSERHIVE_S3_ENDPOINT",
   "BROWSERHIVE_S3_REGION",
   "BROWSERHIVE_S3_BUCKET",
@@ -23,6 +29,20 @@ export const SERVER_ENV_VARS = [
   "BROWSERHIVE_TASK_TIMEOUT_MS",
   "BROWSERHIVE_MAX_RETRY_COUNT",
   "BROWSERHIVE_QUEUE_POLL_INTERVAL_MS",
+  "BROWSERHIVE_QUEUE_JOURNAL_DIR",
+  "BROWSERHIVE_SCHEDULE_DIR",
+  "BROWSERHIVE_QUEUE_WEIGHTS",
+  "BROWSERHIVE_HOST_MAX_CONCURRENCY",
+  "BROWSERHIVE_HOST_MIN_DELAY_MS",
+  "BROWSERHIVE_HOST_LIMITS",
+  "BROWSERHIVE_RETRY_BASE_DELAY_MS",
+  "BROWSERHIVE_RETRY_MULTIPLIER",
+  "BROWSERHIVE_RETRY_JITTER",
+  "BROWSERHIVE_RETRY_MAX_DELAY_MS",
+  "BROWSERHIVE_RETRY_ERROR_TYPES",
+  "BROWSERHIVE_RETRY_HTTP_STATUSES",
+  "BROWSERHIVE_DEAD_LETTER_SIZE",
+  "BROWSERHIVE_WEBHOOK_ALLOWED_HOSTS",
   "BROWSERHIVE_VIEWPORT_WIDTH",
   "BROWSERHIVE_VIEWPORT_HEIGHT",
   "BROWSERHIVE_SCREENSHOT_FULL_PAGE",
@@ -31,6 +51,12 @@ export const SERVER_ENV_VARS = [
   "BROWSERHIVE_RESET_COOKIES",
   "BROWSERHIVE_RESET_PAGE_CONTEXT",
   "BROWSERHIVE_USER_AGENT",
+  "BROWSERHIVE_DEVICE_PRESETS",
+  "BROWSERHIVE_REDACT_HEADERS",
+  "BROWSERHIVE_PROXIES",
+  "BROWSERHIVE_DEFAULT_PROXY",
+  "BROWSERHIVE_ISOLATION",
+  "BROWSERHIVE_CONCURRENCY",
   "BROWSERHIVE_TLS_CERT",
   "BROWSERHIVE_TLS_KEY",
   "BROWSERHIVE_WACZ_MAX_RESPONSE_BYTES",
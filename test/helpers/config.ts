@@ -81,6 +81,10 @@ export const createTestCaptureConfig = (
     ...DEFAULT_CAPTURE_CONFIG.screenshot,
     ...overrides.screenshot,
   },
+  devicePresets: {
+    ...DEFAULT_CAPTURE_CONFIG.devicePresets,
+    ...(overrides.devicePresets as CaptureConfig["devicePresets"] | undefined),
+  },
   resetPageState: {
     ...DEFAULT_CAPTURE_CONFIG.resetPageState,
     ...overrides.resetPageState,
@@ -104,9 +108,16 @@ export const createTestCoordinatorConfig = (
   browserProfiles: overrides.browserProfiles ?? DEFAULT_COORDINATOR_CONFIG.browserProfiles,
   storage: (overrides.storage as CoordinatorConfig["storage"] | undefined) ?? TEST_STORAGE_CONFIG,
   maxRetryCount: overrides.maxRetryCount ?? DEFAULT_COORDINATOR_CONFIG.maxRetryCount,
+  retry: { ...DEFAULT_COORDINATOR_CONFIG.retry, ...(overrides.retry as Partial<CoordinatorConfig["retry"]> | undefined) },
   queuePollIntervalMs: overrides.queuePollIntervalMs ?? DEFAULT_COORDINATOR_CONFIG.queuePollIntervalMs,
   rejectDuplicateUrls: overrides.rejectDuplicateUrls ?? DEFAULT_COORDINATOR_CONFIG.rejectDuplicateUrls,
   signing: (overrides.signing as CoordinatorConfig["signing"] | undefined) ?? DEFAULT_COORDINATOR_CONFIG.signing,
+  resultCacheSize: overrides.resultCacheSize ?? DEFAULT_COORDINATOR_CONFIG.resultCacheSize,
+  deadLetterSize: overrides.deadLetterSize ?? DEFAULT_COORDINATOR_CONFIG.deadLetterSize,
+  eventBufferSize: overrides.eventBufferSize ?? DEFAULT_COORDINATOR_CONFIG.eventBufferSize,
+  webhook: { ...DEFAULT_COORDINATOR_CONFIG.webhook, ...overrides.webhook },
+  queueWeights: (overrides.queueWeights as Record<string, number> | undefined) ?? DEFAULT_COORDINATOR_CONFIG.queueWeights,
+  hostLimits: (overrides.hostLimits as CoordinatorConfig["hostLimits"] | undefined) ?? DEFAULT_COORDINATOR_CONFIG.hostLimits,
 });
 
 /**
@@ -130,6 +141,7 @@ export const createTestBrowserHiveConfig = (
     initRetryDelayMs:
       overrides.discovery?.initRetryDelayMs ??
       DEFAULT_BROWSERHIVE_CONFIG.discovery.initRetryDelayMs,
+    source: DEFAULT_BROWSERHIVE_CONFIG.discovery.source,
   },
 });
 
@@ -1,29 +1,49 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import Fastify, { type FastifyInstance } from "fastify";
 import { createCaptureHandlers } from "../../src/http/handlers.js";
-import type { CaptureCoordinator } from "../../src/capture/index.js";
+import { Scheduler, TaskEventLog, type CaptureCoordinator } from "../../src/capture/index.js";
 import type { CoordinatorStatusReport } from "../../src/capture/capture-coordinator.js";
 import { ok, err } from "../../src/result.js";
 import { DEFAULT_RESET_STATE_OPTIONS } from "../../src/capture/reset-state.js";
-import { DEFAULT_CAPTURE_CONFIG, DEFAULT_SIGNING_CONFIG } from "../../src/config/index.js";
-import type { SigningConfig, CaptureConfig } from "../../src/config/index.js";
-import type { CaptureResult } from "../../src/capture/types.js";
+import {
+  DEFAULT_CAPTURE_CONFIG,
+  DEFAULT_SIGNING_CONFIG,
+  DEFAULT_WEBHOOK_CONFIG,
+} from "../../src/config/index.js";
+import type { SigningConfig, CaptureConfig, WebhookConfig } from "../../src/config/index.js";
+import type { CaptureResult, CaptureTask } from "../../src/capture/types.js";
+import type { Logger } from "../../src/logger.js";
+
+const createLogger = (): Logger =>
+  ({
+    error: () => undefined,
+    warn: () => undefined,
+    info: () => undefined,
+  }) as unknown as Logger;
 
 interface CoordinatorStub {
   isActive: boolean;
   operationalWorkerCount: number;
   enqueueTask: ReturnType<typeof vi.fn>;
+  enqueueTasks: ReturnType<typeof vi.fn>;
   getStatus: (opts?: { pendingLimit?: number }) => CoordinatorStatusReport;
   getResult: (taskId: string) => CaptureResult | undefined;
   isTracking: (taskId: string) => boolean;
+  cancelTask: ReturnType<typeof vi.fn>;
+  listFailed: ReturnType<typeof vi.fn>;
+  retryFailed: ReturnType<typeof vi.fn>;
+  taskEvents: TaskEventLog;
+  schedules: Scheduler;
   captureDefaults: CaptureConfig;
   signing: SigningConfig;
+  webhook: WebhookConfig;
 }
 
 const buildStub = (overrides: Partial<CoordinatorStub> = {}): CoordinatorStub => ({
   isActive: true,
   operationalWorkerCount: 1,
   enqueueTask: vi.fn().mockReturnValue(ok()),
+  enqueueTasks: vi.fn((tasks: unknown[]) => tasks.map(() => ok())),
   // The handler reads `coordinator.captureDefaults` once at construction
   // time and forwards `resetPageState` into the request mapper. Providing
   // the built-in defaults here keeps these existing tests focused on
@@ -32,14 +52,23 @@ const buildStub = (overrides: Partial<CoordinatorStub> = {}): CoordinatorStub =>
   // Server-wide, so the handler reads it straight off the coordinator rather
   // than off a profile — `optional` leaves these tests' requests alone.
   signing: DEFAULT_SIGNING_CONFIG,
+  webhook: DEFAULT_WEBHOOK_CONFIG,
   getResult: () => undefined,
   isTracking: () => false,
+  cancelTask: vi.fn().mockReturnValue({ kind: "unknown" }),
+  listFailed: vi.fn().mockReturnValue({ results: [] }),
+  retryFailed: vi.fn().mockReturnValue({ kind: "unknown" }),
+  taskEvents: new TaskEventLog(100),
+  // Never started, so nothing runs; the handlers only add, list and remove.
+  schedules: new Scheduler(undefined, () => ok(), createLogger()),
   getStatus: (): CoordinatorStatusReport => ({
-    taskCounts: { pending: 0, processing: 0, succeeded: 0, failed: 0 },
+    taskCounts: { pending: 0, processing: 0, succeeded: 0, failed: 0, cancelled: 0 },
     operationalWorkers: 1,
     totalWorkers: 1,
     isRunning: true,
     isDegraded: false,
+    webhooks: { delivered: 0, failed: 0, retrying: 0, recentFailures: [] },
+    queues: [],
     workers: [],
     pendingTasks: [],
     processingTasks: [],
@@ -51,8 +80,16 @@ const buildApp = (stub: CoordinatorStub): FastifyInstance => {
   const app = Fastify({ logger: false });
   const handlers = createCaptureHandlers(stub as unknown as CaptureCoordinator);
   app.post("/v1/captures", handlers.submitCapture);
+  app.post("/v1/captures::batch", handlers.submitCaptureBatch);
   app.get("/v1/status", handlers.getStatus);
   app.get("/v1/captures/:taskId", handlers.getCapture);
+  app.delete("/v1/captures/:taskId", handlers.cancelCapture);
+  app.get("/v1/events", handlers.streamEvents);
+  app.get("/v1/failed", handlers.listFailed);
+  app.post("/v1/failed/:taskId([^:/]+)::retry", handlers.retryFailed);
+  app.get("/v1/schedules", handlers.listSchedules);
+  app.post("/v1/schedules", handlers.createSchedule);
+  app.delete("/v1/schedules/:scheduleId", handlers.deleteSchedule);
   return app;
 };
 
@@ -221,6 +258,111 @@ describe("submitCapture handler", () => {
   });
 });
 
+describe("submitCaptureBatch handler", () => {
+  let stub: CoordinatorStub;
+  let app: FastifyInstance;
+
+  interface BatchBody {
+    accepted: number;
+    rejected: number;
+    results: {
+      index: number;
+      acceptance?: { taskId: string; correlationId?: string };
+      problem?: { status: number; title: string; detail?: string };
+    }[];
+  }
+
+  const formats = { png: true, webp: false, html: false, links: false };
+
+  beforeEach(() => {
+    stub = buildStub();
+    app = buildApp(stub);
+  });
+
+  it("fills omitted item fields from defaults and enqueues in one call", async () => {
+    const response = await app.inject({
+      method: "POST",
+      url: "/v1/captures:batch",
+      payload: {
+        defaults: { captureFormats: formats, acceptLanguage: "ja" },
+        items: [
+          { url: "https://example.com/a", correlationId: "A" },
+          { url: "https://example.com/b", acceptLanguage: "en" },
+        ],
+      },
+    });
+    expect(response.statusCode).toBe(202);
+    const body = response.json<BatchBody>();
+    expect(body).toMatchObject({ accepted: 2, rejected: 0 });
+    expect(body.results.map((r) => r.index)).toEqual([0, 1]);
+    expect(body.results[0]?.acceptance?.correlationId).toBe("A");
+
+    expect(stub.enqueueTasks).toHaveBeenCalledTimes(1);
+    expect(stub.enqueueTask).not.toHaveBeenCalled();
+    const tasks = stub.enqueueTasks.mock.calls[0]?.[0] as CaptureTask[];
+    expect(tasks.map((t) => t.acceptLanguage)).toEqual(["ja", "en"]);
+    expect(tasks.every((t) => t.captureFormats.png)).toBe(true);
+  });
+
+  it("rejects only the invalid item and keeps request order", async () => {
+    const response = await app.inject({
+      method: "POST",
+      url: "/v1/captures:batch",
+      payload: {
+        items: [
+          { url: "https://example.com/a", captureFormats: formats },
+          { url: "https://example.com/b" },
+          { url: "https://example.com/c", captureFormats: formats },
+        ],
+      },
+    });
+    expect(response.statusCode).toBe(202);
+    const body = response.json<BatchBody>();
+    expect(body).toMatchObject({ accepted: 2, rejected: 1 });
+    expect(body.results[1]?.problem).toMatchObject({
+      status: 400,
+      title: "Validation failed",
+    });
+    expect(body.results[1]?.problem?.detail).toContain("captureFormats");
+    const tasks = stub.enqueueTasks.mock.calls[0]?.[0] as CaptureTask[];
+    expect(tasks.map((t) => t.url)).toEqual([
+      "https://example.com/a",
+      "https://example.com/c",
+    ]);
+  });
+
+  it("maps a duplicate rejected by the coordinator to a 409 item problem", async () => {
+    stub.enqueueTasks.mockImplementation((tasks: CaptureTask[]) =>
+      tasks.map((t, i) => (i === 1 ? err(`URL repeated within batch: ${t.url}`) : ok())),
+    );
+    const response = await app.inject({
+      method: "POST",
+      url: "/v1/captures:batch",
+      payload: {
+        defaults: { captureFormats: formats },
+        items: [{ url: "https://example.com/" }, { url: "https://example.com/" }],
+      },
+    });
+    expect(response.statusCode).toBe(202);
+    const body = response.json<BatchBody>();
+    expect(body).toMatchObject({ accepted: 1, rejected: 1 });
+    expect(body.results[0]?.acceptance).toBeDefined();
+    expect(body.results[1]?.problem?.status).toBe(409);
+  });
+
+  it("returns a single 503 problem when there are no operational workers", async () => {
+    stub.operationalWorkerCount = 0;
+    const response = await app.inject({
+      method: "POST",
+      url: "/v1/captures:batch",
+      payload: { defaults: { captureFormats: formats }, items: [{ url: "https://example.com/" }] },
+    });
+    expect(response.statusCode).toBe(503);
+    expect(response.headers["content-type"]).toContain("application/problem+json");
+    expect(stub.enqueueTasks).not.toHaveBeenCalled();
+  });
+});
+
 describe("getStatus handler", () => {
   it("returns 200 with the coordinator status", async () => {
     const stub = buildStub({
@@ -232,6 +374,8 @@ describe("getStatus handler", () => {
         totalWorkers: 2,
         isRunning: true,
         isDegraded: false,
+        webhooks: { delivered: 0, failed: 0, retrying: 0, recentFailures: [] },
+        queues: [],
         workers: [],
         pendingTasks: [],
         processingTasks: [],
@@ -247,11 +391,13 @@ describe("getStatus handler", () => {
 
   it("forwards ?pendingLimit to coordinator.getStatus", async () => {
     const getStatus = vi.fn().mockReturnValue({
-      taskCounts: { pending: 0, processing: 0, succeeded: 0, failed: 0 },
+      taskCounts: { pending: 0, processing: 0, succeeded: 0, failed: 0, cancelled: 0 },
       operationalWorkers: 1,
       totalWorkers: 1,
       isRunning: true,
       isDegraded: false,
+      webhooks: { delivered: 0, failed: 0, retrying: 0, recentFailures: [] },
+      queues: [],
       workers: [],
       pendingTasks: [],
       processingTasks: [],
@@ -275,11 +421,13 @@ describe("getStatus handler", () => {
 
   it("omits pendingLimit when the query is absent", async () => {
     const getStatus = vi.fn().mockReturnValue({
-      taskCounts: { pending: 0, processing: 0, succeeded: 0, failed: 0 },
+      taskCounts: { pending: 0, processing: 0, succeeded: 0, failed: 0, cancelled: 0 },
       operationalWorkers: 1,
       totalWorkers: 1,
       isRunning: true,
       isDegraded: false,
+      webhooks: { delivered: 0, failed: 0, retrying: 0, recentFailures: [] },
+      queues: [],
       workers: [],
       pendingTasks: [],
       processingTasks: [],
@@ -293,6 +441,19 @@ describe("getStatus handler", () => {
 
   it("includes currentTask on busy workers", async () => {
     const startedAt = new Date(Date.now() - 2_000).toISOString();
+    const currentTask = {
+      startedAt,
+      task: {
+        taskId: "t-busy",
+        labels: ["x"],
+        url: "https://example.com/slow",
+        retryCount: 0,
+        captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false },
+        resetState: DEFAULT_RESET_STATE_OPTIONS,
+        requireSignature: false,
+        enqueuedAt: "2024-01-01T00:00:00.000Z",
+      },
+    };
     const stub = buildStub({
       getResult: () => undefined,
   isTracking: () => false,
@@ -302,6 +463,8 @@ describe("getStatus handler", () => {
         totalWorkers: 1,
         isRunning: true,
         isDegraded: false,
+        webhooks: { delivered: 0, failed: 0, retrying: 0, recentFailures: [] },
+        queues: [],
         workers: [
           {
             index: 0,
@@ -329,19 +492,8 @@ describe("getStatus handler", () => {
             processedCount: 0,
             errorCount: 0,
             errorHistory: [],
-            currentTask: {
-              startedAt,
-              task: {
-                taskId: "t-busy",
-                labels: ["x"],
-                url: "https://example.com/slow",
-                retryCount: 0,
-                captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false },
-                resetState: DEFAULT_RESET_STATE_OPTIONS,
-                              requireSignature: false,
-                              enqueuedAt: "2024-01-01T00:00:00.000Z",
-              },
-            },
+            slots: [{ slot: 0, currentTask }],
+            currentTask,
           },
         ],
         pendingTasks: [],
@@ -372,11 +524,14 @@ describe("getStatus handler", () => {
         totalWorkers: 1,
         isRunning: true,
         isDegraded: false,
+        webhooks: { delivered: 0, failed: 0, retrying: 0, recentFailures: [] },
+        queues: [],
         workers: [],
         pendingTasks: [],
         processingTasks: [
           {
             workerIndex: 0,
+            slot: 0,
             startedAt,
             task: {
               taskId: "running-1",
@@ -535,3 +690,393 @@ describe("getCapture handler", () => {
     expect(response.statusCode).toBe(200);
   });
 });
+
+describe("cancelCapture handler", () => {
+  const taskId = "9b2f4c8e-1d3a-4f6b-8c7d-2e5a9f0b1c3d";
+  const task: CaptureTask = {
+    taskId,
+    labels: ["x"],
+    url: "https://example.com/",
+    retryCount: 0,
+    captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false },
+    resetState: DEFAULT_RESET_STATE_OPTIONS,
+    requireSignature: false,
+    enqueuedAt: "2026-01-01T00:00:00.000Z",
+  };
+  const cancelledResult: CaptureResult = {
+    task,
+    status: "cancelled",
+    captureProcessingTimeMs: 0,
+    timestamp: "2026-01-01T00:00:01.000Z",
+    workerIndex: -1,
+  };
+
+  const cancel = (stub: CoordinatorStub) =>
+    buildApp(stub).inject({ method: "DELETE", url: `/v1/captures/${taskId}` });
+
+  it("returns 200 with the final report when the task was still queued", async () => {
+    const stub = buildStub({
+      cancelTask: vi.fn().mockReturnValue({ kind: "removed", result: cancelledResult }),
+    });
+    const response = await cancel(stub);
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({ taskId, status: "cancelled", workerIndex: -1 });
+    expect(stub.cancelTask).toHaveBeenCalledWith(taskId);
+  });
+
+  it("returns 202 with an empty body when a worker is being told to stop", async () => {
+    const stub = buildStub({ cancelTask: vi.fn().mockReturnValue({ kind: "aborting" }) });
+    const response = await cancel(stub);
+    expect(response.statusCode).toBe(202);
+    expect(response.body).toBe("");
+  });
+
+  it("returns a 409 Problem when the task already finished", async () => {
+    const stub = buildStub({
+      cancelTask: vi.fn().mockReturnValue({
+        kind: "finished",
+        result: { ...cancelledResult, status: "success", workerIndex: 0 },
+      }),
+    });
+    const response = await cancel(stub);
+    expect(response.statusCode).toBe(409);
+    expect(response.headers["content-type"]).toContain("application/problem+json");
+    expect(response.json<{ detail: string }>().detail).toContain("success");
+  });
+
+  it("returns a 404 Problem for an unknown task", async () => {
+    const response = await cancel(buildStub());
+    expect(response.statusCode).toBe(404);
+  });
+});
+
+describe("listFailed handler", () => {
+  const failedResult: CaptureResult = {
+    task: {
+      taskId: "4d3c2b1a-0f9e-4d8c-b7a6-5e4d3c2b1a0f",
+      correlationId: "EXT-7",
+      labels: ["nightly"],
+      url: "https://www.example.com/",
+      retryCount: 3,
+      captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false },
+      resetState: DEFAULT_RESET_STATE_OPTIONS,
+      requireSignature: false,
+      enqueuedAt: "2026-01-01T00:00:00.000Z",
+    },
+    status: "httpError",
+    httpStatusCode: 503,
+    errorDetails: { type: "http", message: "Service Unavailable", httpStatusCode: 503 },
+    captureProcessingTimeMs: 120,
+    timestamp: "2026-01-01T00:00:05.000Z",
+    workerIndex: 0,
+  };
+
+  it("returns the page as final reports, with the cursor for the next one", async () => {
+    const stub = buildStub({
+      listFailed: vi.fn().mockReturnValue({ results: [failedResult], nextCursor: "12" }),
+    });
+    const response = await buildApp(stub).inject({
+      method: "GET",
+      url: "/v1/failed?errorType=http&host=example.com&cursor=40",
+    });
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({
+      items: [
+        expect.objectContaining({
+          taskId: failedResult.task.taskId,
+          correlationId: "EXT-7",
+          status: "httpError",
+          errorDetails: failedResult.errorDetails,
+        }) as unknown,
+      ],
+      nextCursor: "12",
+    });
+    expect(stub.listFailed).toHaveBeenCalledWith({
+      // No Ajv in this wiring, so the handler's own fallback applies.
+      limit: 50,
+      cursor: "40",
+      errorType: "http",
+      host: "example.com",
+    });
+  });
+
+  it("omits nextCursor on the last page", async () => {
+    const response = await buildApp(buildStub()).inject({ method: "GET", url: "/v1/failed" });
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ items: [] });
+  });
+});
+
+describe("retryFailed handler", () => {
+  const failedId = "4d3c2b1a-0f9e-4d8c-b7a6-5e4d3c2b1a0f";
+  const requeued: CaptureTask = {
+    taskId: "7e6d5c4b-3a2f-4e1d-9c8b-7a6f5e4d3c2b",
+    correlationId: "EXT-7",
+    labels: ["nightly"],
+    url: "https://www.example.com/",
+    retryCount: 0,
+    captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false },
+    resetState: DEFAULT_RESET_STATE_OPTIONS,
+    requireSignature: false,
+    enqueuedAt: "2026-01-01T01:00:00.000Z",
+  };
+
+  const retry = (stub: CoordinatorStub) =>
+    buildApp(stub).inject({ method: "POST", url: `/v1/failed/${failedId}:retry` });
+
+  it("returns 202 with the new taskId and the original correlationId", async () => {
+    const stub = buildStub({
+      retryFailed: vi.fn().mockReturnValue({ kind: "enqueued", task: requeued }),
+    });
+    const response = await retry(stub);
+    expect(response.statusCode).toBe(202);
+    expect(response.json()).toEqual({
+      accepted: true,
+      taskId: requeued.taskId,
+      correlationId: "EXT-7",
+    });
+    expect(stub.retryFailed).toHaveBeenCalledWith(failedId);
+  });
+
+  it("returns a 404 Problem when the task is not in the failed list", async () => {
+    const response = await retry(buildStub());
+    expect(response.statusCode).toBe(404);
+    expect(response.headers["content-type"]).toContain("application/problem+json");
+  });
+
+  it("returns a 409 Problem when the URL is already queued", async () => {
+    const stub = buildStub({
+      retryFailed: vi.fn().mockReturnValue({
+        kind: "duplicate",
+        message: "URL already in queue: https://www.example.com/",
+      }),
+    });
+    const response = await retry(stub);
+    expect(response.statusCode).toBe(409);
+  });
+
+  it("returns 503 without touching the failed list when no worker is operational", async () => {
+    const stub = buildStub({ operationalWorkerCount: 0 });
+    const response = await retry(stub);
+    expect(response.statusCode).toBe(503);
+    expect(stub.retryFailed).not.toHaveBeenCalled();
+  });
+});
+
+describe("schedule handlers", () => {
+  const scheduleBody = {
+    request: { ...validBody, correlationId: "hourly-home" },
+    intervalMs: 3_600_000,
+  };
+
+  it("creates a schedule from a valid template and lists it", async () => {
+    const app = buildApp(buildStub());
+    const created = await app.inject({ method: "POST", url: "/v1/schedules", payload: scheduleBody });
+    expect(created.statusCode).toBe(201);
+    const schedule = created.json<{ scheduleId: string; request: unknown; nextRunAt: string }>();
+    expect(schedule.request).toEqual(scheduleBody.request);
+    expect(schedule).not.toHaveProperty("template");
+
+    const listed = await app.inject({ method: "GET", url: "/v1/schedules" });
+    expect(listed.json<{ items: { scheduleId: string }[] }>().items.map((s) => s.scheduleId)).toEqual([
+      schedule.scheduleId,
+    ]);
+  });
+
+  it("shows a stored template's credentials redacted", async () => {
+    const app = buildApp(buildStub());
+    const created = await app.inject({
+      method: "POST",
+      url: "/v1/schedules",
+      payload: {
+        ...scheduleBody,
+        request: {
+          ...scheduleBody.request,
+          cookies: [{ name: "sid", value: "s3cret" }],
+          extraHeaders: { Authorization: "Bearer t0ken", "X-Trace": "on" },
+        },
+      },
+    });
+    expect(created.statusCode).toBe(201);
+
+    const listed = await app.inject({ method: "GET", url: "/v1/schedules" });
+    const [item] = listed.json<{ items: { request: Record<string, unknown> }[] }>().items;
+    expect(item?.request).toMatchObject({
+      cookies: [{ name: "sid", value: "[REDACTED]" }],
+      extraHeaders: { Authorization: "[REDACTED]", "X-Trace": "on" },
+    });
+    expect(listed.body).not.toMatch(/s3cret|t0ken/);
+  });
+
+  it("returns a 400 Problem when the template does not validate", async () => {
+    const response = await buildApp(buildStub()).inject({
+      method: "POST",
+      url: "/v1/schedules",
+      payload: {
+        ...scheduleBody,
+        request: {
+          ...validBody,
+          captureFormats: { png: false, webp: false, html: false, links: false },
+        },
+      },
+    });
+    expect(response.statusCode).toBe(400);
+    expect(response.headers["content-type"]).toContain("application/problem+json");
+  });
+
+  it("returns a 400 Problem when the timing does not validate", async () => {
+    const response = await buildApp(buildStub()).inject({
+      method: "POST",
+      url: "/v1/schedules",
+      payload: { request: validBody, cron: "every hour" },
+    });
+    expect(response.statusCode).toBe(400);
+    expect(response.json<{ detail: string }>().detail).toContain("cron");
+  });
+
+  // A schedule is configuration; its first run can wait for a worker.
+  it("creates a schedule even with no operational worker", async () => {
+    const response = await buildApp(buildStub({ operationalWorkerCount: 0 })).inject({
+      method: "POST",
+      url: "/v1/schedules",
+      payload: scheduleBody,
+    });
+    expect(response.statusCode).toBe(201);
+  });
+
+  it("deletes a schedule, then answers 404 for it", async () => {
+    const app = buildApp(buildStub());
+    const created = await app.inject({ method: "POST", url: "/v1/schedules", payload: scheduleBody });
+    const { scheduleId } = created.json<{ scheduleId: string }>();
+
+    const first = await app.inject({ method: "DELETE", url: `/v1/schedules/${scheduleId}` });
+    expect(first.statusCode).toBe(204);
+    const second = await app.inject({ method: "DELETE", url: `/v1/schedules/${scheduleId}` });
+    expect(second.statusCode).toBe(404);
+  });
+});
+
+describe("streamEvents handler", () => {
+  const task = (taskId: string, correlationId: string): CaptureTask => ({
+    taskId,
+    correlationId,
+    labels: ["nightly"],
+    url: `https://example.com/${taskId}`,
+    retryCount: 0,
+    captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false },
+    resetState: DEFAULT_RESET_STATE_OPTIONS,
+    requireSignature: false,
+    enqueuedAt: "2026-01-01T00:00:00.000Z",
+  });
+
+  /** SSE frames as `{ id?, event, data }`, heartbeats dropped. */
+  const frames = (body: string) =>
+    body
+      .split("\n\n")
+      .filter((frame) => frame.startsWith("id:") || frame.startsWith("event:"))
+      .map((frame) => {
+        const fields = Object.fromEntries(
+          frame.split("\n").map((line) => {
+            const at = line.indexOf(": ");
+            return [line.slice(0, at), line.slice(at + 2)];
+          }),
+        );
+        return {
+          id: fields["id"],
+          event: fields["event"],
+          data: JSON.parse(fields["data"] ?? "null") as Record<string, unknown>,
+        };
+      });
+
+  /**
+   * Open the stream, run `live` once it is subscribed, then close the log so
+   * the response ends and `inject` resolves.
+   */
+  const stream = async (
+    log: TaskEventLog,
+    options: { url?: string; lastEventId?: string; live?: () => void } = {},
+  ) => {
+    const pending = buildApp(buildStub({ taskEvents: log })).inject({
+      method: "GET",
+      url: options.url ?? "/v1/events",
+      headers: options.lastEventId !== undefined ? { "last-event-id": options.lastEventId } : {},
+    });
+    await vi.waitFor(() => {
+      expect(log.subscriberCount).toBe(1);
+    });
+    options.live?.();
+    log.close();
+    return pending;
+  };
+
+  it("streams live events as text/event-stream", async () => {
+    const log = new TaskEventLog(10);
+    const response = await stream(log, {
+      live: () => {
+        log.publish({ type: "task.enqueued", task: task("t1", "aaa") });
+        log.publish({ type: "task.started", task: task("t1", "aaa"), workerIndex: 2 });
+      },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers["content-type"]).toContain("text/event-stream");
+    expect(frames(response.body)).toEqual([
+      { id: "1", event: "task.enqueued", data: expect.objectContaining({ id: 1, type: "task.enqueued" }) as unknown },
+      { id: "2", event: "task.started", data: expect.objectContaining({ id: 2, workerIndex: 2 }) as unknown },
+    ]);
+  });
+
+  it("replays what came after Last-Event-ID before going live", async () => {
+    const log = new TaskEventLog(10);
+    for (const id of ["t1", "t2", "t3"]) log.publish({ type: "task.enqueued", task: task(id, "aaa") });
+
+    const response = await stream(log, {
+      lastEventId: "1",
+      live: () => {
+        log.publish({ type: "task.started", task: task("t2", "aaa"), workerIndex: 0 });
+      },
+    });
+
+    expect(frames(response.body).map((f) => f.id)).toEqual(["2", "3", "4"]);
+  });
+
+  it("announces a gap when Last-Event-ID fell out of the buffer", async () => {
+    const log = new TaskEventLog(2);
+    for (const id of ["t1", "t2", "t3", "t4"]) log.publish({ type: "task.enqueued", task: task(id, "aaa") });
+
+    const response = await stream(log, { lastEventId: "1" });
+
+    const [gap, ...rest] = frames(response.body);
+    expect(gap).toEqual({
+      id: undefined,
+      event: "gap",
+      data: { type: "gap", lastEventId: 1, oldestEventId: 3 },
+    });
+    expect(rest.map((f) => f.id)).toEqual(["3", "4"]);
+  });
+
+  it("sends only the events of the filtered batch", async () => {
+    const log = new TaskEventLog(10);
+    const response = await stream(log, {
+      url: "/v1/events?correlationId=bbb",
+      live: () => {
+        log.publish({ type: "task.enqueued", task: task("t1", "aaa") });
+        log.publish({ type: "task.enqueued", task: task("t2", "bbb") });
+        log.publish({ type: "worker.health", workerIndex: 0, browserUrl: "http://chromium:9222/", health: "error" });
+      },
+    });
+
+    expect(frames(response.body).map((f) => f.event)).toEqual(["task.enqueued", "worker.health"]);
+    expect(frames(response.body)[0]?.data).toMatchObject({ task: { taskId: "t2" } });
+  });
+
+  it("returns a 400 Problem for a Last-Event-ID that is not a number", async () => {
+    const response = await buildApp(buildStub()).inject({
+      method: "GET",
+      url: "/v1/events",
+      headers: { "last-event-id": "abc" },
+    });
+    expect(response.statusCode).toBe(400);
+    expect(response.headers["content-type"]).toContain("application/problem+json");
+  });
+});
@@ -25,6 +25,18 @@ describe("toFastifyPath", () => {
     expect(toFastifyPath("/v1/captures")).toBe("/v1/captures");
   });
 
+  // Fastify would otherwise register `:batch` as a path parameter.
+  it("escapes a literal colon in a custom-method path", () => {
+    expect(toFastifyPath("/v1/captures:batch")).toBe("/v1/captures::batch");
+  });
+
+  // A plain `:taskId` would run on into `::retry` and capture `abc:retry`.
+  it("stops a parameter at a literal colon that follows it", () => {
+    expect(toFastifyPath("/v1/failed/{taskId}:retry")).toBe(
+      "/v1/failed/:taskId([^:/]+)::retry",
+    );
+  });
+
   it("rewrites every parameter in a multi-segment path", () => {
     expect(toFastifyPath("/v1/{a}/x/{b}")).toBe("/v1/:a/x/:b");
   });
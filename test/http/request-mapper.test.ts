@@ -1,10 +1,15 @@
 import { describe, it, expect } from "vitest";
 import {
+  batchItemToCaptureRequest,
   captureRequestToTask as captureRequestToTaskRaw,
   type RequestMapperDefaults,
 } from "../../src/http/request-mapper.js";
 import type { SigningPolicy } from "../../src/config/types.js";
-import type { CaptureRequest } from "../../src/http/generated/index.js";
+import type {
+  CaptureBatchDefaults,
+  CaptureBatchItem,
+  CaptureRequest,
+} from "../../src/http/generated/index.js";
 import type { CaptureTask } from "../../src/capture/types.js";
 import {
   CUSTOM_FRAMEWORK_LABEL,
@@ -12,6 +17,8 @@ import {
   KNOWN_CMP_ENTRIES,
 } from "../../src/capture/banner-dismisser.js";
 import { DEFAULT_RESET_STATE_OPTIONS } from "../../src/capture/reset-state.js";
+import { DEFAULT_PDF_OPTIONS } from "../../src/capture/pdf-options.js";
+import { BUILTIN_DEVICE_PRESETS } from "../../src/capture/device-presets.js";
 import type { Result } from "../../src/result.js";
 
 const baseRequest = (overrides: Partial<CaptureRequest> = {}): CaptureRequest => ({
@@ -31,6 +38,10 @@ const baseRequest = (overrides: Partial<CaptureRequest> = {}): CaptureRequest =>
 const baseDefaults: RequestMapperDefaults = {
   resetPageState: DEFAULT_RESET_STATE_OPTIONS,
   signingPolicy: "optional",
+  allowCustomScripts: false,
+  devicePresets: BUILTIN_DEVICE_PRESETS,
+  proxies: {},
+  callbackHosts: ["hooks.example.com"],
 };
 
 const captureRequestToTask = (
@@ -299,6 +310,83 @@ describe("captureRequestToTask", () => {
     });
   });
 
+  describe("callback", () => {
+    it("expands omitted events to every final status", () => {
+      const result = captureRequestToTask(
+        baseRequest({ callback: { url: "https://hooks.example.com/done" } }),
+      );
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect(result.value.callback).toEqual({
+        url: "https://hooks.example.com/done",
+        events: ["success", "failed", "timeout", "httpError", "cancelled"],
+      });
+    });
+
+    it("keeps the secret and an explicit event list", () => {
+      const result = captureRequestToTask(
+        baseRequest({
+          callback: {
+            url: "https://hooks.example.com/done",
+            secret: "s3cret",
+            events: ["failed", "timeout"],
+          },
+        }),
+      );
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect(result.value.callback).toEqual({
+        url: "https://hooks.example.com/done",
+        secret: "s3cret",
+        events: ["failed", "timeout"],
+      });
+    });
+
+    it("refuses a host the server does not allow, listing those it does", () => {
+      const result = captureRequestToTask(
+        baseRequest({ callback: { url: "http://169.254.169.254/latest/meta-data" } }),
+      );
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error).toBe(
+          "callback host 169.254.169.254 is not allowed (this server allows: hooks.example.com)",
+        );
+      }
+    });
+
+    it("refuses every callback when no host is allowed", () => {
+      const result = captureRequestToTask(
+        baseRequest({ callback: { url: "https://hooks.example.com/done" } }),
+        { ...baseDefaults, callbackHosts: [] },
+      );
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error).toMatch(/\(this server allows: none\)$/);
+    });
+
+    it("matches *.domain against subdomains only", () => {
+      const defaults = { ...baseDefaults, callbackHosts: ["*.example.com"] };
+      const callback = (url: string) => captureRequestToTask(baseRequest({ callback: { url } }), defaults);
+      expect(callback("https://hooks.example.com/done").ok).toBe(true);
+      expect(callback("https://example.com/done").ok).toBe(false);
+      expect(callback("https://hooks.example.com.evil.test/done").ok).toBe(false);
+    });
+
+    it("refuses a scheme other than http(s)", () => {
+      const result = captureRequestToTask(
+        baseRequest({ callback: { url: "file://hooks.example.com/etc/passwd" } }),
+      );
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error).toBe("callback url must be http or https");
+    });
+
+    it("omits callback when not provided", () => {
+      const result = captureRequestToTask(baseRequest());
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect(result.value.callback).toBeUndefined();
+    });
+  });
+
   describe("behaviors → CaptureTask.behaviors", () => {
     it("propagates a builtins override to the CaptureTask", () => {
       const result = captureRequestToTask(
@@ -339,6 +427,10 @@ describe("captureRequestToTask", () => {
     const defaultsKeepContext: RequestMapperDefaults = {
       resetPageState: { cookies: true, pageContext: false },
       signingPolicy: "optional",
+      allowCustomScripts: false,
+      devicePresets: BUILTIN_DEVICE_PRESETS,
+      proxies: {},
+      callbackHosts: [],
     };
 
     it("resolves to server defaults when the request omits resetState", () => {
@@ -352,7 +444,14 @@ describe("captureRequestToTask", () => {
       const result = captureRequestToTask(
         baseRequest({ resetState: true }),
         // Server says "skip everything" — request `true` still wipes both.
-        { resetPageState: { cookies: false, pageContext: false }, signingPolicy: "optional" },
+        {
+          resetPageState: { cookies: false, pageContext: false },
+          signingPolicy: "optional",
+          allowCustomScripts: false,
+          devicePresets: BUILTIN_DEVICE_PRESETS,
+          proxies: {},
+          callbackHosts: [],
+        },
       );
       expect(result.ok).toBe(true);
       if (!result.ok) return;
@@ -446,6 +545,368 @@ describe("captureRequestToTask", () => {
     });
   });
 
+  describe("pdf", () => {
+    const pdfFormats = { png: false, webp: false, html: false, links: false, mhtml: false, pdf: true, wacz: false };
+
+    it("accepts pdf as the only format and resolves default print settings", () => {
+      const result = captureRequestToTask(baseRequest({ captureFormats: pdfFormats }));
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect(result.value.pdfOptions).toEqual(DEFAULT_PDF_OPTIONS);
+    });
+
+    it("merges pdfOptions over the defaults, margin by margin", () => {
+      const result = captureRequestToTask(
+        baseRequest({
+          captureFormats: pdfFormats,
+          pdfOptions: { paperSize: "Letter", landscape: true, marginMm: { left: 0 } },
+        }),
+      );
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect(result.value.pdfOptions).toEqual({
+        ...DEFAULT_PDF_OPTIONS,
+        paperSize: "Letter",
+        landscape: true,
+        marginMm: { ...DEFAULT_PDF_OPTIONS.marginMm, left: 0 },
+      });
+    });
+
+    it("leaves pdfOptions unset when no PDF is asked for", () => {
+      const result = captureRequestToTask(baseRequest());
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect(result.value.pdfOptions).toBeUndefined();
+    });
+
+    it("rejects pdfOptions without captureFormats.pdf", () => {
+      const result = captureRequestToTask(baseRequest({ pdfOptions: { landscape: true } }));
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error).toBe("pdfOptions requires captureFormats.pdf");
+    });
+  });
+
+  describe("waitFor", () => {
+    it("leaves waitFor unset when omitted, keeping the fixed sleep", () => {
+      const result = captureRequestToTask(baseRequest());
+      expect(result.ok && result.value.waitFor).toBe(undefined);
+    });
+
+    it("fills in timeouts and strict, leaving delay as given", () => {
+      const result = captureRequestToTask(
+        baseRequest({
+          waitFor: {
+            conditions: [
+              { type: "selectorVisible", selector: "#app" },
+              { type: "networkIdle", idleMs: 500, timeoutMs: 20_000 },
+              { type: "delay", ms: 250 },
+            ],
+          },
+        }),
+      );
+      expect(result.ok && result.value.waitFor).toEqual({
+        conditions: [
+          { type: "selectorVisible", selector: "#app", timeoutMs: 10_000 },
+          { type: "networkIdle", idleMs: 500, timeoutMs: 20_000 },
+          { type: "delay", ms: 250 },
+        ],
+        strict: false,
+      });
+    });
+
+    it("rejects a function condition unless custom scripts are allowed", () => {
+      const request = baseRequest({
+        waitFor: { conditions: [{ type: "function", expression: "window.ready" }], strict: true },
+      });
+
+      const refused = captureRequestToTask(request);
+      expect(refused.ok).toBe(false);
+      if (!refused.ok) expect(refused.error).toMatch(/--allow-custom-behaviors/);
+
+      const allowed = captureRequestToTask(request, { ...baseDefaults, allowCustomScripts: true });
+      expect(allowed.ok && allowed.value.waitFor?.strict).toBe(true);
+    });
+  });
+
+  describe("screenshot", () => {
+    it("resolves a selector target with its defaults", () => {
+      const result = captureRequestToTask(baseRequest({ screenshot: { selector: "main article" } }));
+      expect(result.ok && result.value.screenshotOptions).toEqual({
+        target: { kind: "elements", selector: "main article", maxElements: 5, paddingPx: 0 },
+        hideFixedElements: false,
+      });
+    });
+
+    it("resolves a clip target", () => {
+      const clip = { x: 0, y: 100, width: 640, height: 480 };
+      const result = captureRequestToTask(baseRequest({ screenshot: { clip, hideFixedElements: true } }));
+      expect(result.ok && result.value.screenshotOptions).toEqual({
+        target: { kind: "clip", clip },
+        hideFixedElements: true,
+      });
+    });
+
+    it("rejects both or neither of selector and clip", () => {
+      const both = captureRequestToTask(
+        baseRequest({ screenshot: { selector: "main", clip: { x: 0, y: 0, width: 10, height: 10 } } }),
+      );
+      const neither = captureRequestToTask(baseRequest({ screenshot: { paddingPx: 4 } }));
+      for (const result of [both, neither]) {
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error).toBe("screenshot needs exactly one of selector or clip");
+      }
+    });
+
+    it("rejects a screenshot target without an image format", () => {
+      const result = captureRequestToTask(
+        baseRequest({
+          captureFormats: { png: false, webp: false, html: true, links: false, mhtml: false, wacz: false },
+          screenshot: { selector: "main" },
+        }),
+      );
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error).toBe("screenshot requires captureFormats.png or captureFormats.webp");
+      }
+    });
+  });
+
+  describe("device", () => {
+    it("resolves a preset into the viewport, the ratio and the emulation", () => {
+      const result = captureRequestToTask(baseRequest({ device: "pixel-8" }));
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect(result.value.viewport).toEqual({ width: 412, height: 915 });
+      expect(result.value.deviceScaleFactor).toBe(2.625);
+      expect(result.value.device).toMatchObject({
+        name: "pixel-8",
+        mobile: true,
+        hasTouch: true,
+        userAgentMetadata: { platform: "Android", model: "Pixel 8", mobile: true },
+      });
+    });
+
+    it("lets the request's own viewport and ratio win over the preset's", () => {
+      const result = captureRequestToTask(
+        baseRequest({ device: "ipad", viewport: { width: 1180, height: 820 }, deviceScaleFactor: 1 }),
+      );
+      expect(result.ok && result.value.viewport).toEqual({ width: 1180, height: 820 });
+      expect(result.ok && result.value.deviceScaleFactor).toBe(1);
+      expect(result.ok && result.value.device?.name).toBe("ipad");
+    });
+
+    it("rejects a name that is only an Object.prototype member", () => {
+      for (const device of ["constructor", "toString"]) {
+        const result = captureRequestToTask(baseRequest({ device }));
+        expect(result.ok).toBe(false);
+        if (!result.ok) {
+          expect(result.error).toBe(
+            `unknown device ${device} (this server has: iphone-15, pixel-8, ipad)`,
+          );
+        }
+      }
+    });
+
+    it("rejects a name the server has no preset for, listing the ones it has", () => {
+      const result = captureRequestToTask(baseRequest({ device: "nokia-3310" }));
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error).toBe(
+          "unknown device nokia-3310 (this server has: iphone-15, pixel-8, ipad)",
+        );
+      }
+    });
+  });
+
+  describe("request credentials", () => {
+    it("carries cookies, headers and basic auth onto the task", () => {
+      const result = captureRequestToTask(
+        baseRequest({
+          cookies: [{ name: "sid", value: "s3cret" }],
+          extraHeaders: { "X-Api-Key": "k-123" },
+          httpAuth: { username: "archiver", password: "hunter2" },
+        }),
+      );
+      expect(result.ok && result.value.credentials).toEqual({
+        cookies: [{ name: "sid", value: "s3cret", url: "https://example.com" }],
+        extraHeaders: { "X-Api-Key": "k-123" },
+        httpAuth: { username: "archiver", password: "hunter2" },
+      });
+    });
+
+    it("rejects an Accept-Language header beside acceptLanguage", () => {
+      const result = captureRequestToTask(
+        baseRequest({ acceptLanguage: "ja", extraHeaders: { "accept-language": "en" } }),
+      );
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error).toBe(
+          "extraHeaders: Accept-Language cannot be combined with acceptLanguage",
+        );
+      }
+    });
+  });
+
+  describe("proxy", () => {
+    const withProxies: RequestMapperDefaults = {
+      ...baseDefaults,
+      proxies: {
+        "jp-exit": { server: "socks5://jp-exit:1080" },
+        egress: { server: "http://egress:3128", username: "svc", password: "pw" },
+      },
+    };
+
+    it("carries an allowlisted name onto the task", () => {
+      const result = captureRequestToTask(baseRequest({ proxy: "jp-exit" }), withProxies);
+      expect(result.ok && result.value.proxy).toBe("jp-exit");
+    });
+
+    it("refuses a name the server does not have, listing those it does", () => {
+      const result = captureRequestToTask(baseRequest({ proxy: "us-exit" }), withProxies);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error).toBe("unknown proxy us-exit (this server has: jp-exit, egress)");
+      }
+    });
+
+    // These pass PROXY_NAME_PATTERN and used to find Object.prototype members.
+    it("refuses a name that is only an Object.prototype member", () => {
+      for (const proxy of ["constructor", "hasOwnProperty", "__proto__"]) {
+        const result = captureRequestToTask(baseRequest({ proxy }), withProxies);
+        expect(result.ok).toBe(false);
+        if (!result.ok) {
+          expect(result.error).toBe(`unknown proxy ${proxy} (this server has: jp-exit, egress)`);
+        }
+      }
+    });
+
+    it("refuses httpAuth beside a default proxy that authenticates", () => {
+      const result = captureRequestToTask(
+        baseRequest({ httpAuth: { username: "u", password: "p" } }),
+        { ...withProxies, defaultProxy: "egress" },
+      );
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error).toMatch(/^httpAuth cannot be combined with proxy egress/);
+    });
+  });
+
+  describe("emulation", () => {
+    it("carries the resolved emulation onto the task", () => {
+      const result = captureRequestToTask(
+        baseRequest({ emulation: { locale: "ja-jp", timezoneId: "Asia/Tokyo", colorScheme: "dark" } }),
+      );
+      expect(result.ok && result.value.emulation).toEqual({
+        locale: "ja-JP",
+        timezoneId: "Asia/Tokyo",
+        colorScheme: "dark",
+      });
+    });
+
+    it("rejects a time zone ICU does not know", () => {
+      const result = captureRequestToTask(baseRequest({ emulation: { timezoneId: "Mars/Olympus" } }));
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error).toBe('emulation.timezoneId: unknown time zone "Mars/Olympus"');
+      }
+    });
+
+    it("leaves the task without emulation when the request has none", () => {
+      const result = captureRequestToTask(baseRequest());
+      expect(result.ok && "emulation" in result.value).toBe(false);
+    });
+  });
+
+  describe("viewports", () => {
+    const tablet = { name: "tablet", width: 820, height: 1180 };
+    const phone = { name: "phone", width: 390, height: 844, mobile: true };
+
+    it("carries the entries onto the task as given", () => {
+      const result = captureRequestToTask(baseRequest({ viewports: [tablet, phone] }));
+      expect(result.ok && result.value.viewports).toEqual([tablet, phone]);
+    });
+
+    it("rejects viewports without an image format", () => {
+      const result = captureRequestToTask(
+        baseRequest({
+          captureFormats: { png: false, webp: false, html: true, links: false, mhtml: false, wacz: false },
+          viewports: [tablet],
+        }),
+      );
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error).toBe("viewports requires captureFormats.png or captureFormats.webp");
+      }
+    });
+
+    it("rejects two entries with the same name", () => {
+      const result = captureRequestToTask(
+        baseRequest({ viewports: [tablet, { ...phone, name: "tablet" }] }),
+      );
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error).toBe("viewports: duplicate name tablet");
+    });
+
+    it("rejects viewports combined with an element screenshot", () => {
+      const result = captureRequestToTask(
+        baseRequest({ viewports: [tablet], screenshot: { selector: "main" } }),
+      );
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error).toBe("viewports cannot be combined with screenshot.selector");
+    });
+  });
+
+  describe("actions", () => {
+    it("fills in each step's timeout", () => {
+      const result = captureRequestToTask(
+        baseRequest({
+          actions: [
+            { type: "click", selector: "#tab-2" },
+            { type: "press", key: "Enter", timeoutMs: 2_000 },
+          ],
+        }),
+      );
+      expect(result.ok && result.value.actions).toEqual([
+        { type: "click", selector: "#tab-2", timeoutMs: 10_000 },
+        { type: "press", key: "Enter", timeoutMs: 2_000 },
+      ]);
+    });
+
+    it("rejects an evaluate step unless custom scripts are allowed", () => {
+      const request = baseRequest({
+        actions: [{ type: "evaluate", expression: "document.title" }],
+      });
+
+      const refused = captureRequestToTask(request);
+      expect(refused.ok).toBe(false);
+      if (!refused.ok) expect(refused.error).toMatch(/--allow-custom-behaviors/);
+
+      const allowed = captureRequestToTask(request, { ...baseDefaults, allowCustomScripts: true });
+      expect(allowed.ok && allowed.value.actions).toHaveLength(1);
+    });
+  });
+
+  describe("har", () => {
+    const harFormats = { png: false, webp: false, html: false, links: false, mhtml: false, har: true, wacz: false };
+
+    it("leaves bodies out unless asked for", () => {
+      const result = captureRequestToTask(baseRequest({ captureFormats: harFormats }));
+      expect(result.ok && result.value.harOptions).toEqual({ includeBodies: false });
+    });
+
+    it("carries includeBodies through", () => {
+      const result = captureRequestToTask(
+        baseRequest({ captureFormats: harFormats, harOptions: { includeBodies: true } }),
+      );
+      expect(result.ok && result.value.harOptions).toEqual({ includeBodies: true });
+    });
+
+    it("rejects harOptions without captureFormats.har", () => {
+      const result = captureRequestToTask(baseRequest({ harOptions: { includeBodies: true } }));
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error).toBe("harOptions requires captureFormats.har");
+    });
+  });
+
   describe("cache", () => {
     it("leaves cache unset when omitted, so the server default applies", () => {
       const result = captureRequestToTask(baseRequest());
@@ -463,6 +924,17 @@ describe("captureRequestToTask", () => {
       }
     });
   });
+
+  describe("isolation", () => {
+    // Resolved against the profile by the worker, like cache.
+    it("leaves isolation unset when omitted, and carries a mode through", () => {
+      const omitted = captureRequestToTask(baseRequest());
+      const isolated = captureRequestToTask(baseRequest({ isolation: "context" }));
+
+      expect(omitted.ok && omitted.value.isolation).toBeUndefined();
+      expect(isolated.ok && isolated.value.isolation).toBe("context");
+    });
+  });
 });
 
 /**
@@ -531,3 +1003,50 @@ describe("captureRequestToTask — signing policy", () => {
     if (!result.ok) expect(result.error).toBe("signing requires captureFormats.wacz");
   });
 });
+
+describe("batchItemToCaptureRequest", () => {
+  const formats = { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false };
+
+  // The batch schemas list CaptureRequest's fields by hand. A field added to
+  // CaptureRequest but not to them would be silently unsettable per batch.
+  it("keeps the batch schemas in step with CaptureRequest", () => {
+    const itemMissing: Exclude<keyof CaptureRequest, keyof CaptureBatchItem> =
+      undefined as never;
+    const defaultsMissing: Exclude<
+      keyof CaptureRequest,
+      keyof CaptureBatchDefaults | "url" | "correlationId"
+    > = undefined as never;
+    expect([itemMissing, defaultsMissing]).toEqual([undefined, undefined]);
+  });
+
+  it("fills fields the item omits from defaults", () => {
+    const result = batchItemToCaptureRequest(
+      { url: "https://example.com/" },
+      { captureFormats: formats, acceptLanguage: "ja", labels: ["nightly"] },
+    );
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        url: "https://example.com/",
+        captureFormats: formats,
+        acceptLanguage: "ja",
+        labels: ["nightly"],
+      },
+    });
+  });
+
+  it("lets an item field replace the default wholesale", () => {
+    const itemFormats = { ...formats, png: false, html: true };
+    const result = batchItemToCaptureRequest(
+      { url: "https://example.com/", captureFormats: itemFormats },
+      { captureFormats: formats },
+    );
+    expect(result.ok && result.value.captureFormats).toEqual(itemFormats);
+  });
+
+  it("rejects an item left without captureFormats", () => {
+    const result = batchItemToCaptureRequest({ url: "https://example.com/" });
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error).toContain("captureFormats");
+  });
+});
@@ -1,8 +1,11 @@
 import { describe, it, expect } from "vitest";
 import {
   coordinatorStatusToResponse,
+  captureResultToReport,
   currentTaskToWire,
   errorRecordToWire,
+  scheduleToWire,
+  taskEventToMessage,
   taskToAcceptance,
   taskToPending,
   taskToProcessing,
@@ -12,6 +15,7 @@ import type {
   CaptureTask,
   CurrentTaskInfo,
   ErrorRecord,
+  Schedule,
   WorkerInfo,
 } from "../../src/capture/index.js";
 import type {
@@ -101,6 +105,7 @@ describe("workerInfoToWire and coordinatorStatusToResponse", () => {
       processedCount: 3,
       errorCount: 1,
       errorHistory: [],
+      slots: [{ slot: 0 }],
     };
     expect(workerInfoToWire(worker).browserOptions).toEqual({
       browserUrl: "http://chromium-1:9222/",
@@ -116,6 +121,7 @@ describe("workerInfoToWire and coordinatorStatusToResponse", () => {
       processedCount: 3,
       errorCount: 1,
       errorHistory: [],
+      slots: [{ slot: 0 }],
     };
     const wire = workerInfoToWire(worker);
     expect(wire.currentTask).toBeUndefined();
@@ -126,6 +132,20 @@ describe("workerInfoToWire and coordinatorStatusToResponse", () => {
     const startedAt = "2024-01-01T00:00:00.000Z";
     const now = new Date("2024-01-01T00:00:30.500Z").getTime();
     const profile = createTestBrowserProfile("http://chromium-1:9222");
+    const currentTask = {
+      startedAt,
+      task: {
+        taskId: "t-1",
+        labels: ["a"],
+        url: "https://example.com",
+        retryCount: 1,
+        captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false },
+        resetState: DEFAULT_RESET_STATE_OPTIONS,
+        correlationId: "EXT-9",
+        requireSignature: false,
+        enqueuedAt: "2024-01-01T00:00:00.000Z",
+      },
+    };
     const worker: WorkerInfo = {
       index: 0,
       browserProfile: profile,
@@ -133,23 +153,11 @@ describe("workerInfoToWire and coordinatorStatusToResponse", () => {
       processedCount: 0,
       errorCount: 0,
       errorHistory: [],
-      currentTask: {
-        startedAt,
-        task: {
-          taskId: "t-1",
-          labels: ["a"],
-          url: "https://example.com",
-          retryCount: 1,
-          captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false },
-          resetState: DEFAULT_RESET_STATE_OPTIONS,
-              correlationId: "EXT-9",
-          requireSignature: false,
-          enqueuedAt: "2024-01-01T00:00:00.000Z",
-        },
-      },
+      slots: [{ slot: 0 }, { slot: 1, currentTask }],
+      currentTask,
     };
     const wire = workerInfoToWire(worker, now);
-    expect(wire.currentTask).toEqual({
+    const expected = {
       taskId: "t-1",
       url: "https://example.com",
       labels: ["a"],
@@ -157,17 +165,22 @@ describe("workerInfoToWire and coordinatorStatusToResponse", () => {
       startedAt,
       elapsedMs: 30500,
       retryCount: 1,
-    });
+    };
+    expect(wire.currentTask).toEqual(expected);
+    expect(wire.concurrency).toBe(2);
+    expect(wire.slots).toEqual([{ slot: 0 }, { slot: 1, currentTask: expected }]);
   });
 
   it("converts CoordinatorStatusReport into the OpenAPI shape", () => {
     const profile = createTestBrowserProfile("http://chromium-1:9222");
     const report: CoordinatorStatusReport = {
-      taskCounts: { pending: 2, processing: 1, succeeded: 5, failed: 3 },
+      taskCounts: { pending: 2, processing: 1, succeeded: 5, failed: 3, cancelled: 0 },
       operationalWorkers: 1,
       totalWorkers: 1,
       isRunning: true,
       isDegraded: false,
+      webhooks: { delivered: 0, failed: 0, retrying: 0, recentFailures: [] },
+      queues: [],
       workers: [
         {
           index: 0,
@@ -176,6 +189,7 @@ describe("workerInfoToWire and coordinatorStatusToResponse", () => {
           processedCount: 5,
           errorCount: 0,
           errorHistory: [],
+          slots: [{ slot: 0 }],
         },
       ],
       pendingTasks: [],
@@ -200,15 +214,46 @@ describe("workerInfoToWire and coordinatorStatusToResponse", () => {
     expect(response.build).toEqual(BUILD_INFO);
   });
 
+  it("passes webhook delivery stats through", () => {
+    const failure = {
+      taskId: "t-1",
+      url: "https://hooks.example.com/done",
+      status: "failed" as const,
+      attempts: 5,
+      error: "receiver returned 500",
+      failedAt: "2024-01-01T00:00:00.000Z",
+    };
+    const response = coordinatorStatusToResponse({
+      taskCounts: { pending: 0, processing: 0, succeeded: 0, failed: 1, cancelled: 0 },
+      operationalWorkers: 1,
+      totalWorkers: 1,
+      isRunning: true,
+      isDegraded: false,
+      webhooks: { delivered: 3, failed: 1, retrying: 2, recentFailures: [failure] },
+      workers: [],
+      pendingTasks: [],
+      processingTasks: [],
+      queues: [],
+    });
+    expect(response.webhooks).toEqual({
+      delivered: 3,
+      failed: 1,
+      retrying: 2,
+      recentFailures: [failure],
+    });
+  });
+
   it("propagates currentTask from coordinator status to wire", () => {
     const profile = createTestBrowserProfile("http://chromium-1:9222");
     const startedAt = new Date(Date.now() - 5_000).toISOString();
     const report: CoordinatorStatusReport = {
-      taskCounts: { pending: 0, processing: 1, succeeded: 0, failed: 0 },
+      taskCounts: { pending: 0, processing: 1, succeeded: 0, failed: 0, cancelled: 0 },
       operationalWorkers: 1,
       totalWorkers: 1,
       isRunning: true,
       isDegraded: false,
+      webhooks: { delivered: 0, failed: 0, retrying: 0, recentFailures: [] },
+      queues: [],
       workers: [
         {
           index: 0,
@@ -217,6 +262,7 @@ describe("workerInfoToWire and coordinatorStatusToResponse", () => {
           processedCount: 0,
           errorCount: 0,
           errorHistory: [],
+          slots: [{ slot: 0 }],
           currentTask: {
             startedAt,
             task: {
@@ -298,9 +344,24 @@ describe("taskToPending", () => {
       enqueuedAt,
       queuedMs: 12_345,
       retryCount: 2,
+      queue: "default",
+      priority: 0,
     });
   });
 
+  it("reports the task's own queue and priority when set", () => {
+    const wire = taskToPending({ ...baseTask, queue: "backfill", priority: -5 }, Date.now());
+    expect(wire).toMatchObject({ queue: "backfill", priority: -5 });
+  });
+
+  it("shows notBefore only while it still holds the task back", () => {
+    const notBefore = "2024-01-01T00:01:00.000Z";
+    const held = taskToPending({ ...baseTask, notBefore }, Date.parse(notBefore) - 1);
+    const released = taskToPending({ ...baseTask, notBefore }, Date.parse(notBefore));
+    expect(held.notBefore).toBe(notBefore);
+    expect(released).not.toHaveProperty("notBefore");
+  });
+
   it("clamps queuedMs to 0 when now precedes enqueuedAt", () => {
     const skewed = new Date(enqueuedAt).getTime() - 5_000;
     const wire = taskToPending(baseTask, skewed);
@@ -314,6 +375,76 @@ describe("taskToPending", () => {
     );
     expect(wire.correlationId).toBe("EXT-3");
   });
+
+  it("shows request credentials only as names and non-secret values", () => {
+    const wire = taskToPending(
+      {
+        ...baseTask,
+        credentials: {
+          cookies: [{ name: "sid", value: "s3cret", url: baseTask.url }],
+          extraHeaders: { "X-Api-Key": "k-123", "X-Trace": "on" },
+          httpAuth: { username: "archiver", password: "hunter2" },
+        },
+      },
+      Date.now(),
+      new Set(["x-api-key"]),
+    );
+    expect(wire.credentials).toEqual({
+      cookies: ["sid"],
+      extraHeaders: { "X-Api-Key": "[REDACTED]", "X-Trace": "on" },
+      httpAuth: { username: "archiver" },
+    });
+    expect(JSON.stringify(wire)).not.toMatch(/s3cret|k-123|hunter2/);
+  });
+});
+
+describe("scheduleToWire", () => {
+  const template: CaptureTask = {
+    taskId: "template",
+    labels: [],
+    url: "https://example.com/s",
+    retryCount: 0,
+    captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false },
+    resetState: DEFAULT_RESET_STATE_OPTIONS,
+    requireSignature: false,
+    enqueuedAt: "2024-01-01T00:00:00.000Z",
+  };
+  const schedule: Schedule = {
+    scheduleId: "s-1",
+    request: {
+      url: "https://example.com/s",
+      captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false },
+      cookies: [{ name: "sid", value: "s3cret" }],
+      httpAuth: { username: "archiver", password: "hunter2" },
+      callback: { url: "https://hooks.example.com/done", secret: "hmac-key", events: ["failed"] },
+    },
+    template,
+    intervalMs: 60_000,
+    jitterMs: 0,
+    createdAt: "2024-01-01T00:00:00.000Z",
+    nextRunAt: "2024-01-01T00:01:00.000Z",
+  };
+
+  it("replaces the stored secrets and leaves the rest of the request as sent", () => {
+    const wire = scheduleToWire(schedule);
+    expect(wire.request.cookies).toEqual([{ name: "sid", value: "[REDACTED]" }]);
+    expect(wire.request.httpAuth).toEqual({ username: "archiver", password: "[REDACTED]" });
+    expect(wire.request.callback).toEqual({
+      url: "https://hooks.example.com/done",
+      secret: "[REDACTED]",
+      events: ["failed"],
+    });
+    expect(JSON.stringify(wire)).not.toMatch(/s3cret|hunter2|hmac-key/);
+    expect(wire).not.toHaveProperty("template");
+  });
+
+  it("leaves an unsigned callback as it is", () => {
+    const unsigned = {
+      ...schedule,
+      request: { ...schedule.request, callback: { url: "https://hooks.example.com/done" } },
+    };
+    expect(scheduleToWire(unsigned).request.callback).toEqual({ url: "https://hooks.example.com/done" });
+  });
 });
 
 describe("taskToProcessing", () => {
@@ -321,6 +452,7 @@ describe("taskToProcessing", () => {
   const startedAt = "2024-01-01T00:00:10.000Z";
   const baseView: ProcessingTaskView = {
     workerIndex: 2,
+    slot: 1,
     startedAt,
     task: {
       taskId: "proc-1",
@@ -344,7 +476,10 @@ describe("taskToProcessing", () => {
       enqueuedAt,
       queuedMs: now - new Date(enqueuedAt).getTime(),
       retryCount: 0,
+      queue: "default",
+      priority: 0,
       workerIndex: 2,
+      slot: 1,
       startedAt,
       elapsedMs: 7_000,
     });
@@ -371,11 +506,13 @@ describe("coordinatorStatusToResponse — queue.pendingTasks", () => {
     const profile = createTestBrowserProfile("http://chromium-1:9222");
     const enqueuedAt = new Date(Date.now() - 3_000).toISOString();
     const report: CoordinatorStatusReport = {
-      taskCounts: { pending: 1, processing: 0, succeeded: 0, failed: 0 },
+      taskCounts: { pending: 1, processing: 0, succeeded: 0, failed: 0, cancelled: 0 },
       operationalWorkers: 1,
       totalWorkers: 1,
       isRunning: true,
       isDegraded: false,
+      webhooks: { delivered: 0, failed: 0, retrying: 0, recentFailures: [] },
+      queues: [],
       workers: [
         {
           index: 0,
@@ -384,6 +521,7 @@ describe("coordinatorStatusToResponse — queue.pendingTasks", () => {
           processedCount: 0,
           errorCount: 0,
           errorHistory: [],
+          slots: [{ slot: 0 }],
         },
       ],
       pendingTasks: [
@@ -414,11 +552,13 @@ describe("coordinatorStatusToResponse — queue.pendingTasks", () => {
     const enqueuedAt = new Date(Date.now() - 8_000).toISOString();
     const startedAt = new Date(Date.now() - 4_000).toISOString();
     const report: CoordinatorStatusReport = {
-      taskCounts: { pending: 0, processing: 1, succeeded: 0, failed: 0 },
+      taskCounts: { pending: 0, processing: 1, succeeded: 0, failed: 0, cancelled: 0 },
       operationalWorkers: 1,
       totalWorkers: 1,
       isRunning: true,
       isDegraded: false,
+      webhooks: { delivered: 0, failed: 0, retrying: 0, recentFailures: [] },
+      queues: [],
       workers: [
         {
           index: 0,
@@ -427,12 +567,14 @@ describe("coordinatorStatusToResponse — queue.pendingTasks", () => {
           processedCount: 0,
           errorCount: 0,
           errorHistory: [],
+          slots: [{ slot: 0 }],
         },
       ],
       pendingTasks: [],
       processingTasks: [
         {
           workerIndex: 0,
+          slot: 0,
           startedAt,
           task: {
             taskId: "running-1",
@@ -462,3 +604,84 @@ describe("coordinatorStatusToResponse — queue.pendingTasks", () => {
     expect(wire?.retryCount).toBe(1);
   });
 });
+
+describe("taskEventToMessage", () => {
+  const task: CaptureTask = {
+    taskId: "task-1",
+    labels: ["nightly"],
+    url: "https://example.com",
+    retryCount: 1,
+    captureFormats: { png: true, webp: false, html: false, links: false, mhtml: false, wacz: false },
+    resetState: DEFAULT_RESET_STATE_OPTIONS,
+    correlationId: "EXT-1",
+    requireSignature: false,
+    enqueuedAt: "2024-01-01T00:00:00.000Z",
+  };
+  const at = { id: 7, timestamp: "2024-01-01T00:00:05.000Z" };
+  const wireTask = {
+    taskId: "task-1",
+    correlationId: "EXT-1",
+    url: "https://example.com",
+    labels: ["nightly"],
+    retryCount: 1,
+  };
+
+  it("carries the retry details for task.retrying", () => {
+    expect(
+      taskEventToMessage({
+        ...at,
+        event: {
+          type: "task.retrying",
+          task,
+          workerIndex: 3,
+          attempt: 2,
+          maxRetryCount: 2,
+          reason: "connection lost",
+          notBefore: "2024-01-01T00:00:20.000Z",
+        },
+      }),
+    ).toEqual({
+      ...at,
+      type: "task.retrying",
+      task: wireTask,
+      workerIndex: 3,
+      retry: {
+        attempt: 2,
+        maxRetryCount: 2,
+        reason: "connection lost",
+        notBefore: "2024-01-01T00:00:20.000Z",
+      },
+    });
+  });
+
+  it("embeds the manifest's report for task.completed", () => {
+    const result = {
+      task,
+      status: "success" as const,
+      httpStatusCode: 200,
+      captureProcessingTimeMs: 900,
+      timestamp: "2024-01-01T00:00:05.000Z",
+      workerIndex: 0,
+    };
+    expect(taskEventToMessage({ ...at, event: { type: "task.completed", result } })).toEqual({
+      ...at,
+      type: "task.completed",
+      task: wireTask,
+      report: captureResultToReport(result),
+    });
+  });
+
+  it("has no task on worker.health", () => {
+    const message = taskEventToMessage({
+      ...at,
+      event: { type: "worker.health", workerIndex: 1, browserUrl: "http://chromium:9222/", health: "error" },
+    });
+    expect(message).toEqual({
+      ...at,
+      type: "worker.health",
+      workerIndex: 1,
+      browserUrl: "http://chromium:9222/",
+      health: "error",
+    });
+  });
+});
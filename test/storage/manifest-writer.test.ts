@@ -116,6 +116,20 @@ describe("ManifestWriter", () => {
     expect(manifest.errorDetails.type).toBe("timeout");
   });
 
+  // Lets a consumer group a schedule's runs by reading manifests alone.
+  it("carries the scheduleId of a scheduled run", async () => {
+    const store = createStore();
+    const result = createResult();
+    new ManifestWriter(store, createLogger()).record({
+      ...result,
+      task: { ...result.task, scheduleId: "6f1c2d3e-4b5a-4c6d-8e7f-9a0b1c2d3e4f" },
+    });
+    await flush();
+
+    const manifest = JSON.parse(String(store.puts[0]!.body)) as { scheduleId?: string };
+    expect(manifest.scheduleId).toBe("6f1c2d3e-4b5a-4c6d-8e7f-9a0b1c2d3e4f");
+  });
+
   it("omits correlationId from the filename when the task has none", async () => {
     const store = createStore();
     const result = createResult();